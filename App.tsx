@@ -3,7 +3,7 @@ import { ProjectSidebar } from './components/ProjectSidebar';
 import { WorkspacePanel } from './components/WorkspacePanel';
 import { Button } from './components/ui/Button';
 import { cn } from './src/utils/cn';
-import { Menu, X, Grid, List as ListIcon, Calendar, Upload, Download, History, MessageSquare, FileText, Check } from 'lucide-react';
+import { Menu, X, Grid, List as ListIcon, Calendar, Upload, Download, History, MessageSquare, FileText, Check, Rewind, Flag, Users, LayoutDashboard, Sparkles } from 'lucide-react';
 import { LoginModal } from './components/LoginModal';
 import WorkspaceModal from './components/WorkspaceModal';
 import { UserProfileModal } from './components/UserProfileModal';
@@ -11,7 +11,9 @@ import { ChatInterface } from './components/ChatInterface';
 import { AuditPanel } from './components/AuditPanel';
 import { TaskDetailPanel } from './components/TaskDetailPanel';
 import { CreateProjectModal } from './components/CreateProjectModal';
-import type { Task, DraftAction, ChatMessage } from './types';
+import { TimeTravelBar } from './components/TimeTravelBar';
+import { TrashModal } from './components/TrashModal';
+import type { Task, DraftAction, ChatMessage, DraftOrigin } from './types';
 import { useProjectData } from './src/hooks/useProjectData';
 import { useAuth } from './src/hooks/useAuth';
 import { useWorkspaces } from './src/hooks/useWorkspaces';
@@ -19,6 +21,15 @@ import { useDrafts } from './src/hooks/useDrafts';
 import { useAuditLogs } from './src/hooks/useAuditLogs';
 import { useChat } from './src/hooks/useChat';
 import { useExport } from './src/hooks/useExport';
+import { useTimeTravel } from './src/hooks/useTimeTravel';
+import { useTrash } from './src/hooks/useTrash';
+import { useSchedule } from './src/hooks/useSchedule';
+import { useProjectCalendar } from './src/hooks/useProjectCalendar';
+import { useBaselines } from './src/hooks/useBaselines';
+import { useConversations } from './src/hooks/useConversations';
+import { useWorkload } from './src/hooks/useWorkload';
+import { useEarnedValue } from './src/hooks/useEarnedValue';
+import { usePlanFromDocument } from './src/hooks/usePlanFromDocument';
 import { generateId } from './src/utils';
 import { useI18n } from './src/i18n';
 
@@ -26,8 +37,11 @@ import { useI18n } from './src/i18n';
 const KanbanBoard = React.lazy(() => import('./components/KanbanBoard').then(module => ({ default: module.KanbanBoard })));
 const ListView = React.lazy(() => import('./components/ListView').then(module => ({ default: module.ListView })));
 const GanttChart = React.lazy(() => import('./components/GanttChart').then(module => ({ default: module.GanttChart })));
+const WorkloadView = React.lazy(() => import('./components/WorkloadView').then(module => ({ default: module.WorkloadView })));
+const ProjectDashboard = React.lazy(() => import('./components/ProjectDashboard').then(module => ({ default: module.ProjectDashboard })));
+const PlanFromDocumentModal = React.lazy(() => import('./components/PlanFromDocumentModal').then(module => ({ default: module.PlanFromDocumentModal })));
 
-type ViewMode = 'BOARD' | 'LIST' | 'GANTT';
+type ViewMode = 'BOARD' | 'LIST' | 'GANTT' | 'WORKLOAD' | 'DASHBOARD';
 
 // Memoized loading spinner component
 const LoadingSpinner = memo(({ message }: { message: string }) => (
@@ -63,6 +77,8 @@ function App() {
   const [isLoginOpen, setIsLoginOpen] = useState(false);
   const [isWorkspaceOpen, setIsWorkspaceOpen] = useState(false);
   const [isProfileOpen, setIsProfileOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isPlanOpen, setIsPlanOpen] = useState(false);
 
   // Refs
   const importInputRef = useRef<HTMLInputElement>(null);
@@ -92,6 +108,11 @@ function App() {
     approveRequest,
     rejectRequest,
     removeMember,
+    approvalPolicy,
+    saveApprovalPolicy,
+    workspaceCalendar,
+    saveWorkspaceCalendar,
+    importHolidays,
   } = useWorkspaces(user);
 
   // 2. Data
@@ -114,6 +135,45 @@ function App() {
     [tasks, selectedTaskId]
   );
 
+  // Time travel renders a historical, read-only state of the active project in List and Gantt.
+  const {
+    timeTravelAt,
+    setTimeTravelAt,
+    isTimeTraveling,
+    snapshot,
+    isSnapshotLoading,
+    snapshotError,
+    exitTimeTravel,
+  } = useTimeTravel(activeProjectId);
+
+  // Recomputed on entry so the slider's right edge is "now" at the moment time travel starts.
+  const timeTravelRange = useMemo(() => {
+    const earliestTask = activeTasks.reduce((min, task) => Math.min(min, task.createdAt), Date.now());
+    const createdAt = projects.find(project => project.id === activeProjectId)?.createdAt;
+    return { min: createdAt ?? earliestTask, max: Date.now() };
+  }, [isTimeTraveling, projects, activeProjectId, activeTasks]);
+
+  const viewTasks = useMemo(() => {
+    if (!isTimeTraveling) return activeTasks;
+    if (snapshot) return snapshot.tasks;
+    return snapshotError ? [] : activeTasks;
+  }, [isTimeTraveling, snapshot, snapshotError, activeTasks]);
+
+  // The critical path describes the live plan, so it is hidden while viewing history.
+  const { schedule } = useSchedule(activeProjectId, activeTasks, viewMode === 'GANTT' && !isTimeTraveling);
+  const { calendar: projectCalendar } = useProjectCalendar(activeProjectId, workspaceCalendar, viewMode === 'GANTT' || isPlanOpen);
+  const { workload, error: workloadError } = useWorkload(activeTasks, viewMode === 'WORKLOAD');
+
+  const handleStartTimeTravel = useCallback(() => {
+    setSelectedTaskId(null);
+    setTimeTravelAt(Date.now());
+  }, [setTimeTravelAt]);
+
+  useEffect(() => {
+    // The board, workload and dashboard always show the live state.
+    if (viewMode === 'BOARD' || viewMode === 'WORKLOAD' || viewMode === 'DASHBOARD') exitTimeTravel();
+  }, [viewMode, exitTimeTravel]);
+
   // 2. Chat State (Lifted)
   const [messages, setMessages] = useState<ChatMessage[]>(() => {
     if (typeof window !== 'undefined') {
@@ -139,16 +199,7 @@ function App() {
     localStorage.setItem('flowsync_chat_history', JSON.stringify(messages));
   }, [messages]);
 
-  const appendSystemMessage = useCallback((text: string) => {
-    setMessages(prev => [...prev, {
-      id: generateId(),
-      role: 'system',
-      text,
-      timestamp: Date.now(),
-    }]);
-  }, []);
-
-  const handleResetChat = useCallback(() => {
+  const resetMessages = useCallback(() => {
     const initialMsg: ChatMessage = {
       id: 'welcome',
       role: 'model',
@@ -159,6 +210,47 @@ function App() {
     localStorage.removeItem('flowsync_chat_history');
   }, [t]);
 
+  const {
+    conversations,
+    activeConversation,
+    isReadOnly: isConversationReadOnly,
+    highlightedMessageId,
+    openConversation,
+    startNewConversation,
+    ensureConversation,
+    removeConversation,
+    persistSystemMessage,
+  } = useConversations({ activeProjectId, userId: user?.id ?? null, setMessages, resetMessages });
+
+  // Drafts and audit entries from the agent lead back to the chat turn that proposed them.
+  const handleViewConversation = useCallback((origin: DraftOrigin) => {
+    if (!origin.conversationId) return;
+    setIsChatOpen(true);
+    openConversation(origin.conversationId, origin.messageId);
+  }, [openConversation]);
+
+  const appendSystemMessage = useCallback((text: string) => {
+    setMessages(prev => [...prev, {
+      id: generateId(),
+      role: 'system',
+      text,
+      timestamp: Date.now(),
+    }]);
+    persistSystemMessage(text);
+  }, [persistSystemMessage]);
+
+  const {
+    baselines,
+    activeBaselineId,
+    setActiveBaselineId,
+    comparison: baselineComparison,
+    isSavingBaseline,
+    saveBaseline,
+  } = useBaselines({ activeProjectId, tasks: activeTasks, appendSystemMessage });
+  // Variance compares the baseline with the live plan, so it is hidden while viewing history.
+  const viewVariance = isTimeTraveling ? null : baselineComparison;
+  const { earnedValue } = useEarnedValue(activeProjectId, activeTasks, activeBaselineId, viewMode === 'DASHBOARD');
+
   const handleExportChat = useCallback(() => {
     const exportDate = new Date();
     const fileStamp = exportDate.toISOString().slice(0, 10);
@@ -227,7 +319,7 @@ function App() {
   const { 
     auditLogs, auditTotal, isAuditLoading, auditError,
     auditPage, setAuditPage, auditPageSize, setAuditPageSize, auditFilters, setAuditFilters,
-    refreshAuditLogs
+    refreshAuditLogs, rollingBackAuditId, handleRollbackAudit
   } = useAuditLogs({ 
     activeProjectId, 
     refreshData,
@@ -236,8 +328,9 @@ function App() {
 
   // 4. Drafts
   const {
-    drafts, pendingDraft, pendingDraftId, setPendingDraftId, draftWarnings,
-    refreshDrafts, submitDraft, handleApplyDraft, handleDiscardDraft
+    drafts, pendingDraft, pendingDraftId, setPendingDraftId, draftWarnings, draftConflicts,
+    refreshDrafts, submitDraft, handleApplyDraft, handleForceApplyDraft, handleDecideDraftAction, handleEditDraftAction, handleApproveDraft, handleRebaseDraft, handleDiscardDraft,
+    lastAppliedDraft, handleRevertDraft, handleLevelProject, adoptDraft, dismissLastAppliedDraft
   } = useDrafts({ 
     activeProjectId, 
     refreshData, 
@@ -245,6 +338,20 @@ function App() {
     appendSystemMessage 
   });
 
+  // Plan from a requirements document
+  const { planStatus, planSteps, planResult, planError, generatePlan, resetPlan } = usePlanFromDocument({
+    activeProjectId,
+    onDraftCreated: adoptDraft
+  });
+
+  // Trash
+  const { trash, isTrashLoading, trashError, restoringId, handleRestore } = useTrash({
+    isOpen: isTrashOpen,
+    refreshData,
+    refreshAuditLogs,
+    appendSystemMessage
+  });
+
   // 5. Chat Logic
   const {
     inputText, setInputText, isProcessing, pendingAttachments,
@@ -261,7 +368,8 @@ function App() {
     handleApplyDraft,
     appendSystemMessage,
     messages,
-    setMessages
+    setMessages,
+    ensureConversation
   });
 
   // 6. Export/Import
@@ -275,7 +383,8 @@ function App() {
     activeTasks,
     refreshData,
     submitDraft,
-    fetchAllTasks
+    fetchAllTasks,
+    variance: baselineComparison,
   });
 
   // --- EFFECTS & HANDLERS ---
@@ -374,6 +483,8 @@ function App() {
     BOARD: t('app.view.board'),
     LIST: t('app.view.list'),
     GANTT: t('app.view.gantt'),
+    WORKLOAD: t('app.view.workload'),
+    DASHBOARD: t('app.view.dashboard'),
   }), [t]);
 
   return (
@@ -402,6 +513,7 @@ function App() {
           onSelectProject={handleSelectProject}
           onCreateProject={manualCreateProject}
           onDeleteProject={handleDeleteProject}
+          onOpenTrash={() => setIsTrashOpen(true)}
           onClose={() => setIsSidebarOpen(false)}
         />
       </div>
@@ -458,7 +570,78 @@ function App() {
                  <Calendar className="w-3.5 h-3.5 mr-1.5" />
                  {t('app.view.gantt')}
                </Button>
+               <Button
+                 variant={viewMode === 'WORKLOAD' ? 'secondary' : 'ghost'}
+                 size="sm"
+                 onClick={() => handleViewModeChange('WORKLOAD')}
+                 className="h-7 px-2 text-xs"
+               >
+                 <Users className="w-3.5 h-3.5 mr-1.5" />
+                 {t('app.view.workload')}
+               </Button>
+               <Button
+                 variant={viewMode === 'DASHBOARD' ? 'secondary' : 'ghost'}
+                 size="sm"
+                 onClick={() => handleViewModeChange('DASHBOARD')}
+                 className="h-7 px-2 text-xs"
+               >
+                 <LayoutDashboard className="w-3.5 h-3.5 mr-1.5" />
+                 {t('app.view.dashboard')}
+               </Button>
             </div>
+
+            {(viewMode === 'LIST' || viewMode === 'GANTT') && activeProjectId && (
+              <Button
+                variant={isTimeTraveling ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={isTimeTraveling ? exitTimeTravel : handleStartTimeTravel}
+                className="h-7 px-2 text-xs"
+                title={t('time_travel.toggle')}
+              >
+                <Rewind className="w-3.5 h-3.5 mr-1.5" />
+                {t('time_travel.label')}
+              </Button>
+            )}
+
+            {activeProjectId && !isTimeTraveling && (
+              <Button
+                variant={isPlanOpen ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setIsPlanOpen(true)}
+                className="h-7 px-2 text-xs"
+                title={t('plan.open_hint')}
+              >
+                <Sparkles className="w-3.5 h-3.5 mr-1.5" />
+                {t('plan.open')}
+              </Button>
+            )}
+
+            {(viewMode === 'LIST' || viewMode === 'GANTT' || viewMode === 'DASHBOARD') && activeProjectId && (
+              <div className="flex items-center gap-1 p-1 bg-background/50 rounded-lg border border-border-subtle">
+                <select
+                  value={activeBaselineId ?? ''}
+                  onChange={(event) => setActiveBaselineId(event.target.value || null)}
+                  className="bg-transparent text-xs font-medium text-text-secondary outline-none cursor-pointer hover:text-primary border-none py-0 focus:ring-0 h-7 max-w-[140px]"
+                  aria-label={t('baseline.select')}
+                >
+                  <option value="">{t('baseline.none')}</option>
+                  {baselines.map(baseline => (
+                    <option key={baseline.id} value={baseline.id}>{baseline.name}</option>
+                  ))}
+                </select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => void saveBaseline()}
+                  disabled={isSavingBaseline || isTimeTraveling}
+                  className="h-7 px-2 text-xs"
+                  title={t('baseline.save_hint')}
+                >
+                  <Flag className="w-3.5 h-3.5 mr-1.5" />
+                  {t('baseline.save')}
+                </Button>
+              </div>
+            )}
           </div>
 
           <div className="flex items-center gap-2">
@@ -643,6 +826,9 @@ function App() {
           pageSize={auditPageSize}
           setPageSize={setAuditPageSize}
           error={auditError}
+          rollingBackId={rollingBackAuditId}
+          onRollback={handleRollbackAudit}
+          onViewConversation={handleViewConversation}
         />
 
         <CreateProjectModal
@@ -671,6 +857,11 @@ function App() {
           onApprove={approveRequest}
           onReject={rejectRequest}
           onRemoveMember={removeMember}
+          approvalPolicy={approvalPolicy}
+          onSaveApprovalPolicy={saveApprovalPolicy}
+          workCalendar={workspaceCalendar}
+          onSaveWorkCalendar={saveWorkspaceCalendar}
+          onImportHolidays={importHolidays}
         />
 
         <UserProfileModal
@@ -679,6 +870,46 @@ function App() {
           user={user}
         />
 
+        <TrashModal
+          isOpen={isTrashOpen}
+          onClose={() => setIsTrashOpen(false)}
+          trash={trash}
+          isLoading={isTrashLoading}
+          error={trashError}
+          restoringId={restoringId}
+          onRestore={handleRestore}
+        />
+
+        {isPlanOpen && (
+          <Suspense fallback={null}>
+            <PlanFromDocumentModal
+              isOpen={isPlanOpen}
+              onClose={() => setIsPlanOpen(false)}
+              status={planStatus}
+              steps={planSteps}
+              result={planResult}
+              error={planError}
+              calendar={projectCalendar ?? workspaceCalendar}
+              onGenerate={generatePlan}
+              onApply={handleApplyDraft}
+              onDiscard={handleDiscardDraft}
+              onReset={resetPlan}
+            />
+          </Suspense>
+        )}
+
+        {isTimeTraveling && timeTravelAt !== null && (
+          <TimeTravelBar
+            at={timeTravelAt}
+            min={timeTravelRange.min}
+            max={timeTravelRange.max}
+            isLoading={isSnapshotLoading}
+            error={snapshotError}
+            onChange={setTimeTravelAt}
+            onExit={exitTimeTravel}
+          />
+        )}
+
         {/* View Area */}
         <div className="p-4 flex-1 overflow-hidden relative z-10 custom-scrollbar flex gap-4">
           {isLoadingData ? (
@@ -696,23 +927,41 @@ function App() {
                   )}
                   {viewMode === 'LIST' && (
                     <ListView
-                      tasks={activeTasks}
+                      tasks={viewTasks}
                       selectedTaskId={selectedTaskId}
-                      onSelectTask={(id) => setSelectedTaskId(id)}
+                      onSelectTask={isTimeTraveling ? undefined : (id) => setSelectedTaskId(id)}
+                      variance={viewVariance}
                     />
                   )}
                   {viewMode === 'GANTT' && (
                     <div className="flex-1 h-full min-w-0 bg-surface rounded-xl border border-border-subtle shadow-sm overflow-hidden">
                       <GanttChart
-                        tasks={activeTasks}
+                        tasks={viewTasks}
                         selectedTaskId={selectedTaskId}
-                        onSelectTask={(id) => setSelectedTaskId(id)}
+                        readOnly={isTimeTraveling}
+                        schedule={isTimeTraveling ? null : schedule}
+                        calendar={projectCalendar}
+                        baseline={viewVariance}
+                        onSelectTask={isTimeTraveling ? undefined : (id) => setSelectedTaskId(id)}
                         onUpdateTaskDates={(id, startDate, dueDate) => {
                           queueTaskUpdate(id, { startDate, dueDate });
                         }}
                       />
                     </div>
                   )}
+                  {viewMode === 'WORKLOAD' && (
+                    <WorkloadView
+                      workload={workload}
+                      error={workloadError}
+                      onLevel={activeProjectId ? handleLevelProject : undefined}
+                    />
+                  )}
+                  {viewMode === 'DASHBOARD' && (
+                    <ProjectDashboard
+                      earnedValue={earnedValue}
+                      baselineName={baselines.find(baseline => baseline.id === earnedValue?.baselineId)?.name ?? null}
+                    />
+                  )}
                 </Suspense>
               </div>
 
@@ -739,11 +988,27 @@ function App() {
       <ChatInterface
         isChatOpen={isChatOpen}
         setIsChatOpen={setIsChatOpen}
-        onResetChat={handleResetChat}
+        onResetChat={startNewConversation}
+        conversations={conversations}
+        activeConversationId={activeConversation?.id ?? null}
+        currentUserId={user?.id ?? null}
+        isConversationReadOnly={isConversationReadOnly}
+        onOpenConversation={openConversation}
+        onDeleteConversation={removeConversation}
+        highlightedMessageId={highlightedMessageId}
         pendingDraft={pendingDraft}
         draftWarnings={draftWarnings}
         onApplyDraft={handleApplyDraft}
         onDiscardDraft={handleDiscardDraft}
+        onDecideDraftAction={handleDecideDraftAction}
+        onEditDraftAction={handleEditDraftAction}
+        onApproveDraft={handleApproveDraft}
+        draftConflicts={draftConflicts}
+        onRebaseDraft={handleRebaseDraft}
+        onForceApplyDraft={handleForceApplyDraft}
+        lastAppliedDraft={lastAppliedDraft}
+        onRevertDraft={handleRevertDraft}
+        onDismissAppliedDraft={dismissLastAppliedDraft}
         messages={messages}
         isProcessing={isProcessing}
         processingSteps={processingSteps}
@@ -1,11 +1,12 @@
 import React, { useState, memo, useMemo, useCallback } from 'react';
-import type { AuditLog } from '../types';
+import type { AuditLog, DraftOrigin } from '../types';
 import { useI18n } from '../src/i18n';
 import { getActionLabel, getEntityLabel, getActorLabel } from '../src/i18n/labels';
 import { cn } from '../src/utils/cn';
 
 type AuditFilters = {
   actor: string;
+  actorUserId: string;
   action: string;
   entityType: string;
   q: string;
@@ -26,6 +27,9 @@ interface AuditPanelProps {
   pageSize: number;
   setPageSize: React.Dispatch<React.SetStateAction<number>>;
   error: string | null;
+  rollingBackId: string | null;
+  onRollback: (id: string) => void;
+  onViewConversation?: (origin: DraftOrigin) => void;
 }
 
 const MIN_TIMESTAMP_MS = Date.parse('2000-01-01T00:00:00.000Z');
@@ -104,6 +108,7 @@ const AUDIT_BADGE_CLASSES: Record<string, string> = {
   update: 'bg-primary/10 text-primary border-primary/20',
   delete: 'bg-negative/10 text-negative border-negative/20',
   rollback: 'bg-secondary/10 text-text-secondary border-border-subtle',
+  restore: 'bg-success/10 text-success border-success/20',
 };
 
 const auditBadgeClass = (action: string): string => {
@@ -128,6 +133,9 @@ export const AuditPanel = memo<AuditPanelProps>(({
   pageSize,
   setPageSize,
   error,
+  rollingBackId,
+  onRollback,
+  onViewConversation,
 }) => {
   const { t } = useI18n();
   const [selectedAudit, setSelectedAudit] = useState<AuditLog | null>(null);
@@ -147,6 +155,12 @@ export const AuditPanel = memo<AuditPanelProps>(({
     setSelectedAudit(null);
   }, []);
 
+  const handleRollback = useCallback((log: AuditLog) => {
+    if (confirm(t('audit.rollback_confirm'))) {
+      onRollback(log.id);
+    }
+  }, [onRollback, t]);
+
   const selectedAuditDiff = useMemo(() => {
     if (!selectedAudit) return [];
     return diffAuditRecords(selectedAudit.before ?? null, selectedAudit.after ?? null);
@@ -156,6 +170,14 @@ export const AuditPanel = memo<AuditPanelProps>(({
   const updateActorFilter = useCallback(updateFilter(setFilters, 'actor'), [setFilters]);
   const updateActionFilter = useCallback(updateFilter(setFilters, 'action'), [setFilters]);
   const updateEntityFilter = useCallback(updateFilter(setFilters, 'entityType'), [setFilters]);
+  const filterByActorUser = useCallback(
+    (actorUserId: string) => setFilters(prev => ({ ...prev, actorUserId })),
+    [setFilters]
+  );
+  // Every row matches the active user filter, so any of them carries the username.
+  const actorUserFilterLabel = filters.actorUserId
+    ? logs.find(log => log.actorUserId === filters.actorUserId)?.actorUsername ?? filters.actorUserId
+    : null;
 
   if (!isOpen) return null;
 
@@ -203,6 +225,8 @@ export const AuditPanel = memo<AuditPanelProps>(({
             <option value="create">{t('audit.actions.create')}</option>
             <option value="update">{t('audit.actions.update')}</option>
             <option value="delete">{t('audit.actions.delete')}</option>
+            <option value="rollback">{t('audit.actions.rollback')}</option>
+            <option value="restore">{t('audit.actions.restore')}</option>
           </select>
           <select
             value={filters.entityType}
@@ -227,11 +251,21 @@ export const AuditPanel = memo<AuditPanelProps>(({
           />
           <button
             type="button"
-            onClick={() => setFilters({ actor: 'all', action: 'all', entityType: 'all', q: '', from: '', to: '' })}
+            onClick={() => setFilters({ actor: 'all', actorUserId: '', action: 'all', entityType: 'all', q: '', from: '', to: '' })}
             className="rounded-lg border border-border-subtle px-3 py-1.5 text-xs font-semibold text-text-secondary hover:text-primary hover:border-primary transition-colors"
           >
             {t('audit.clear')}
           </button>
+          {actorUserFilterLabel && (
+            <button
+              type="button"
+              onClick={() => filterByActorUser('')}
+              className="rounded-full border border-primary/30 bg-primary/10 px-3 py-1 text-xs font-semibold text-primary hover:bg-primary/20 transition-colors"
+              title={t('audit.clear_actor_user')}
+            >
+              {t('audit.by_user', { user: actorUserFilterLabel })} ×
+            </button>
+          )}
         </div>
 
         {error && (
@@ -259,17 +293,37 @@ export const AuditPanel = memo<AuditPanelProps>(({
                   <span className="font-mono text-xs text-text-secondary">{log.entityId}</span>
                   <span className="text-text-secondary">·</span>
                   <span className="text-text-secondary">{getActorLabel(log.actor, t)}</span>
+                  {log.actorUserId && log.actorUsername && (
+                    <button
+                      type="button"
+                      onClick={() => filterByActorUser(log.actorUserId ?? '')}
+                      className="font-semibold text-text-primary hover:text-primary transition-colors"
+                      title={t('audit.filter_by_user', { user: log.actorUsername })}
+                    >
+                      @{log.actorUsername}
+                    </button>
+                  )}
                   <span className="text-text-secondary">·</span>
                   <span className="text-xs text-text-secondary">{formatAuditTimestamp(log.timestamp)}</span>
                 </div>
               </div>
-              <button
-                type="button"
-                onClick={() => openAuditDetail(log)}
-                className="shrink-0 rounded-lg border border-border-subtle px-3 py-1.5 text-xs font-semibold text-text-secondary hover:border-primary hover:text-primary transition-colors"
-              >
-                {t('audit.details')}
-              </button>
+              <div className="flex shrink-0 items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => handleRollback(log)}
+                  disabled={rollingBackId !== null}
+                  className="rounded-lg border border-border-subtle px-3 py-1.5 text-xs font-semibold text-text-secondary hover:border-negative hover:text-negative disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {rollingBackId === log.id ? t('audit.rolling_back') : t('audit.rollback')}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => openAuditDetail(log)}
+                  className="rounded-lg border border-border-subtle px-3 py-1.5 text-xs font-semibold text-text-secondary hover:border-primary hover:text-primary transition-colors"
+                >
+                  {t('audit.details')}
+                </button>
+              </div>
             </div>
           ))}
         </div>
@@ -342,9 +396,36 @@ export const AuditPanel = memo<AuditPanelProps>(({
                 <span className={cn("inline-flex rounded-full border px-2 py-0.5 font-bold uppercase tracking-wider", auditBadgeClass(selectedAudit.action))}>
                   {getActionLabel(selectedAudit.action, t)}
                 </span>
-                <span>{getActorLabel(selectedAudit.actor, t)}</span>
+                <span>
+                  {getActorLabel(selectedAudit.actor, t)}
+                  {selectedAudit.actorUsername && (
+                    <span className="ml-1 font-semibold text-text-primary">
+                      {selectedAudit.actor === 'agent'
+                        ? t('audit.applied_by', { user: selectedAudit.actorUsername })
+                        : `@${selectedAudit.actorUsername}`}
+                    </span>
+                  )}
+                </span>
                 <span>· {formatAuditTimestamp(selectedAudit.timestamp)}</span>
                 {selectedAudit.reason && <span>· {selectedAudit.reason}</span>}
+                {selectedAudit.approvals && selectedAudit.approvals.length > 0 && (
+                  <span>· {t('audit.approved_by', { users: selectedAudit.approvals.map(approval => approval.username).join(', ') })}</span>
+                )}
+                {selectedAudit.origin && (
+                  <span className="font-mono">· {t('audit.ai_request', { id: selectedAudit.origin.requestId })}</span>
+                )}
+                {selectedAudit.origin?.conversationId && onViewConversation && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      onViewConversation(selectedAudit.origin);
+                      closeAuditDetail();
+                    }}
+                    className="font-semibold text-primary hover:underline"
+                  >
+                    {t('audit.view_conversation')}
+                  </button>
+                )}
               </div>
               <div className="rounded-xl border border-border-subtle bg-background p-3">
                 <div className="text-sm font-semibold text-text-secondary uppercase tracking-wider mb-2">{t('audit.field_diff')}</div>
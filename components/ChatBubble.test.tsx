@@ -69,4 +69,34 @@ describe('ChatBubble', () => {
     // User messages use rounded-2xl
     expect(messageContainer).toHaveClass('rounded-2xl');
   });
+
+  it('marks model messages that are still streaming', () => {
+    const streamingMessage: ChatMessage = {
+      id: 'm1',
+      role: 'model',
+      text: 'Partial answ',
+      timestamp: Date.now(),
+      isStreaming: true,
+    };
+
+    const { container, rerender } = render(
+      <I18nProvider>
+        <ChatBubble message={streamingMessage} />
+      </I18nProvider>
+    );
+
+    expect(screen.getByText('Partial answ')).toBeInTheDocument();
+    expect(screen.getByText('chat.streaming')).toBeInTheDocument();
+    expect(container.querySelector('[aria-busy="true"]')).toBeInTheDocument();
+
+    rerender(
+      <I18nProvider>
+        <ChatBubble message={{ ...streamingMessage, text: 'Partial answer', isStreaming: false }} />
+      </I18nProvider>
+    );
+
+    expect(screen.getByText('Partial answer')).toBeInTheDocument();
+    expect(screen.queryByText('chat.streaming')).not.toBeInTheDocument();
+    expect(container.querySelector('[aria-busy]')).not.toBeInTheDocument();
+  });
 });
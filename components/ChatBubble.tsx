@@ -8,6 +8,7 @@ import { cn } from '../src/utils/cn';
 
 interface ChatBubbleProps {
   message: ChatMessage;
+  isHighlighted?: boolean;  // The turn a draft or audit entry was opened from
 }
 
 const formatBytes = (value: number): string => {
@@ -110,10 +111,11 @@ const MarkdownContent = memo<MarkdownContentProps>(({ content, isUser, codeLabel
 });
 MarkdownContent.displayName = 'MarkdownContent';
 
-export const ChatBubble = memo<ChatBubbleProps>(({ message }) => {
+export const ChatBubble = memo<ChatBubbleProps>(({ message, isHighlighted = false }) => {
   const { t, locale } = useI18n();
   const isUser = message.role === 'user';
   const isSystem = message.role === 'system';
+  const isStreaming = Boolean(message.isStreaming);
   const hasText = message.text.trim().length > 0;
   const attachments = message.attachments || [];
 
@@ -133,16 +135,22 @@ export const ChatBubble = memo<ChatBubbleProps>(({ message }) => {
   }
 
   return (
-    <div className={cn("flex w-full mb-4 animate-fade-in", isUser ? "justify-end" : "justify-start")}>
+    <div data-message-id={message.id} className={cn("flex w-full mb-4 animate-fade-in", isUser ? "justify-end" : "justify-start")}>
       <div
+        aria-busy={isStreaming || undefined}
+        aria-current={isHighlighted || undefined}
         className={cn(
           "max-w-[92%] px-4 py-3 rounded-2xl text-sm leading-relaxed shadow-sm transition-all",
           isUser
             ? "bg-primary text-primary-foreground rounded-br-none"
-            : "bg-surface text-text-primary border border-border-subtle rounded-bl-none"
+            : "bg-surface text-text-primary border border-border-subtle rounded-bl-none",
+          isHighlighted && "ring-2 ring-primary ring-offset-2 ring-offset-background"
         )}
       >
         {hasText && <MarkdownContent content={message.text} isUser={isUser} codeLabel={t('chat.code')} />}
+        {isStreaming && (
+          <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-text-secondary/60 animate-pulse" aria-hidden="true" />
+        )}
 
         {attachments.length > 0 && (
           <div className={cn("mt-2 flex flex-col gap-1.5", !hasText && "mt-0")}>
@@ -153,7 +161,7 @@ export const ChatBubble = memo<ChatBubbleProps>(({ message }) => {
         )}
 
         <div className={cn("text-[10px] mt-1.5 flex items-center justify-end gap-1", isUser ? "text-primary-foreground/70" : "text-text-secondary/70")}>
-          {timestamp}
+          {isStreaming ? t('chat.streaming') : timestamp}
           {isUser && <span>• {t('chat.you')}</span>}
         </div>
       </div>
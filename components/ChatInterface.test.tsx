@@ -66,6 +66,48 @@ describe('ChatInterface', () => {
     expect(screen.getByText(/Missing assignee/)).toBeInTheDocument();
   });
 
+  it('opens the conversation an agent draft came from and marks the turn', async () => {
+    const user = userEvent.setup();
+    const onOpenConversation = vi.fn();
+    const messages: ChatMessage[] = [
+      ...baseMessages,
+      { id: 'm2', role: 'model', text: 'I planned the task.', timestamp: 2 },
+    ];
+
+    render(
+      <I18nProvider>
+        <ChatInterface
+          isChatOpen
+          setIsChatOpen={vi.fn()}
+          onResetChat={vi.fn()}
+          pendingDraft={{ ...draft, createdBy: 'agent', origin: { requestId: 'req-1', conversationId: 'c1', messageId: 'm2' } }}
+          draftWarnings={[]}
+          onApplyDraft={vi.fn()}
+          onDiscardDraft={vi.fn()}
+          messages={messages}
+          isProcessing={false}
+          processingSteps={[]}
+          thinkingPreview=""
+          messagesEndRef={React.createRef()}
+          onSendMessage={vi.fn()}
+          pendingAttachments={[]}
+          onRemoveAttachment={vi.fn()}
+          fileInputRef={React.createRef()}
+          onAttachFiles={vi.fn()}
+          inputText=""
+          setInputText={vi.fn()}
+          onOpenConversation={onOpenConversation}
+          highlightedMessageId="m2"
+        />
+      </I18nProvider>
+    );
+
+    await user.click(screen.getByRole('button', { name: 'View the conversation that proposed this draft' }));
+    expect(onOpenConversation).toHaveBeenCalledWith('c1', 'm2');
+    expect(screen.getByText('I planned the task.').closest('[aria-current]')).not.toBeNull();
+    expect(screen.getByText('Hi').closest('[aria-current]')).toBeNull();
+  });
+
   it('enables submit when text exists and calls onSendMessage', async () => {
     const user = userEvent.setup();
     const onSendMessage = vi.fn();
@@ -133,4 +175,134 @@ describe('ChatInterface', () => {
     fireEvent.submit(form);
     expect(onSendMessage).toHaveBeenCalled();
   });
+
+  it('offers to undo the last applied draft', async () => {
+    const user = userEvent.setup();
+    const onRevertDraft = vi.fn();
+
+    render(
+      <I18nProvider>
+        <ChatInterface
+          isChatOpen
+          setIsChatOpen={vi.fn()}
+          onResetChat={vi.fn()}
+          pendingDraft={null}
+          draftWarnings={[]}
+          onApplyDraft={vi.fn()}
+          onDiscardDraft={vi.fn()}
+          lastAppliedDraft={{ ...draft, status: 'applied' }}
+          onRevertDraft={onRevertDraft}
+          onDismissAppliedDraft={vi.fn()}
+          messages={baseMessages}
+          isProcessing={false}
+          processingSteps={[]}
+          thinkingPreview=""
+          messagesEndRef={React.createRef()}
+          onSendMessage={vi.fn()}
+          pendingAttachments={[]}
+          onRemoveAttachment={vi.fn()}
+          fileInputRef={React.createRef()}
+          onAttachFiles={vi.fn()}
+          inputText=""
+          setInputText={vi.fn()}
+        />
+      </I18nProvider>
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Undo this change set' }));
+    expect(onRevertDraft).toHaveBeenCalledWith('d1');
+  });
+
+  it('lets reviewers reject individual draft actions', async () => {
+    const user = userEvent.setup();
+    const onDecideDraftAction = vi.fn();
+    const reviewDraft: Draft = {
+      ...draft,
+      actions: [
+        { id: 'a1', entityType: 'task', action: 'create', entityId: 't1', after: { title: 'Design' } },
+        { id: 'a2', entityType: 'task', action: 'update', entityId: 't2', after: { title: 'Build' }, decision: 'rejected' },
+      ],
+    };
+
+    render(
+      <I18nProvider>
+        <ChatInterface
+          isChatOpen
+          setIsChatOpen={vi.fn()}
+          onResetChat={vi.fn()}
+          pendingDraft={reviewDraft}
+          draftWarnings={[]}
+          onApplyDraft={vi.fn()}
+          onDiscardDraft={vi.fn()}
+          onDecideDraftAction={onDecideDraftAction}
+          messages={baseMessages}
+          isProcessing={false}
+          processingSteps={[]}
+          thinkingPreview=""
+          messagesEndRef={React.createRef()}
+          onSendMessage={vi.fn()}
+          pendingAttachments={[]}
+          onRemoveAttachment={vi.fn()}
+          fileInputRef={React.createRef()}
+          onAttachFiles={vi.fn()}
+          inputText=""
+          setInputText={vi.fn()}
+        />
+      </I18nProvider>
+    );
+
+    expect(screen.getByRole('button', { name: 'Apply 1 of 2' })).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Reject action' }));
+    expect(onDecideDraftAction).toHaveBeenCalledWith('d1', 'a1', 'rejected');
+
+    await user.click(screen.getByRole('button', { name: 'Accept action' }));
+    expect(onDecideDraftAction).toHaveBeenCalledWith('d1', 'a2', 'accepted');
+  });
+
+  it('edits a draft action inline', async () => {
+    const user = userEvent.setup();
+    const onEditDraftAction = vi.fn();
+    const reviewDraft: Draft = {
+      ...draft,
+      actions: [
+        { id: 'a1', entityType: 'task', action: 'update', entityId: 't1', after: { title: 'Design', assignee: 'Ana', status: 'TODO', priority: 'MEDIUM' } },
+      ],
+    };
+
+    render(
+      <I18nProvider>
+        <ChatInterface
+          isChatOpen
+          setIsChatOpen={vi.fn()}
+          onResetChat={vi.fn()}
+          pendingDraft={reviewDraft}
+          draftWarnings={[]}
+          onApplyDraft={vi.fn()}
+          onDiscardDraft={vi.fn()}
+          onEditDraftAction={onEditDraftAction}
+          messages={baseMessages}
+          isProcessing={false}
+          processingSteps={[]}
+          thinkingPreview=""
+          messagesEndRef={React.createRef()}
+          onSendMessage={vi.fn()}
+          pendingAttachments={[]}
+          onRemoveAttachment={vi.fn()}
+          fileInputRef={React.createRef()}
+          onAttachFiles={vi.fn()}
+          inputText=""
+          setInputText={vi.fn()}
+        />
+      </I18nProvider>
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Edit action' }));
+    const assignee = screen.getByLabelText('Assignee');
+    await user.clear(assignee);
+    await user.type(assignee, 'Ben');
+    await user.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(onEditDraftAction).toHaveBeenCalledWith('d1', 'a1', { assignee: 'Ben' });
+  });
 });
@@ -1,12 +1,15 @@
 import React, { memo, useCallback, useMemo } from 'react';
 import { ChatBubble } from './ChatBubble';
-import { ChatMessage, ChatAttachment, Draft } from '../types';
+import { ChatMessage, ChatAttachment, Conversation, Draft, DraftActionDecision, DraftConflict } from '../types';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Sparkles, RotateCcw, X, Paperclip, Send, File, XCircle, AlertTriangle } from 'lucide-react';
+import { Sparkles, RotateCcw, X, Paperclip, Send, File, XCircle, AlertTriangle, CheckCircle2, Undo2, Check, Pencil, ShieldCheck, History, MessageSquare, Loader2 } from 'lucide-react';
 import { useI18n } from '../src/i18n';
 import { getActionLabel, getEntityLabel } from '../src/i18n/labels';
 import { cn } from '../src/utils/cn';
 import { Button } from './ui/Button';
+import { DraftConflictPanel } from './DraftConflictPanel';
+import { DraftActionEditor } from './DraftActionEditor';
+import { ConversationList } from './ConversationList';
 
 interface ChatInterfaceProps {
   isChatOpen: boolean;
@@ -15,6 +18,15 @@ interface ChatInterfaceProps {
   draftWarnings: string[];
   onApplyDraft: (draftId: string) => void;
   onDiscardDraft: (draftId: string) => void;
+  onDecideDraftAction?: (draftId: string, actionId: string, decision: DraftActionDecision | null) => void;
+  onEditDraftAction?: (draftId: string, actionId: string, after: Record<string, unknown>) => void;
+  onApproveDraft?: (draftId: string) => void;
+  draftConflicts?: DraftConflict[];
+  onRebaseDraft?: (draftId: string) => void;
+  onForceApplyDraft?: (draftId: string) => void;
+  lastAppliedDraft?: Draft | null;
+  onRevertDraft?: (draftId: string) => void;
+  onDismissAppliedDraft?: () => void;
   messages: ChatMessage[];
   isProcessing: boolean;
   processingSteps: { label: string; elapsedMs?: number }[];
@@ -28,6 +40,13 @@ interface ChatInterfaceProps {
   inputText: string;
   setInputText: (text: string) => void;
   onResetChat: () => void;
+  conversations?: Conversation[];
+  activeConversationId?: string | null;
+  currentUserId?: string | null;
+  isConversationReadOnly?: boolean;  // A teammate's conversation: readable, not continued
+  onOpenConversation?: (id: string, messageId?: string | null) => void;
+  highlightedMessageId?: string | null;
+  onDeleteConversation?: (id: string) => void;
 }
 
 export const ChatInterface = memo<ChatInterfaceProps>(({
@@ -37,6 +56,15 @@ export const ChatInterface = memo<ChatInterfaceProps>(({
   draftWarnings,
   onApplyDraft,
   onDiscardDraft,
+  onDecideDraftAction,
+  onEditDraftAction,
+  onApproveDraft,
+  draftConflicts = [],
+  onRebaseDraft,
+  onForceApplyDraft,
+  lastAppliedDraft = null,
+  onRevertDraft,
+  onDismissAppliedDraft,
   messages,
   isProcessing,
   processingSteps,
@@ -50,8 +78,26 @@ export const ChatInterface = memo<ChatInterfaceProps>(({
   inputText,
   setInputText,
   onResetChat,
+  conversations = [],
+  activeConversationId = null,
+  currentUserId = null,
+  isConversationReadOnly = false,
+  onOpenConversation,
+  onDeleteConversation,
+  highlightedMessageId = null,
 }) => {
   const { t } = useI18n();
+  const [editingActionId, setEditingActionId] = React.useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = React.useState(false);
+  const isInputDisabled = isProcessing || isConversationReadOnly;
+  const isUploadingAttachments = pendingAttachments.some(file => file.isUploading);
+  const isReviewable = !!onDecideDraftAction || !!onEditDraftAction;
+  const acceptedActionCount = useMemo(
+    () => pendingDraft?.actions.filter(action => action.decision !== 'rejected').length ?? 0,
+    [pendingDraft]
+  );
+  const approval = pendingDraft?.approval;
+  const needsApproval = !!approval && (approval.required > 0 || approval.adminRequired);
   const scrollContainerRef = React.useRef<HTMLDivElement>(null);
   const isAutoScrolling = React.useRef(false);
 
@@ -81,6 +127,14 @@ export const ChatInterface = memo<ChatInterfaceProps>(({
     }
   }, [messages, isProcessing, scrollToBottom]);
 
+  // A turn opened from a draft or audit entry is brought into view instead of the latest message.
+  React.useEffect(() => {
+    if (!highlightedMessageId) return;
+    const bubbles = scrollContainerRef.current?.querySelectorAll<HTMLElement>('[data-message-id]') ?? [];
+    const target = Array.from(bubbles).find(bubble => bubble.dataset.messageId === highlightedMessageId);
+    target?.scrollIntoView({ block: 'center' });
+  }, [highlightedMessageId, messages]);
+
   const handleFileInputChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     onAttachFiles(event.target.files);
     event.currentTarget.value = '';
@@ -131,6 +185,19 @@ export const ChatInterface = memo<ChatInterfaceProps>(({
           </div>
         </div>
         <div className="flex items-center gap-1">
+          {onOpenConversation && (
+            <button
+               onClick={() => setIsHistoryOpen(prev => !prev)}
+               className={cn(
+                 "p-2 rounded-lg hover:bg-background transition-colors",
+                 isHistoryOpen ? "text-primary" : "text-text-secondary hover:text-primary"
+               )}
+               title={t('chat.conversations.title')}
+               aria-expanded={isHistoryOpen}
+            >
+               <History className="w-4 h-4" />
+            </button>
+          )}
           <button
              onClick={onResetChat}
              className="text-text-secondary hover:text-primary p-2 rounded-lg hover:bg-background transition-colors"
@@ -148,6 +215,23 @@ export const ChatInterface = memo<ChatInterfaceProps>(({
         </div>
       </div>
 
+      {/* Conversation History */}
+      {isHistoryOpen && onOpenConversation && (
+        <div className="border-b border-border-subtle bg-surface shrink-0">
+          <p className="px-4 pt-2 text-[10px] font-semibold text-text-secondary uppercase tracking-wider">{t('chat.conversations.title')}</p>
+          <ConversationList
+            conversations={conversations}
+            activeConversationId={activeConversationId}
+            currentUserId={currentUserId}
+            onOpen={(id) => {
+              setIsHistoryOpen(false);
+              onOpenConversation(id);
+            }}
+            onDelete={(id) => onDeleteConversation?.(id)}
+          />
+        </div>
+      )}
+
       {/* Pending Draft Notification */}
       <AnimatePresence>
         {pendingDraft && (
@@ -162,28 +246,140 @@ export const ChatInterface = memo<ChatInterfaceProps>(({
                 <AlertTriangle className="w-3.5 h-3.5 text-critical" aria-hidden="true" />
                 <p className="text-xs font-bold text-text-primary">{t('chat.pending.title')}</p>
               </div>
-              <span className="text-xs font-semibold text-critical bg-critical/10 px-2 py-0.5 rounded-full border border-critical/20">
-                {t('chat.pending.action_count', { count: pendingDraft.actions.length })}
-              </span>
+              <div className="flex items-center gap-1.5">
+                {pendingDraft.origin?.conversationId && onOpenConversation && (
+                  <button
+                    type="button"
+                    onClick={() => onOpenConversation(pendingDraft.origin.conversationId, pendingDraft.origin.messageId)}
+                    className="p-1 rounded-md text-text-secondary hover:text-primary hover:bg-background transition-colors"
+                    title={t('draft.view_conversation')}
+                    aria-label={t('draft.view_conversation')}
+                  >
+                    <MessageSquare className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                <span className="text-xs font-semibold text-critical bg-critical/10 px-2 py-0.5 rounded-full border border-critical/20">
+                  {t('chat.pending.action_count', { count: pendingDraft.actions.length })}
+                </span>
+              </div>
             </div>
-            <div className="space-y-1 pl-5 mb-3">
-              {pendingDraft.actions.slice(0, 3).map(action => (
-                <div key={action.id} className="text-xs text-text-secondary truncate font-medium">
-                  {getActionLabel(action.action, t)} <span className="opacity-75">{getEntityLabel(action.entityType, t)}</span>
-                </div>
-              ))}
-              {pendingDraft.actions.length > 3 && (
+            <div className={cn('space-y-1 pl-5 mb-3', isReviewable && 'overflow-y-auto custom-scrollbar', isReviewable && (editingActionId ? 'max-h-[360px]' : 'max-h-[180px]'))}>
+              {(isReviewable ? pendingDraft.actions : pendingDraft.actions.slice(0, 3)).map(action => {
+                const isRejected = action.decision === 'rejected';
+                const isEditable = !!onEditDraftAction && action.entityType === 'task' && action.action !== 'delete' && !isRejected;
+                return (
+                  <div key={action.id}>
+                    <div className="flex items-center gap-2">
+                      <div className={cn('flex-1 min-w-0 text-xs text-text-secondary truncate font-medium', isRejected && 'line-through opacity-50')}>
+                        {getActionLabel(action.action, t)} <span className="opacity-75">{getEntityLabel(action.entityType, t)}</span>
+                        {typeof (action.after?.title ?? action.after?.name) === 'string' && (
+                          <span className="ml-1 text-text-primary">{String(action.after?.title ?? action.after?.name)}</span>
+                        )}
+                        {action.cascadedFrom && (
+                          <span className="ml-1.5 text-[10px] font-semibold text-critical bg-critical/10 px-1.5 py-0.5 rounded" title={action.warnings?.join('\n')}>
+                            {t('chat.pending.cascaded')}
+                          </span>
+                        )}
+                      </div>
+                      {isEditable && (
+                        <button
+                          type="button"
+                          onClick={() => setEditingActionId(prev => (prev === action.id ? null : action.id))}
+                          className="p-1 rounded-md transition-colors shrink-0 text-text-secondary hover:text-primary hover:bg-primary/10"
+                          title={t('chat.pending.edit_action')}
+                          aria-label={t('chat.pending.edit_action')}
+                        >
+                          <Pencil className="w-3 h-3" />
+                        </button>
+                      )}
+                      {onDecideDraftAction && (
+                        <button
+                          type="button"
+                          onClick={() => onDecideDraftAction(pendingDraft.id, action.id, isRejected ? 'accepted' : 'rejected')}
+                          className={cn(
+                            'p-1 rounded-md transition-colors shrink-0',
+                            isRejected ? 'text-success hover:bg-success/10' : 'text-text-secondary hover:text-negative hover:bg-negative/10'
+                          )}
+                          title={t(isRejected ? 'chat.pending.accept_action' : 'chat.pending.reject_action')}
+                          aria-label={t(isRejected ? 'chat.pending.accept_action' : 'chat.pending.reject_action')}
+                        >
+                          {isRejected ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
+                        </button>
+                      )}
+                    </div>
+                    {isEditable && editingActionId === action.id && (
+                      <DraftActionEditor
+                        action={action}
+                        onSave={(after) => {
+                          setEditingActionId(null);
+                          onEditDraftAction(pendingDraft.id, action.id, after);
+                        }}
+                        onCancel={() => setEditingActionId(null)}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+              {!isReviewable && pendingDraft.actions.length > 3 && (
                 <div className="text-xs text-critical italic">{t('chat.pending.more', { count: pendingDraft.actions.length - 3 })}</div>
               )}
             </div>
+            {draftWarnings.length > 0 && (
+              <div className="space-y-1 pl-5 mb-3">
+                {draftWarnings.map((warning, index) => (
+                  <div key={`${warning}-${index}`} className="text-xs text-critical">
+                    {warning}
+                  </div>
+                ))}
+              </div>
+            )}
+            {draftConflicts.length > 0 && onRebaseDraft && onForceApplyDraft && (
+              <DraftConflictPanel
+                conflicts={draftConflicts}
+                onRebase={() => onRebaseDraft(pendingDraft.id)}
+                onForceApply={() => onForceApplyDraft(pendingDraft.id)}
+              />
+            )}
+            {approval && needsApproval && (
+              <div className="pl-5 mb-3 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <div className={cn('flex items-center gap-1.5 text-xs font-bold', approval.satisfied ? 'text-success' : 'text-critical')}>
+                    <ShieldCheck className="w-3.5 h-3.5" aria-hidden="true" />
+                    {t('chat.pending.approvals', { count: approval.approvals, total: approval.required })}
+                    {approval.adminRequired && (
+                      <span className="font-semibold text-text-secondary">
+                        {t(approval.adminApproved ? 'chat.pending.admin_approved' : 'chat.pending.admin_required')}
+                      </span>
+                    )}
+                  </div>
+                  {onApproveDraft && !approval.satisfied && (
+                    <Button variant="outline" size="sm" onClick={() => onApproveDraft(pendingDraft.id)} className="h-7 gap-1.5">
+                      <ShieldCheck className="w-3.5 h-3.5" aria-hidden="true" />
+                      {t('chat.pending.approve')}
+                    </Button>
+                  )}
+                </div>
+                {(pendingDraft.approvals ?? []).length > 0 && (
+                  <div className="text-xs text-text-secondary">
+                    {t('chat.pending.approved_by', { users: (pendingDraft.approvals ?? []).map(item => item.username).join(', ') })}
+                  </div>
+                )}
+                {approval.reasons.map(reason => (
+                  <div key={reason} className="text-xs text-critical">{reason}</div>
+                ))}
+              </div>
+            )}
             <div className="flex gap-2 pl-5">
               <Button
                 variant="default"
                 size="sm"
                 onClick={() => onApplyDraft(pendingDraft.id)}
+                disabled={acceptedActionCount === 0 || approval?.satisfied === false}
                 className="flex-1 h-8 bg-success hover:bg-success/90 text-success-foreground"
               >
-                {t('chat.accept')}
+                {acceptedActionCount < pendingDraft.actions.length
+                  ? t('chat.pending.apply_selected', { count: acceptedActionCount, total: pendingDraft.actions.length })
+                  : t('chat.accept')}
               </Button>
               <Button
                 variant="outline"
@@ -198,13 +394,53 @@ export const ChatInterface = memo<ChatInterfaceProps>(({
         )}
       </AnimatePresence>
 
+      {/* Last Applied Draft */}
+      <AnimatePresence>
+        {!pendingDraft && lastAppliedDraft && onRevertDraft && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="px-4 py-3 border-b border-border-subtle border-l-4 border-l-success bg-surface shrink-0"
+          >
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center gap-2">
+                <CheckCircle2 className="w-3.5 h-3.5 text-success" aria-hidden="true" />
+                <p className="text-xs font-bold text-text-primary">{t('chat.applied.title')}</p>
+              </div>
+              {onDismissAppliedDraft && (
+                <button
+                  type="button"
+                  onClick={onDismissAppliedDraft}
+                  className="text-text-secondary hover:text-text-primary p-1 rounded-lg hover:bg-background transition-colors"
+                  title={t('common.close')}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+            <div className="pl-5">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onRevertDraft(lastAppliedDraft.id)}
+                className="w-full h-8 gap-1.5"
+              >
+                <Undo2 className="w-3.5 h-3.5" aria-hidden="true" />
+                {t('chat.undo_change_set')}
+              </Button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Messages Area */}
       <div 
         ref={scrollContainerRef}
         className="flex-1 min-h-0 overflow-y-auto p-4 custom-scrollbar bg-background scroll-smooth"
       >
         {messages.map((msg) => (
-          <ChatBubble key={msg.id} message={msg} />
+          <ChatBubble key={msg.id} message={msg} isHighlighted={msg.id === highlightedMessageId} />
         ))}
 
 
@@ -272,6 +508,9 @@ export const ChatInterface = memo<ChatInterfaceProps>(({
 
       {/* Input Area */}
       <div className="p-4 border-t border-border-subtle bg-surface z-20 shrink-0">
+        {isConversationReadOnly && (
+          <p className="mb-2 text-[11px] text-text-secondary">{t('chat.conversations.read_only')}</p>
+        )}
         <form onSubmit={onSendMessage} className="relative group">
 
           {/* File Attachments Preview */}
@@ -284,9 +523,13 @@ export const ChatInterface = memo<ChatInterfaceProps>(({
               {pendingAttachments.map((file) => (
                 <div
                   key={file.id}
+                  aria-busy={file.isUploading || undefined}
+                  title={file.isUploading ? t('chat.attachment_uploading') : undefined}
                   className="flex items-center gap-2 rounded-lg border border-primary/20 bg-primary/10 px-3 py-1.5 text-sm text-primary"
                 >
-                  <File className="w-3 h-3" aria-hidden="true" />
+                  {file.isUploading
+                    ? <Loader2 className="w-3 h-3 animate-spin" aria-hidden="true" />
+                    : <File className="w-3 h-3" aria-hidden="true" />}
                   <span className="max-w-[120px] truncate font-medium">{file.name}</span>
                   <button
                     type="button"
@@ -306,14 +549,15 @@ export const ChatInterface = memo<ChatInterfaceProps>(({
               type="file"
               className="hidden"
               multiple
+              accept=".txt,.md,.markdown,.csv,.pdf,text/plain,text/markdown,text/csv,application/pdf"
               onChange={handleFileInputChange}
-              disabled={isProcessing}
+              disabled={isInputDisabled}
             />
             <button
               type="button"
               onClick={() => fileInputRef.current?.click()}
               className="flex h-9 w-9 shrink-0 items-center justify-center rounded-lg text-text-secondary hover:text-primary hover:bg-surface transition-colors"
-              disabled={isProcessing}
+              disabled={isInputDisabled}
               title={t('chat.attach_files')}
             >
               <Paperclip className="w-4 h-4" />
@@ -326,12 +570,12 @@ export const ChatInterface = memo<ChatInterfaceProps>(({
               onKeyDown={handleTextareaKeyDown}
               placeholder={t('chat.placeholder')}
               className="w-full bg-transparent text-text-primary py-2.5 outline-none placeholder:text-text-secondary/60 text-sm resize-none max-h-[120px] custom-scrollbar leading-relaxed"
-              disabled={isProcessing}
+              disabled={isInputDisabled}
             />
 
             <button
               type="submit"
-              disabled={(inputText.trim().length === 0 && pendingAttachments.length === 0) || isProcessing}
+              disabled={(inputText.trim().length === 0 && pendingAttachments.length === 0) || isUploadingAttachments || isInputDisabled}
               className="h-9 w-9 shrink-0 flex items-center justify-center bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:hover:bg-primary transition-all shadow-sm"
               aria-label="Send message"
             >
@@ -0,0 +1,49 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { ConversationList } from './ConversationList';
+import type { Conversation } from '../types';
+import { describe, it, expect, vi } from 'vitest';
+import { I18nProvider } from '../src/i18n';
+
+const conversation = (overrides: Partial<Conversation>): Conversation => ({
+  id: 'c1',
+  workspaceId: 'public',
+  projectId: 'p1',
+  title: 'Delay design',
+  createdAt: 0,
+  updatedAt: Date.parse('2026-10-19T09:00:00Z'),
+  createdByUserId: 'u1',
+  ...overrides,
+});
+
+describe('ConversationList', () => {
+  it('opens conversations and only offers to delete your own', () => {
+    const onOpen = vi.fn();
+    const onDelete = vi.fn();
+    render(
+      <I18nProvider>
+        <ConversationList
+          conversations={[
+            conversation({}),
+            conversation({ id: 'c2', title: 'Staffing for QA', createdByUserId: 'u2' }),
+          ]}
+          activeConversationId="c1"
+          currentUserId="u1"
+          onOpen={onOpen}
+          onDelete={onDelete}
+        />
+      </I18nProvider>
+    );
+
+    expect(screen.getByText('Delay design').closest('button')).toHaveAttribute('aria-current', 'true');
+    expect(screen.getByLabelText('Started by a teammate')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Staffing for QA'));
+    expect(onOpen).toHaveBeenCalledWith('c2');
+
+    const deleteButtons = screen.getAllByRole('button', { name: 'Delete conversation' });
+    expect(deleteButtons).toHaveLength(1);
+    fireEvent.click(deleteButtons[0]);
+    expect(onDelete).toHaveBeenCalledWith('c1');
+  });
+});
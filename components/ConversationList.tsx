@@ -0,0 +1,70 @@
+import React, { memo } from 'react';
+import { MessageSquare, Trash2, Users } from 'lucide-react';
+import type { Conversation } from '../types';
+import { useI18n } from '../src/i18n';
+import { cn } from '../src/utils/cn';
+
+interface ConversationListProps {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  currentUserId: string | null;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+// Stored conversations for the active project, most recently used first.
+export const ConversationList = memo<ConversationListProps>(({
+  conversations,
+  activeConversationId,
+  currentUserId,
+  onOpen,
+  onDelete,
+}) => {
+  const { t, locale } = useI18n();
+
+  if (conversations.length === 0) {
+    return <p className="px-4 py-3 text-xs text-text-secondary">{t('chat.conversations.empty')}</p>;
+  }
+
+  return (
+    <ul className="max-h-64 overflow-y-auto custom-scrollbar py-1" aria-label={t('chat.conversations.title')}>
+      {conversations.map((conversation) => {
+        const isActive = conversation.id === activeConversationId;
+        const isTeammates = !!conversation.createdByUserId && conversation.createdByUserId !== currentUserId;
+        return (
+          <li key={conversation.id} className="group flex items-center gap-1 px-2">
+            <button
+              type="button"
+              onClick={() => onOpen(conversation.id)}
+              aria-current={isActive || undefined}
+              className={cn(
+                'flex-1 min-w-0 flex items-center gap-2 px-2 py-1.5 rounded-md text-left transition-colors',
+                isActive ? 'bg-primary/10 text-primary' : 'text-text-primary hover:bg-background'
+              )}
+            >
+              {isTeammates
+                ? <Users className="w-3.5 h-3.5 shrink-0 opacity-70" aria-label={t('chat.conversations.teammate')} />
+                : <MessageSquare className="w-3.5 h-3.5 shrink-0 opacity-70" aria-hidden="true" />}
+              <span className="flex-1 min-w-0 truncate text-xs font-medium">{conversation.title}</span>
+              <span className="shrink-0 text-[10px] text-text-secondary">
+                {new Date(conversation.updatedAt).toLocaleDateString(locale, { month: 'short', day: 'numeric' })}
+              </span>
+            </button>
+            {!isTeammates && (
+              <button
+                type="button"
+                onClick={() => onDelete(conversation.id)}
+                className="p-1 rounded-md text-text-secondary opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-negative hover:bg-negative/10 transition-all"
+                title={t('chat.conversations.delete')}
+                aria-label={t('chat.conversations.delete')}
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+});
+ConversationList.displayName = 'ConversationList';
@@ -0,0 +1,125 @@
+import React, { memo, useCallback, useState } from 'react';
+import { DraftAction, Priority, TaskStatus } from '../types';
+import { useI18n } from '../src/i18n';
+import { formatDateInput, parseDateInput } from '../src/utils';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { TaskPrioritySelect, TaskStatusSelect } from './TaskFieldInputs';
+
+interface DraftActionEditorProps {
+  action: DraftAction;
+  onSave: (after: Record<string, unknown>) => void;
+  onCancel: () => void;
+}
+
+type EditableFields = {
+  title: string;
+  status: TaskStatus;
+  priority: Priority;
+  startDate?: number;
+  dueDate?: number;
+  assignee: string;
+};
+
+const readFields = (after: Record<string, unknown> | null | undefined): EditableFields => ({
+  title: typeof after?.title === 'string' ? after.title : '',
+  status: (after?.status as TaskStatus | undefined) ?? TaskStatus.TODO,
+  priority: (after?.priority as Priority | undefined) ?? Priority.MEDIUM,
+  startDate: typeof after?.startDate === 'number' ? after.startDate : undefined,
+  dueDate: typeof after?.dueDate === 'number' ? after.dueDate : undefined,
+  assignee: typeof after?.assignee === 'string' ? after.assignee : '',
+});
+
+export const DraftActionEditor = memo<DraftActionEditorProps>(({ action, onSave, onCancel }) => {
+  const { t } = useI18n();
+  const [initial] = useState(() => readFields(action.after));
+  const [fields, setFields] = useState(initial);
+
+  const update = useCallback(<K extends keyof EditableFields>(key: K, value: EditableFields[K]) => {
+    setFields(prev => ({ ...prev, [key]: value }));
+  }, []);
+
+  // Only send what the reviewer touched so the server re-plans from the original intent.
+  const handleSave = useCallback(() => {
+    const changed: Record<string, unknown> = {};
+    (Object.keys(fields) as (keyof EditableFields)[]).forEach(key => {
+      if (fields[key] !== initial[key]) changed[key] = fields[key];
+    });
+    if (Object.keys(changed).length === 0) {
+      onCancel();
+      return;
+    }
+    onSave(changed);
+  }, [fields, initial, onSave, onCancel]);
+
+  const fieldId = (name: string) => `draft-${action.id}-${name}`;
+
+  return (
+    <div className="mt-1 mb-2 p-2 rounded-lg border border-border-subtle bg-background space-y-2">
+      <div className="space-y-1">
+        <label className="text-[10px] font-semibold text-text-secondary uppercase tracking-wider" htmlFor={fieldId('title')}>{t('task.title')}</label>
+        <Input
+          id={fieldId('title')}
+          className="h-7 text-xs px-2"
+          value={fields.title}
+          onChange={(event) => update('title', event.target.value)}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <label className="text-[10px] font-semibold text-text-secondary uppercase tracking-wider" htmlFor={fieldId('status')}>{t('task.status')}</label>
+          <TaskStatusSelect id={fieldId('status')} value={fields.status} onChange={(status) => update('status', status)} className="h-7" />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] font-semibold text-text-secondary uppercase tracking-wider" htmlFor={fieldId('priority')}>{t('task.priority')}</label>
+          <TaskPrioritySelect id={fieldId('priority')} value={fields.priority} onChange={(priority) => update('priority', priority)} className="h-7" />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] font-medium text-text-secondary" htmlFor={fieldId('start')}>{t('task.start_date')}</label>
+          <Input
+            id={fieldId('start')}
+            type="date"
+            className="bg-surface h-7 text-xs px-2"
+            value={formatDateInput(fields.startDate)}
+            onChange={(event) => {
+              const startDate = parseDateInput(event.target.value);
+              if (startDate) update('startDate', startDate);
+            }}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] font-medium text-text-secondary" htmlFor={fieldId('due')}>{t('task.due_date')}</label>
+          <Input
+            id={fieldId('due')}
+            type="date"
+            className="bg-surface h-7 text-xs px-2"
+            value={formatDateInput(fields.dueDate)}
+            onChange={(event) => {
+              const dueDate = parseDateInput(event.target.value);
+              if (dueDate) update('dueDate', dueDate);
+            }}
+          />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <label className="text-[10px] font-semibold text-text-secondary uppercase tracking-wider" htmlFor={fieldId('assignee')}>{t('task.assignee')}</label>
+        <Input
+          id={fieldId('assignee')}
+          placeholder={t('task.unassigned')}
+          className="h-7 text-xs px-2"
+          value={fields.assignee}
+          onChange={(event) => update('assignee', event.target.value)}
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button variant="default" size="sm" onClick={handleSave} className="flex-1 h-7">
+          {t('common.save')}
+        </Button>
+        <Button variant="outline" size="sm" onClick={onCancel} className="flex-1 h-7">
+          {t('common.cancel')}
+        </Button>
+      </div>
+    </div>
+  );
+});
+DraftActionEditor.displayName = 'DraftActionEditor';
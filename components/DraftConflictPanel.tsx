@@ -0,0 +1,99 @@
+import React, { memo } from 'react';
+import { GitMerge, RefreshCw, Zap } from 'lucide-react';
+import { DraftConflict } from '../types';
+import { useI18n } from '../src/i18n';
+import { getActionLabel, getEntityLabel } from '../src/i18n/labels';
+import { Button } from './ui/Button';
+
+interface DraftConflictPanelProps {
+  conflicts: DraftConflict[];
+  onRebase: () => void;
+  onForceApply: () => void;
+}
+
+const IGNORED_FIELDS = new Set(['id', 'workspaceId', 'createdAt', 'updatedAt']);
+
+const MIN_TIMESTAMP_MS = Date.parse('2000-01-01T00:00:00.000Z');
+const MAX_TIMESTAMP_MS = Date.parse('2100-01-01T00:00:00.000Z');
+
+const formatConflictValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '—';
+  if (typeof value === 'string') return value || '—';
+  if (typeof value === 'number') {
+    if (value < MIN_TIMESTAMP_MS || value > MAX_TIMESTAMP_MS) return String(value);
+    const date = new Date(value);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+  if (typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+};
+
+// Fields where the planned before, the live row and the planned after do not all agree.
+const diffConflict = (conflict: DraftConflict) => {
+  const sources = [conflict.plannedBefore, conflict.current, conflict.plannedAfter];
+  const keys = new Set(sources.flatMap(source => Object.keys(source ?? {})));
+  return Array.from(keys)
+    .filter(key => !IGNORED_FIELDS.has(key))
+    .map(key => ({
+      field: key,
+      before: formatConflictValue(conflict.plannedBefore?.[key]),
+      current: conflict.current ? formatConflictValue(conflict.current[key]) : '—',
+      after: formatConflictValue(conflict.plannedAfter?.[key]),
+    }))
+    .filter(row => row.before !== row.current || row.current !== row.after);
+};
+
+export const DraftConflictPanel = memo<DraftConflictPanelProps>(({ conflicts, onRebase, onForceApply }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="pl-5 mb-3 space-y-2">
+      <div className="flex items-center gap-1.5 text-xs font-bold text-negative">
+        <GitMerge className="w-3.5 h-3.5" aria-hidden="true" />
+        {t('draft.conflict.title', { count: conflicts.length })}
+      </div>
+      <div className="max-h-[220px] overflow-auto space-y-2 custom-scrollbar">
+        {conflicts.map(conflict => (
+          <div key={conflict.actionId} className="rounded-lg border border-border-subtle bg-background px-2 py-1.5">
+            <div className="text-xs font-semibold text-text-primary mb-1">
+              {getActionLabel(conflict.action, t)} {getEntityLabel(conflict.entityType, t)}
+              <span className="ml-1 font-normal text-text-secondary">{conflict.message}</span>
+            </div>
+            <table className="w-full text-[11px] table-fixed">
+              <thead>
+                <tr className="text-text-secondary">
+                  <th className="text-left font-semibold w-1/4">{t('draft.conflict.field')}</th>
+                  <th className="text-left font-semibold">{t('draft.conflict.planned_before')}</th>
+                  <th className="text-left font-semibold">{t('draft.conflict.current')}</th>
+                  <th className="text-left font-semibold">{t('draft.conflict.planned_after')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diffConflict(conflict).map(row => (
+                  <tr key={row.field} className="align-top">
+                    <td className="pr-1 text-text-secondary break-all">{row.field}</td>
+                    <td className="pr-1 text-text-secondary break-all">{row.before}</td>
+                    <td className="pr-1 text-negative break-all">{row.current}</td>
+                    <td className="text-success break-all">{row.after}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={onRebase} className="flex-1 h-8 gap-1.5">
+          <RefreshCw className="w-3.5 h-3.5" aria-hidden="true" />
+          {t('draft.conflict.rebase')}
+        </Button>
+        <Button variant="outline" size="sm" onClick={onForceApply} className="flex-1 h-8 gap-1.5 text-negative">
+          <Zap className="w-3.5 h-3.5" aria-hidden="true" />
+          {t('draft.conflict.force_apply')}
+        </Button>
+      </div>
+    </div>
+  );
+});
+
+DraftConflictPanel.displayName = 'DraftConflictPanel';
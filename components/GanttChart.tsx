@@ -1,14 +1,23 @@
 import React, { useMemo, useRef, useState, useEffect, useId, memo, useCallback } from 'react';
-import type { Task } from '../types';
+import type { BaselineComparison, ProjectSchedule, Task, TaskSchedule, WorkCalendar } from '../types';
 import { Priority } from '../types';
 import { useI18n } from '../src/i18n';
 import { cn } from '../src/utils/cn';
+import { findPredecessorTask, formatPredecessor, toTaskLink } from '../src/utils/dependencies';
+import { listNonWorkingDays, workingDaysBetween } from '../src/utils/calendar';
+import { buildTaskTree } from '../src/utils/hierarchy';
+import { formatSlipDays, indexVariance } from '../src/utils/variance';
+import { ChevronDown, ChevronRight } from 'lucide-react';
 
 interface GanttChartProps {
   tasks: Task[];
   selectedTaskId?: string | null;
   onSelectTask?: (id: string) => void;
   onUpdateTaskDates?: (id: string, startDate: number, dueDate: number) => void;
+  readOnly?: boolean;
+  schedule?: ProjectSchedule | null;
+  calendar?: WorkCalendar | null;
+  baseline?: BaselineComparison | null;
 }
 
 type ViewMode = 'Day' | 'Week' | 'Month' | 'Year';
@@ -23,7 +32,7 @@ type DragState = {
   originEnd: number;
 };
 
-type TaskEntry = Task & { startMs: number; endMs: number };
+type TaskEntry = Task & { startMs: number; endMs: number; depth: number; isSummary: boolean; isCollapsed: boolean };
 
 const DAY_MS = 86400000;
 
@@ -56,12 +65,19 @@ export const GanttChart: React.FC<GanttChartProps> = memo(({
   selectedTaskId,
   onSelectTask,
   onUpdateTaskDates,
+  readOnly = false,
+  schedule = null,
+  calendar = null,
+  baseline = null,
 }) => {
   const { t, locale } = useI18n();
   const [viewMode, setViewMode] = useState<ViewMode>('Month');
   const [showList, setShowList] = useState(true);
+  const [showCriticalPath, setShowCriticalPath] = useState(true);
+  const [showBaseline, setShowBaseline] = useState(true);
   const [dragState, setDragState] = useState<DragState | null>(null);
   const [dragDeltaMs, setDragDeltaMs] = useState(0);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(() => new Set());
   const dragDeltaRef = useRef(0);
   const [dependencyTooltip, setDependencyTooltip] = useState<{ text: string; x: number; y: number } | null>(null);
   const arrowId = useId();
@@ -76,18 +92,36 @@ export const GanttChart: React.FC<GanttChartProps> = memo(({
     Year: t('gantt.view.year'),
   }), [t]);
 
-  // 1. Prepare Task Data
+  // 1. Prepare Task Data: subtasks sit under their summary task, siblings in start order
   const taskEntries = useMemo<TaskEntry[]>(() => {
     if (tasks.length === 0) return [];
-    return tasks
-      .map(task => {
-        const start = task.startDate ?? task.createdAt;
-        const end = task.dueDate ?? start + DAY_MS;
-        const safeEnd = end <= start ? start + DAY_MS : end;
-        return { ...task, startMs: start, endMs: safeEnd };
-      })
-      .sort((a, b) => a.startMs - b.startMs);
-  }, [tasks]);
+    const entries = tasks.map(task => {
+      const start = task.startDate ?? task.createdAt;
+      const end = task.dueDate ?? start + DAY_MS;
+      const safeEnd = end <= start ? start + DAY_MS : end;
+      return { ...task, startMs: start, endMs: safeEnd };
+    });
+    return buildTaskTree(entries, (a, b) => a.startMs - b.startMs, collapsedIds).map(row => ({
+      ...row.task,
+      depth: row.depth,
+      isSummary: row.hasChildren,
+      isCollapsed: row.isCollapsed,
+    }));
+  }, [tasks, collapsedIds]);
+
+  const varianceById = useMemo(
+    () => indexVariance(showBaseline ? baseline : null),
+    [baseline, showBaseline]
+  );
+
+  const toggleCollapsed = useCallback((id: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }, []);
 
   // 2. Compute Timeline Bounds & Scale
   const { startMs, endMs, totalWidth, pxPerMs, gridLines } = useMemo(() => {
@@ -96,8 +130,15 @@ export const GanttChart: React.FC<GanttChartProps> = memo(({
     }
 
     // Add padding to timeline
-    const rawStart = Math.min(...taskEntries.map(t => t.startMs));
-    const rawEnd = Math.max(...taskEntries.map(t => t.endMs));
+    // Baseline bars of visible tasks must fit on the timeline too
+    const planned = taskEntries.flatMap(t => {
+      const entry = varianceById.get(t.id);
+      return entry && entry.baselineStart !== null && entry.baselineDue !== null
+        ? [{ start: entry.baselineStart, end: entry.baselineDue }]
+        : [];
+    });
+    const rawStart = Math.min(...taskEntries.map(t => t.startMs), ...planned.map(entry => entry.start));
+    const rawEnd = Math.max(...taskEntries.map(t => t.endMs), ...planned.map(entry => entry.end));
     
     // Adjust start/end to nice boundaries based on ViewMode
     const startDate = new Date(rawStart);
@@ -198,7 +239,7 @@ export const GanttChart: React.FC<GanttChartProps> = memo(({
       pxPerMs: pxPerMsValue,
       gridLines: lines
     };
-  }, [taskEntries, viewMode, locale]);
+  }, [taskEntries, varianceById, viewMode, locale]);
 
   // Helper: Time -> X
   const getX = useCallback((time: number) => (time - startMs) * pxPerMs, [startMs, pxPerMs]);
@@ -288,7 +329,35 @@ export const GanttChart: React.FC<GanttChartProps> = memo(({
   }, [taskEntries, dragState, dragDeltaMs, getX]);
 
   const taskMap = useMemo(() => new Map(taskCoords.map((t) => [t.id, t])), [taskCoords]);
-  const taskById = useMemo(() => new Map(taskEntries.map(task => [task.id, task])), [taskEntries]);
+  const scheduleById = useMemo(() => {
+    if (!schedule || !showCriticalPath) return new Map<string, TaskSchedule>();
+    return new Map(schedule.tasks.map(entry => [entry.taskId, entry]));
+  }, [schedule, showCriticalPath]);
+  const floatLabels = useMemo(() => new Map(Array.from(scheduleById.values()).map(entry => [
+    entry.taskId,
+    entry.isCritical ? t('gantt.critical_task') : t('gantt.float', { days: Math.round(entry.totalFloat / DAY_MS) }),
+  ])), [scheduleById, t]);
+  // Durations follow the dragged bar so the working-day count updates live.
+  const durationLabels = useMemo(() => {
+    if (!calendar) return new Map<string, string>();
+    return new Map(taskCoords
+      .filter(coord => !coord.original.isMilestone)
+      .map(coord => [
+        coord.id,
+        t('gantt.duration', { days: workingDaysBetween(calendar, coord.start, coord.end, coord.original.assignee) }),
+      ]));
+  }, [calendar, taskCoords, t]);
+  const slipLabels = useMemo(() => new Map(Array.from(varianceById.values())
+    .filter(entry => entry.status === 'tracked')
+    .map(entry => [
+      entry.taskId,
+      t('gantt.slip', { start: formatSlipDays(entry.startSlipDays), finish: formatSlipDays(entry.finishSlipDays) }),
+    ])), [varianceById, t]);
+  // Weekends and holidays are only wide enough to read in the Day and Week views.
+  const nonWorkingDays = useMemo(() => {
+    if (!calendar || (viewMode !== 'Day' && viewMode !== 'Week')) return [];
+    return listNonWorkingDays(calendar, startMs, endMs);
+  }, [calendar, viewMode, startMs, endMs]);
 
   // Pre-compute dependency links to avoid flatMap on every render
   const dependencyLinks = useMemo(() => {
@@ -296,6 +365,7 @@ export const GanttChart: React.FC<GanttChartProps> = memo(({
       key: string;
       d: string;
       label: string;
+      isCritical: boolean;
     }> = [];
 
     taskEntries.forEach(task => {
@@ -303,26 +373,36 @@ export const GanttChart: React.FC<GanttChartProps> = memo(({
       const target = taskMap.get(task.id);
       if (!target) return;
 
-      task.predecessors.forEach(predId => {
-        const source = taskMap.get(predId);
-        if (!source) return;
-        const sourceTask = taskById.get(predId);
-        const targetTask = taskById.get(task.id);
-        const label = sourceTask && targetTask ? `${sourceTask.title} → ${targetTask.title}` : t('gantt.dependency');
-
-        const x1 = source.x + source.w;
+      task.predecessors.forEach(predecessor => {
+        const link = toTaskLink(predecessor);
+        const sourceTask = findPredecessorTask(taskEntries, predecessor) as TaskEntry | undefined;
+        const source = sourceTask ? taskMap.get(sourceTask.id) : undefined;
+        if (!source || !sourceTask) return;
+        const linkLabel = link.type === 'FS' && !link.lagDays ? '' : ` (${formatPredecessor(link).slice(link.ref.length + 1)})`;
+        const label = `${sourceTask.title} → ${task.title}${linkLabel}`;
+
+        // Start-based links leave from the predecessor's start, finish-based ones from its end;
+        // the arrow lands on the successor's start or end in the same way.
+        const fromStart = link.type === 'SS' || link.type === 'SF';
+        const toEnd = link.type === 'FF' || link.type === 'SF';
+        const x1 = fromStart ? source.x : source.x + source.w;
         const y1 = source.centerY;
-        const x2 = target.x;
+        const x2 = toEnd ? target.x + target.w : target.x;
         const y2 = target.centerY;
-        const midX = x1 + 20;
-        const d = `M ${x1} ${y1} L ${midX} ${y1} L ${midX} ${y2} L ${x2} ${y2}`;
+        const midX = fromStart ? x1 - 12 : x1 + 20;
+        const endX = toEnd ? x2 + 12 : x2;
+        const d = toEnd
+          ? `M ${x1} ${y1} L ${midX} ${y1} L ${midX} ${(y1 + y2) / 2} L ${endX} ${(y1 + y2) / 2} L ${endX} ${y2} L ${x2} ${y2}`
+          : `M ${x1} ${y1} L ${midX} ${y1} L ${midX} ${y2} L ${x2} ${y2}`;
+
+        const isCritical = Boolean(scheduleById.get(source.id)?.isCritical && scheduleById.get(target.id)?.isCritical);
 
-        links.push({ key: `${source.id}-${target.id}`, d, label });
+        links.push({ key: `${source.id}-${target.id}`, d, label, isCritical });
       });
     });
 
     return links;
-  }, [taskEntries, taskMap, taskById, t]);
+  }, [taskEntries, taskMap, scheduleById]);
 
   const updateDependencyTooltip = useCallback((event: React.MouseEvent<SVGPathElement>, text: string) => {
     const body = bodyRef.current;
@@ -342,6 +422,18 @@ export const GanttChart: React.FC<GanttChartProps> = memo(({
             <input type="checkbox" checked={showList} onChange={() => setShowList(!showList)} className="rounded border-border-subtle text-primary focus:ring-primary" />
             {t('gantt.show_list')}
           </label>
+          {baseline && (
+            <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer font-medium select-none">
+              <input type="checkbox" checked={showBaseline} onChange={() => setShowBaseline(!showBaseline)} className="rounded border-border-subtle text-primary focus:ring-primary" />
+              {t('gantt.baseline', { name: baseline.baseline.name })}
+            </label>
+          )}
+          {schedule && (
+            <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer font-medium select-none">
+              <input type="checkbox" checked={showCriticalPath} onChange={() => setShowCriticalPath(!showCriticalPath)} className="rounded border-border-subtle text-critical focus:ring-critical" />
+              {t('gantt.critical_path')}
+            </label>
+          )}
         </div>
         <div className="flex gap-1">
           {(['Day', 'Week', 'Month', 'Year'] as ViewMode[]).map(m => (
@@ -408,8 +500,29 @@ export const GanttChart: React.FC<GanttChartProps> = memo(({
                      style={{ height: ROW_HEIGHT }}
                      onClick={() => onSelectTask?.(task.id)}
                    >
-                     <div className="text-sm font-medium text-text-primary truncate">{task.title}</div>
-                     <div className="text-xs text-text-secondary truncate">{task.assignee || t('gantt.unassigned')}</div>
+                     <div className="flex items-center gap-1 min-w-0" style={{ paddingLeft: task.depth * 12 }}>
+                       {task.isSummary && (
+                         <button
+                           type="button"
+                           onClick={(event) => {
+                             event.stopPropagation();
+                             toggleCollapsed(task.id);
+                           }}
+                           aria-expanded={!task.isCollapsed}
+                           aria-label={task.isCollapsed ? t('list.expand') : t('list.collapse')}
+                           className="p-0.5 -ml-1 rounded text-text-secondary hover:text-primary shrink-0"
+                         >
+                           {task.isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                         </button>
+                       )}
+                       <div className="min-w-0">
+                         <div className={cn("text-sm text-text-primary truncate", task.isSummary ? "font-semibold" : "font-medium")}>{task.title}</div>
+                         <div className="text-xs text-text-secondary truncate">
+                           {task.assignee || t('gantt.unassigned')}
+                           {durationLabels.has(task.id) && ` · ${durationLabels.get(task.id)}`}
+                         </div>
+                       </div>
+                     </div>
                    </div>
                  ))}
                </div>
@@ -419,6 +532,13 @@ export const GanttChart: React.FC<GanttChartProps> = memo(({
             <div className="relative flex-1" style={{ width: Math.max(totalWidth, 100) + 'px', height: taskEntries.length * ROW_HEIGHT }}>
                {/* Grid Vertical Lines */}
                <div className="absolute inset-0 pointer-events-none z-0">
+                   {nonWorkingDays.map(dayStart => (
+                     <div
+                       key={`off-${dayStart}`}
+                       className="absolute top-0 bottom-0 bg-background/70"
+                       style={{ left: getX(dayStart), width: DAY_MS * pxPerMs }}
+                     />
+                   ))}
                    {gridLines.map(line => (
                      <div
                        key={line.time}
@@ -449,15 +569,21 @@ export const GanttChart: React.FC<GanttChartProps> = memo(({
                         <marker id={`arrow-head-${arrowId}`} markerWidth="6" markerHeight="6" refX="6" refY="3" orient="auto">
                           <path d="M0,0 L6,3 L0,6 Z" className="fill-secondary" />
                         </marker>
+                        <marker id={`arrow-head-critical-${arrowId}`} markerWidth="6" markerHeight="6" refX="6" refY="3" orient="auto">
+                          <path d="M0,0 L6,3 L0,6 Z" className="fill-critical" />
+                        </marker>
                      </defs>
                      {dependencyLinks.map(link => (
                        <path
                          key={link.key}
                          d={link.d}
-                         strokeWidth="1.5"
+                         strokeWidth={link.isCritical ? 2 : 1.5}
                          fill="none"
-                         markerEnd={`url(#arrow-head-${arrowId})`}
-                         className="stroke-secondary transition-colors hover:stroke-primary pointer-events-auto"
+                         markerEnd={`url(#arrow-head-${link.isCritical ? 'critical-' : ''}${arrowId})`}
+                         className={cn(
+                           "transition-colors hover:stroke-primary pointer-events-auto",
+                           link.isCritical ? "stroke-critical" : "stroke-secondary"
+                         )}
                          onMouseEnter={(event) => updateDependencyTooltip(event, link.label)}
                          onMouseMove={(event) => updateDependencyTooltip(event, link.label)}
                          onMouseLeave={() => setDependencyTooltip(null)}
@@ -475,11 +601,30 @@ export const GanttChart: React.FC<GanttChartProps> = memo(({
                      </div>
                    )}
 
+                   {/* Baseline Ghost Bars: the frozen plan, drawn just under each actual bar */}
+                   {taskCoords.map((t) => {
+                     const entry = varianceById.get(t.id);
+                     if (!entry || entry.baselineStart === null || entry.baselineDue === null) return null;
+                     const x = getX(entry.baselineStart);
+                     return (
+                       <div
+                         key={`baseline-${t.id}`}
+                         className="absolute h-1 rounded-sm bg-text-secondary/40 border border-text-secondary/60 pointer-events-none"
+                         style={{ left: x, top: t.top + BAR_HEIGHT + 1, width: Math.max(2, getX(entry.baselineDue) - x) }}
+                         aria-hidden="true"
+                       />
+                     );
+                   })}
+
                    {/* Task Bars */}
                    {taskCoords.map((t) => {
                      const colorClass = getTaskColorClass(t.original.priority, t.original.isMilestone);
                      const isSelected = selectedTaskId === t.id;
                      const isDragging = dragState?.id === t.id;
+                     const taskSchedule = scheduleById.get(t.id);
+                     const isCritical = taskSchedule?.isCritical ?? false;
+                     // Float is working time; the bar spans the calendar days up to the late finish.
+                     const slackWidth = taskSchedule && taskSchedule.totalFloat > 0 ? (taskSchedule.lateFinish - taskSchedule.earlyFinish) * pxPerMs : 0;
 
                      return (
                        <div
@@ -491,20 +636,48 @@ export const GanttChart: React.FC<GanttChartProps> = memo(({
                            width: t.w,
                            opacity: isDragging ? 0.9 : 1
                          }}
+                         title={[durationLabels.get(t.id), floatLabels.get(t.id), slipLabels.get(t.id)].filter(Boolean).join(' · ') || undefined}
                        > 
+                         {/* Slack: how far the task can slip before it delays the project */}
+                         {slackWidth > 0 && (
+                           <div
+                             className="absolute top-1/2 -translate-y-1/2 h-2 rounded-r border border-dashed border-secondary/60 bg-secondary/15 pointer-events-none"
+                             style={{ left: t.w, width: slackWidth }}
+                             aria-hidden="true"
+                           />
+                         )}
                          {/* Milestone Diamond */}
                          {t.original.isMilestone ? (
                            <div
                              className="relative w-8 h-8 flex items-center justify-center cursor-pointer"
                              onMouseDown={(e) => {
                                e.preventDefault();
+                               if (readOnly) return;
                                dragDeltaRef.current = 0;
                                setDragDeltaMs(0);
                                setDragState({ id: t.id, mode: 'move', originX: e.clientX, originStart: t.original.startMs, originEnd: t.original.endMs });
                              }}
                              onClick={() => onSelectTask?.(t.id)}
                            >
-                             <div className={cn("w-6 h-6 rotate-45 border-2 bg-surface", colorClass)} />
+                             <div className={cn("w-6 h-6 rotate-45 border-2 bg-surface", colorClass, isCritical && "ring-2 ring-critical")} />
+                           </div>
+                         ) : t.original.isSummary ? (
+                           /* Summary Bar: spans its subtasks and follows them, so it cannot be dragged */
+                           <div
+                             className={cn("relative w-full h-full flex flex-col justify-center cursor-pointer", isSelected && "ring-2 ring-primary ring-offset-1 rounded")}
+                             onClick={() => onSelectTask?.(t.id)}
+                           >
+                             <span className="text-[10px] font-bold text-text-primary truncate px-1">{t.original.title}</span>
+                             <div className={cn("relative h-2 rounded-sm", isCritical ? "bg-critical" : "bg-text-primary/80")}>
+                               <span
+                                 className={cn("absolute left-0 top-full w-0 h-0 border-x-[5px] border-x-transparent border-t-[5px]", isCritical ? "border-t-critical" : "border-t-text-primary/80")}
+                                 aria-hidden="true"
+                               />
+                               <span
+                                 className={cn("absolute right-0 top-full w-0 h-0 border-x-[5px] border-x-transparent border-t-[5px]", isCritical ? "border-t-critical" : "border-t-text-primary/80")}
+                                 aria-hidden="true"
+                               />
+                             </div>
                            </div>
                          ) : (
                            /* Standard Bar */
@@ -513,10 +686,12 @@ export const GanttChart: React.FC<GanttChartProps> = memo(({
                                className={cn(
                                  "w-full h-full rounded shadow-sm opacity-90 hover:opacity-100 flex items-center px-2 cursor-pointer transition-all",
                                  colorClass,
+                                 isCritical && "outline outline-2 outline-offset-1 outline-critical",
                                  isSelected && "ring-2 ring-primary ring-offset-1"
                                )}
                                onMouseDown={(e) => {
                                  e.preventDefault();
+                                 if (readOnly) return;
                                  dragDeltaRef.current = 0;
                                  setDragDeltaMs(0);
                                  setDragState({ id: t.id, mode: 'move', originX: e.clientX, originStart: t.original.startMs, originEnd: t.original.endMs });
@@ -527,24 +702,28 @@ export const GanttChart: React.FC<GanttChartProps> = memo(({
                              </div>
                              
                              {/* Resize Handles */}
-                             <div 
-                               className="absolute left-0 top-0 bottom-0 w-3 cursor-w-resize hover:bg-surface/20 rounded-l"
-                               onMouseDown={(e) => {
-                                 e.stopPropagation();
-                                 dragDeltaRef.current = 0;
-                                 setDragDeltaMs(0);
-                                 setDragState({ id: t.id, mode: 'start', originX: e.clientX, originStart: t.original.startMs, originEnd: t.original.endMs });
-                               }}
-                             />
-                             <div 
-                               className="absolute right-0 top-0 bottom-0 w-3 cursor-e-resize hover:bg-surface/20 rounded-r"
-                               onMouseDown={(e) => {
-                                 e.stopPropagation();
-                                 dragDeltaRef.current = 0;
-                                 setDragDeltaMs(0);
-                                 setDragState({ id: t.id, mode: 'end', originX: e.clientX, originStart: t.original.startMs, originEnd: t.original.endMs });
-                               }}
-                             />
+                             {!readOnly && (
+                               <>
+                                 <div 
+                                   className="absolute left-0 top-0 bottom-0 w-3 cursor-w-resize hover:bg-surface/20 rounded-l"
+                                   onMouseDown={(e) => {
+                                     e.stopPropagation();
+                                     dragDeltaRef.current = 0;
+                                     setDragDeltaMs(0);
+                                     setDragState({ id: t.id, mode: 'start', originX: e.clientX, originStart: t.original.startMs, originEnd: t.original.endMs });
+                                   }}
+                                 />
+                                 <div 
+                                   className="absolute right-0 top-0 bottom-0 w-3 cursor-e-resize hover:bg-surface/20 rounded-r"
+                                   onMouseDown={(e) => {
+                                     e.stopPropagation();
+                                     dragDeltaRef.current = 0;
+                                     setDragDeltaMs(0);
+                                     setDragState({ id: t.id, mode: 'end', originX: e.clientX, originStart: t.original.startMs, originEnd: t.original.endMs });
+                                   }}
+                                 />
+                               </>
+                             )}
                            </>
                          )}
                        </div>
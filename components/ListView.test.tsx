@@ -1,7 +1,8 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen } from '@testing-library/react';
 import { ListView } from './ListView';
 import { Priority, TaskStatus, Task } from '../types';
+import type { BaselineComparison } from '../types';
 import { describe, it, expect } from 'vitest';
 import { I18nProvider } from '../src/i18n';
 
@@ -45,4 +46,59 @@ describe('ListView', () => {
     expect(first.compareDocumentPosition(second) & Node.DOCUMENT_POSITION_FOLLOWING).toBeTruthy();
     expect(second.compareDocumentPosition(third) & Node.DOCUMENT_POSITION_FOLLOWING).toBeTruthy();
   });
+
+  it('nests subtasks under their summary task and collapses them', () => {
+    const tasks: Task[] = [
+      baseTask({ id: 'p', wbs: '1', title: 'Phase' }),
+      baseTask({ id: 'a', wbs: '1.1', title: 'Design' }),
+      baseTask({ id: 'b', parentId: 'p', title: 'Build' }),
+      baseTask({ id: 'c', wbs: '2', title: 'Launch' }),
+    ];
+
+    render(
+      <I18nProvider>
+        <ListView tasks={tasks} />
+      </I18nProvider>
+    );
+
+    expect(screen.getByText('Design')).toBeInTheDocument();
+    expect(screen.getByText('Build')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Collapse subtasks' }));
+
+    expect(screen.queryByText('Design')).not.toBeInTheDocument();
+    expect(screen.queryByText('Build')).not.toBeInTheDocument();
+    expect(screen.getByText('Launch')).toBeInTheDocument();
+  });
+
+  it('shows start and finish slip against a baseline', () => {
+    const tasks: Task[] = [baseTask({ id: 't1', wbs: '1', title: 'Build' })];
+    const variance: BaselineComparison = {
+      baseline: { id: 'b1', workspaceId: 'w1', projectId: 'p1', name: 'Baseline 1', taskCount: 1, createdAt: 0, createdByUserId: null },
+      tasks: [{
+        taskId: 't1',
+        title: 'Build',
+        wbs: '1',
+        status: 'tracked',
+        baselineStart: 0,
+        baselineDue: 0,
+        actualStart: 0,
+        actualDue: 0,
+        startSlipDays: -1,
+        finishSlipDays: 3,
+        completionDelta: 0,
+      }],
+      finishSlipDays: 3,
+    };
+
+    render(
+      <I18nProvider>
+        <ListView tasks={tasks} variance={variance} />
+      </I18nProvider>
+    );
+
+    expect(screen.getByText('Finish Slip')).toBeInTheDocument();
+    expect(screen.getByText('-1')).toBeInTheDocument();
+    expect(screen.getByText('+3')).toBeInTheDocument();
+  });
 });
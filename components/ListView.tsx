@@ -1,14 +1,18 @@
-import React, { useMemo, memo, useCallback } from 'react';
-import type { Task } from '../types';
+import React, { useMemo, memo, useCallback, useState } from 'react';
+import type { BaselineComparison, Task, TaskVariance } from '../types';
 import { TaskStatus, Priority } from '../types';
 import { useI18n } from '../src/i18n';
 import { getPriorityLabel, getStatusLabel } from '../src/i18n/labels';
 import { cn } from '../src/utils/cn';
+import { buildTaskTree } from '../src/utils/hierarchy';
+import { formatSlipDays, indexVariance } from '../src/utils/variance';
+import { ChevronDown, ChevronRight } from 'lucide-react';
 
 interface ListViewProps {
   tasks: Task[];
   selectedTaskId?: string | null;
   onSelectTask?: (id: string) => void;
+  variance?: BaselineComparison | null;
 }
 
 // Move constants outside component to avoid recreation
@@ -24,19 +28,39 @@ const STATUS_COLORS: Record<TaskStatus, string> = {
   [TaskStatus.DONE]: 'text-success bg-success/10',
 } as const;
 
+const SlipCell = ({ value }: { value: number | null | undefined }) => (
+  <td className={cn(
+    "py-3 px-4 text-xs font-mono",
+    value && value > 0 ? "text-negative" : value && value < 0 ? "text-success" : "text-text-secondary"
+  )}>
+    {formatSlipDays(value) || '-'}
+  </td>
+);
+
 interface TaskRowProps {
   task: Task;
+  depth: number;
+  hasChildren: boolean;
+  isCollapsed: boolean;
   isSelected: boolean;
+  showVariance: boolean;
+  variance?: TaskVariance;
   locale: string;
   onSelectTask?: (id: string) => void;
+  onToggle: (id: string) => void;
   t: ReturnType<typeof useI18n>['t'];
 }
 
-const TaskRow = memo(({ task, isSelected, locale, onSelectTask, t }: TaskRowProps) => {
+const TaskRow = memo(({ task, depth, hasChildren, isCollapsed, isSelected, showVariance, variance, locale, onSelectTask, onToggle, t }: TaskRowProps) => {
   const handleClick = useCallback(() => {
     onSelectTask?.(task.id);
   }, [onSelectTask, task.id]);
 
+  const handleToggle = useCallback((event: React.MouseEvent) => {
+    event.stopPropagation();
+    onToggle(task.id);
+  }, [onToggle, task.id]);
+
   return (
     <tr
       onClick={handleClick}
@@ -49,19 +73,35 @@ const TaskRow = memo(({ task, isSelected, locale, onSelectTask, t }: TaskRowProp
     >
       <td className="py-3 px-4 text-xs font-mono text-text-secondary">{task.wbs || '-'}</td>
       <td className="py-3 px-4">
-         <div className="flex flex-col">
-            <span className={cn(
-              "text-sm font-medium flex items-center gap-1.5",
-              task.isMilestone ? "text-critical" : "text-text-primary"
-            )}>
-               {task.isMilestone && (
-                 <svg className="w-4 h-4 text-critical" fill="currentColor" viewBox="0 0 20 20" aria-hidden="true"><path d="M6 2a1 1 0 00-1 1v1H4a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V6a2 2 0 00-2-2h-1V3a1 1 0 10-2 0v1H7V3a1 1 0 00-1-1zm0 5a1 1 0 000 2h8a1 1 0 100-2H6z" /></svg>
-               )}
-               {task.title}
-            </span>
-            {task.description && (
-               <span className="text-xs text-text-secondary truncate max-w-[200px] mt-0.5">{task.description}</span>
+         <div className="flex items-start gap-1" style={{ paddingLeft: depth * 16 }}>
+            {hasChildren ? (
+              <button
+                type="button"
+                onClick={handleToggle}
+                aria-expanded={!isCollapsed}
+                aria-label={isCollapsed ? t('list.expand') : t('list.collapse')}
+                className="mt-0.5 p-0.5 rounded text-text-secondary hover:text-primary hover:bg-primary/10 transition-colors shrink-0"
+              >
+                {isCollapsed ? <ChevronRight className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+              </button>
+            ) : (
+              <span className="w-[18px] shrink-0" aria-hidden="true" />
             )}
+            <div className="flex flex-col min-w-0">
+               <span className={cn(
+                 "text-sm flex items-center gap-1.5",
+                 hasChildren ? "font-semibold" : "font-medium",
+                 task.isMilestone ? "text-critical" : "text-text-primary"
+               )}>
+                  {task.isMilestone && (
+                    <svg className="w-4 h-4 text-critical" fill="currentColor" viewBox="0 0 20 20" aria-hidden="true"><path d="M6 2a1 1 0 00-1 1v1H4a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V6a2 2 0 00-2-2h-1V3a1 1 0 10-2 0v1H7V3a1 1 0 00-1-1zm0 5a1 1 0 000 2h8a1 1 0 100-2H6z" /></svg>
+                  )}
+                  {task.title}
+               </span>
+               {task.description && (
+                  <span className="text-xs text-text-secondary truncate max-w-[200px] mt-0.5">{task.description}</span>
+               )}
+            </div>
          </div>
       </td>
       <td className="py-3 px-4">
@@ -113,20 +153,39 @@ const TaskRow = memo(({ task, isSelected, locale, onSelectTask, t }: TaskRowProp
            </span>
          ) : '-'}
       </td>
+      {showVariance && (
+        <>
+          <SlipCell value={variance?.startSlipDays} />
+          <SlipCell value={variance?.finishSlipDays} />
+        </>
+      )}
     </tr>
   );
 });
 TaskRow.displayName = 'TaskRow';
 
-export const ListView: React.FC<ListViewProps> = memo(({ tasks, selectedTaskId, onSelectTask }) => {
+export const ListView: React.FC<ListViewProps> = memo(({ tasks, selectedTaskId, onSelectTask, variance }) => {
   const { t, locale } = useI18n();
 
-  const sortedTasks = useMemo(() => {
-    return [...tasks].sort((a, b) => {
-      if (a.wbs && b.wbs) return a.wbs.localeCompare(b.wbs, undefined, { numeric: true });
-      return a.createdAt - b.createdAt;
+  const varianceById = useMemo(() => indexVariance(variance), [variance]);
+  const showVariance = Boolean(variance);
+
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(() => new Set());
+
+  // Subtasks sit under their summary task; siblings keep the WBS order.
+  const rows = useMemo(() => buildTaskTree(tasks, (a, b) => {
+    if (a.wbs && b.wbs) return a.wbs.localeCompare(b.wbs, undefined, { numeric: true });
+    return a.createdAt - b.createdAt;
+  }, collapsedIds), [tasks, collapsedIds]);
+
+  const handleToggle = useCallback((id: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
     });
-  }, [tasks]);
+  }, []);
 
   return (
     <div className="w-full h-full overflow-hidden bg-surface border border-border-subtle rounded-xl shadow-sm flex flex-col">
@@ -142,12 +201,18 @@ export const ListView: React.FC<ListViewProps> = memo(({ tasks, selectedTaskId,
               <th className="py-3 px-4 text-xs font-semibold text-text-secondary uppercase tracking-wider w-40">{t('list.header.progress')}</th>
               <th className="py-3 px-4 text-xs font-semibold text-text-secondary uppercase tracking-wider w-28">{t('list.header.start')}</th>
               <th className="py-3 px-4 text-xs font-semibold text-text-secondary uppercase tracking-wider w-28">{t('list.header.due')}</th>
+              {showVariance && (
+                <>
+                  <th className="py-3 px-4 text-xs font-semibold text-text-secondary uppercase tracking-wider w-24" title={t('list.header.slip_hint')}>{t('list.header.start_slip')}</th>
+                  <th className="py-3 px-4 text-xs font-semibold text-text-secondary uppercase tracking-wider w-24" title={t('list.header.slip_hint')}>{t('list.header.finish_slip')}</th>
+                </>
+              )}
             </tr>
           </thead>
           <tbody className="divide-y divide-border-subtle">
-            {sortedTasks.length === 0 ? (
+            {rows.length === 0 ? (
                <tr>
-                 <td colSpan={8} className="py-16 text-center">
+                 <td colSpan={showVariance ? 10 : 8} className="py-16 text-center">
                     <div className="flex flex-col items-center justify-center">
                        <div className="w-12 h-12 rounded-full bg-background flex items-center justify-center mb-3">
                           <svg className="w-6 h-6 text-text-secondary/50" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
@@ -159,13 +224,19 @@ export const ListView: React.FC<ListViewProps> = memo(({ tasks, selectedTaskId,
                  </td>
                </tr>
             ) : (
-              sortedTasks.map((task) => (
+              rows.map(({ task, depth, hasChildren, isCollapsed }) => (
                 <TaskRow
                   key={task.id}
                   task={task}
+                  depth={depth}
+                  hasChildren={hasChildren}
+                  isCollapsed={isCollapsed}
                   isSelected={selectedTaskId === task.id}
+                  showVariance={showVariance}
+                  variance={varianceById.get(task.id)}
                   locale={locale}
                   onSelectTask={onSelectTask}
+                  onToggle={handleToggle}
                   t={t}
                 />
               ))
@@ -8,9 +8,10 @@ interface ModalProps {
   onClose: () => void;
   title: string;
   children: React.ReactNode;
+  className?: string;  // Extra classes for the panel, e.g. a wider max-width
 }
 
-export const Modal = memo<ModalProps>(({ isOpen, onClose, title, children }) => {
+export const Modal = memo<ModalProps>(({ isOpen, onClose, title, children, className }) => {
   const { t } = useI18n();
 
   const handleEscape = useCallback((e: KeyboardEvent) => {
@@ -33,7 +34,10 @@ export const Modal = memo<ModalProps>(({ isOpen, onClose, title, children }) =>
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-text-primary/40 backdrop-blur-sm animate-fade-in">
       <div
-        className="bg-surface rounded-xl shadow-2xl w-full max-w-md overflow-hidden transform transition-all animate-scale-in border border-border-subtle"
+        className={cn(
+          "bg-surface rounded-xl shadow-2xl w-full max-w-md overflow-hidden transform transition-all animate-scale-in border border-border-subtle",
+          className
+        )}
         role="dialog"
         aria-modal="true"
         aria-labelledby="modal-title"
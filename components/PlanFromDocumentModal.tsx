@@ -0,0 +1,250 @@
+import React, { useState, useRef, useEffect, useMemo, memo, useCallback } from 'react';
+import { Check, FileText, Flag, Loader2 } from 'lucide-react';
+import { Modal } from './Modal';
+import { GanttChart } from './GanttChart';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { useI18n } from '../src/i18n';
+import { cn } from '../src/utils/cn';
+import { formatDateInput, parseDateInput } from '../src/utils/date';
+import { workingDaysBetween } from '../src/utils/calendar';
+import { formatPredecessor, remapPredecessor } from '../src/utils/dependencies';
+import { buildTaskTree, compareWbs } from '../src/utils/hierarchy';
+import type { PlanGenerationStatus, PlanRequest } from '../src/hooks/usePlanFromDocument';
+import type { PlanResult, Task, WorkCalendar } from '../types';
+
+interface PlanFromDocumentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  status: PlanGenerationStatus;
+  steps: string[];
+  result: PlanResult | null;
+  error: string | null;
+  calendar: WorkCalendar | null;
+  onGenerate: (request: PlanRequest) => void;
+  onApply: (draftId: string) => Promise<void>;
+  onDiscard: (draftId: string) => Promise<void>;
+  onReset: () => void;
+}
+
+const ACCEPTED_FILES = '.md,.markdown,.txt,.csv,.pdf';
+
+const PlanReview = memo<{ result: PlanResult; calendar: WorkCalendar | null }>(({ result, calendar }) => {
+  const { t } = useI18n();
+  // The draft's create actions carry the scheduled tasks; the tree and the preview read them directly.
+  const tasks = useMemo(
+    () => result.draft.actions.flatMap(action => (action.action === 'create' && action.after ? [action.after as unknown as Task] : [])),
+    [result]
+  );
+  const rows = useMemo(() => buildTaskTree(tasks, (a, b) => compareWbs(a.wbs, b.wbs)), [tasks]);
+  const wbsById = useMemo(() => new Map(tasks.map(task => [task.id, task.wbs ?? task.id])), [tasks]);
+
+  const describeDuration = (task: Task) => {
+    if (task.isMilestone) return t('plan.review.milestone');
+    if (task.startDate === undefined || task.dueDate === undefined) return '';
+    const days = calendar
+      ? workingDaysBetween(calendar, task.startDate, task.dueDate, task.assignee)
+      : Math.round((task.dueDate - task.startDate) / 86400000);
+    return t('plan.review.days', { count: days });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-text-secondary">
+        {result.plan.summary && <span className="font-medium text-text-primary">{result.plan.summary}</span>}
+        <span>{t('plan.review.counts', { tasks: result.plan.taskCount, milestones: result.plan.milestoneCount })}</span>
+        <span>{t('plan.review.span', { start: formatDateInput(result.plan.startDate), finish: formatDateInput(result.plan.finishDate) })}</span>
+      </div>
+
+      {result.warnings.length > 0 && (
+        <ul className="text-xs text-warning space-y-0.5" role="status">
+          {result.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+        </ul>
+      )}
+
+      <div className="grid gap-4 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+        <section className="min-w-0">
+          <h4 className="text-xs font-bold text-text-secondary uppercase tracking-widest mb-2">{t('plan.review.tree')}</h4>
+          <ul className="max-h-[50vh] overflow-y-auto custom-scrollbar rounded-lg border border-border-subtle divide-y divide-border-subtle">
+            {rows.map(({ task, depth, hasChildren }) => (
+              <li key={task.id} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+                <span className="shrink-0 w-12 font-mono text-[11px] text-text-secondary">
+                  {task.wbs}
+                </span>
+                {task.isMilestone && <Flag className="w-3.5 h-3.5 shrink-0 text-primary" aria-hidden="true" />}
+                <span className={cn('min-w-0 flex-1 truncate', hasChildren && 'font-semibold')} style={{ paddingLeft: depth * 12 }}>
+                  {task.title}
+                </span>
+                {(task.predecessors ?? []).length > 0 && (
+                  <span className="shrink-0 text-[11px] text-text-secondary" title={t('plan.review.predecessors')}>
+                    ← {(task.predecessors ?? []).map(item => formatPredecessor(remapPredecessor(item, wbsById))).join(', ')}
+                  </span>
+                )}
+                <span className="shrink-0 w-16 text-right text-[11px] text-text-secondary">{describeDuration(task)}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+        <section className="min-w-0">
+          <h4 className="text-xs font-bold text-text-secondary uppercase tracking-widest mb-2">{t('plan.review.timeline')}</h4>
+          <div className="h-[50vh] rounded-lg border border-border-subtle overflow-hidden">
+            <GanttChart tasks={tasks} readOnly calendar={calendar} />
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+});
+PlanReview.displayName = 'PlanReview';
+
+export const PlanFromDocumentModal = memo<PlanFromDocumentModalProps>(({
+  isOpen,
+  onClose,
+  status,
+  steps,
+  result,
+  error,
+  calendar,
+  onGenerate,
+  onApply,
+  onDiscard,
+  onReset,
+}) => {
+  const { t } = useI18n();
+  const [file, setFile] = useState<File | null>(null);
+  const [instructions, setInstructions] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [isFinishing, setIsFinishing] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen && status === 'idle') {
+      setFile(null);
+      setInstructions('');
+      setStartDate(formatDateInput(Date.now()));
+    }
+  }, [isOpen, status]);
+
+  const handleSubmit = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    onGenerate({ file, instructions, startDate: parseDateInput(startDate) });
+  }, [file, instructions, startDate, onGenerate]);
+
+  // A running request keeps going in the background and the draft stays pending in the drafts
+  // panel, so closing only hides the modal.
+  const handleClose = useCallback(() => {
+    if (status !== 'running') onReset();
+    onClose();
+  }, [status, onReset, onClose]);
+
+  const finish = useCallback(async (action: (draftId: string) => Promise<void>) => {
+    if (!result) return;
+    setIsFinishing(true);
+    try {
+      await action(result.draft.id);
+    } finally {
+      setIsFinishing(false);
+    }
+    onReset();
+    onClose();
+  }, [result, onReset, onClose]);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={status === 'review' ? t('plan.review.title') : t('plan.title')}
+      className={status === 'review' ? 'max-w-6xl' : 'max-w-lg'}
+    >
+      {(status === 'idle' || status === 'error') && (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <p className="text-sm text-text-secondary">{t('plan.description')}</p>
+          <div>
+            <span className="block text-sm font-medium text-text-secondary mb-1.5">
+              {t('plan.document')} <span className="text-critical">*</span>
+            </span>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_FILES}
+              className="hidden"
+              aria-label={t('plan.document')}
+              onChange={(event) => {
+                setFile(event.target.files?.[0] ?? null);
+                event.currentTarget.value = '';
+              }}
+            />
+            <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()} className="w-full justify-start gap-2">
+              <FileText className="w-4 h-4 shrink-0" aria-hidden="true" />
+              <span className="truncate">{file ? file.name : t('plan.choose_file')}</span>
+            </Button>
+            <p className="mt-1 text-[11px] text-text-secondary">{t('plan.document_hint')}</p>
+          </div>
+          <div>
+            <label htmlFor="plan-start" className="block text-sm font-medium text-text-secondary mb-1.5">
+              {t('plan.start_date')}
+            </label>
+            <Input id="plan-start" type="date" value={startDate} onChange={(event) => setStartDate(event.target.value)} />
+          </div>
+          <div>
+            <label htmlFor="plan-instructions" className="block text-sm font-medium text-text-secondary mb-1.5">
+              {t('plan.instructions')} <span className="text-xs text-text-secondary/60 font-normal">{t('project.create.optional')}</span>
+            </label>
+            <textarea
+              id="plan-instructions"
+              value={instructions}
+              onChange={(event) => setInstructions(event.target.value)}
+              className="flex min-h-[80px] w-full rounded-md border border-border-subtle bg-surface px-3 py-2 text-sm ring-offset-background placeholder:text-text-secondary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 resize-none"
+              placeholder={t('plan.instructions_placeholder')}
+              rows={3}
+            />
+          </div>
+          {error && <p className="text-sm text-negative" role="alert">{t('plan.failed_detail', { error })}</p>}
+          <div className="flex justify-end gap-3 mt-2">
+            <Button type="button" variant="outline" onClick={handleClose}>
+              {t('project.create.cancel')}
+            </Button>
+            <Button type="submit" disabled={!file}>
+              {t('plan.generate')}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {status === 'running' && (
+        <ol className="space-y-2 py-2" aria-live="polite">
+          {steps.map((step, index) => {
+            const isCurrent = index === steps.length - 1;
+            return (
+              <li key={`${step}-${index}`} className={cn('flex items-center gap-2 text-sm', isCurrent ? 'text-text-primary' : 'text-text-secondary')}>
+                {isCurrent
+                  ? <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+                  : <Check className="w-4 h-4 text-success" aria-hidden="true" />}
+                {step}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {status === 'review' && result && (
+        <div className="space-y-4">
+          <PlanReview result={result} calendar={calendar} />
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="ghost" onClick={handleClose} disabled={isFinishing}>
+              {t('plan.review.later')}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => void finish(onDiscard)} disabled={isFinishing}>
+              {t('plan.review.discard')}
+            </Button>
+            <Button type="button" onClick={() => void finish(onApply)} isLoading={isFinishing}>
+              {t('plan.review.apply')}
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+});
+PlanFromDocumentModal.displayName = 'PlanFromDocumentModal';
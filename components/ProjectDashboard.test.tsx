@@ -0,0 +1,43 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { ProjectDashboard } from './ProjectDashboard';
+import type { EarnedValueReport } from '../types';
+import { describe, it, expect } from 'vitest';
+import { I18nProvider } from '../src/i18n';
+
+const report: EarnedValueReport = {
+  projectId: 'p1',
+  baselineId: 'b1',
+  budgetAtCompletion: 56,
+  points: [
+    { at: Date.parse('2026-10-19T00:00:00Z'), plannedValue: 0, earnedValue: 0, actualCost: 0, spi: null, cpi: null },
+    { at: Date.parse('2026-10-21T00:00:00Z'), plannedValue: 20, earnedValue: 10, actualCost: 20, spi: 0.5, cpi: 0.5 },
+  ],
+};
+
+describe('ProjectDashboard', () => {
+  it('shows the latest earned value metrics and the chart', () => {
+    render(
+      <I18nProvider>
+        <ProjectDashboard earnedValue={report} baselineName="Kickoff" />
+      </I18nProvider>
+    );
+
+    expect(screen.getByText('Planned value follows baseline Kickoff')).toBeInTheDocument();
+    expect(screen.getByTitle(/Budget at completion/)).toHaveTextContent('56h');
+    expect(screen.getByTitle(/Schedule variance/)).toHaveTextContent('-10h');
+    expect(screen.getByTitle(/Schedule performance index/)).toHaveTextContent('0.50');
+    expect(screen.getByTitle(/Cost performance index/)).toHaveTextContent('0.50');
+    expect(screen.getByRole('img', { name: 'Planned value, earned value and actual cost over time' })).toBeInTheDocument();
+  });
+
+  it('explains when there is nothing to measure', () => {
+    render(
+      <I18nProvider>
+        <ProjectDashboard earnedValue={{ ...report, budgetAtCompletion: 0 }} />
+      </I18nProvider>
+    );
+
+    expect(screen.getByText(/No earned value yet/)).toBeInTheDocument();
+  });
+});
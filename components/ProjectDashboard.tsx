@@ -0,0 +1,164 @@
+import React, { useMemo, memo } from 'react';
+import type { EarnedValuePoint, EarnedValueReport } from '../types';
+import { useI18n } from '../src/i18n';
+import { cn } from '../src/utils/cn';
+
+interface ProjectDashboardProps {
+  earnedValue: EarnedValueReport | null;
+  baselineName?: string | null;
+}
+
+const WIDTH = 800;
+const HEIGHT = 260;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 52 };
+
+type Series = { key: 'plannedValue' | 'earnedValue' | 'actualCost'; className: string; dashed?: boolean };
+
+const SERIES: Series[] = [
+  { key: 'plannedValue', className: 'text-text-secondary', dashed: true },
+  { key: 'earnedValue', className: 'text-primary' },
+  { key: 'actualCost', className: 'text-warning' },
+];
+
+// Above 1 is ahead of plan (SPI) or under budget (CPI).
+const indexClass = (value: number | null) => {
+  if (value === null) return 'text-text-secondary';
+  return value >= 1 ? 'text-success' : 'text-negative';
+};
+
+const MetricTile = ({ label, value, hint, className }: { label: string; value: string; hint: string; className?: string }) => (
+  <div className="flex flex-col gap-0.5 p-3 rounded-lg border border-border-subtle bg-background" title={hint}>
+    <span className="text-[10px] font-semibold text-text-secondary uppercase tracking-wider">{label}</span>
+    <span className={cn('text-lg font-bold text-text-primary', className)}>{value}</span>
+  </div>
+);
+
+const EarnedValueChart = memo(({ points, budget, locale }: { points: EarnedValuePoint[]; budget: number; locale: string }) => {
+  const { t } = useI18n();
+  const first = points[0]?.at ?? 0;
+  const last = points[points.length - 1]?.at ?? 0;
+  const peak = Math.max(budget, ...points.flatMap((point) => [point.plannedValue, point.earnedValue, point.actualCost]), 1);
+
+  const x = (at: number) =>
+    PADDING.left + (last > first ? (at - first) / (last - first) : 1) * (WIDTH - PADDING.left - PADDING.right);
+  const y = (value: number) => HEIGHT - PADDING.bottom - (value / peak) * (HEIGHT - PADDING.top - PADDING.bottom);
+  const formatDate = (at: number) => new Date(at).toLocaleDateString(locale, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map((share) => Math.round(peak * share));
+  const labels: Record<Series['key'], string> = {
+    plannedValue: t('dashboard.pv'),
+    earnedValue: t('dashboard.ev'),
+    actualCost: t('dashboard.ac'),
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={t('dashboard.chart_label')}>
+        {ticks.map((tick) => (
+          <g key={tick} className="text-border-subtle">
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="currentColor" />
+            <text x={PADDING.left - 6} y={y(tick) + 3} textAnchor="end" fontSize={10} className="fill-text-secondary">{tick}h</text>
+          </g>
+        ))}
+        {budget > 0 && (
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={y(budget)}
+            y2={y(budget)}
+            stroke="currentColor"
+            strokeDasharray="2 4"
+            className="text-text-primary"
+          >
+            <title>{t('dashboard.bac')}</title>
+          </line>
+        )}
+        {SERIES.map((series) => (
+          <polyline
+            key={series.key}
+            fill="none"
+            stroke="currentColor"
+            strokeWidth={2}
+            strokeDasharray={series.dashed ? '6 4' : undefined}
+            className={series.className}
+            points={points.map((point) => `${x(point.at)},${y(point[series.key])}`).join(' ')}
+          />
+        ))}
+        {[first, last].filter((at, index, all) => all.indexOf(at) === index).map((at) => (
+          <text
+            key={at}
+            x={x(at)}
+            y={HEIGHT - 8}
+            textAnchor={at === first && last > first ? 'start' : 'end'}
+            fontSize={10}
+            className="fill-text-secondary"
+          >
+            {formatDate(at)}
+          </text>
+        ))}
+      </svg>
+      <div className="flex items-center gap-4 text-[11px] text-text-secondary">
+        {SERIES.map((series) => (
+          <span key={series.key} className="flex items-center gap-1.5">
+            <span className={cn('w-4 border-t-2', series.dashed && 'border-dashed', series.className)} style={{ borderColor: 'currentColor' }} />
+            {labels[series.key]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+});
+
+// Earned value at a glance: the latest PV, EV, AC and indices, and how they got there.
+export const ProjectDashboard: React.FC<ProjectDashboardProps> = memo(({ earnedValue, baselineName }) => {
+  const { t, locale } = useI18n();
+  const latest = earnedValue?.points[earnedValue.points.length - 1] ?? null;
+
+  const formatHours = useMemo(() => {
+    const format = new Intl.NumberFormat(locale, { maximumFractionDigits: 1 });
+    return (value: number) => `${format.format(value)}h`;
+  }, [locale]);
+  const formatIndex = (value: number | null) => (value === null ? t('common.na') : value.toFixed(2));
+
+  if (!earnedValue || !latest || earnedValue.budgetAtCompletion <= 0) {
+    return <div className="p-8 text-center text-text-secondary">{t('dashboard.empty')}</div>;
+  }
+
+  return (
+    <div className="flex flex-col h-full bg-surface border border-border-subtle rounded-xl overflow-auto shadow-sm">
+      <div className="flex items-center justify-between px-4 py-2 bg-background border-b border-border-subtle shrink-0">
+        <div className="flex flex-col">
+          <span className="text-sm font-semibold text-text-primary">{t('dashboard.title')}</span>
+          <span className="text-[11px] text-text-secondary">
+            {baselineName ? t('dashboard.against_baseline', { name: baselineName }) : t('dashboard.against_plan')}
+          </span>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-8 gap-2 p-4">
+        <MetricTile label={t('dashboard.bac')} value={formatHours(earnedValue.budgetAtCompletion)} hint={t('dashboard.bac_hint')} />
+        <MetricTile label={t('dashboard.pv')} value={formatHours(latest.plannedValue)} hint={t('dashboard.pv_hint')} />
+        <MetricTile label={t('dashboard.ev')} value={formatHours(latest.earnedValue)} hint={t('dashboard.ev_hint')} />
+        <MetricTile label={t('dashboard.ac')} value={formatHours(latest.actualCost)} hint={t('dashboard.ac_hint')} />
+        <MetricTile
+          label={t('dashboard.sv')}
+          value={formatHours(latest.earnedValue - latest.plannedValue)}
+          hint={t('dashboard.sv_hint')}
+          className={latest.earnedValue >= latest.plannedValue ? 'text-success' : 'text-negative'}
+        />
+        <MetricTile label={t('dashboard.spi')} value={formatIndex(latest.spi)} hint={t('dashboard.spi_hint')} className={indexClass(latest.spi)} />
+        <MetricTile
+          label={t('dashboard.cv')}
+          value={latest.actualCost > 0 ? formatHours(latest.earnedValue - latest.actualCost) : t('common.na')}
+          hint={t('dashboard.cv_hint')}
+          className={latest.actualCost > 0 ? indexClass(latest.cpi) : undefined}
+        />
+        <MetricTile label={t('dashboard.cpi')} value={formatIndex(latest.cpi)} hint={t('dashboard.cpi_hint')} className={indexClass(latest.cpi)} />
+      </div>
+      <div className="px-4 pb-4">
+        <EarnedValueChart points={earnedValue.points} budget={earnedValue.budgetAtCompletion} locale={locale} />
+        {latest.actualCost === 0 && (
+          <p className="mt-2 text-[11px] text-text-secondary">{t('dashboard.no_costs')}</p>
+        )}
+      </div>
+    </div>
+  );
+});
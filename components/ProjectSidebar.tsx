@@ -3,7 +3,7 @@ import { Project } from '../types';
 import { useI18n } from '../src/i18n';
 import { cn } from '../src/utils/cn';
 import { Button } from './ui/Button';
-import { Plus, ChevronLeft, Trash2, Lightbulb } from 'lucide-react';
+import { Plus, ChevronLeft, Trash2, Lightbulb, ArchiveRestore } from 'lucide-react';
 
 interface ProjectSidebarProps {
   topSlot?: React.ReactNode;
@@ -12,6 +12,7 @@ interface ProjectSidebarProps {
   onSelectProject: (id: string) => void;
   onCreateProject: () => void;
   onDeleteProject: (id: string) => void;
+  onOpenTrash?: () => void;
   onClose: () => void;
 }
 
@@ -22,6 +23,7 @@ export const ProjectSidebar = memo<ProjectSidebarProps>(({
   onSelectProject,
   onCreateProject,
   onDeleteProject,
+  onOpenTrash,
   onClose,
 }) => {
   const { t } = useI18n();
@@ -52,6 +54,17 @@ export const ProjectSidebar = memo<ProjectSidebarProps>(({
           >
             <Plus className="w-4 h-4" />
           </Button>
+          {onOpenTrash && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onOpenTrash}
+              className="h-8 w-8 text-text-secondary hover:text-primary"
+              title={t('app.sidebar.trash')}
+            >
+              <ArchiveRestore className="w-4 h-4" />
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="icon"
@@ -1,15 +1,33 @@
 import React, { useMemo, memo, useCallback, ChangeEvent } from 'react';
-import { Task, TaskStatus, Priority } from '../types';
-import { getTaskStart, getTaskEnd } from '../src/utils';
+import { DependencyType, Task, TaskLink, TaskStatus } from '../types';
+import {
+  getTaskStart,
+  getTaskEnd,
+  formatDateInput,
+  parseDateInput,
+  findPredecessorTask,
+  fromTaskLink,
+  linkedStart,
+  predecessorRef,
+  toTaskLink,
+  getDescendantIds,
+  resolveParentIds,
+} from '../src/utils';
 import { useI18n } from '../src/i18n';
-import { getPriorityLabel, getStatusLabel } from '../src/i18n/labels';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
+import { TaskPrioritySelect, TaskStatusSelect } from './TaskFieldInputs';
 import { cn } from '../src/utils/cn';
 import { X, AlertTriangle, Check, Trash2, Calendar } from 'lucide-react';
 
 const DAY_MS = 86400000;
 const clampCompletion = (value: number) => Math.min(100, Math.max(0, value));
+// An emptied field clears the effort.
+const parseHours = (value: string) => {
+  const hours = Number(value);
+  return value.trim() === '' || !Number.isFinite(hours) ? null : Math.max(0, hours);
+};
+const DEPENDENCY_TYPES: DependencyType[] = ['FS', 'SS', 'FF', 'SF'];
 
 interface TaskDetailPanelProps {
   selectedTask: Task;
@@ -18,22 +36,6 @@ interface TaskDetailPanelProps {
   tasks: Task[];
 }
 
-const formatDateInput = (value?: number) => {
-  if (!value) return '';
-  const date = new Date(value);
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const dayNum = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${dayNum}`;
-};
-
-const parseDateInput = (value: string) => {
-  if (!value) return undefined;
-  const [year, month, dayNum] = value.split('-').map(Number);
-  if (!year || !month || !dayNum) return undefined;
-  return new Date(year, month - 1, dayNum).getTime();
-};
-
 export const TaskDetailPanel = memo<TaskDetailPanelProps>(({
   selectedTask,
   onClose,
@@ -44,33 +46,65 @@ export const TaskDetailPanel = memo<TaskDetailPanelProps>(({
 
   const predecessorDetails = useMemo(() => {
     if (!selectedTask) return [];
-    const refs = selectedTask.predecessors || [];
-    return refs.map(ref => {
-      const match = tasks.find(task => task.id === ref || task.wbs === ref);
+    const duration = Math.max(DAY_MS, getTaskEnd(selectedTask) - getTaskStart(selectedTask));
+    return (selectedTask.predecessors || []).map(entry => {
+      const link = toTaskLink(entry);
+      const match = findPredecessorTask(tasks, entry);
       if (!match) {
-        return { ref, task: null, conflict: false };
+        return { ref: link.ref, link, task: null, conflict: false, requiredStart: 0 };
       }
-      const conflict = getTaskEnd(match) > getTaskStart(selectedTask);
-      return { ref, task: match, conflict };
+      const requiredStart = linkedStart(link, { start: getTaskStart(match), end: getTaskEnd(match) }, duration);
+      return { ref: link.ref, link, task: match, conflict: requiredStart > getTaskStart(selectedTask), requiredStart };
     });
   }, [selectedTask, tasks]);
 
   const hasPredecessorConflicts = predecessorDetails.some(item => item.conflict);
 
   const availableTasks = useMemo(() => {
+    const refs = new Set((selectedTask.predecessors || []).map(predecessorRef));
     return tasks.filter(task =>
       task.id !== selectedTask.id &&
-      !selectedTask.predecessors?.includes(task.id) &&
-      (!task.wbs || !selectedTask.predecessors?.includes(task.wbs))
+      !refs.has(task.id) &&
+      (!task.wbs || !refs.has(task.wbs))
     );
   }, [tasks, selectedTask]);
 
+  // Summary tasks take their dates and completion from their subtasks.
+  const parentIds = useMemo(() => resolveParentIds(tasks), [tasks]);
+  const isSummary = useMemo(
+    () => Array.from(parentIds.values()).includes(selectedTask.id),
+    [parentIds, selectedTask.id]
+  );
+  const parentOptions = useMemo(() => {
+    const descendants = getDescendantIds(tasks, selectedTask.id);
+    return tasks.filter(task =>
+      task.id !== selectedTask.id &&
+      task.projectId === selectedTask.projectId &&
+      !descendants.has(task.id)
+    );
+  }, [tasks, selectedTask.id, selectedTask.projectId]);
+
+  // Moving to the top level also gives a numbered task a top-level code, since its current code
+  // would otherwise keep it under the same summary.
+  const handleParentChange = useCallback((parentId: string) => {
+    if (parentId) {
+      onUpdate(selectedTask.id, { parentId });
+      return;
+    }
+    const topLevelCount = tasks.filter(task =>
+      task.projectId === selectedTask.projectId && task.wbs && !parentIds.get(task.id)
+    ).length;
+    onUpdate(selectedTask.id, selectedTask.wbs
+      ? { parentId: null, wbs: String(topLevelCount + 1) }
+      : { parentId: null });
+  }, [onUpdate, parentIds, selectedTask, tasks]);
+
   const handleUpdate = useCallback((field: keyof Task, value: unknown) => {
     onUpdate(selectedTask.id, { [field]: value });
   }, [onUpdate, selectedTask.id]);
 
   const handleRemovePredecessor = useCallback((ref: string) => {
-    const predecessors = (selectedTask.predecessors || []).filter(p => p !== ref);
+    const predecessors = (selectedTask.predecessors || []).filter(p => predecessorRef(p) !== ref);
     onUpdate(selectedTask.id, { predecessors });
   }, [onUpdate, selectedTask]);
 
@@ -79,15 +113,21 @@ export const TaskDetailPanel = memo<TaskDetailPanelProps>(({
     onUpdate(selectedTask.id, { predecessors });
   }, [onUpdate, selectedTask]);
 
+  const handleUpdateLink = useCallback((ref: string, changes: Partial<TaskLink>) => {
+    const predecessors = (selectedTask.predecessors || []).map(p =>
+      predecessorRef(p) === ref ? fromTaskLink({ ...toTaskLink(p), ...changes }) : p
+    );
+    onUpdate(selectedTask.id, { predecessors });
+  }, [onUpdate, selectedTask]);
+
   const handleFixSchedule = useCallback(() => {
-    const maxEnd = predecessorDetails.reduce((acc, item) => {
+    const nextStart = predecessorDetails.reduce((acc, item) => {
       if (!item.task) return acc;
-      return Math.max(acc, getTaskEnd(item.task));
+      return Math.max(acc, item.requiredStart);
     }, getTaskStart(selectedTask));
     const currentStart = getTaskStart(selectedTask);
     const currentEnd = getTaskEnd(selectedTask);
     const duration = Math.max(DAY_MS, currentEnd - currentStart);
-    const nextStart = maxEnd;
     const nextEnd = Math.max(nextStart + DAY_MS, nextStart + duration);
     onUpdate(selectedTask.id, { startDate: nextStart, dueDate: nextEnd });
   }, [onUpdate, selectedTask, predecessorDetails]);
@@ -122,29 +162,19 @@ export const TaskDetailPanel = memo<TaskDetailPanelProps>(({
         <div className="grid grid-cols-2 gap-3">
           <div className="space-y-1.5">
             <label className="text-[10px] font-semibold text-text-secondary uppercase tracking-wider" htmlFor="task-status">{t('task.status')}</label>
-            <select
+            <TaskStatusSelect
               id="task-status"
-              className="flex h-8 w-full rounded-md border border-border-subtle bg-surface px-2 py-1 text-xs ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
               value={selectedTask.status}
-              onChange={(event) => handleUpdate('status', event.target.value as TaskStatus)}
-            >
-              <option value={TaskStatus.TODO}>{getStatusLabel(TaskStatus.TODO, t)}</option>
-              <option value={TaskStatus.IN_PROGRESS}>{getStatusLabel(TaskStatus.IN_PROGRESS, t)}</option>
-              <option value={TaskStatus.DONE}>{getStatusLabel(TaskStatus.DONE, t)}</option>
-            </select>
+              onChange={(status) => handleUpdate('status', status)}
+            />
           </div>
           <div className="space-y-1.5">
             <label className="text-[10px] font-semibold text-text-secondary uppercase tracking-wider" htmlFor="task-priority">{t('task.priority')}</label>
-            <select
+            <TaskPrioritySelect
               id="task-priority"
-              className="flex h-8 w-full rounded-md border border-border-subtle bg-surface px-2 py-1 text-xs ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
               value={selectedTask.priority}
-              onChange={(event) => handleUpdate('priority', event.target.value as Priority)}
-            >
-              <option value={Priority.LOW}>{getPriorityLabel(Priority.LOW, t)}</option>
-              <option value={Priority.MEDIUM}>{getPriorityLabel(Priority.MEDIUM, t)}</option>
-              <option value={Priority.HIGH}>{getPriorityLabel(Priority.HIGH, t)}</option>
-            </select>
+              onChange={(priority) => handleUpdate('priority', priority)}
+            />
           </div>
         </div>
 
@@ -162,6 +192,7 @@ export const TaskDetailPanel = memo<TaskDetailPanelProps>(({
                 type="date"
                 className="bg-surface h-7 text-xs px-2"
                 value={formatDateInput(selectedTask.startDate ?? selectedTask.createdAt)}
+                disabled={isSummary}
                 onChange={(event) => {
                   const startDate = parseDateInput(event.target.value);
                   if (startDate) handleUpdate('startDate', startDate);
@@ -175,6 +206,7 @@ export const TaskDetailPanel = memo<TaskDetailPanelProps>(({
                 type="date"
                 className={cn("bg-surface h-7 text-xs px-2", selectedTask.dueDate && selectedTask.dueDate < Date.now() && selectedTask.status !== TaskStatus.DONE && "border-negative text-negative")}
                 value={formatDateInput(selectedTask.dueDate)}
+                disabled={isSummary}
                 onChange={(event) => {
                   const dueDate = parseDateInput(event.target.value);
                   if (dueDate) handleUpdate('dueDate', dueDate);
@@ -182,6 +214,9 @@ export const TaskDetailPanel = memo<TaskDetailPanelProps>(({
               />
             </div>
           </div>
+          {isSummary && (
+            <p className="text-[10px] text-text-secondary">{t('task.summary_rollup')}</p>
+          )}
         </div>
 
         {/* Assignee & WBS */}
@@ -208,6 +243,24 @@ export const TaskDetailPanel = memo<TaskDetailPanelProps>(({
           </div>
         </div>
 
+        {/* Parent */}
+        <div className="space-y-1.5">
+          <label className="text-[10px] font-semibold text-text-secondary uppercase tracking-wider" htmlFor="task-parent">{t('task.parent')}</label>
+          <select
+            id="task-parent"
+            className="flex h-8 w-full rounded-md border border-border-subtle bg-surface px-2 py-1 text-xs ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+            value={parentIds.get(selectedTask.id) ?? ''}
+            onChange={(event) => handleParentChange(event.target.value)}
+          >
+            <option value="">{t('task.no_parent')}</option>
+            {parentOptions.map(task => (
+              <option key={task.id} value={task.id}>
+                {task.wbs ? `[${task.wbs}] ` : ''}{task.title}
+              </option>
+            ))}
+          </select>
+        </div>
+
         {/* Progress */}
         <div className="space-y-2">
           <div className="flex justify-between items-center">
@@ -220,11 +273,42 @@ export const TaskDetailPanel = memo<TaskDetailPanelProps>(({
             min={0}
             max={100}
             value={selectedTask.completion ?? 0}
+            disabled={isSummary}
             onChange={(event) => handleUpdate('completion', clampCompletion(Number(event.target.value)))}
-            className="w-full h-1.5 bg-secondary/20 rounded-lg appearance-none cursor-pointer accent-primary"
+            className="w-full h-1.5 bg-secondary/20 rounded-lg appearance-none cursor-pointer accent-primary disabled:cursor-not-allowed disabled:opacity-50"
           />
         </div>
 
+        {/* Effort */}
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <label className="text-[10px] font-semibold text-text-secondary uppercase tracking-wider" htmlFor="task-estimated-hours">{t('task.estimated_hours')}</label>
+            <Input
+              id="task-estimated-hours"
+              type="number"
+              min={0}
+              step={0.5}
+              placeholder={t('task.no_estimate')}
+              className="h-8 text-xs px-2"
+              value={selectedTask.estimatedHours ?? ''}
+              onChange={(event) => handleUpdate('estimatedHours', parseHours(event.target.value))}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <label className="text-[10px] font-semibold text-text-secondary uppercase tracking-wider" htmlFor="task-actual-hours">{t('task.actual_hours')}</label>
+            <Input
+              id="task-actual-hours"
+              type="number"
+              min={0}
+              step={0.5}
+              placeholder="0"
+              className="h-8 text-xs px-2"
+              value={selectedTask.actualHours ?? ''}
+              onChange={(event) => handleUpdate('actualHours', parseHours(event.target.value))}
+            />
+          </div>
+        </div>
+
         {/* Dependencies */}
         <div className="space-y-2.5 pt-3 border-t border-border-subtle">
           <label className="text-[10px] font-semibold text-text-secondary uppercase tracking-wider flex items-center gap-2">
@@ -247,6 +331,31 @@ export const TaskDetailPanel = memo<TaskDetailPanelProps>(({
                   {!item.task && (
                     <span className="text-[9px] text-negative italic">{t('task.not_found')}</span>
                   )}
+                  <div className="flex items-center gap-1.5 mt-1">
+                    <select
+                      className="h-6 rounded border border-border-subtle bg-surface px-1 text-[10px] text-text-secondary"
+                      value={item.link.type}
+                      onChange={(event) => handleUpdateLink(item.ref, { type: event.target.value as DependencyType })}
+                      aria-label={t('task.link_type')}
+                    >
+                      {DEPENDENCY_TYPES.map(type => (
+                        <option key={type} value={type}>{t(`task.link_types.${type}`)}</option>
+                      ))}
+                    </select>
+                    <Input
+                      type="number"
+                      step={1}
+                      className="h-6 w-14 bg-surface text-[10px] px-1.5"
+                      value={item.link.lagDays}
+                      onChange={(event) => {
+                        const lagDays = Math.trunc(Number(event.target.value));
+                        if (Number.isFinite(lagDays)) handleUpdateLink(item.ref, { lagDays });
+                      }}
+                      aria-label={t('task.lag_days')}
+                      title={t('task.lag_days')}
+                    />
+                    <span className="text-[9px] text-text-secondary">{t('task.lag_unit')}</span>
+                  </div>
                 </div>
                 <button
                   onClick={() => handleRemovePredecessor(item.ref)}
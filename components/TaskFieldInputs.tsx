@@ -0,0 +1,48 @@
+import React, { memo } from 'react';
+import { Priority, TaskStatus } from '../types';
+import { useI18n } from '../src/i18n';
+import { getPriorityLabel, getStatusLabel } from '../src/i18n/labels';
+import { cn } from '../src/utils/cn';
+
+const selectClassName = 'flex h-8 w-full rounded-md border border-border-subtle bg-surface px-2 py-1 text-xs ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2';
+
+interface SelectFieldProps<T> {
+  id?: string;
+  value: T;
+  onChange: (value: T) => void;
+  className?: string;
+}
+
+export const TaskStatusSelect = memo<SelectFieldProps<TaskStatus>>(({ id, value, onChange, className }) => {
+  const { t } = useI18n();
+  return (
+    <select
+      id={id}
+      className={cn(selectClassName, className)}
+      value={value}
+      onChange={(event) => onChange(event.target.value as TaskStatus)}
+    >
+      <option value={TaskStatus.TODO}>{getStatusLabel(TaskStatus.TODO, t)}</option>
+      <option value={TaskStatus.IN_PROGRESS}>{getStatusLabel(TaskStatus.IN_PROGRESS, t)}</option>
+      <option value={TaskStatus.DONE}>{getStatusLabel(TaskStatus.DONE, t)}</option>
+    </select>
+  );
+});
+TaskStatusSelect.displayName = 'TaskStatusSelect';
+
+export const TaskPrioritySelect = memo<SelectFieldProps<Priority>>(({ id, value, onChange, className }) => {
+  const { t } = useI18n();
+  return (
+    <select
+      id={id}
+      className={cn(selectClassName, className)}
+      value={value}
+      onChange={(event) => onChange(event.target.value as Priority)}
+    >
+      <option value={Priority.LOW}>{getPriorityLabel(Priority.LOW, t)}</option>
+      <option value={Priority.MEDIUM}>{getPriorityLabel(Priority.MEDIUM, t)}</option>
+      <option value={Priority.HIGH}>{getPriorityLabel(Priority.HIGH, t)}</option>
+    </select>
+  );
+});
+TaskPrioritySelect.displayName = 'TaskPrioritySelect';
@@ -0,0 +1,51 @@
+import React, { memo } from 'react';
+import { History, Loader2, X } from 'lucide-react';
+import { useI18n } from '../src/i18n';
+import { formatDateInput } from '../src/utils/date';
+import { Button } from './ui/Button';
+
+interface TimeTravelBarProps {
+  at: number;
+  min: number;
+  max: number;
+  isLoading: boolean;
+  error: string | null;
+  onChange: (at: number) => void;
+  onExit: () => void;
+}
+
+const DAY_MS = 86400000;
+
+export const TimeTravelBar = memo<TimeTravelBarProps>(({ at, min, max, isLoading, error, onChange, onExit }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 border-b border-border-subtle bg-critical/5 shrink-0">
+      <History className="w-4 h-4 text-critical shrink-0" aria-hidden="true" />
+      <span className="text-xs font-bold text-critical whitespace-nowrap">
+        {t('time_travel.viewing', { date: formatDateInput(at) })}
+      </span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={Math.min(DAY_MS, Math.max(1, max - min))}
+        value={Math.min(max, Math.max(min, at))}
+        onChange={(event) => onChange(Number(event.target.value))}
+        aria-label={t('time_travel.slider')}
+        className="flex-1 min-w-[120px] accent-critical"
+      />
+      {isLoading && <Loader2 className="w-4 h-4 animate-spin text-text-secondary" aria-hidden="true" />}
+      {error && <span className="text-xs text-negative truncate max-w-[200px]" role="alert">{error}</span>}
+      <span className="text-[10px] font-semibold uppercase tracking-wider text-text-secondary whitespace-nowrap">
+        {t('time_travel.read_only')}
+      </span>
+      <Button variant="outline" size="sm" onClick={onExit} className="h-7 gap-1.5">
+        <X className="w-3.5 h-3.5" aria-hidden="true" />
+        {t('time_travel.exit')}
+      </Button>
+    </div>
+  );
+});
+
+TimeTravelBar.displayName = 'TimeTravelBar';
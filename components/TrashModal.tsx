@@ -0,0 +1,95 @@
+import React, { memo } from 'react';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { Modal } from './Modal';
+import { Button } from './ui/Button';
+import { useI18n } from '../src/i18n';
+import { getActorLabel } from '../src/i18n/labels';
+import { formatDateInput } from '../src/utils/date';
+import type { TrashContents, TrashItem } from '../types';
+
+interface TrashModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  trash: TrashContents;
+  isLoading: boolean;
+  error: string | null;
+  restoringId: string | null;
+  onRestore: (item: TrashItem) => void;
+}
+
+const TrashRow = memo<{ item: TrashItem; detail: string; isRestoring: boolean; onRestore: (item: TrashItem) => void }>(
+  ({ item, detail, isRestoring, onRestore }) => {
+    const { t } = useI18n();
+    return (
+      <li className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg border border-border-subtle bg-background/50">
+        <div className="min-w-0">
+          <div className="truncate text-sm font-medium text-text-primary">{item.name}</div>
+          <div className="text-[11px] text-text-secondary">{detail}</div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onRestore(item)}
+          isLoading={isRestoring}
+          className="h-7 gap-1.5 shrink-0"
+        >
+          {!isRestoring && <RotateCcw className="w-3.5 h-3.5" aria-hidden="true" />}
+          {t('trash.restore')}
+        </Button>
+      </li>
+    );
+  }
+);
+TrashRow.displayName = 'TrashRow';
+
+export const TrashModal = memo<TrashModalProps>(({ isOpen, onClose, trash, isLoading, error, restoringId, onRestore }) => {
+  const { t } = useI18n();
+  const isEmpty = trash.projects.length === 0 && trash.tasks.length === 0;
+
+  const describe = (item: TrashItem) => {
+    const deleted = t('trash.deleted_by', {
+      date: formatDateInput(item.deletedAt),
+      actor: getActorLabel(item.actor, t),
+    });
+    return item.entityType === 'project'
+      ? `${t('trash.task_count', { count: item.taskCount })} · ${deleted}`
+      : deleted;
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t('trash.title')}>
+      <div className="space-y-4 max-h-[60vh] overflow-y-auto custom-scrollbar">
+        {isLoading && isEmpty && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-text-secondary" aria-hidden="true" />
+          </div>
+        )}
+        {error && <p className="text-sm text-negative" role="alert">{error}</p>}
+        {!isLoading && !error && isEmpty && (
+          <p className="text-sm text-text-secondary text-center py-6">{t('trash.empty')}</p>
+        )}
+        {trash.projects.length > 0 && (
+          <section>
+            <h4 className="text-xs font-bold text-text-secondary uppercase tracking-widest mb-2">{t('trash.projects')}</h4>
+            <ul className="space-y-1.5">
+              {trash.projects.map(item => (
+                <TrashRow key={item.auditId} item={item} detail={describe(item)} isRestoring={restoringId === item.entityId} onRestore={onRestore} />
+              ))}
+            </ul>
+          </section>
+        )}
+        {trash.tasks.length > 0 && (
+          <section>
+            <h4 className="text-xs font-bold text-text-secondary uppercase tracking-widest mb-2">{t('trash.tasks')}</h4>
+            <ul className="space-y-1.5">
+              {trash.tasks.map(item => (
+                <TrashRow key={item.auditId} item={item} detail={describe(item)} isRestoring={restoringId === item.entityId} onRestore={onRestore} />
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </Modal>
+  );
+});
+TrashModal.displayName = 'TrashModal';
@@ -0,0 +1,57 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { WorkloadView } from './WorkloadView';
+import type { Workload } from '../types';
+import { describe, it, expect } from 'vitest';
+import { I18nProvider } from '../src/i18n';
+
+const workload: Workload = {
+  from: Date.parse('2026-10-19T00:00:00Z'),
+  to: Date.parse('2026-10-22T00:00:00Z'),
+  hoursPerDay: 8,
+  assignees: [
+    {
+      assignee: 'Ana',
+      totalHours: 14,
+      actualHours: 3,
+      days: [
+        { date: '2026-10-19', hours: 4, capacity: 8 },
+        { date: '2026-10-20', hours: 10, capacity: 8 },
+        { date: '2026-10-21', hours: 0, capacity: 8 },
+      ],
+      overloadedDays: ['2026-10-20'],
+    },
+  ],
+  unestimatedTaskIds: ['t9'],
+};
+
+describe('WorkloadView', () => {
+  it('marks days over capacity and sums them by week', () => {
+    render(
+      <I18nProvider>
+        <WorkloadView workload={workload} />
+      </I18nProvider>
+    );
+
+    expect(screen.getByText('14h planned · 3h logged')).toBeInTheDocument();
+    expect(screen.getByText('1 day(s) over capacity')).toBeInTheDocument();
+    expect(screen.getByText('1 assigned task(s) have no estimate and add no load.')).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: '2026-10-20: 10h of 8h' })).toHaveAttribute('data-overloaded', 'true');
+    expect(screen.getByRole('img', { name: '2026-10-19: 4h of 8h' })).not.toHaveAttribute('data-overloaded');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Week' }));
+
+    // The quiet Wednesday absorbs Tuesday's overtime within the week.
+    expect(screen.getByRole('img', { name: '2026-10-19: 14h of 24h' })).not.toHaveAttribute('data-overloaded');
+  });
+
+  it('explains an empty workload', () => {
+    render(
+      <I18nProvider>
+        <WorkloadView workload={{ ...workload, assignees: [], unestimatedTaskIds: [] }} />
+      </I18nProvider>
+    );
+
+    expect(screen.getByText(/No estimated work is assigned yet/)).toBeInTheDocument();
+  });
+});
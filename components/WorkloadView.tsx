@@ -0,0 +1,230 @@
+import React, { useMemo, useState, memo } from 'react';
+import type { AssigneeWorkload, Workload, WorkloadDay } from '../types';
+import { useI18n } from '../src/i18n';
+import { cn } from '../src/utils/cn';
+import { Button } from './ui/Button';
+import { Scale } from 'lucide-react';
+
+interface WorkloadViewProps {
+  workload: Workload | null;
+  error?: string | null;
+  onLevel?: () => Promise<void>;  // Proposes a leveling draft for the active project
+}
+
+type Granularity = 'Day' | 'Week';
+
+type Bucket = {
+  key: string;
+  hours: number;
+  capacity: number;
+};
+
+const DAY_MS = 86400000;
+const CHART_HEIGHT = 72;
+const BAR_WIDTH: Record<Granularity, number> = { Day: 16, Week: 40 };
+// Day view labels one column a week so the axis stays readable.
+const LABEL_EVERY: Record<Granularity, number> = { Day: 7, Week: 1 };
+
+const roundHours = (value: number) => Math.round(value * 100) / 100;
+
+// Monday of the UTC week the date falls in, as YYYY-MM-DD.
+const weekStart = (date: string) => {
+  const value = Date.parse(`${date}T00:00:00Z`);
+  const offset = (new Date(value).getUTCDay() + 6) % 7;
+  return new Date(value - offset * DAY_MS).toISOString().split('T')[0];
+};
+
+// Week buckets add up hours and capacity, so a busy Monday can be absorbed by a quiet Friday.
+export const bucketWorkload = (days: WorkloadDay[], granularity: Granularity): Bucket[] => {
+  if (granularity === 'Day') return days.map((day) => ({ key: day.date, hours: day.hours, capacity: day.capacity }));
+  const buckets = new Map<string, Bucket>();
+  for (const day of days) {
+    const key = weekStart(day.date);
+    const bucket = buckets.get(key) ?? { key, hours: 0, capacity: 0 };
+    bucket.hours = roundHours(bucket.hours + day.hours);
+    bucket.capacity += day.capacity;
+    buckets.set(key, bucket);
+  }
+  return Array.from(buckets.values());
+};
+
+const AssigneeRow = memo(({ entry, buckets, scale, granularity }: {
+  entry: AssigneeWorkload;
+  buckets: Bucket[];
+  scale: number;
+  granularity: Granularity;
+}) => {
+  const { t } = useI18n();
+  const width = BAR_WIDTH[granularity];
+
+  return (
+    <div className="flex border-b border-border-subtle">
+      <div className="sticky left-0 z-10 w-56 shrink-0 px-4 py-3 bg-surface border-r border-border-subtle">
+        <div className="text-sm font-semibold text-text-primary truncate">{entry.assignee}</div>
+        <div className="text-[11px] text-text-secondary">
+          {t('workload.summary', { total: entry.totalHours, actual: entry.actualHours })}
+        </div>
+        {entry.overloadedDays.length > 0 && (
+          <div className="text-[11px] font-medium text-negative">
+            {t('workload.overloaded_days', { count: entry.overloadedDays.length })}
+          </div>
+        )}
+      </div>
+      <div className="flex items-end px-2 py-3" style={{ height: CHART_HEIGHT + 24 }}>
+        {buckets.map((bucket) => {
+          const isOverloaded = bucket.hours > bucket.capacity;
+          const label = t('workload.bar', { date: bucket.key, hours: bucket.hours, capacity: bucket.capacity });
+          return (
+            <div
+              key={bucket.key}
+              role="img"
+              aria-label={label}
+              title={label}
+              data-overloaded={isOverloaded || undefined}
+              className={cn('relative shrink-0', bucket.capacity === 0 && 'bg-background')}
+              style={{ width, height: CHART_HEIGHT }}
+            >
+              <div
+                className={cn(
+                  'absolute bottom-0 left-[2px] right-[2px] rounded-t-sm',
+                  isOverloaded ? 'bg-negative' : 'bg-primary/70'
+                )}
+                style={{ height: `${Math.min(bucket.hours / scale, 1) * 100}%` }}
+              />
+              {bucket.capacity > 0 && (
+                <div
+                  className="absolute left-0 right-0 border-t border-dashed border-text-secondary pointer-events-none"
+                  style={{ bottom: `${Math.min(bucket.capacity / scale, 1) * 100}%` }}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+});
+
+// Resource histogram: one row per assignee, a bar per day or week, with the capacity drawn over it.
+export const WorkloadView: React.FC<WorkloadViewProps> = memo(({ workload, error, onLevel }) => {
+  const { t } = useI18n();
+  const [granularity, setGranularity] = useState<Granularity>('Day');
+  const [isLeveling, setIsLeveling] = useState(false);
+
+  const handleLevel = async () => {
+    if (!onLevel) return;
+    setIsLeveling(true);
+    try {
+      await onLevel();
+    } finally {
+      setIsLeveling(false);
+    }
+  };
+
+  const rows = useMemo(
+    () => (workload?.assignees ?? []).map((entry) => ({ entry, buckets: bucketWorkload(entry.days, granularity) })),
+    [workload, granularity]
+  );
+
+  // A shared scale keeps bars comparable between people.
+  const scale = useMemo(() => {
+    const peak = Math.max(0, ...rows.flatMap((row) => row.buckets.map((bucket) => Math.max(bucket.hours, bucket.capacity))));
+    return peak > 0 ? peak : 1;
+  }, [rows]);
+
+  const axis = rows[0]?.buckets ?? [];
+  const width = BAR_WIDTH[granularity];
+  const granularityLabels: Record<Granularity, string> = {
+    Day: t('workload.view.day'),
+    Week: t('workload.view.week'),
+  };
+
+  if (error) return <div className="p-8 text-center text-negative">{t('workload.load_failed')}</div>;
+
+  return (
+    <div className="flex flex-col h-full bg-surface border border-border-subtle rounded-xl overflow-hidden relative shadow-sm">
+      {/* Controls */}
+      <div className="flex items-center justify-between px-4 py-2 bg-background border-b border-border-subtle shrink-0 z-20">
+        <div className="flex flex-col">
+          <span className="text-sm font-semibold text-text-primary">{t('workload.title')}</span>
+          <span className="text-[11px] text-text-secondary">{t('workload.subtitle')}</span>
+        </div>
+        <div className="flex items-center gap-4">
+          {onLevel && (
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => void handleLevel()}
+              disabled={isLeveling}
+              className="h-7 px-2 text-xs"
+              title={t('workload.level_hint')}
+            >
+              <Scale className="w-3.5 h-3.5 mr-1.5" />
+              {isLeveling ? t('workload.leveling') : t('workload.level')}
+            </Button>
+          )}
+          <div className="flex items-center gap-3 text-[11px] text-text-secondary">
+            <span className="flex items-center gap-1.5">
+              <span className="w-4 border-t border-dashed border-text-secondary" />
+              {t('workload.capacity')}
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="w-2.5 h-2.5 rounded-sm bg-negative" />
+              {t('workload.overloaded')}
+            </span>
+          </div>
+          <div className="flex gap-1">
+            {(['Day', 'Week'] as Granularity[]).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setGranularity(mode)}
+                className={cn(
+                  "px-3 py-1.5 text-xs font-medium rounded-md transition-colors",
+                  granularity === mode
+                    ? "bg-surface text-primary shadow border border-border-subtle"
+                    : "text-text-secondary hover:bg-surface hover:text-text-primary"
+                )}
+                aria-pressed={granularity === mode}
+              >
+                {granularityLabels[mode]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {workload && workload.unestimatedTaskIds.length > 0 && (
+        <div className="px-4 py-2 text-[11px] text-warning bg-warning/10 border-b border-border-subtle shrink-0">
+          {t('workload.unestimated', { count: workload.unestimatedTaskIds.length })}
+        </div>
+      )}
+
+      {!workload ? null : rows.length === 0 ? (
+        <div className="p-8 text-center text-text-secondary">{t('workload.empty')}</div>
+      ) : (
+        <div className="flex-1 overflow-auto">
+          <div className="inline-block min-w-full">
+            {/* Date axis */}
+            <div className="flex h-8 border-b border-border-subtle bg-surface sticky top-0 z-20">
+              <div className="sticky left-0 w-56 shrink-0 bg-surface border-r border-border-subtle" />
+              <div className="flex items-end px-2 pb-1">
+                {axis.map((bucket, index) => (
+                  <div key={bucket.key} className="relative shrink-0" style={{ width }}>
+                    {index % LABEL_EVERY[granularity] === 0 && (
+                      <span className="absolute bottom-0 left-0 text-[10px] text-text-secondary whitespace-nowrap">
+                        {bucket.key.slice(5)}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+            {rows.map(({ entry, buckets }) => (
+              <AssigneeRow key={entry.assignee} entry={entry} buckets={buckets} scale={scale} granularity={granularity} />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -1,10 +1,11 @@
 import React, { useEffect, useMemo, useState, memo } from 'react';
 import { useI18n } from '../src/i18n';
-import type { WorkspaceJoinRequest, WorkspaceMember, WorkspaceWithMembership } from '../types';
+import type { DraftApprovalPolicy, WorkCalendar, WorkspaceJoinRequest, WorkspaceMember, WorkspaceWithMembership } from '../types';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { cn } from '../src/utils/cn';
-import { X, Check, Trash2, Plus, Users, Globe, Clock, Shield, Briefcase, UserPlus } from 'lucide-react';
+import { parseDateList } from '../src/utils';
+import { X, Check, Trash2, Plus, Users, Globe, Clock, Shield, Briefcase, UserPlus, ShieldCheck, CalendarDays } from 'lucide-react';
 
 interface WorkspaceModalProps {
   isOpen: boolean;
@@ -18,8 +19,240 @@ interface WorkspaceModalProps {
   onApprove: (workspaceId: string, userId: string) => Promise<unknown> | void;
   onReject: (workspaceId: string, userId: string) => Promise<unknown> | void;
   onRemoveMember: (workspaceId: string, userId: string) => Promise<unknown> | void;
+  approvalPolicy?: DraftApprovalPolicy | null;
+  onSaveApprovalPolicy?: (workspaceId: string, policy: DraftApprovalPolicy) => Promise<unknown> | void;
+  workCalendar?: WorkCalendar | null;
+  onSaveWorkCalendar?: (workspaceId: string, calendar: WorkCalendar) => Promise<unknown> | void;
+  onImportHolidays?: (workspaceId: string, ics: string) => Promise<unknown> | void;
 }
 
+interface ApprovalPolicyFormProps {
+  policy: DraftApprovalPolicy;
+  onSave: (policy: DraftApprovalPolicy) => Promise<unknown> | void;
+}
+
+const ApprovalPolicyForm = ({ policy, onSave }: ApprovalPolicyFormProps) => {
+  const { t } = useI18n();
+  const [requiredApprovals, setRequiredApprovals] = useState(String(policy.requiredApprovals));
+  const [agentTaskThreshold, setAgentTaskThreshold] = useState(policy.agentTaskThreshold === null ? '' : String(policy.agentTaskThreshold));
+  const [adminForProjectDelete, setAdminForProjectDelete] = useState(policy.adminForProjectDelete);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setRequiredApprovals(String(policy.requiredApprovals));
+    setAgentTaskThreshold(policy.agentTaskThreshold === null ? '' : String(policy.agentTaskThreshold));
+    setAdminForProjectDelete(policy.adminForProjectDelete);
+  }, [policy]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSave({
+        requiredApprovals: Math.max(0, Number.parseInt(requiredApprovals, 10) || 0),
+        agentTaskThreshold: agentTaskThreshold.trim() === '' ? null : Math.max(0, Number.parseInt(agentTaskThreshold, 10) || 0),
+        adminForProjectDelete,
+      });
+    } catch {
+      // keep edited values on failure
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-3 p-4 rounded-xl border border-border-subtle bg-background">
+      <label className="flex items-center justify-between gap-4 text-sm text-text-primary">
+        {t('workspace.policy.required_approvals')}
+        <Input
+          type="number"
+          min={0}
+          max={10}
+          value={requiredApprovals}
+          onChange={(event) => setRequiredApprovals(event.target.value)}
+          className="w-24 h-8"
+        />
+      </label>
+      <label className="flex items-center justify-between gap-4 text-sm text-text-primary">
+        {t('workspace.policy.agent_task_threshold')}
+        <Input
+          type="number"
+          min={0}
+          value={agentTaskThreshold}
+          placeholder={t('workspace.policy.no_limit')}
+          onChange={(event) => setAgentTaskThreshold(event.target.value)}
+          className="w-24 h-8"
+        />
+      </label>
+      <label className="flex items-center justify-between gap-4 text-sm text-text-primary">
+        {t('workspace.policy.admin_for_project_delete')}
+        <input
+          type="checkbox"
+          checked={adminForProjectDelete}
+          onChange={(event) => setAdminForProjectDelete(event.target.checked)}
+          className="w-4 h-4 accent-primary"
+        />
+      </label>
+      <div className="flex justify-end">
+        <Button type="submit" size="sm" isLoading={isSaving}>
+          {t('common.save')}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+interface WorkCalendarFormProps {
+  calendar: WorkCalendar;
+  onSave: (calendar: WorkCalendar) => Promise<unknown> | void;
+  onImport?: (ics: string) => Promise<unknown> | void;
+}
+
+// Sunday-first to match Date#getUTCDay; shown Monday-first.
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const formatAvailability = (availability: Record<string, string[]>) =>
+  Object.entries(availability)
+    .map(([assignee, dates]) => `${assignee}: ${dates.join(', ')}`)
+    .join('\n');
+
+// One "Name: 2026-05-01, 2026-05-02" line per assignee.
+const parseAvailability = (text: string) => {
+  const availability: Record<string, string[]> = {};
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const assignee = line.slice(0, separator).trim();
+    const dates = parseDateList(line.slice(separator + 1));
+    if (assignee && dates.length > 0) availability[assignee] = dates;
+  }
+  return availability;
+};
+
+const textareaClassName = "flex min-h-[64px] w-full rounded-md border border-border-subtle bg-surface px-3 py-2 text-sm placeholder:text-text-secondary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary resize-y shadow-sm font-mono";
+
+const WorkCalendarForm = ({ calendar, onSave, onImport }: WorkCalendarFormProps) => {
+  const { t } = useI18n();
+  const [workingDays, setWorkingDays] = useState(calendar.workingDays);
+  const [holidays, setHolidays] = useState(calendar.holidays.join(', '));
+  const [availability, setAvailability] = useState(formatAvailability(calendar.availability));
+  const [hoursPerDay, setHoursPerDay] = useState(String(calendar.hoursPerDay));
+  const [isSaving, setIsSaving] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    setWorkingDays(calendar.workingDays);
+    setHolidays(calendar.holidays.join(', '));
+    setAvailability(formatAvailability(calendar.availability));
+    setHoursPerDay(String(calendar.hoursPerDay));
+  }, [calendar]);
+
+  const toggleDay = (weekday: number) => {
+    setWorkingDays(prev => prev.includes(weekday) ? prev.filter(day => day !== weekday) : [...prev, weekday].sort());
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (workingDays.length === 0) return;
+    setIsSaving(true);
+    try {
+      await onSave({
+        workingDays,
+        holidays: parseDateList(holidays),
+        availability: parseAvailability(availability),
+        hoursPerDay: Number(hoursPerDay) > 0 ? Math.min(24, Number(hoursPerDay)) : calendar.hoursPerDay,
+      });
+    } catch {
+      // keep edited values on failure
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !onImport) return;
+    setIsImporting(true);
+    try {
+      await onImport(await file.text());
+    } catch {
+      // the calendar stays as it was
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-3 p-4 rounded-xl border border-border-subtle bg-background">
+      <div className="flex items-center justify-between gap-4 text-sm text-text-primary">
+        {t('workspace.calendar.working_days')}
+        <div className="flex gap-1">
+          {WEEKDAY_ORDER.map(weekday => (
+            <button
+              key={weekday}
+              type="button"
+              onClick={() => toggleDay(weekday)}
+              aria-pressed={workingDays.includes(weekday)}
+              className={cn(
+                "w-9 h-8 rounded-md text-xs font-medium border transition-colors",
+                workingDays.includes(weekday)
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "bg-surface text-text-secondary border-border-subtle hover:text-text-primary"
+              )}
+            >
+              {t(`workspace.calendar.weekday.${weekday}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+      <label className="flex items-center justify-between gap-4 text-sm text-text-primary">
+        {t('workspace.calendar.hours_per_day')}
+        <Input
+          type="number"
+          min={1}
+          max={24}
+          step={0.5}
+          value={hoursPerDay}
+          onChange={(event) => setHoursPerDay(event.target.value)}
+          className="w-24 h-8"
+        />
+      </label>
+      <label className="grid gap-1.5 text-sm text-text-primary">
+        {t('workspace.calendar.holidays')}
+        <textarea
+          value={holidays}
+          onChange={(event) => setHolidays(event.target.value)}
+          placeholder="2026-12-25, 2027-01-01"
+          rows={2}
+          className={textareaClassName}
+        />
+      </label>
+      <label className="grid gap-1.5 text-sm text-text-primary">
+        {t('workspace.calendar.availability')}
+        <textarea
+          value={availability}
+          onChange={(event) => setAvailability(event.target.value)}
+          placeholder={t('workspace.calendar.availability_placeholder')}
+          rows={2}
+          className={textareaClassName}
+        />
+      </label>
+      <div className="flex items-center justify-between gap-2">
+        {onImport ? (
+          <label className="text-xs font-medium text-primary hover:underline cursor-pointer">
+            {isImporting ? t('workspace.calendar.importing') : t('workspace.calendar.import_ics')}
+            <input type="file" accept=".ics,text/calendar" className="hidden" onChange={handleImport} disabled={isImporting} />
+          </label>
+        ) : <span />}
+        <Button type="submit" size="sm" isLoading={isSaving} disabled={workingDays.length === 0}>
+          {t('common.save')}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
 const WorkspaceModal = ({
   isOpen,
   onClose,
@@ -32,6 +265,11 @@ const WorkspaceModal = ({
   onApprove,
   onReject,
   onRemoveMember,
+  approvalPolicy,
+  onSaveApprovalPolicy,
+  workCalendar,
+  onSaveWorkCalendar,
+  onImportHolidays,
 }: WorkspaceModalProps) => {
   const { t } = useI18n();
   const [name, setName] = useState('');
@@ -298,6 +536,35 @@ const WorkspaceModal = ({
                   ))}
                 </div>
               </section>
+
+              {approvalPolicy && onSaveApprovalPolicy && (
+                <section>
+                  <h4 className="text-xs font-bold text-text-secondary uppercase tracking-widest mb-1 flex items-center gap-2">
+                    <ShieldCheck className="w-4 h-4" />
+                    {t('workspace.policy.title')}
+                  </h4>
+                  <p className="text-xs text-text-secondary mb-3">{t('workspace.policy.description')}</p>
+                  <ApprovalPolicyForm
+                    policy={approvalPolicy}
+                    onSave={(policy) => onSaveApprovalPolicy(activeWorkspaceId, policy)}
+                  />
+                </section>
+              )}
+
+              {workCalendar && onSaveWorkCalendar && (
+                <section>
+                  <h4 className="text-xs font-bold text-text-secondary uppercase tracking-widest mb-1 flex items-center gap-2">
+                    <CalendarDays className="w-4 h-4" />
+                    {t('workspace.calendar.title')}
+                  </h4>
+                  <p className="text-xs text-text-secondary mb-3">{t('workspace.calendar.description')}</p>
+                  <WorkCalendarForm
+                    calendar={workCalendar}
+                    onSave={(calendar) => onSaveWorkCalendar(activeWorkspaceId, calendar)}
+                    onImport={onImportHolidays ? (ics) => onImportHolidays(activeWorkspaceId, ics) : undefined}
+                  />
+                </section>
+              )}
             </div>
           )}
 
@@ -0,0 +1,5 @@
+ALTER TABLE "workspaces" ADD COLUMN "approval_policy" jsonb;
+--> statement-breakpoint
+ALTER TABLE "drafts" ADD COLUMN "approvals" jsonb DEFAULT '[]'::jsonb NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD COLUMN "approvals" jsonb;
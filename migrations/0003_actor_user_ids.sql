@@ -0,0 +1,5 @@
+ALTER TABLE "audit_logs" ADD COLUMN "actor_user_id" text;
+--> statement-breakpoint
+ALTER TABLE "drafts" ADD COLUMN "created_by_user_id" text;
+--> statement-breakpoint
+ALTER TABLE "drafts" ADD COLUMN "applied_by_user_id" text;
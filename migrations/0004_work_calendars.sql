@@ -0,0 +1,3 @@
+ALTER TABLE "workspaces" ADD COLUMN "calendar" jsonb;
+--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "calendar" jsonb;
@@ -0,0 +1,9 @@
+CREATE TABLE "baselines" (
+	"id" text PRIMARY KEY NOT NULL,
+	"workspace_id" text NOT NULL,
+	"project_id" text NOT NULL,
+	"name" text NOT NULL,
+	"tasks" jsonb NOT NULL,
+	"created_at" bigint NOT NULL,
+	"created_by_user_id" text
+);
@@ -0,0 +1,3 @@
+ALTER TABLE "tasks" ADD COLUMN "estimated_hours" double precision;
+--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "actual_hours" double precision;
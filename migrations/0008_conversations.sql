@@ -0,0 +1,20 @@
+CREATE TABLE "conversations" (
+	"id" text PRIMARY KEY NOT NULL,
+	"workspace_id" text NOT NULL,
+	"project_id" text,
+	"title" text NOT NULL,
+	"created_at" bigint NOT NULL,
+	"updated_at" bigint NOT NULL,
+	"created_by_user_id" text
+);
+--> statement-breakpoint
+CREATE TABLE "conversation_messages" (
+	"id" text PRIMARY KEY NOT NULL,
+	"conversation_id" text NOT NULL,
+	"role" text NOT NULL,
+	"text" text NOT NULL,
+	"created_at" bigint NOT NULL,
+	"created_by_user_id" text
+);
+--> statement-breakpoint
+CREATE INDEX "conversation_messages_conversation_idx" ON "conversation_messages" ("conversation_id", "created_at");
@@ -0,0 +1,3 @@
+ALTER TABLE "drafts" ADD COLUMN "origin" jsonb;
+--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD COLUMN "origin" jsonb;
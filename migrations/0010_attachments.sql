@@ -0,0 +1,12 @@
+CREATE TABLE "attachments" (
+	"id" text PRIMARY KEY NOT NULL,
+	"workspace_id" text NOT NULL,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"kind" text NOT NULL,
+	"size" integer NOT NULL,
+	"content" bytea NOT NULL,
+	"text" text NOT NULL,
+	"created_at" bigint NOT NULL,
+	"created_by_user_id" text
+);
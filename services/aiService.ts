@@ -1,3 +1,15 @@
+import type { PlanResult } from '../types';
+
+// Where the request was logged and, for saved chats, stored; drafts created from it keep these IDs.
+type StreamResultMeta = {
+  requestId: string;
+  turns: number;
+  conversationId: string | null;
+  messageId: string | null;
+};
+
+type StreamResult = { text: string; toolCalls?: { name: string; args: unknown }[]; meta?: StreamResultMeta };
+
 export class AIService {
   private buildHeaders() {
     const headers = new Headers({ 'Content-Type': 'application/json' });
@@ -10,12 +22,12 @@ export class AIService {
     return headers;
   }
 
-  async sendMessageStream(
-    history: { role: string; parts: { text: string }[] }[],
-    newMessage: string,
-    systemContext: string | undefined,
+  // Posts to one of the streaming endpoints and reads its server-sent events until the result arrives.
+  private async postStream<T>(
+    path: string,
+    body: unknown,
     onEvent?: (event: string, data: Record<string, unknown>) => void
-  ): Promise<{ text: string; toolCalls?: { name: string; args: unknown }[] }> {
+  ): Promise<T> {
     const STREAM_IDLE_TIMEOUT_MS = 120000;
     const controller = new AbortController();
     let timeoutId: ReturnType<typeof setTimeout> | undefined;
@@ -26,10 +38,10 @@ export class AIService {
     resetTimeout();
 
     try {
-      const response = await fetch('/api/ai/stream', {
+      const response = await fetch(path, {
         method: 'POST',
         headers: this.buildHeaders(),
-        body: JSON.stringify({ history, message: newMessage, systemContext }),
+        body: JSON.stringify(body),
         signal: controller.signal,
       });
 
@@ -41,7 +53,7 @@ export class AIService {
       const reader = response.body.getReader();
       const decoder = new TextDecoder();
       let buffer = '';
-      let result: { text: string; toolCalls?: { name: string; args: unknown }[] } | null = null;
+      let result: T | null = null;
 
       const flushBuffer = (chunk: string) => {
         buffer += chunk;
@@ -77,7 +89,7 @@ export class AIService {
           onEvent?.(eventName, parsed);
 
           if (eventName === 'result') {
-            result = parsed as unknown as { text: string; toolCalls?: { name: string; args: unknown }[] };
+            result = parsed as unknown as T;
           }
 
           if (eventName === 'error') {
@@ -111,6 +123,37 @@ export class AIService {
     }
   }
 
+  async sendMessageStream(
+    history: { role: string; parts: { text: string }[] }[],
+    newMessage: string,
+    systemContext: string | undefined,
+    onEvent?: (event: string, data: Record<string, unknown>) => void,
+    conversationId?: string | null,
+    attachmentIds: string[] = [],
+    transient = false
+  ): Promise<StreamResult> {
+    return this.postStream<StreamResult>(
+      '/api/ai/stream',
+      {
+        history,
+        message: newMessage,
+        systemContext,
+        conversationId: conversationId || undefined,
+        attachmentIds: attachmentIds.length > 0 ? attachmentIds : undefined,
+        transient: transient || undefined,
+      },
+      onEvent
+    );
+  }
+
+  // Drafts a whole project plan from uploaded documents; the draft is created on the server.
+  async generatePlan(
+    request: { projectId: string; attachmentIds: string[]; instructions?: string; startDate?: number },
+    onEvent?: (event: string, data: Record<string, unknown>) => void
+  ): Promise<PlanResult> {
+    return this.postStream<PlanResult>('/api/ai/plan', request, onEvent);
+  }
+
   async sendMessage(
     history: { role: string; parts: { text: string }[] }[],
     newMessage: string,
@@ -1,4 +1,4 @@
-import type { ApiResponse, AuditLog, Draft, DraftAction, Project, Task, User, Workspace, WorkspaceJoinRequest, WorkspaceMember, WorkspaceMemberActionResult, WorkspaceMembership, WorkspaceWithMembership } from '../types';
+import type { ApiResponse, AttachmentInfo, AuditLog, Baseline, BaselineComparison, Conversation, ConversationDetail, ConversationMessage, Draft, DraftAction, DraftActionDecision, DraftApplyFailure, DraftApprovalPolicy, DraftApprovalStatus, DraftConflict, DraftOrigin, DraftRevertConflict, EarnedValueReport, GraphValidation, LevelingResult, Project, ProjectCalendarState, ProjectSchedule, ProjectSnapshot, Task, TrashContents, User, WorkCalendar, Workspace, WorkspaceJoinRequest, WorkspaceMember, WorkspaceMemberActionResult, WorkspaceMembership, WorkspaceWithMembership, Workload } from '../types';
 
 type QueryParams = Record<string, string | number | boolean | undefined | null>;
 
@@ -31,11 +31,34 @@ const buildHeaders = (headers?: HeadersInit): Headers => {
   return merged;
 };
 
+export class ApiRequestError extends Error {
+  code: string;
+  failure?: DraftApplyFailure;
+  conflicts?: DraftConflict[];
+  approval?: DraftApprovalStatus;
+
+  constructor(
+    message: string,
+    code: string,
+    details: { failure?: DraftApplyFailure; conflicts?: DraftConflict[]; approval?: DraftApprovalStatus } = {}
+  ) {
+    super(message);
+    this.code = code;
+    this.failure = details.failure;
+    this.conflicts = details.conflicts;
+    this.approval = details.approval;
+  }
+}
+
 const fetchJson = async <T>(input: RequestInfo, init?: RequestInit): Promise<T> => {
   const response = await fetch(input, { ...init, headers: buildHeaders(init?.headers) });
   const payload: ApiResponse<T> = await response.json();
   if (!response.ok || !payload.success || payload.data === undefined) {
-    throw new Error(payload.error?.message || 'Request failed.');
+    throw new ApiRequestError(
+      payload.error?.message || 'Request failed.',
+      payload.error?.code || 'REQUEST_FAILED',
+      { failure: payload.error?.failure, conflicts: payload.error?.conflicts, approval: payload.error?.approval }
+    );
   }
   return payload.data;
 };
@@ -78,6 +101,28 @@ export const apiService = {
     fetchJson<WorkspaceMember[]>(`/api/workspaces/${id}/members`),
   removeWorkspaceMember: (workspaceId: string, userId: string) =>
     fetchJson<WorkspaceMemberActionResult>(`/api/workspaces/${workspaceId}/members/${userId}`, { method: 'DELETE' }),
+  getApprovalPolicy: (workspaceId: string) =>
+    fetchJson<DraftApprovalPolicy>(`/api/workspaces/${workspaceId}/approval-policy`),
+  updateApprovalPolicy: (workspaceId: string, policy: Partial<DraftApprovalPolicy>) =>
+    fetchJson<DraftApprovalPolicy>(`/api/workspaces/${workspaceId}/approval-policy`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(policy),
+    }),
+  getWorkspaceCalendar: (workspaceId: string) =>
+    fetchJson<WorkCalendar>(`/api/workspaces/${workspaceId}/calendar`),
+  updateWorkspaceCalendar: (workspaceId: string, calendar: Partial<WorkCalendar>) =>
+    fetchJson<WorkCalendar>(`/api/workspaces/${workspaceId}/calendar`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(calendar),
+    }),
+  importWorkspaceHolidays: (workspaceId: string, ics: string) =>
+    fetchJson<{ calendar: WorkCalendar; imported: number }>(`/api/workspaces/${workspaceId}/calendar/holidays/import`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ics }),
+    }),
 
   listProjects: () => fetchJson<Project[]>('/api/projects'),
   getProject: (id: string) => fetchJson<Project>(`/api/projects/${id}`),
@@ -93,6 +138,38 @@ export const apiService = {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(data),
     }),
+  getProjectSnapshot: (id: string, at: number) =>
+    fetchJson<ProjectSnapshot>(`/api/projects/${id}/snapshot${buildQueryString({ at })}`),
+  getProjectSchedule: (id: string) =>
+    fetchJson<ProjectSchedule>(`/api/projects/${id}/schedule`),
+  getProjectCalendar: (id: string) =>
+    fetchJson<ProjectCalendarState>(`/api/projects/${id}/calendar`),
+  updateProjectCalendar: (id: string, calendar: Partial<WorkCalendar> | null) =>
+    fetchJson<ProjectCalendarState>(`/api/projects/${id}/calendar`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ calendar }),
+    }),
+  listBaselines: (id: string) =>
+    fetchJson<Baseline[]>(`/api/projects/${id}/baselines`),
+  createBaseline: (id: string, name?: string) =>
+    fetchJson<Baseline>(`/api/projects/${id}/baselines`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+    }),
+  compareBaseline: (id: string, baselineId: string) =>
+    fetchJson<BaselineComparison>(`/api/projects/${id}/baselines/${baselineId}/compare`),
+  getEarnedValue: (id: string, baselineId?: string | null) =>
+    fetchJson<EarnedValueReport>(`/api/projects/${id}/earned-value${buildQueryString({ baselineId })}`),
+  levelProject: (id: string) =>
+    fetchJson<LevelingResult>(`/api/projects/${id}/level`, { method: 'POST' }),
+  validateProjectGraph: (id: string, actions: Array<Pick<DraftAction, 'entityType' | 'action' | 'entityId' | 'after'>> = []) =>
+    fetchJson<GraphValidation>(`/api/projects/${id}/validate-graph`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ actions }),
+    }),
   deleteProject: (id: string) =>
     fetchJson<{ project: Project; deletedTasks: number }>(`/api/projects/${id}`, {
       method: 'DELETE',
@@ -125,12 +202,15 @@ export const apiService = {
     status?: Task['status'];
     priority?: Task['priority'];
     wbs?: string;
+    parentId?: string | null;
     startDate?: number;
     dueDate?: number;
     completion?: number;
     assignee?: string;
+    estimatedHours?: number | null;
+    actualHours?: number | null;
     isMilestone?: boolean;
-    predecessors?: string[];
+    predecessors?: Task['predecessors'];
     createdAt?: number;
     updatedAt?: number;
   }) =>
@@ -152,17 +232,43 @@ export const apiService = {
 
   listDrafts: () => fetchJson<Draft[]>('/api/drafts'),
   getDraft: (id: string) => fetchJson<Draft>(`/api/drafts/${id}`),
-  createDraft: (data: { projectId?: string; createdBy?: Draft['createdBy']; reason?: string; actions: DraftAction[] }) =>
+  createDraft: (data: { projectId?: string; createdBy?: Draft['createdBy']; reason?: string; actions: DraftAction[]; origin?: DraftOrigin }) =>
     fetchJson<{ draft: Draft; warnings: string[] }>('/api/drafts', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(data),
     }),
-  applyDraft: (id: string, actor: Draft['createdBy']) =>
+  applyDraft: (id: string, actor: Draft['createdBy'], options: { force?: boolean; actionIds?: string[] } = {}) =>
     fetchJson<{ draft: Draft; results: DraftAction[] }>(`/api/drafts/${id}/apply`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ actor }),
+      body: JSON.stringify({ actor, ...options }),
+    }),
+  updateDraftAction: (id: string, actionId: string, after: Record<string, unknown>) =>
+    fetchJson<{ draft: Draft; warnings: string[] }>(`/api/drafts/${id}/actions/${actionId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ after }),
+    }),
+  setDraftActionDecision: (id: string, actionId: string, decision: DraftActionDecision | null) =>
+    fetchJson<Draft>(`/api/drafts/${id}/actions/${actionId}/decision`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ decision }),
+    }),
+  approveDraft: (id: string) =>
+    fetchJson<Draft>(`/api/drafts/${id}/approve`, {
+      method: 'POST',
+    }),
+  rebaseDraft: (id: string) =>
+    fetchJson<Draft>(`/api/drafts/${id}/rebase`, {
+      method: 'POST',
+    }),
+  revertDraft: (id: string, options: { actor?: Draft['createdBy']; apply?: boolean } = {}) =>
+    fetchJson<{ draft: Draft; warnings: string[]; conflicts: DraftRevertConflict[] }>(`/api/drafts/${id}/revert`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(options),
     }),
   discardDraft: (id: string) =>
     fetchJson<Draft>(`/api/drafts/${id}/discard`, {
@@ -175,6 +281,7 @@ export const apiService = {
     page?: number;
     pageSize?: number;
     actor?: string;
+    actorUserId?: string;
     action?: string;
     entityType?: string;
     q?: string;
@@ -186,4 +293,56 @@ export const apiService = {
     );
   },
   getAuditLog: (id: string) => fetchJson<AuditLog>(`/api/audit/${id}`),
+  rollbackAuditLog: (id: string, actor: AuditLog['actor'] = 'user') =>
+    fetchJson<AuditLog>(`/api/audit/${id}/rollback`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ actor }),
+    }),
+
+  getWorkload: (params: { from?: number; to?: number } = {}) =>
+    fetchJson<Workload>(`/api/workload${buildQueryString(params)}`),
+  listConversations: (projectId?: string) =>
+    fetchJson<Conversation[]>(`/api/conversations${buildQueryString({ projectId })}`),
+  getConversation: (id: string) => fetchJson<ConversationDetail>(`/api/conversations/${id}`),
+  createConversation: (data: { projectId?: string | null; title?: string }) =>
+    fetchJson<Conversation>('/api/conversations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    }),
+  renameConversation: (id: string, title: string) =>
+    fetchJson<Conversation>(`/api/conversations/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title }),
+    }),
+  deleteConversation: (id: string) =>
+    fetchJson<Conversation>(`/api/conversations/${id}`, { method: 'DELETE' }),
+  appendConversationMessages: (id: string, messages: Array<Pick<ConversationMessage, 'text'> & { role: 'user' | 'system' }>) =>
+    fetchJson<ConversationMessage[]>(`/api/conversations/${id}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ messages }),
+    }),
+  uploadAttachment: (file: File) => {
+    const body = new FormData();
+    body.append('file', file);
+    return fetchJson<AttachmentInfo>('/api/attachments', { method: 'POST', body });
+  },
+  deleteAttachment: (id: string) =>
+    fetchJson<AttachmentInfo>(`/api/attachments/${id}`, { method: 'DELETE' }),
+  listTrash: () => fetchJson<TrashContents>('/api/trash'),
+  restoreProject: (id: string) =>
+    fetchJson<{ project: Project; tasks: Task[]; warnings: string[] }>(`/api/trash/projects/${id}/restore`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ actor: 'user' }),
+    }),
+  restoreTask: (id: string) =>
+    fetchJson<{ task: Task; warnings: string[] }>(`/api/trash/tasks/${id}/restore`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ actor: 'user' }),
+    }),
 };
@@ -108,6 +108,28 @@ const toolHandlers: Record<string, ToolHandlerFunction> = {
     return { output };
   },
 
+  validateProjectGraph: async (args, { api, activeProjectId, pushProcessingStep, t }) => {
+    const projectId = typeof args.projectId === 'string' ? args.projectId : activeProjectId;
+    if (!projectId) {
+      return { output: t('tool.error.invalid_project_id') };
+    }
+    pushProcessingStep?.(t('processing.validating_dependencies'));
+    const actions = Array.isArray(args.actions) ? (args.actions as DraftAction[]) : [];
+    const result = await api.validateProjectGraph(projectId, actions);
+    if (result.valid) {
+      return { output: t('tool.graph.valid') };
+    }
+    const parts: string[] = [];
+    if (result.cyclePath) parts.push(t('tool.graph.cycle', { path: result.cyclePath }));
+    if (result.danglingRefs.length > 0) {
+      parts.push(t('tool.graph.dangling', {
+        count: result.danglingRefs.length,
+        refs: result.danglingRefs.map(item => item.ref).join(', '),
+      }));
+    }
+    return { output: parts.join(' ') };
+  },
+
   // Write tools - return draft actions instead of executing directly
   createProject: (args, { activeProjectId, generateId }) => {
     const draftActions: DraftAction[] = [{
@@ -172,10 +194,13 @@ const toolHandlers: Record<string, ToolHandlerFunction> = {
         status: args.status,
         priority: args.priority,
         wbs: args.wbs,
+        parentId: args.parentId,
         startDate: args.startDate,
         dueDate: args.dueDate,
         completion: args.completion,
         assignee: args.assignee,
+        estimatedHours: args.estimatedHours,
+        actualHours: args.actualHours,
         isMilestone: args.isMilestone,
         predecessors: args.predecessors,
       },
@@ -199,10 +224,13 @@ const toolHandlers: Record<string, ToolHandlerFunction> = {
         status: args.status,
         priority: args.priority,
         wbs: args.wbs,
+        parentId: args.parentId,
         startDate: args.startDate,
         dueDate: args.dueDate,
         completion: args.completion,
         assignee: args.assignee,
+        estimatedHours: args.estimatedHours,
+        actualHours: args.actualHours,
         isMilestone: args.isMilestone,
         predecessors: args.predecessors,
       },
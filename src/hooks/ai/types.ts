@@ -2,7 +2,7 @@
  * Types for AI hooks and tool handlers
  */
 
-import type { DraftAction, Project, Task } from '../../../types';
+import type { DraftAction, GraphValidation, Project, Task } from '../../../types';
 
 export interface ApiClient {
   listProjects(): Promise<Project[]>;
@@ -22,6 +22,7 @@ export interface ApiClient {
     pageSize?: number;
   }): Promise<{ data: Task[]; total: number; page: number; pageSize: number }>;
   getTask(id: string): Promise<Task>;
+  validateProjectGraph(projectId: string, actions: DraftAction[]): Promise<GraphValidation>;
   createDraft(data: {
     projectId?: string;
     createdBy: 'user' | 'agent' | 'system';
@@ -9,11 +9,13 @@ import { I18nProvider } from '../i18n';
 vi.mock('../../services/apiService', () => ({
   apiService: {
     listAuditLogs: vi.fn(),
+    rollbackAuditLog: vi.fn(),
   },
 }));
 
 const api = apiService as unknown as {
   listAuditLogs: ReturnType<typeof vi.fn>;
+  rollbackAuditLog: ReturnType<typeof vi.fn>;
 };
 
 const logs: AuditLog[] = [
@@ -57,6 +59,7 @@ describe('useAuditLogs', () => {
     act(() => {
       result.current.setAuditFilters({
         actor: 'user',
+        actorUserId: 'u1',
         action: 'all',
         entityType: 'all',
         q: '',
@@ -65,6 +68,31 @@ describe('useAuditLogs', () => {
       });
     });
 
-    await waitFor(() => expect(api.listAuditLogs).toHaveBeenCalledWith(expect.objectContaining({ actor: 'user' })));
+    await waitFor(() => expect(api.listAuditLogs).toHaveBeenCalledWith(expect.objectContaining({ actor: 'user', actorUserId: 'u1' })));
+  });
+
+  it('rolls back an audit entry and refreshes data', async () => {
+    const refreshData = vi.fn(async () => {});
+    const appendSystemMessage = vi.fn();
+    api.rollbackAuditLog.mockResolvedValue({ ...logs[0], id: 'a2', action: 'rollback' });
+
+    const { result } = renderHook(() =>
+      useAuditLogs({
+        activeProjectId: 'p1',
+        refreshData,
+        appendSystemMessage,
+      }), { wrapper }
+    );
+
+    await waitFor(() => expect(result.current.auditLogs).toHaveLength(1));
+
+    await act(async () => {
+      await result.current.handleRollbackAudit('a1');
+    });
+
+    expect(api.rollbackAuditLog).toHaveBeenCalledWith('a1', 'user');
+    expect(refreshData).toHaveBeenCalledTimes(1);
+    expect(appendSystemMessage).toHaveBeenCalledWith('Rollback applied: a1');
+    expect(result.current.rollingBackAuditId).toBe(null);
   });
 });
@@ -11,6 +11,7 @@ interface UseAuditLogsProps {
 
 type AuditFilters = {
   actor: string;
+  actorUserId: string;
   action: string;
   entityType: string;
   q: string;
@@ -20,6 +21,7 @@ type AuditFilters = {
 
 const INITIAL_FILTERS: AuditFilters = {
   actor: 'all',
+  actorUserId: '',
   action: 'all',
   entityType: 'all',
   q: '',
@@ -39,6 +41,7 @@ export const useAuditLogs = ({ activeProjectId, refreshData, appendSystemMessage
   const [auditTotal, setAuditTotal] = useState(0);
   const [isAuditLoading, setIsAuditLoading] = useState(false);
   const [auditError, setAuditError] = useState<string | null>(null);
+  const [rollingBackAuditId, setRollingBackAuditId] = useState<string | null>(null);
 
   // Pagination & Filtering
   const [auditPage, setAuditPage] = useState(1);
@@ -61,6 +64,7 @@ export const useAuditLogs = ({ activeProjectId, refreshData, appendSystemMessage
         page: pageOverride ?? auditPage,
         pageSize: pageSizeOverride ?? auditPageSize,
         actor: auditFilters.actor === 'all' ? undefined : auditFilters.actor,
+        actorUserId: auditFilters.actorUserId || undefined,
         action: auditFilters.action === 'all' ? undefined : auditFilters.action,
         entityType: auditFilters.entityType === 'all' ? undefined : auditFilters.entityType,
         q: auditFilters.q.trim() || undefined,
@@ -77,6 +81,20 @@ export const useAuditLogs = ({ activeProjectId, refreshData, appendSystemMessage
     }
   }, [activeProjectId, auditPage, auditPageSize, auditFilters, t]);
 
+  const handleRollbackAudit = useCallback(async (auditId: string) => {
+    try {
+      setRollingBackAuditId(auditId);
+      await apiService.rollbackAuditLog(auditId, 'user');
+      await refreshData();
+      await refreshAuditLogs(activeProjectId);
+      appendSystemMessage(t('audit.rollback_applied', { id: auditId }));
+    } catch (error) {
+      appendSystemMessage(error instanceof Error ? t('audit.rollback_failed_detail', { error: error.message }) : t('audit.rollback_failed'));
+    } finally {
+      setRollingBackAuditId(null);
+    }
+  }, [activeProjectId, refreshData, refreshAuditLogs, appendSystemMessage, t]);
+
   // Reset to page 1 when filters or page size changes
   useEffect(() => {
     setAuditPage(1);
@@ -110,6 +128,8 @@ export const useAuditLogs = ({ activeProjectId, refreshData, appendSystemMessage
     setAuditPageSize,
     auditFilters,
     setAuditFilters,
-    refreshAuditLogs
+    refreshAuditLogs,
+    rollingBackAuditId,
+    handleRollbackAudit
   };
 };
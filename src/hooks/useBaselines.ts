@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiService } from '../../services/apiService';
+import type { Baseline, BaselineComparison, Task } from '../../types';
+import { useI18n } from '../i18n';
+
+interface UseBaselinesProps {
+  activeProjectId: string;
+  tasks: Task[];
+  appendSystemMessage: (text: string) => void;
+}
+
+// Variance is derived from the task list, so the comparison is refetched whenever the tasks change.
+export const useBaselines = ({ activeProjectId, tasks, appendSystemMessage }: UseBaselinesProps) => {
+  const { t } = useI18n();
+  const [baselines, setBaselines] = useState<Baseline[]>([]);
+  const [activeBaselineId, setActiveBaselineId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<BaselineComparison | null>(null);
+  const [isSavingBaseline, setIsSavingBaseline] = useState(false);
+
+  useEffect(() => {
+    setActiveBaselineId(null);
+    if (!activeProjectId) {
+      setBaselines([]);
+      return;
+    }
+    let cancelled = false;
+    apiService.listBaselines(activeProjectId)
+      .then((result) => {
+        if (!cancelled) setBaselines(result);
+      })
+      .catch(() => {
+        if (!cancelled) setBaselines([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeProjectId]);
+
+  useEffect(() => {
+    if (!activeProjectId || !activeBaselineId) {
+      setComparison(null);
+      return;
+    }
+    let cancelled = false;
+    apiService.compareBaseline(activeProjectId, activeBaselineId)
+      .then((result) => {
+        if (!cancelled) setComparison(result);
+      })
+      .catch(() => {
+        // Variance is optional; the views render without it.
+        if (!cancelled) setComparison(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeProjectId, activeBaselineId, tasks]);
+
+  const saveBaseline = useCallback(async (name?: string) => {
+    if (!activeProjectId) return;
+    try {
+      setIsSavingBaseline(true);
+      const baseline = await apiService.createBaseline(activeProjectId, name);
+      setBaselines((prev) => [baseline, ...prev]);
+      setActiveBaselineId(baseline.id);
+      appendSystemMessage(t('baseline.saved', { name: baseline.name }));
+    } catch (error) {
+      appendSystemMessage(error instanceof Error ? t('baseline.save_failed_detail', { error: error.message }) : t('baseline.save_failed'));
+    } finally {
+      setIsSavingBaseline(false);
+    }
+  }, [activeProjectId, appendSystemMessage, t]);
+
+  return {
+    baselines,
+    activeBaselineId,
+    setActiveBaselineId,
+    comparison,
+    isSavingBaseline,
+    saveBaseline,
+  };
+};
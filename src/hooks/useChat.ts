@@ -1,7 +1,7 @@
 import React, { useState, useRef, useCallback, useMemo } from 'react';
 import { aiService } from '../../services/aiService';
 import { apiService } from '../../services/apiService';
-import type { ChatMessage, ChatAttachment, DraftAction, Project, Task } from '../../types';
+import type { ChatMessage, ChatAttachment, DraftAction, DraftOrigin, Project, Task } from '../../types';
 import { generateId } from '../utils';
 import { processToolCalls, type ApiClient, type ProcessingStep } from './ai';
 import { useI18n } from '../i18n';
@@ -13,11 +13,13 @@ interface UseChatProps {
   selectedTask?: Task | null;
   projects: Project[];
   refreshData: () => Promise<void>;
-  submitDraft: (actions: DraftAction[], options: { reason?: string; createdBy: string; autoApply?: boolean; silent?: boolean }) => Promise<any>;
+  submitDraft: (actions: DraftAction[], options: { reason?: string; createdBy: string; autoApply?: boolean; silent?: boolean; origin?: DraftOrigin }) => Promise<any>;
   handleApplyDraft: (draftId: string) => Promise<void>;
   appendSystemMessage: (text: string) => void;
   messages: ChatMessage[];
   setMessages: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
+  // Returns the stored conversation a message belongs to; without one the chat is not saved.
+  ensureConversation?: (firstMessage: string) => Promise<string | null>;
 }
 
 type AiHistoryItem = {
@@ -36,7 +38,8 @@ export const useChat = ({
   handleApplyDraft,
   appendSystemMessage,
   messages,
-  setMessages
+  setMessages,
+  ensureConversation
 }: UseChatProps) => {
   const { t } = useI18n();
   const [inputText, setInputText] = useState('');
@@ -63,19 +66,7 @@ export const useChat = ({
     });
   }, []);
 
-  const handleAttachFiles = useCallback((files: FileList | null) => {
-    if (!files || files.length === 0) return;
-    const nextAttachments = Array.from(files).map(file => ({
-      id: generateId(),
-      name: file.name,
-      size: file.size,
-      type: file.type,
-      url: URL.createObjectURL(file),
-    }));
-    setPendingAttachments(prev => [...prev, ...nextAttachments]);
-  }, []);
-
-  const handleRemoveAttachment = useCallback((id: string) => {
+  const dropPendingAttachment = useCallback((id: string) => {
     setPendingAttachments(prev => {
       const target = prev.find(item => item.id === id);
       if (target) URL.revokeObjectURL(target.url);
@@ -83,6 +74,41 @@ export const useChat = ({
     });
   }, []);
 
+  // Files are uploaded as soon as they are picked, so their text is ready when the message is sent.
+  const handleAttachFiles = useCallback((files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    Array.from(files).forEach(file => {
+      const id = generateId();
+      setPendingAttachments(prev => [...prev, {
+        id,
+        name: file.name,
+        size: file.size,
+        type: file.type,
+        url: URL.createObjectURL(file),
+        isUploading: true,
+      }]);
+      apiService.uploadAttachment(file)
+        .then(uploaded => {
+          setPendingAttachments(prev => prev.map(item => (
+            item.id === id ? { ...item, attachmentId: uploaded.id, isUploading: false } : item
+          )));
+        })
+        .catch(error => {
+          dropPendingAttachment(id);
+          appendSystemMessage(t('chat.attachment_failed', {
+            name: file.name,
+            error: error instanceof Error ? error.message : String(error),
+          }));
+        });
+    });
+  }, [appendSystemMessage, dropPendingAttachment, t]);
+
+  const handleRemoveAttachment = useCallback((id: string) => {
+    const target = pendingAttachments.find(item => item.id === id);
+    if (target?.attachmentId) apiService.deleteAttachment(target.attachmentId).catch(() => undefined);
+    dropPendingAttachment(id);
+  }, [dropPendingAttachment, pendingAttachments]);
+
   // Build system context for the AI - memoized with stable dependencies
   const projectId = activeProject.id;
   const projectName = activeProject.name;
@@ -130,7 +156,9 @@ Task IDs in Active Project (JSON): ${mappingJson}.`;
     initialHistory: AiHistoryItem[],
     userMessage: string,
     systemContext: string,
-    attempt: number = 0
+    attempt: number = 0,
+    conversationId: string | null = null,
+    attachmentIds: string[] = []
   ) => {
       const MAX_RETRIES = 3;
 
@@ -154,6 +182,22 @@ Task IDs in Active Project (JSON): ${mappingJson}.`;
       setThinkingPreview(start > 0 ? `...${tail}` : tail);
     };
 
+    // The answer is shown as it streams in, then settled into a regular message once the turn ends.
+    const streamingId = generateId();
+    let streamedText = '';
+    let streamedTurn = 0;
+    const showStreamingText = (text: string) => {
+      setMessages(prev => prev.some(m => m.id === streamingId)
+        ? prev.map(m => (m.id === streamingId ? { ...m, text } : m))
+        : [...prev, { id: streamingId, role: 'model', text, timestamp: Date.now(), isStreaming: true }]);
+    };
+    const settleMessage = (text: string) => {
+      const settled: ChatMessage = { id: streamingId, role: 'model', text, timestamp: Date.now() };
+      setMessages(prev => prev.some(m => m.id === streamingId)
+        ? prev.map(m => (m.id === streamingId ? settled : m))
+        : [...prev, settled]);
+    };
+
     try {
       // Call AI Service with streaming for faster feedback
       const response = await aiService.sendMessageStream(
@@ -163,6 +207,15 @@ Task IDs in Active Project (JSON): ${mappingJson}.`;
         (event, data) => {
           const elapsedMs = typeof data.elapsedMs === 'number' ? data.elapsedMs : undefined;
 
+          if (event === 'assistant_delta' && typeof data.text === 'string') {
+            const turn = typeof data.turn === 'number' ? data.turn : streamedTurn;
+            // Text from a later tool-calling turn replaces the earlier one, as in the final result.
+            streamedText = turn === streamedTurn ? streamedText + data.text : data.text;
+            streamedTurn = turn;
+            showStreamingText(streamedText);
+            pushProcessingStep(t('processing.generating'), elapsedMs);
+            return;
+          }
           if (event === 'assistant_text' && typeof data.text === 'string') {
             updateThinkingPreview(data.text);
             pushProcessingStep(t('processing.generating'), elapsedMs);
@@ -184,7 +237,11 @@ Task IDs in Active Project (JSON): ${mappingJson}.`;
           if (event === 'retry') {
             pushProcessingStep(t('chat.retrying'), elapsedMs);
           }
-        }
+        },
+        conversationId,
+        attachmentIds,
+        // Retry prompts are for the model only; the stored conversation keeps just the replies.
+        attempt > 0
       );
 
       let finalText = response.text;
@@ -198,6 +255,7 @@ Task IDs in Active Project (JSON): ${mappingJson}.`;
           getProject: (id: string) => apiService.getProject(id),
           listTasks: (params) => apiService.listTasks(params),
           getTask: (id: string) => apiService.getTask(id),
+          validateProjectGraph: (projectId, actions) => apiService.validateProjectGraph(projectId, actions),
           createDraft: (data) => apiService.createDraft(data),
           applyDraft: (id, actor) => apiService.applyDraft(id, actor),
         };
@@ -216,11 +274,12 @@ Task IDs in Active Project (JSON): ${mappingJson}.`;
 
         // Handle retry logic for invalid responses
         if (result.shouldRetry && attempt < MAX_RETRIES) {
+          setMessages(prev => prev.filter(m => m.id !== streamingId));
           const nextHistory: AiHistoryItem[] = [
             ...initialHistory,
             { role: 'model', parts: [{ text: response.text || 'I will plan the changes.' }] }
           ];
-          await processConversationTurn(nextHistory, `System Alert: ${result.retryReason}`, systemContext, attempt + 1);
+          await processConversationTurn(nextHistory, `System Alert: ${result.retryReason}`, systemContext, attempt + 1, conversationId, attachmentIds);
           return;
         }
 
@@ -232,6 +291,9 @@ Task IDs in Active Project (JSON): ${mappingJson}.`;
               createdBy: 'agent',
               autoApply: false,
               reason: result.draftReason,
+              origin: response.meta
+                ? { requestId: response.meta.requestId, conversationId: response.meta.conversationId, messageId: response.meta.messageId }
+                : undefined,
             });
             result.outputs.push(t('draft.created_action_count', { id: draft.id, count: result.draftActions.length }));
           } catch (draftError) {
@@ -259,21 +321,11 @@ Task IDs in Active Project (JSON): ${mappingJson}.`;
       }
 
       // Add final AI message to chat
-      setMessages(prev => [...prev, {
-        id: generateId(),
-        role: 'model',
-        text: finalText || t('chat.processed'),
-        timestamp: Date.now()
-      }]);
+      settleMessage(finalText || t('chat.processed'));
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : t('chat.error_generic');
-      setMessages(prev => [...prev, {
-        id: generateId(),
-        role: 'model',
-        text: t('chat.error_prefix', { error: errorMessage }),
-        timestamp: Date.now()
-      }]);
+      settleMessage(t('chat.error_prefix', { error: errorMessage }));
     }
   }, [activeProjectId, submitDraft, appendSystemMessage, pushProcessingStep, setMessages, setThinkingPreview, t, stageLabels]);
 
@@ -284,6 +336,8 @@ Task IDs in Active Project (JSON): ${mappingJson}.`;
     const cleanedInput = inputText.trim();
     const hasAttachments = pendingAttachments.length > 0;
     if (!cleanedInput && !hasAttachments) return;
+    if (pendingAttachments.some(item => item.isUploading)) return;
+    const attachmentIds = pendingAttachments.flatMap(item => (item.attachmentId ? [item.attachmentId] : []));
 
     const outgoingText = cleanedInput || t('chat.sent_attachments');
 
@@ -305,12 +359,14 @@ Task IDs in Active Project (JSON): ${mappingJson}.`;
     try {
       pushProcessingStep(t('processing.preparing'));
 
-      const history: AiHistoryItem[] = messages.slice(-10).map(m => ({
+      // A stored conversation brings its own history, loaded by the server.
+      const conversationId = ensureConversation ? await ensureConversation(userMsg.text) : null;
+      const history: AiHistoryItem[] = conversationId ? [] : messages.slice(-10).map(m => ({
         role: m.role === 'user' ? 'user' : 'model',
         parts: [{ text: m.text }]
       }));
 
-      await processConversationTurn(history, userMsg.text, systemContext, 0);
+      await processConversationTurn(history, userMsg.text, systemContext, 0, conversationId, attachmentIds);
 
     } catch {
       setMessages(prev => [...prev, {
@@ -332,6 +388,7 @@ Task IDs in Active Project (JSON): ${mappingJson}.`;
     pushProcessingStep,
     processConversationTurn,
     systemContext,
+    ensureConversation,
     t
   ]);
 
@@ -0,0 +1,148 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { apiService } from '../../services/apiService';
+import type { ChatMessage, Conversation, ConversationMessage } from '../../types';
+import { generateId } from '../utils';
+import { useI18n } from '../i18n';
+
+interface UseConversationsProps {
+  activeProjectId: string;
+  userId: string | null;
+  setMessages: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
+  resetMessages: () => void;
+}
+
+const ACTIVE_CONVERSATION_KEY = 'flowsync:activeConversationId';
+
+export const toChatMessage = (message: ConversationMessage): ChatMessage => ({
+  id: message.id,
+  role: message.role,
+  text: message.text,
+  timestamp: message.createdAt,
+});
+
+// Teammates can read each other's conversations but only continue their own.
+export const isReadOnlyConversation = (conversation: Conversation | null, userId: string | null) =>
+  !!conversation?.createdByUserId && conversation.createdByUserId !== userId;
+
+// Chats are stored on the server per project. A conversation is created with the first message
+// sent, and the one last open is reopened on the next visit, on any device.
+export const useConversations = ({ activeProjectId, userId, setMessages, resetMessages }: UseConversationsProps) => {
+  const { t } = useI18n();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversation, setActiveConversation] = useState<Conversation | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const activeRef = useRef<Conversation | null>(null);
+  const isReadOnly = isReadOnlyConversation(activeConversation, userId);
+
+  const selectConversation = useCallback((conversation: Conversation | null) => {
+    activeRef.current = conversation;
+    setActiveConversation(conversation);
+    if (conversation) localStorage.setItem(ACTIVE_CONVERSATION_KEY, conversation.id);
+    else localStorage.removeItem(ACTIVE_CONVERSATION_KEY);
+  }, []);
+
+  const appendError = useCallback((text: string) => {
+    setMessages(prev => [...prev, { id: generateId(), role: 'system', text, timestamp: Date.now() }]);
+  }, [setMessages]);
+
+  useEffect(() => {
+    let cancelled = false;
+    apiService.listConversations(activeProjectId || undefined)
+      .then((result) => {
+        if (!cancelled) setConversations(result);
+      })
+      .catch(() => {
+        if (!cancelled) setConversations([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeProjectId]);
+
+  // With a message ID, e.g. the turn that produced a draft, that message is marked in the chat.
+  const openConversation = useCallback(async (id: string, messageId: string | null = null) => {
+    try {
+      const { messages, ...conversation } = await apiService.getConversation(id);
+      selectConversation(conversation);
+      setMessages(messages.map(toChatMessage));
+      setHighlightedMessageId(messageId);
+    } catch (error) {
+      appendError(t('chat.conversations.open_failed', { error: error instanceof Error ? error.message : String(error) }));
+    }
+  }, [appendError, selectConversation, setMessages, t]);
+
+  useEffect(() => {
+    const savedId = localStorage.getItem(ACTIVE_CONVERSATION_KEY);
+    if (!savedId) return;
+    let cancelled = false;
+    apiService.getConversation(savedId)
+      .then(({ messages, ...conversation }) => {
+        if (cancelled) return;
+        selectConversation(conversation);
+        setMessages(messages.map(toChatMessage));
+      })
+      .catch(() => {
+        // Deleted since, or in another workspace; the local chat stays as it was.
+        if (!cancelled) localStorage.removeItem(ACTIVE_CONVERSATION_KEY);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectConversation, setMessages]);
+
+  const startNewConversation = useCallback(() => {
+    selectConversation(null);
+    setHighlightedMessageId(null);
+    resetMessages();
+  }, [resetMessages, selectConversation]);
+
+  // The conversation the next message belongs to, created on first use. Null when it could not
+  // be created; the chat then carries on unsaved.
+  const ensureConversation = useCallback(async (firstMessage: string) => {
+    const current = activeRef.current;
+    if (current && !isReadOnlyConversation(current, userId)) {
+      const touched = { ...current, updatedAt: Date.now() };
+      activeRef.current = touched;
+      setActiveConversation(touched);
+      setConversations(prev => [touched, ...prev.filter(item => item.id !== touched.id)]);
+      return current.id;
+    }
+    try {
+      const conversation = await apiService.createConversation({ projectId: activeProjectId || null, title: firstMessage });
+      selectConversation(conversation);
+      setConversations(prev => [conversation, ...prev]);
+      return conversation.id;
+    } catch {
+      return null;
+    }
+  }, [activeProjectId, selectConversation, userId]);
+
+  const removeConversation = useCallback(async (id: string) => {
+    try {
+      await apiService.deleteConversation(id);
+      setConversations(prev => prev.filter(item => item.id !== id));
+      if (activeRef.current?.id === id) startNewConversation();
+    } catch (error) {
+      appendError(t('chat.conversations.delete_failed', { error: error instanceof Error ? error.message : String(error) }));
+    }
+  }, [appendError, startNewConversation, t]);
+
+  // Notes such as "draft created" are kept with the conversation so readers see how a change came about.
+  const persistSystemMessage = useCallback((text: string) => {
+    const current = activeRef.current;
+    if (!current || isReadOnlyConversation(current, userId)) return;
+    apiService.appendConversationMessages(current.id, [{ role: 'system', text }]).catch(() => undefined);
+  }, [userId]);
+
+  return {
+    conversations,
+    activeConversation,
+    isReadOnly,
+    highlightedMessageId,
+    openConversation,
+    startNewConversation,
+    ensureConversation,
+    removeConversation,
+    persistSystemMessage,
+  };
+};
@@ -2,16 +2,23 @@ import React from 'react';
 import { renderHook, act, waitFor } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { useDrafts } from './useDrafts';
-import { apiService } from '../../services/apiService';
+import { ApiRequestError, apiService } from '../../services/apiService';
 import { Draft, DraftAction } from '../../types';
 import { I18nProvider } from '../i18n';
 
-vi.mock('../../services/apiService', () => ({
+vi.mock('../../services/apiService', async () => ({
+  ApiRequestError: (await vi.importActual<typeof import('../../services/apiService')>('../../services/apiService')).ApiRequestError,
   apiService: {
     listDrafts: vi.fn(),
     createDraft: vi.fn(),
     applyDraft: vi.fn(),
     discardDraft: vi.fn(),
+    revertDraft: vi.fn(),
+    rebaseDraft: vi.fn(),
+    setDraftActionDecision: vi.fn(),
+    updateDraftAction: vi.fn(),
+    approveDraft: vi.fn(),
+    levelProject: vi.fn(),
   },
 }));
 
@@ -20,6 +27,12 @@ const api = apiService as unknown as {
   createDraft: ReturnType<typeof vi.fn>;
   applyDraft: ReturnType<typeof vi.fn>;
   discardDraft: ReturnType<typeof vi.fn>;
+  revertDraft: ReturnType<typeof vi.fn>;
+  rebaseDraft: ReturnType<typeof vi.fn>;
+  setDraftActionDecision: ReturnType<typeof vi.fn>;
+  updateDraftAction: ReturnType<typeof vi.fn>;
+  approveDraft: ReturnType<typeof vi.fn>;
+  levelProject: ReturnType<typeof vi.fn>;
 };
 
 const draftBase: Draft = {
@@ -114,13 +127,233 @@ describe('useDrafts', () => {
       await result.current.handleApplyDraft('d1');
     });
 
-    expect(api.applyDraft).toHaveBeenCalledWith('d1', 'user');
+    expect(api.applyDraft).toHaveBeenCalledWith('d1', 'user', {});
     expect(refreshData).toHaveBeenCalledTimes(1);
     expect(refreshAuditLogs).toHaveBeenCalledWith('p1');
     expect(result.current.pendingDraftId).toBe(null);
     expect(appendSystemMessage).toHaveBeenCalledWith('Draft applied: d1');
   });
 
+  it('reports the failing action when apply rolls back', async () => {
+    const appendSystemMessage = vi.fn();
+    const refreshData = vi.fn(async () => {});
+    const refreshAuditLogs = vi.fn(async () => {});
+
+    api.applyDraft.mockRejectedValue(new ApiRequestError('Apply failed.', 'APPLY_FAILED', {
+      failure: {
+        draftId: 'd1',
+        actionId: 'a2',
+        actionIndex: 1,
+        entityType: 'task',
+        action: 'update',
+        entityId: 't1',
+        message: 'Task not found.',
+      },
+    }));
+
+    const { result } = renderHook(() =>
+      useDrafts({
+        activeProjectId: 'p1',
+        refreshData,
+        refreshAuditLogs,
+        appendSystemMessage,
+      }), { wrapper }
+    );
+
+    await waitFor(() => expect(api.listDrafts).toHaveBeenCalledTimes(1));
+
+    act(() => {
+      result.current.setPendingDraftId('d1');
+    });
+
+    await act(async () => {
+      await result.current.handleApplyDraft('d1');
+    });
+
+    expect(refreshData).not.toHaveBeenCalled();
+    expect(result.current.pendingDraftId).toBe('d1');
+    expect(appendSystemMessage).toHaveBeenCalledWith(
+      'Draft d1 was not applied: action 2 (update task) failed: Task not found. No changes were written.'
+    );
+  });
+
+  it('tracks stale-draft conflicts and clears them after a rebase', async () => {
+    const appendSystemMessage = vi.fn();
+    const refreshData = vi.fn(async () => {});
+    const refreshAuditLogs = vi.fn(async () => {});
+    const conflict = {
+      actionId: 'a1',
+      entityType: 'task' as const,
+      entityId: 't1',
+      action: 'update' as const,
+      plannedBefore: { title: 'Old', updatedAt: 1 },
+      current: { title: 'Teammate edit', updatedAt: 2 },
+      plannedAfter: { title: 'Planned', updatedAt: 3 },
+      message: 'Task t1 was modified after the draft was planned.',
+    };
+
+    api.listDrafts.mockResolvedValue([draftBase]);
+    api.applyDraft.mockRejectedValue(new ApiRequestError('Draft is out of date.', 'DRAFT_CONFLICT', { conflicts: [conflict] }));
+    api.rebaseDraft.mockResolvedValue({ ...draftBase, actions: [{ ...action, warnings: ['Rebased'] }] });
+
+    const { result } = renderHook(() =>
+      useDrafts({
+        activeProjectId: 'p1',
+        refreshData,
+        refreshAuditLogs,
+        appendSystemMessage,
+      }), { wrapper }
+    );
+
+    await waitFor(() => expect(api.listDrafts).toHaveBeenCalledTimes(1));
+
+    act(() => {
+      result.current.setPendingDraftId('d1');
+    });
+
+    await act(async () => {
+      await result.current.handleApplyDraft('d1');
+    });
+
+    expect(result.current.draftConflicts).toEqual([conflict]);
+    expect(result.current.pendingDraftId).toBe('d1');
+    expect(appendSystemMessage).toHaveBeenCalledWith(
+      'Draft d1 is out of date: 1 target(s) changed after it was planned. Rebase or force-apply.'
+    );
+
+    await act(async () => {
+      await result.current.handleRebaseDraft('d1');
+    });
+
+    expect(api.rebaseDraft).toHaveBeenCalledWith('d1');
+    expect(result.current.draftConflicts).toEqual([]);
+    expect(result.current.draftWarnings).toEqual(['Rebased']);
+
+    api.applyDraft.mockResolvedValue({ draft: { ...draftBase, status: 'applied' }, results: [] });
+    await act(async () => {
+      await result.current.handleForceApplyDraft('d1');
+    });
+
+    expect(api.applyDraft).toHaveBeenLastCalledWith('d1', 'user', { force: true });
+  });
+
+  it('applies only the actions that were not rejected', async () => {
+    const appendSystemMessage = vi.fn();
+    const refreshData = vi.fn(async () => {});
+    const refreshAuditLogs = vi.fn(async () => {});
+    const reviewDraft: Draft = {
+      ...draftBase,
+      actions: [action, { ...action, id: 'a2' }, { ...action, id: 'a3' }],
+    };
+
+    api.listDrafts.mockResolvedValue([reviewDraft]);
+    api.setDraftActionDecision.mockResolvedValue({
+      ...reviewDraft,
+      actions: [action, { ...action, id: 'a2', decision: 'rejected' }, { ...action, id: 'a3' }],
+    });
+    api.applyDraft.mockResolvedValue({ draft: { ...reviewDraft, status: 'applied' }, results: [] });
+
+    const { result } = renderHook(() =>
+      useDrafts({
+        activeProjectId: 'p1',
+        refreshData,
+        refreshAuditLogs,
+        appendSystemMessage,
+      }), { wrapper }
+    );
+
+    await waitFor(() => expect(result.current.drafts).toHaveLength(1));
+
+    await act(async () => {
+      await result.current.handleDecideDraftAction('d1', 'a2', 'rejected');
+    });
+
+    expect(api.setDraftActionDecision).toHaveBeenCalledWith('d1', 'a2', 'rejected');
+
+    await act(async () => {
+      await result.current.handleApplyDraft('d1');
+    });
+
+    expect(api.applyDraft).toHaveBeenCalledWith('d1', 'user', { actionIds: ['a1', 'a3'] });
+    expect(appendSystemMessage).toHaveBeenCalledWith('Draft applied: d1 (2 of 3 actions; the rest were rejected)');
+  });
+
+  it('edits a draft action and refreshes warnings', async () => {
+    const appendSystemMessage = vi.fn();
+    const refreshData = vi.fn(async () => {});
+    const refreshAuditLogs = vi.fn(async () => {});
+
+    api.listDrafts.mockResolvedValue([{ ...draftBase, actions: [action] }]);
+    api.updateDraftAction.mockResolvedValue({
+      draft: { ...draftBase, actions: [{ ...action, after: { title: 'Renamed' } }] },
+      warnings: ['Missing assignee'],
+    });
+
+    const { result } = renderHook(() =>
+      useDrafts({
+        activeProjectId: 'p1',
+        refreshData,
+        refreshAuditLogs,
+        appendSystemMessage,
+      }), { wrapper }
+    );
+
+    await waitFor(() => expect(result.current.drafts).toHaveLength(1));
+
+    await act(async () => {
+      await result.current.handleEditDraftAction('d1', 'a1', { title: 'Renamed' });
+    });
+
+    expect(api.updateDraftAction).toHaveBeenCalledWith('d1', 'a1', { title: 'Renamed' });
+    expect(result.current.drafts[0].actions[0].after).toEqual({ title: 'Renamed' });
+    expect(result.current.draftWarnings).toEqual(['Missing assignee']);
+    expect(appendSystemMessage).toHaveBeenCalledWith('Draft d1 re-planned with your edit.');
+  });
+
+  it('keeps an unapproved draft pending and records approvals', async () => {
+    const appendSystemMessage = vi.fn();
+    const refreshData = vi.fn(async () => {});
+    const refreshAuditLogs = vi.fn(async () => {});
+    const approval = { required: 1, approvals: 0, adminRequired: false, adminApproved: false, satisfied: false, reasons: ['1 more approval(s) required.'] };
+
+    api.listDrafts.mockResolvedValue([draftBase]);
+    api.applyDraft.mockRejectedValue(
+      new ApiRequestError('1 more approval(s) required.', 'APPROVAL_REQUIRED', { approval })
+    );
+    api.approveDraft.mockResolvedValue({
+      ...draftBase,
+      approvals: [{ userId: 'u1', username: 'ana', role: 'member', approvedAt: 2 }],
+      approval: { ...approval, approvals: 1, satisfied: true, reasons: [] },
+    });
+
+    const { result } = renderHook(() =>
+      useDrafts({
+        activeProjectId: 'p1',
+        refreshData,
+        refreshAuditLogs,
+        appendSystemMessage,
+      }), { wrapper }
+    );
+
+    await waitFor(() => expect(result.current.drafts).toHaveLength(1));
+
+    await act(async () => {
+      await result.current.handleApplyDraft('d1');
+    });
+
+    expect(refreshData).not.toHaveBeenCalled();
+    expect(result.current.drafts[0].approval?.satisfied).toBe(false);
+    expect(appendSystemMessage).toHaveBeenCalledWith('Draft d1 needs approval before it can be applied.');
+
+    await act(async () => {
+      await result.current.handleApproveDraft('d1');
+    });
+
+    expect(api.approveDraft).toHaveBeenCalledWith('d1');
+    expect(result.current.drafts[0].approval?.satisfied).toBe(true);
+    expect(appendSystemMessage).toHaveBeenCalledWith('Draft d1 approved (1/1).');
+  });
+
   it('discards a draft and refreshes list', async () => {
     const appendSystemMessage = vi.fn();
     const refreshData = vi.fn(async () => {});
@@ -147,4 +380,66 @@ describe('useDrafts', () => {
     expect(api.listDrafts).toHaveBeenCalledTimes(2);
     expect(appendSystemMessage).toHaveBeenCalledWith('Draft discarded: d1');
   });
+
+  it('reverts an applied draft into a new pending draft', async () => {
+    const appendSystemMessage = vi.fn();
+    const refreshData = vi.fn(async () => {});
+    const refreshAuditLogs = vi.fn(async () => {});
+
+    api.revertDraft.mockResolvedValue({
+      draft: { ...draftBase, id: 'd2', reason: 'Revert of draft d1' },
+      warnings: ['Task t1 has been modified since the draft was applied.'],
+      conflicts: [{ auditId: 'a1', entityType: 'task', entityId: 't1', message: 'Task t1 has been modified since the draft was applied.' }],
+    });
+
+    const { result } = renderHook(() =>
+      useDrafts({
+        activeProjectId: 'p1',
+        refreshData,
+        refreshAuditLogs,
+        appendSystemMessage,
+      }), { wrapper }
+    );
+
+    await waitFor(() => expect(api.listDrafts).toHaveBeenCalledTimes(1));
+
+    await act(async () => {
+      await result.current.handleRevertDraft('d1');
+    });
+
+    expect(api.revertDraft).toHaveBeenCalledWith('d1', { actor: 'user' });
+    expect(result.current.pendingDraftId).toBe('d2');
+    expect(result.current.draftWarnings).toEqual(['Task t1 has been modified since the draft was applied.']);
+    expect(appendSystemMessage).toHaveBeenCalledWith('Revert conflicts (1): Task t1 has been modified since the draft was applied.');
+    expect(appendSystemMessage).toHaveBeenCalledWith('Revert draft d2 created for d1. Review before applying.');
+  });
+
+  it('opens a leveling proposal as the pending draft', async () => {
+    const appendSystemMessage = vi.fn();
+
+    api.levelProject.mockResolvedValue({
+      draft: { ...draftBase, id: 'd3', createdBy: 'system' },
+      moves: [{ taskId: 't2', title: 'Copy', assignee: 'Ana', before: { startDate: 0, dueDate: 1 }, after: { startDate: 2, dueDate: 3 }, delayDays: 2 }],
+      warnings: [],
+    });
+
+    const { result } = renderHook(() =>
+      useDrafts({
+        activeProjectId: 'p1',
+        refreshData: vi.fn(async () => {}),
+        refreshAuditLogs: vi.fn(async () => {}),
+        appendSystemMessage,
+      }), { wrapper }
+    );
+
+    await waitFor(() => expect(api.listDrafts).toHaveBeenCalledTimes(1));
+
+    await act(async () => {
+      await result.current.handleLevelProject();
+    });
+
+    expect(api.levelProject).toHaveBeenCalledWith('p1');
+    expect(result.current.pendingDraftId).toBe('d3');
+    expect(appendSystemMessage).toHaveBeenCalledWith('Leveling draft d3 delays 1 task(s) within their float. Review before applying.');
+  });
 });
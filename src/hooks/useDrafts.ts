@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { apiService } from '../../services/apiService';
-import { Draft, DraftAction } from '../../types';
+import { ApiRequestError, apiService } from '../../services/apiService';
+import { Draft, DraftAction, DraftActionDecision, DraftConflict, DraftOrigin } from '../../types';
 import { useI18n } from '../i18n';
 
 interface UseDraftsProps {
@@ -15,12 +15,24 @@ export const useDrafts = ({ activeProjectId, refreshData, refreshAuditLogs, appe
   const [drafts, setDrafts] = useState<Draft[]>([]);
   const [pendingDraftId, setPendingDraftId] = useState<string | null>(null);
   const [draftWarnings, setDraftWarnings] = useState<string[]>([]);
+  const [lastAppliedDraftId, setLastAppliedDraftId] = useState<string | null>(null);
+  const [staleDraft, setStaleDraft] = useState<{ draftId: string; conflicts: DraftConflict[] } | null>(null);
 
   const pendingDraft = useMemo(
     () => drafts.find(draft => draft.id === pendingDraftId) || null,
     [drafts, pendingDraftId]
   );
 
+  const lastAppliedDraft = useMemo(
+    () => drafts.find(draft => draft.id === lastAppliedDraftId && draft.status === 'applied') || null,
+    [drafts, lastAppliedDraftId]
+  );
+
+  const draftConflicts = useMemo(
+    () => (staleDraft && staleDraft.draftId === pendingDraftId ? staleDraft.conflicts : []),
+    [staleDraft, pendingDraftId]
+  );
+
   const refreshDrafts = useCallback(async () => {
     try {
       const items = await apiService.listDrafts();
@@ -44,7 +56,7 @@ export const useDrafts = ({ activeProjectId, refreshData, refreshAuditLogs, appe
 
   const submitDraft = useCallback(async (
     actions: DraftAction[],
-    options: { reason?: string; createdBy: Draft['createdBy']; autoApply?: boolean; silent?: boolean }
+    options: { reason?: string; createdBy: Draft['createdBy']; autoApply?: boolean; silent?: boolean; origin?: DraftOrigin }
   ) => {
     try {
       const result = await apiService.createDraft({
@@ -52,6 +64,7 @@ export const useDrafts = ({ activeProjectId, refreshData, refreshAuditLogs, appe
         createdBy: options.createdBy,
         reason: options.reason,
         actions,
+        origin: options.origin,
       });
       
       setDraftWarnings(result.warnings);
@@ -62,7 +75,9 @@ export const useDrafts = ({ activeProjectId, refreshData, refreshAuditLogs, appe
       
       setDrafts(prev => [...prev, result.draft]);
       
-      if (options.autoApply) {
+      // A workspace approval policy turns auto-applied edits into pending drafts awaiting sign-off
+      const needsApproval = result.draft.approval?.satisfied === false;
+      if (options.autoApply && !needsApproval) {
         const applied = await apiService.applyDraft(result.draft.id, options.createdBy);
         setDrafts(prev => prev.map(draft => (draft.id === applied.draft.id ? applied.draft : draft)));
         await refreshData();
@@ -74,7 +89,9 @@ export const useDrafts = ({ activeProjectId, refreshData, refreshAuditLogs, appe
       }
       
       setPendingDraftId(result.draft.id);
-      if (!options.silent) {
+      if (options.autoApply && needsApproval) {
+        appendSystemMessage(t('draft.approval_required', { id: result.draft.id }));
+      } else if (!options.silent) {
         appendSystemMessage(t('draft.created', { id: result.draft.id }));
       }
       return result.draft;
@@ -85,24 +102,119 @@ export const useDrafts = ({ activeProjectId, refreshData, refreshAuditLogs, appe
     }
   }, [activeProjectId, refreshData, refreshAuditLogs, appendSystemMessage, t]);
 
-  const handleApplyDraft = useCallback(async (draftId: string) => {
+  const handleApplyDraft = useCallback(async (draftId: string, options: { force?: boolean } = {}) => {
     try {
-      const result = await apiService.applyDraft(draftId, 'user');
+      const target = drafts.find(draft => draft.id === draftId);
+      const isPartial = target?.actions.some(action => action.decision === 'rejected') ?? false;
+      const actionIds = isPartial
+        ? target?.actions.filter(action => action.decision !== 'rejected').map(action => action.id)
+        : undefined;
+      const result = await apiService.applyDraft(draftId, 'user', actionIds ? { ...options, actionIds } : options);
       setDrafts(prev => prev.map(draft => (draft.id === result.draft.id ? result.draft : draft)));
       setPendingDraftId(null);
+      setStaleDraft(null);
+      setLastAppliedDraftId(result.draft.id);
       await refreshData();
       await refreshDrafts();
       await refreshAuditLogs(activeProjectId);
-      appendSystemMessage(t('draft.applied', { id: draftId }));
+      appendSystemMessage(actionIds && target
+        ? t('draft.applied_partial', { id: draftId, count: actionIds.length, total: target.actions.length })
+        : t('draft.applied', { id: draftId }));
     } catch (error) {
+      if (error instanceof ApiRequestError && error.conflicts) {
+        setStaleDraft({ draftId, conflicts: error.conflicts });
+        appendSystemMessage(t('draft.stale', { id: draftId, count: error.conflicts.length }));
+        return;
+      }
+      if (error instanceof ApiRequestError && error.approval) {
+        const approval = error.approval;
+        setDrafts(prev => prev.map(draft => (draft.id === draftId ? { ...draft, approval } : draft)));
+        appendSystemMessage(t('draft.approval_required', { id: draftId }));
+        return;
+      }
+      if (error instanceof ApiRequestError && error.failure) {
+        appendSystemMessage(t('draft.apply_failed_action', {
+          id: draftId,
+          index: error.failure.actionIndex + 1,
+          action: error.failure.action,
+          entity: error.failure.entityType,
+          error: error.failure.message,
+        }));
+        return;
+      }
        appendSystemMessage(error instanceof Error ? t('draft.apply_failed', { error: error.message }) : t('draft.apply_failed', { error: t('common.na') }));
     }
-  }, [refreshData, refreshDrafts, refreshAuditLogs, activeProjectId, appendSystemMessage, t]);
+  }, [drafts, refreshData, refreshDrafts, refreshAuditLogs, activeProjectId, appendSystemMessage, t]);
+
+  const handleForceApplyDraft = useCallback(
+    (draftId: string) => handleApplyDraft(draftId, { force: true }),
+    [handleApplyDraft]
+  );
+
+  const handleDecideDraftAction = useCallback(async (
+    draftId: string,
+    actionId: string,
+    decision: DraftActionDecision | null
+  ) => {
+    try {
+      const result = await apiService.setDraftActionDecision(draftId, actionId, decision);
+      setDrafts(prev => prev.map(draft => (draft.id === result.id ? result : draft)));
+    } catch (error) {
+       appendSystemMessage(error instanceof Error ? t('draft.decision_failed', { error: error.message }) : t('draft.decision_failed', { error: t('common.na') }));
+    }
+  }, [appendSystemMessage, t]);
+
+  const handleEditDraftAction = useCallback(async (
+    draftId: string,
+    actionId: string,
+    after: Record<string, unknown>
+  ) => {
+    try {
+      const result = await apiService.updateDraftAction(draftId, actionId, after);
+      setDrafts(prev => prev.map(draft => (draft.id === result.draft.id ? result.draft : draft)));
+      setDraftWarnings(result.warnings);
+      appendSystemMessage(t('draft.action_updated', { id: draftId }));
+    } catch (error) {
+      if (error instanceof ApiRequestError && error.conflicts) {
+        setStaleDraft({ draftId, conflicts: error.conflicts });
+        appendSystemMessage(t('draft.stale', { id: draftId, count: error.conflicts.length }));
+        return;
+      }
+       appendSystemMessage(error instanceof Error ? t('draft.action_update_failed', { error: error.message }) : t('draft.action_update_failed', { error: t('common.na') }));
+    }
+  }, [appendSystemMessage, t]);
+
+  const handleApproveDraft = useCallback(async (draftId: string) => {
+    try {
+      const result = await apiService.approveDraft(draftId);
+      setDrafts(prev => prev.map(draft => (draft.id === result.id ? result : draft)));
+      appendSystemMessage(t('draft.approved', {
+        id: draftId,
+        count: result.approval?.approvals ?? result.approvals?.length ?? 0,
+        total: result.approval?.required ?? 0,
+      }));
+    } catch (error) {
+       appendSystemMessage(error instanceof Error ? t('draft.approve_failed', { error: error.message }) : t('draft.approve_failed', { error: t('common.na') }));
+    }
+  }, [appendSystemMessage, t]);
+
+  const handleRebaseDraft = useCallback(async (draftId: string) => {
+    try {
+      const result = await apiService.rebaseDraft(draftId);
+      setDrafts(prev => prev.map(draft => (draft.id === result.id ? result : draft)));
+      setDraftWarnings(result.actions.flatMap(action => action.warnings ?? []));
+      setStaleDraft(null);
+      appendSystemMessage(t('draft.rebased', { id: draftId }));
+    } catch (error) {
+       appendSystemMessage(error instanceof Error ? t('draft.rebase_failed', { error: error.message }) : t('draft.rebase_failed', { error: t('common.na') }));
+    }
+  }, [appendSystemMessage, t]);
 
   const handleDiscardDraft = useCallback(async (draftId: string) => {
     try {
       const result = await apiService.discardDraft(draftId);
       setDrafts(prev => prev.map(draft => (draft.id === result.id ? result : draft)));
+      setStaleDraft(prev => (prev?.draftId === draftId ? null : prev));
       if (pendingDraftId === draftId) setPendingDraftId(null);
       await refreshDrafts();
       appendSystemMessage(t('draft.discarded', { id: draftId }));
@@ -111,15 +223,81 @@ export const useDrafts = ({ activeProjectId, refreshData, refreshAuditLogs, appe
     }
   }, [pendingDraftId, refreshDrafts, appendSystemMessage, t]);
 
+  const handleRevertDraft = useCallback(async (draftId: string) => {
+    try {
+      const result = await apiService.revertDraft(draftId, { actor: 'user' });
+      setDrafts(prev => [...prev, result.draft]);
+      setDraftWarnings(result.warnings);
+      setLastAppliedDraftId(null);
+      setPendingDraftId(result.draft.id);
+      if (result.conflicts.length > 0) {
+        appendSystemMessage(t('draft.revert_conflicts', {
+          count: result.conflicts.length,
+          conflicts: result.conflicts.map(conflict => conflict.message).join(' | '),
+        }));
+      }
+      appendSystemMessage(t('draft.revert_created', { id: result.draft.id, source: draftId }));
+    } catch (error) {
+       appendSystemMessage(error instanceof Error ? t('draft.revert_failed', { error: error.message }) : t('draft.revert_failed', { error: t('common.na') }));
+    }
+  }, [appendSystemMessage, t]);
+
+  const handleLevelProject = useCallback(async () => {
+    if (!activeProjectId) return;
+    try {
+      const result = await apiService.levelProject(activeProjectId);
+      setDraftWarnings(result.warnings);
+      const draft = result.draft;
+      if (!draft) {
+        appendSystemMessage(t('draft.leveling_none', { warnings: result.warnings.join(' | ') }));
+        return;
+      }
+      setDrafts(prev => [...prev, draft]);
+      setPendingDraftId(draft.id);
+      if (result.warnings.length > 0) {
+        appendSystemMessage(t('draft.warnings', { warnings: result.warnings.join(' | ') }));
+      }
+      appendSystemMessage(t('draft.leveling_created', { id: draft.id, count: result.moves.length }));
+    } catch (error) {
+       appendSystemMessage(error instanceof Error ? t('draft.leveling_failed', { error: error.message }) : t('draft.leveling_failed', { error: t('common.na') }));
+    }
+  }, [activeProjectId, appendSystemMessage, t]);
+
+  // For drafts the server created itself, such as a plan generated from documents.
+  const adoptDraft = useCallback((draft: Draft, warnings: string[]) => {
+    setDrafts(prev => [...prev.filter(item => item.id !== draft.id), draft]);
+    setDraftWarnings(warnings);
+    setPendingDraftId(draft.id);
+    if (warnings.length > 0) {
+      appendSystemMessage(t('draft.warnings', { warnings: warnings.join(' | ') }));
+    }
+    appendSystemMessage(t('draft.plan_created', { id: draft.id, count: draft.actions.length }));
+  }, [appendSystemMessage, t]);
+
+  const dismissLastAppliedDraft = useCallback(() => {
+    setLastAppliedDraftId(null);
+  }, []);
+
   return {
     drafts,
     pendingDraft,
     pendingDraftId,
     setPendingDraftId,
     draftWarnings,
+    draftConflicts,
     refreshDrafts,
     submitDraft,
     handleApplyDraft,
-    handleDiscardDraft
+    handleForceApplyDraft,
+    handleDecideDraftAction,
+    handleEditDraftAction,
+    handleApproveDraft,
+    handleRebaseDraft,
+    handleDiscardDraft,
+    lastAppliedDraft,
+    handleRevertDraft,
+    handleLevelProject,
+    adoptDraft,
+    dismissLastAppliedDraft
   };
 };
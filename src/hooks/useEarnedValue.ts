@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+import { apiService } from '../../services/apiService';
+import type { EarnedValueReport, Task } from '../../types';
+
+// Earned value is derived from the task list, so it is refetched whenever the tasks change.
+export const useEarnedValue = (activeProjectId: string, tasks: Task[], baselineId: string | null, enabled = true) => {
+  const [earnedValue, setEarnedValue] = useState<EarnedValueReport | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !activeProjectId) {
+      setEarnedValue(null);
+      return;
+    }
+    let cancelled = false;
+    apiService.getEarnedValue(activeProjectId, baselineId)
+      .then((result) => {
+        if (!cancelled) setEarnedValue(result);
+      })
+      .catch(() => {
+        // The dashboard shows an empty state without it.
+        if (!cancelled) setEarnedValue(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeProjectId, tasks, baselineId, enabled]);
+
+  return { earnedValue };
+};
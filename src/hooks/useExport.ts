@@ -1,8 +1,19 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import type { Project, Task, DraftAction, Draft } from '../../types';
+import type { BaselineComparison, Project, Task, DraftAction, Draft } from '../../types';
 import { TaskStatus, Priority } from '../../types';
 import { apiService } from '../../services/apiService';
-import { generateId, getTaskStart, getTaskEnd, formatExportDate, parseDateFlexible } from '../utils';
+import {
+  generateId,
+  getTaskStart,
+  getTaskEnd,
+  formatExportDate,
+  parseDateFlexible,
+  formatPredecessor,
+  formatSlipDays,
+  indexVariance,
+  parsePredecessorList,
+  remapPredecessor,
+} from '../utils';
 import { useI18n } from '../i18n';
 
 export type ExportFormat = 'csv' | 'tsv' | 'json' | 'markdown' | 'pdf';
@@ -133,6 +144,7 @@ interface UseExportProps {
   refreshData: () => Promise<void>;
   submitDraft: (actions: DraftAction[], options: { createdBy: Draft['createdBy']; autoApply?: boolean; reason?: string; silent?: boolean }) => Promise<any>;
   fetchAllTasks: () => Promise<Task[]>;
+  variance?: BaselineComparison | null;
 }
 
 export const useExport = ({
@@ -141,7 +153,8 @@ export const useExport = ({
   activeTasks,
   refreshData,
   submitDraft,
-  fetchAllTasks
+  fetchAllTasks,
+  variance = null
 }: UseExportProps) => {
   const { t } = useI18n();
   const [isExportOpen, setIsExportOpen] = useState(false);
@@ -174,6 +187,14 @@ export const useExport = ({
     'updatedAt',
   ] as const, []);
 
+  // Appended while a baseline is selected; import ignores them, so exports stay re-importable.
+  const varianceHeaders = useMemo(() => [
+    'baselineStartDate',
+    'baselineDueDate',
+    'startSlipDays',
+    'finishSlipDays',
+  ] as const, []);
+
   const displayHeaders = useMemo(() => [
     'project',
     'id',
@@ -217,6 +238,8 @@ export const useExport = ({
     window.localStorage.setItem('flowsync:importStrategy', strategy);
   }, []);
 
+  const varianceById = useMemo(() => indexVariance(variance), [variance]);
+
   const buildDisplayRows = useCallback((sourceTasks: Task[], exportProjects: Project[]) => {
     const projectLookup = exportProjects.reduce<Record<string, Project>>((acc, project) => {
       acc[project.id] = project;
@@ -236,12 +259,14 @@ export const useExport = ({
         dueDate: formatExportDate(getTaskEnd(task)),
         completion: task.completion ?? 0,
         isMilestone: task.isMilestone ? 'yes' : 'no',
-        predecessors: (task.predecessors || []).join(','),
+        predecessors: (task.predecessors || []).map(formatPredecessor).join(','),
         description: task.description || '',
         createdAt: formatExportDate(task.createdAt),
+        startSlipDays: formatSlipDays(varianceById.get(task.id)?.startSlipDays),
+        finishSlipDays: formatSlipDays(varianceById.get(task.id)?.finishSlipDays),
       };
     });
-  }, [activeProject]);
+  }, [activeProject, varianceById]);
 
   const buildExportRows = useCallback((sourceTasks: Task[], exportProjects: Project[]) => {
     const projectLookup = exportProjects.reduce<Record<string, Project>>((acc, project) => {
@@ -270,9 +295,14 @@ export const useExport = ({
       description: '',
       createdAt: '',
       updatedAt: '',
+      baselineStartDate: '',
+      baselineDueDate: '',
+      startSlipDays: '',
+      finishSlipDays: '',
     }));
     const taskRows = sourceTasks.map(task => {
       const project = projectLookup[task.projectId] || activeProject;
+      const taskVariance = varianceById.get(task.id);
       return {
         rowType: 'task',
         projectId: project.id,
@@ -291,14 +321,18 @@ export const useExport = ({
         dueDate: formatExportTimestamp(task.dueDate),
         completion: task.completion ?? 0,
         isMilestone: task.isMilestone ? 'true' : 'false',
-        predecessors: (task.predecessors || []).join(','),
+        predecessors: (task.predecessors || []).map(formatPredecessor).join(','),
         description: task.description || '',
         createdAt: formatExportTimestamp(task.createdAt),
         updatedAt: formatExportTimestamp(task.updatedAt),
+        baselineStartDate: formatExportTimestamp(taskVariance?.baselineStart ?? undefined),
+        baselineDueDate: formatExportTimestamp(taskVariance?.baselineDue ?? undefined),
+        startSlipDays: formatSlipDays(taskVariance?.startSlipDays),
+        finishSlipDays: formatSlipDays(taskVariance?.finishSlipDays),
       };
     });
     return [...projectRows, ...taskRows];
-  }, [activeProject]);
+  }, [activeProject, varianceById]);
 
   const handleExportTasks = useCallback(async (format: ExportFormat, scope: ExportScope) => {
     const exportDate = new Date();
@@ -337,7 +371,7 @@ export const useExport = ({
       ]);
       const autoTable = autoTableModule.default;
       const doc = new jsPDF({ orientation: 'landscape', unit: 'pt' });
-      const headers = displayHeaders.slice(0, 12);
+      const headers = [...displayHeaders.slice(0, 12), ...(variance ? ['startSlip', 'finishSlip'] : [])];
       const body = displayRows.map(row => ([
         row.project,
         row.id,
@@ -351,6 +385,7 @@ export const useExport = ({
         String(row.completion),
         row.isMilestone,
         row.predecessors,
+        ...(variance ? [row.startSlipDays, row.finishSlipDays] : []),
       ]));
       doc.setFontSize(12);
       doc.text(
@@ -362,10 +397,38 @@ export const useExport = ({
       );
       doc.setFontSize(9);
       doc.text(t('export.exported_at', { date: exportDate.toISOString() }), 40, 48);
+      // Earned value is per project, measured against the selected baseline if there is one.
+      const earnedValue = scope === 'active' && activeProject.id
+        ? await apiService.getEarnedValue(activeProject.id, variance?.baseline.id).catch(() => null)
+        : null;
+      const latest = earnedValue?.points[earnedValue.points.length - 1];
+      let tasksY = 64;
+      if (earnedValue && latest && earnedValue.budgetAtCompletion > 0) {
+        const formatIndex = (value: number | null) => (value === null ? '' : value.toFixed(2));
+        doc.text(t('export.pdf.earned_value', { date: new Date(latest.at).toISOString().split('T')[0] }), 40, 64);
+        autoTable(doc, {
+          head: [['BAC', 'PV', 'EV', 'AC', 'SPI', 'CPI']],
+          body: [[
+            String(earnedValue.budgetAtCompletion),
+            String(latest.plannedValue),
+            String(latest.earnedValue),
+            String(latest.actualCost),
+            formatIndex(latest.spi),
+            formatIndex(latest.cpi),
+          ]],
+          startY: 70,
+          tableWidth: 360,
+          styles: { fontSize: 8, cellPadding: 3 },
+          headStyles: { fillColor: [79, 70, 229], textColor: [255, 255, 255] },
+          margin: { left: 40, right: 40 },
+        });
+        // A header and one row at this font size take about 35pt.
+        tasksY = 122;
+      }
       autoTable(doc, {
         head: [headers],
         body,
-        startY: 64,
+        startY: tasksY,
         styles: { fontSize: 8, cellPadding: 3 },
         headStyles: { fillColor: [79, 70, 229], textColor: [255, 255, 255] },
         alternateRowStyles: { fillColor: [248, 250, 252] },
@@ -382,6 +445,8 @@ export const useExport = ({
           9: { cellWidth: 70 },
           10: { cellWidth: 70 },
           11: { cellWidth: 100 },
+          12: { cellWidth: 50 },
+          13: { cellWidth: 50 },
         },
         margin: { left: 40, right: 40 },
       });
@@ -395,7 +460,7 @@ export const useExport = ({
         scope,
         exportedAt: exportDate.toISOString(),
       };
-      const headers = displayHeaders;
+      const headers = [...displayHeaders, ...(variance ? ['startSlip', 'finishSlip'] : [])];
       const escapeMd = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, '<br>');
       const body = displayRows.map(row => [
         row.project,
@@ -412,6 +477,7 @@ export const useExport = ({
         row.predecessors,
         row.description,
         row.createdAt,
+        ...(variance ? [row.startSlipDays, row.finishSlipDays] : []),
       ].map(cell => escapeMd(String(cell))).join(' | '));
 
       const markdown = [
@@ -439,7 +505,7 @@ export const useExport = ({
     }
 
     const delimiter = format === 'tsv' ? '\t' : ',';
-    const headers = exportHeaders;
+    const headers: readonly string[] = variance ? [...exportHeaders, ...varianceHeaders] : exportHeaders;
     const lines = [
       headers.join(delimiter),
       ...rows.map(row => headers
@@ -456,7 +522,7 @@ export const useExport = ({
     link.click();
     URL.revokeObjectURL(url);
     recordExportPreference(format, scope);
-  }, [activeProject, activeTasks, projects, fetchAllTasks, buildExportRows, buildDisplayRows, recordExportPreference, t]);
+  }, [activeProject, activeTasks, projects, fetchAllTasks, buildExportRows, buildDisplayRows, recordExportPreference, variance, t]);
 
   const handleImportFile = useCallback((file: File) => {
     const reader = new FileReader();
@@ -555,11 +621,7 @@ export const useExport = ({
           createdAt: parseNumeric(record.projectCreatedAt),
           updatedAt: parseNumeric(record.projectUpdatedAt),
         });
-        const predecessors = Array.isArray(record.predecessors)
-          ? record.predecessors.filter((item): item is string => typeof item === 'string')
-          : typeof record.predecessors === 'string'
-            ? record.predecessors.split(',').map(item => item.trim()).filter(Boolean)
-            : undefined;
+        const predecessors = parsePredecessorList(record.predecessors);
         const milestone = typeof record.isMilestone === 'boolean'
           ? record.isMilestone
           : parseBoolean(typeof record.isMilestone === 'string' ? record.isMilestone : undefined);
@@ -653,7 +715,7 @@ export const useExport = ({
             completion: parseCompletion(record.completion),
             assignee: record.assignee || undefined,
             isMilestone: parseBoolean(record.ismilestone),
-            predecessors: record.predecessors ? record.predecessors.split(',').map(item => item.trim()).filter(Boolean) : undefined,
+            predecessors: record.predecessors ? parsePredecessorList(record.predecessors) : undefined,
           });
         }
       } else {
@@ -754,7 +816,7 @@ export const useExport = ({
 
           const remappedTasks = normalizedTasks.map(task => ({
             ...task,
-            predecessors: task.predecessors?.map(pred => taskIdMap.get(pred) ?? pred),
+            predecessors: task.predecessors?.map(pred => remapPredecessor(pred, taskIdMap)),
           }));
 
           const resolvedTasks = remappedTasks.map(task => {
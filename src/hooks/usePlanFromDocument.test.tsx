@@ -0,0 +1,84 @@
+import React from 'react';
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { usePlanFromDocument } from './usePlanFromDocument';
+import { apiService } from '../../services/apiService';
+import { aiService } from '../../services/aiService';
+import { PlanResult } from '../../types';
+import { I18nProvider } from '../i18n';
+
+vi.mock('../../services/apiService', () => ({
+  apiService: {
+    uploadAttachment: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/aiService', () => ({
+  aiService: {
+    generatePlan: vi.fn(),
+  },
+}));
+
+const api = apiService as unknown as { uploadAttachment: ReturnType<typeof vi.fn> };
+const ai = aiService as unknown as { generatePlan: ReturnType<typeof vi.fn> };
+
+const planResult: PlanResult = {
+  draft: { id: 'd1', projectId: 'p1', status: 'pending', actions: [], createdAt: 1, createdBy: 'agent' },
+  warnings: ['Dropped predecessor 9 of "Spec": no task in the plan has that code.'],
+  plan: { summary: 'Billing portal', taskCount: 0, milestoneCount: 0, startDate: 1, finishDate: 2 },
+  meta: { requestId: 'r1', attempts: 1 },
+};
+
+describe('usePlanFromDocument', () => {
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <I18nProvider>{children}</I18nProvider>
+  );
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('uploads the document, tracks progress and hands the draft over for review', async () => {
+    api.uploadAttachment.mockResolvedValue({ id: 'f1', name: 'spec.md' });
+    ai.generatePlan.mockImplementation(async (_request, onEvent) => {
+      onEvent('stage', { name: 'received' });
+      onEvent('stage', { name: 'reading_documents' });
+      onEvent('stage', { name: 'validating' });
+      return planResult;
+    });
+    const onDraftCreated = vi.fn();
+    const file = new File(['# Billing'], 'spec.md', { type: 'text/markdown' });
+
+    const { result } = renderHook(() => usePlanFromDocument({ activeProjectId: 'p1', onDraftCreated }), { wrapper });
+
+    await act(async () => {
+      await result.current.generatePlan({ file, instructions: '  ', startDate: 1000 });
+    });
+
+    expect(api.uploadAttachment).toHaveBeenCalledWith(file);
+    expect(ai.generatePlan.mock.calls[0][0]).toEqual({ projectId: 'p1', attachmentIds: ['f1'], instructions: undefined, startDate: 1000 });
+    expect(result.current.planSteps).toEqual(['Uploading document', 'Reading document', 'Scheduling and checking dependencies']);
+    expect(result.current.planStatus).toBe('review');
+    expect(result.current.planResult).toBe(planResult);
+    expect(onDraftCreated).toHaveBeenCalledWith(planResult.draft, planResult.warnings);
+
+    act(() => result.current.resetPlan());
+    expect(result.current.planStatus).toBe('idle');
+  });
+
+  it('keeps the error and creates no draft when the plan fails', async () => {
+    api.uploadAttachment.mockResolvedValue({ id: 'f1', name: 'spec.md' });
+    ai.generatePlan.mockRejectedValue(new Error('The model did not return a usable plan.'));
+    const onDraftCreated = vi.fn();
+
+    const { result } = renderHook(() => usePlanFromDocument({ activeProjectId: 'p1', onDraftCreated }), { wrapper });
+
+    await act(async () => {
+      await result.current.generatePlan({ file: new File(['x'], 'spec.txt') });
+    });
+
+    expect(result.current.planStatus).toBe('error');
+    expect(result.current.planError).toBe('The model did not return a usable plan.');
+    expect(onDraftCreated).not.toHaveBeenCalled();
+  });
+});
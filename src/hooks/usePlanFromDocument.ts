@@ -0,0 +1,87 @@
+import { useState, useCallback, useMemo } from 'react';
+import { apiService } from '../../services/apiService';
+import { aiService } from '../../services/aiService';
+import type { Draft, PlanResult } from '../../types';
+import { useI18n } from '../i18n';
+
+interface UsePlanFromDocumentProps {
+  activeProjectId: string;
+  onDraftCreated: (draft: Draft, warnings: string[]) => void;
+}
+
+export type PlanGenerationStatus = 'idle' | 'running' | 'review' | 'error';
+
+export interface PlanRequest {
+  file: File;
+  instructions?: string;
+  startDate?: number;
+}
+
+export const usePlanFromDocument = ({ activeProjectId, onDraftCreated }: UsePlanFromDocumentProps) => {
+  const { t } = useI18n();
+  const [status, setStatus] = useState<PlanGenerationStatus>('idle');
+  const [steps, setSteps] = useState<string[]>([]);
+  const [result, setResult] = useState<PlanResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const stageLabels = useMemo<Record<string, string>>(() => ({
+    reading_documents: t('plan.stage.reading'),
+    upstream_request: t('plan.stage.drafting'),
+    validating: t('plan.stage.validating'),
+    repair: t('plan.stage.repairing'),
+    done: t('plan.stage.done'),
+  }), [t]);
+
+  const pushStep = useCallback((label: string) => {
+    setSteps(prev => (prev[prev.length - 1] === label ? prev : [...prev, label]));
+  }, []);
+
+  const generatePlan = useCallback(async (request: PlanRequest) => {
+    if (!activeProjectId) return null;
+    setStatus('running');
+    setSteps([t('plan.stage.uploading')]);
+    setResult(null);
+    setError(null);
+    try {
+      const attachment = await apiService.uploadAttachment(request.file);
+      const planResult = await aiService.generatePlan(
+        {
+          projectId: activeProjectId,
+          attachmentIds: [attachment.id],
+          instructions: request.instructions?.trim() || undefined,
+          startDate: request.startDate,
+        },
+        (event, data) => {
+          if (event === 'stage' && typeof data.name === 'string' && stageLabels[data.name]) {
+            pushStep(stageLabels[data.name]);
+          } else if (event === 'retry') {
+            pushStep(t('chat.retrying'));
+          }
+        }
+      );
+      setResult(planResult);
+      setStatus('review');
+      onDraftCreated(planResult.draft, planResult.warnings);
+      return planResult;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('plan.failed'));
+      setStatus('error');
+      return null;
+    }
+  }, [activeProjectId, onDraftCreated, pushStep, stageLabels, t]);
+
+  const resetPlan = useCallback(() => {
+    setStatus('idle');
+    setSteps([]);
+    setResult(null);
+    setError(null);
+  }, []);
+
+  return {
+    planStatus: status,
+    planSteps: steps,
+    planResult: result,
+    planError: error,
+    generatePlan,
+    resetPlan,
+  };
+};
@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+import { apiService } from '../../services/apiService';
+import type { WorkCalendar } from '../../types';
+
+// Effective calendar of the active project; refetched when an admin edits the workspace calendar.
+export const useProjectCalendar = (activeProjectId: string, workspaceCalendar: WorkCalendar | null, enabled = true) => {
+  const [calendar, setCalendar] = useState<WorkCalendar | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !activeProjectId) {
+      setCalendar(null);
+      return;
+    }
+    let cancelled = false;
+    apiService.getProjectCalendar(activeProjectId)
+      .then((result) => {
+        if (!cancelled) setCalendar(result.calendar);
+      })
+      .catch(() => {
+        // Without a calendar the chart falls back to calendar days.
+        if (!cancelled) setCalendar(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeProjectId, workspaceCalendar, enabled]);
+
+  return { calendar };
+};
@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+import { apiService } from '../../services/apiService';
+import type { ProjectSchedule, Task } from '../../types';
+
+// The schedule is derived from the task list, so it is refetched whenever the tasks change.
+export const useSchedule = (activeProjectId: string, tasks: Task[], enabled = true) => {
+  const [schedule, setSchedule] = useState<ProjectSchedule | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !activeProjectId) {
+      setSchedule(null);
+      return;
+    }
+    let cancelled = false;
+    apiService.getProjectSchedule(activeProjectId)
+      .then((result) => {
+        if (!cancelled) setSchedule(result);
+      })
+      .catch(() => {
+        // Critical path highlighting is optional; the chart renders without it.
+        if (!cancelled) setSchedule(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeProjectId, tasks, enabled]);
+
+  return { schedule };
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { useTimeTravel } from './useTimeTravel';
+import { apiService } from '../../services/apiService';
+import { ProjectSnapshot } from '../../types';
+import { I18nProvider } from '../i18n';
+
+vi.mock('../../services/apiService', () => ({
+  apiService: {
+    getProjectSnapshot: vi.fn(),
+  },
+}));
+
+const api = apiService as unknown as {
+  getProjectSnapshot: ReturnType<typeof vi.fn>;
+};
+
+const snapshot: ProjectSnapshot = {
+  at: 1000,
+  project: { id: 'p1', name: 'Alpha' },
+  tasks: [],
+};
+
+describe('useTimeTravel', () => {
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <I18nProvider>{children}</I18nProvider>
+  );
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('loads the snapshot for the chosen time and clears it on exit', async () => {
+    api.getProjectSnapshot.mockResolvedValue(snapshot);
+    const { result } = renderHook(() => useTimeTravel('p1'), { wrapper });
+
+    act(() => {
+      result.current.setTimeTravelAt(1000);
+    });
+
+    await waitFor(() => expect(result.current.snapshot).toEqual(snapshot));
+    expect(api.getProjectSnapshot).toHaveBeenCalledWith('p1', 1000);
+
+    act(() => {
+      result.current.exitTimeTravel();
+    });
+
+    expect(result.current.isTimeTraveling).toBe(false);
+    expect(result.current.snapshot).toBeNull();
+  });
+
+  it('reports an error when the project did not exist yet', async () => {
+    api.getProjectSnapshot.mockRejectedValue(new Error('Project did not exist at that time.'));
+    const { result } = renderHook(() => useTimeTravel('p1'), { wrapper });
+
+    act(() => {
+      result.current.setTimeTravelAt(1);
+    });
+
+    await waitFor(() => expect(result.current.snapshotError).toBe('Project did not exist at that time.'));
+    expect(result.current.snapshot).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiService } from '../../services/apiService';
+import type { ProjectSnapshot } from '../../types';
+import { useI18n } from '../i18n';
+
+const SNAPSHOT_DEBOUNCE_MS = 250;
+
+export const useTimeTravel = (activeProjectId: string) => {
+  const { t } = useI18n();
+  const [timeTravelAt, setTimeTravelAt] = useState<number | null>(null);
+  const [snapshot, setSnapshot] = useState<ProjectSnapshot | null>(null);
+  const [isSnapshotLoading, setIsSnapshotLoading] = useState(false);
+  const [snapshotError, setSnapshotError] = useState<string | null>(null);
+
+  const exitTimeTravel = useCallback(() => {
+    setTimeTravelAt(null);
+    setSnapshot(null);
+    setSnapshotError(null);
+  }, []);
+
+  // A snapshot belongs to one project; switching projects returns to the present.
+  useEffect(() => {
+    exitTimeTravel();
+  }, [activeProjectId, exitTimeTravel]);
+
+  // Dragging the slider fires many changes, so only the value it settles on is fetched.
+  useEffect(() => {
+    if (timeTravelAt === null || !activeProjectId) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSnapshotLoading(true);
+      setSnapshotError(null);
+      try {
+        const result = await apiService.getProjectSnapshot(activeProjectId, timeTravelAt);
+        if (!cancelled) setSnapshot(result);
+      } catch (error) {
+        if (cancelled) return;
+        setSnapshot(null);
+        setSnapshotError(error instanceof Error ? error.message : t('time_travel.load_failed'));
+      } finally {
+        if (!cancelled) setIsSnapshotLoading(false);
+      }
+    }, SNAPSHOT_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [activeProjectId, timeTravelAt, t]);
+
+  return {
+    timeTravelAt,
+    setTimeTravelAt,
+    isTimeTraveling: timeTravelAt !== null,
+    snapshot,
+    isSnapshotLoading,
+    snapshotError,
+    exitTimeTravel,
+  };
+};
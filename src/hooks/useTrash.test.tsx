@@ -0,0 +1,69 @@
+import React from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { useTrash } from './useTrash';
+import { apiService } from '../../services/apiService';
+import { TrashItem } from '../../types';
+import { I18nProvider } from '../i18n';
+
+vi.mock('../../services/apiService', () => ({
+  apiService: {
+    listTrash: vi.fn(),
+    restoreProject: vi.fn(),
+    restoreTask: vi.fn(),
+  },
+}));
+
+const api = apiService as unknown as {
+  listTrash: ReturnType<typeof vi.fn>;
+  restoreProject: ReturnType<typeof vi.fn>;
+  restoreTask: ReturnType<typeof vi.fn>;
+};
+
+const deletedProject: TrashItem = {
+  auditId: 'a1',
+  entityType: 'project',
+  entityId: 'p1',
+  name: 'Alpha',
+  projectId: 'p1',
+  taskCount: 2,
+  deletedAt: 1000,
+  actor: 'user',
+  actorUserId: null,
+};
+
+describe('useTrash', () => {
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <I18nProvider>{children}</I18nProvider>
+  );
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('loads the trash when opened and refreshes everything after a restore', async () => {
+    api.listTrash.mockResolvedValueOnce({ projects: [deletedProject], tasks: [] });
+    api.listTrash.mockResolvedValueOnce({ projects: [], tasks: [] });
+    api.restoreProject.mockResolvedValue({ project: { id: 'p1', name: 'Alpha' }, tasks: [], warnings: [] });
+    const refreshData = vi.fn().mockResolvedValue(undefined);
+    const refreshAuditLogs = vi.fn().mockResolvedValue(undefined);
+    const appendSystemMessage = vi.fn();
+
+    const { result } = renderHook(
+      () => useTrash({ isOpen: true, refreshData, refreshAuditLogs, appendSystemMessage }),
+      { wrapper }
+    );
+
+    await waitFor(() => expect(result.current.trash.projects).toHaveLength(1));
+
+    await act(async () => {
+      await result.current.handleRestore(deletedProject);
+    });
+
+    expect(api.restoreProject).toHaveBeenCalledWith('p1');
+    expect(refreshData).toHaveBeenCalled();
+    expect(refreshAuditLogs).toHaveBeenCalledWith('p1');
+    expect(result.current.trash.projects).toHaveLength(0);
+    expect(appendSystemMessage).toHaveBeenCalledWith(expect.stringContaining('Alpha'));
+  });
+});
@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiService } from '../../services/apiService';
+import type { TrashContents, TrashItem } from '../../types';
+import { useI18n } from '../i18n';
+
+interface UseTrashProps {
+  isOpen: boolean;
+  refreshData: () => Promise<void>;
+  refreshAuditLogs: (projectId?: string) => Promise<void>;
+  appendSystemMessage: (text: string) => void;
+}
+
+const EMPTY_TRASH: TrashContents = { projects: [], tasks: [] };
+
+export const useTrash = ({ isOpen, refreshData, refreshAuditLogs, appendSystemMessage }: UseTrashProps) => {
+  const { t } = useI18n();
+  const [trash, setTrash] = useState<TrashContents>(EMPTY_TRASH);
+  const [isTrashLoading, setIsTrashLoading] = useState(false);
+  const [trashError, setTrashError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const refreshTrash = useCallback(async () => {
+    try {
+      setIsTrashLoading(true);
+      setTrashError(null);
+      setTrash(await apiService.listTrash());
+    } catch (error) {
+      setTrashError(error instanceof Error ? error.message : t('trash.load_failed'));
+    } finally {
+      setIsTrashLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (isOpen) void refreshTrash();
+  }, [isOpen, refreshTrash]);
+
+  const handleRestore = useCallback(async (item: TrashItem) => {
+    try {
+      setRestoringId(item.entityId);
+      const { warnings } = item.entityType === 'project'
+        ? await apiService.restoreProject(item.entityId)
+        : await apiService.restoreTask(item.entityId);
+      await refreshData();
+      await refreshAuditLogs(item.projectId ?? undefined);
+      await refreshTrash();
+      appendSystemMessage(t('trash.restored', { name: item.name }));
+      if (warnings.length > 0) {
+        appendSystemMessage(t('trash.restore_warnings', { warnings: warnings.join(' ') }));
+      }
+    } catch (error) {
+      appendSystemMessage(error instanceof Error ? t('trash.restore_failed_detail', { error: error.message }) : t('trash.restore_failed'));
+    } finally {
+      setRestoringId(null);
+    }
+  }, [refreshData, refreshAuditLogs, refreshTrash, appendSystemMessage, t]);
+
+  return {
+    trash,
+    isTrashLoading,
+    trashError,
+    restoringId,
+    refreshTrash,
+    handleRestore,
+  };
+};
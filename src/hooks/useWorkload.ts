@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react';
+import { apiService } from '../../services/apiService';
+import type { Task, Workload } from '../../types';
+
+// Load spans every project in the workspace; the active project's tasks are only a refetch trigger.
+export const useWorkload = (tasks: Task[], enabled = true) => {
+  const [workload, setWorkload] = useState<Workload | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setWorkload(null);
+      setError(null);
+      return;
+    }
+    let cancelled = false;
+    apiService.getWorkload()
+      .then((result) => {
+        if (cancelled) return;
+        setWorkload(result);
+        setError(null);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setWorkload(null);
+        setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tasks, enabled]);
+
+  return { workload, error };
+};
@@ -1,6 +1,6 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import { apiService } from '../../services/apiService';
-import type { User, WorkspaceJoinRequest, WorkspaceMember, WorkspaceWithMembership } from '../../types';
+import type { DraftApprovalPolicy, User, WorkCalendar, WorkspaceJoinRequest, WorkspaceMember, WorkspaceWithMembership } from '../../types';
 import { PUBLIC_WORKSPACE_ID } from '../../types';
 
 const STORAGE_KEY = 'flowsync:activeWorkspaceId';
@@ -28,6 +28,8 @@ export const useWorkspaces = (user: User | null) => {
   const [activeWorkspaceId, setActiveWorkspaceId] = useState<string>(PUBLIC_WORKSPACE_ID);
   const [pendingRequests, setPendingRequests] = useState<WorkspaceJoinRequest[]>([]);
   const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [approvalPolicy, setApprovalPolicy] = useState<DraftApprovalPolicy | null>(null);
+  const [workspaceCalendar, setWorkspaceCalendar] = useState<WorkCalendar | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -67,14 +69,20 @@ export const useWorkspaces = (user: User | null) => {
     if (!userId || !current || membership?.role !== 'admin' || membership?.status !== 'active') {
       setPendingRequests([]);
       setMembers([]);
+      setApprovalPolicy(null);
+      setWorkspaceCalendar(null);
       return;
     }
     Promise.all([
       apiService.listWorkspaceRequests(activeWorkspaceId).catch(() => [] as WorkspaceJoinRequest[]),
       apiService.listWorkspaceMembers(activeWorkspaceId).catch(() => [] as WorkspaceMember[]),
-    ]).then(([requests, memberList]) => {
+      apiService.getApprovalPolicy(activeWorkspaceId).catch(() => null),
+      apiService.getWorkspaceCalendar(activeWorkspaceId).catch(() => null),
+    ]).then(([requests, memberList, policy, calendar]) => {
       setPendingRequests(requests);
       setMembers(memberList);
+      setApprovalPolicy(policy);
+      setWorkspaceCalendar(calendar);
     });
   }, [activeWorkspaceId, user?.id, workspaces]);
 
@@ -128,6 +136,24 @@ export const useWorkspaces = (user: User | null) => {
     await refreshWorkspaces();
   }, [refreshWorkspaces]);
 
+  const saveApprovalPolicy = useCallback(async (workspaceId: string, policy: Partial<DraftApprovalPolicy>) => {
+    const next = await apiService.updateApprovalPolicy(workspaceId, policy);
+    setApprovalPolicy(next);
+    return next;
+  }, []);
+
+  const saveWorkspaceCalendar = useCallback(async (workspaceId: string, calendar: Partial<WorkCalendar>) => {
+    const next = await apiService.updateWorkspaceCalendar(workspaceId, calendar);
+    setWorkspaceCalendar(next);
+    return next;
+  }, []);
+
+  const importHolidays = useCallback(async (workspaceId: string, ics: string) => {
+    const result = await apiService.importWorkspaceHolidays(workspaceId, ics);
+    setWorkspaceCalendar(result.calendar);
+    return result;
+  }, []);
+
   return {
     workspaces,
     accessibleWorkspaces,
@@ -135,6 +161,8 @@ export const useWorkspaces = (user: User | null) => {
     setActiveWorkspaceId: selectWorkspace,
     pendingRequests,
     members,
+    approvalPolicy,
+    workspaceCalendar,
     isLoading,
     error,
     refreshWorkspaces,
@@ -143,5 +171,8 @@ export const useWorkspaces = (user: User | null) => {
     approveRequest,
     rejectRequest,
     removeMember,
+    saveApprovalPolicy,
+    saveWorkspaceCalendar,
+    importHolidays,
   };
 };
@@ -31,6 +31,7 @@ const actionKeyMap: Record<string, string> = {
   update: 'audit.actions.update',
   delete: 'audit.actions.delete',
   rollback: 'audit.actions.rollback',
+  restore: 'audit.actions.restore',
 };
 
 const entityKeyMap: Record<string, string> = {
@@ -8,6 +8,8 @@ const en = {
 
   'common.na': 'N/A',
   'common.close': 'Close',
+  'common.save': 'Save',
+  'common.cancel': 'Cancel',
   'common.optional': 'Optional',
 
   'app.sidebar.open': 'Open Sidebar',
@@ -17,12 +19,15 @@ const en = {
   'app.sidebar.collapse': 'Collapse Sidebar',
   'app.sidebar.delete': 'Delete Project',
   'app.sidebar.delete_confirm': 'Delete project "{name}"?',
+  'app.sidebar.trash': 'Trash',
   'app.sidebar.tip': 'Have suggestions? Send us feedback.',
   'app.sidebar.tip.subject': 'Suggestions for FlowSync',
 
   'app.view.board': 'Board',
   'app.view.list': 'List',
   'app.view.gantt': 'Gantt',
+  'app.view.workload': 'Workload',
+  'app.view.dashboard': 'Dashboard',
 
   'app.header.import': 'Import',
   'app.header.import_strategy': 'Import strategy',
@@ -54,6 +59,28 @@ const en = {
   'workspace.members': 'Members',
   'workspace.remove': 'Remove',
   'workspace.remove_confirm': 'Remove member "{name}"?',
+  'workspace.policy.title': 'Draft Approval Policy',
+  'workspace.policy.description': 'Drafts that break these rules cannot be applied until members sign off.',
+  'workspace.policy.required_approvals': 'Required approvals per draft',
+  'workspace.policy.agent_task_threshold': 'Admin sign-off when a draft touches more tasks than',
+  'workspace.policy.no_limit': 'No limit',
+  'workspace.policy.admin_for_project_delete': 'Admin sign-off for project deletion',
+  'workspace.calendar.title': 'Working Calendar',
+  'workspace.calendar.description': 'Dependency shifts and durations count working days only. Projects can override this calendar.',
+  'workspace.calendar.working_days': 'Working days',
+  'workspace.calendar.holidays': 'Holidays',
+  'workspace.calendar.hours_per_day': 'Hours per person per working day',
+  'workspace.calendar.availability': 'Days off per assignee',
+  'workspace.calendar.availability_placeholder': 'Alice: 2026-08-03, 2026-08-04',
+  'workspace.calendar.import_ics': 'Import holidays (.ics)',
+  'workspace.calendar.importing': 'Importing...',
+  'workspace.calendar.weekday.0': 'Sun',
+  'workspace.calendar.weekday.1': 'Mon',
+  'workspace.calendar.weekday.2': 'Tue',
+  'workspace.calendar.weekday.3': 'Wed',
+  'workspace.calendar.weekday.4': 'Thu',
+  'workspace.calendar.weekday.5': 'Fri',
+  'workspace.calendar.weekday.6': 'Sat',
   'workspace.create_new': 'Create New Workspace',
   'workspace.create_desc': 'Create a workspace to organize your projects and team.',
   'workspace.create': 'Create Workspace',
@@ -100,13 +127,35 @@ const en = {
   'chat.pending.title': 'Review Pending Draft',
   'chat.pending.action_count': '{count} action(s)',
   'chat.pending.more': '+{count} more...',
+  'chat.pending.accept_action': 'Accept action',
+  'chat.pending.reject_action': 'Reject action',
+  'chat.pending.apply_selected': 'Apply {count} of {total}',
+  'chat.pending.edit_action': 'Edit action',
+  'chat.pending.approvals': 'Approvals {count}/{total}',
+  'chat.pending.admin_required': '· admin sign-off required',
+  'chat.pending.admin_approved': '· admin signed off',
+  'chat.pending.cascaded': 'Auto-shifted',
+  'chat.pending.approve': 'Approve',
+  'chat.pending.approved_by': 'Approved by {users}',
   'chat.accept': 'Accept',
   'chat.discard': 'Discard',
+  'chat.applied.title': 'Change set applied',
+  'chat.undo_change_set': 'Undo this change set',
   'chat.thinking': 'Joule thinking',
   'chat.attach_files': 'Attach files',
+  'chat.attachment_uploading': 'Uploading…',
+  'chat.attachment_failed': 'Could not attach {name}: {error}',
   'chat.placeholder': 'Ask Joule...',
   'chat.code': 'code',
   'chat.you': 'You',
+  'chat.streaming': 'Typing…',
+  'chat.conversations.title': 'Conversations',
+  'chat.conversations.empty': 'No saved conversations for this project yet.',
+  'chat.conversations.teammate': 'Started by a teammate',
+  'chat.conversations.delete': 'Delete conversation',
+  'chat.conversations.read_only': 'This conversation was started by a teammate. Start a new chat to continue.',
+  'chat.conversations.open_failed': 'Could not open conversation: {error}',
+  'chat.conversations.delete_failed': 'Could not delete conversation: {error}',
   'chat.sent_attachments': 'Sent attachment(s).',
   'chat.error_prefix': 'Error: {error}',
   'chat.error_generic': 'Sorry, something went wrong.',
@@ -133,6 +182,7 @@ const en = {
   'processing.reading_task_list': 'Reading task list',
   'processing.reading_task_details': 'Reading task details',
   'processing.applying_draft': 'Applying draft',
+  'processing.validating_dependencies': 'Checking task dependencies',
 
   'tool.projects_list': 'Projects ({count}): {items}',
   'tool.project_details': 'Project: {name} ({id})',
@@ -145,18 +195,47 @@ const en = {
   'tool.error.no_valid_actions': 'No valid actions provided',
   'tool.retry.no_valid_actions': 'The planChanges call contained no valid actions. Please verify task IDs and criteria, then ensure you populate the actions array correctly.',
   'tool.apply.success': 'Applied draft {id}.',
+  'tool.graph.valid': 'Dependencies OK: no cycles or missing predecessors.',
+  'tool.graph.cycle': 'Dependency cycle: {path}.',
+  'tool.graph.dangling': '{count} predecessor ref(s) match no task: {refs}.',
   'tool.unknown': 'Unknown tool: {name}',
   'tool.error.generic': 'Error: {error}',
 
   'draft.warnings': 'Draft warnings: {warnings}',
   'draft.created': 'Draft created: {id}. Awaiting approval.',
   'draft.applied': 'Draft applied: {id}',
+  'draft.applied_partial': 'Draft applied: {id} ({count} of {total} actions; the rest were rejected)',
+  'draft.decision_failed': 'Failed to update action decision: {error}',
+  'draft.action_updated': 'Draft {id} re-planned with your edit.',
+  'draft.action_update_failed': 'Failed to edit draft action: {error}',
   'draft.discarded': 'Draft discarded: {id}',
   'draft.apply_failed': 'Failed to apply draft: {error}',
+  'draft.apply_failed_action': 'Draft {id} was not applied: action {index} ({action} {entity}) failed: {error} No changes were written.',
   'draft.discard_failed': 'Failed to discard draft: {error}',
   'draft.submit_failed': 'Failed to submit draft',
   'draft.created_action_count': 'Draft {id} created with {count} action(s).',
   'draft.create_failed': 'Failed to create draft: {error}',
+  'draft.revert_created': 'Revert draft {id} created for {source}. Review before applying.',
+  'draft.revert_conflicts': 'Revert conflicts ({count}): {conflicts}',
+  'draft.revert_failed': 'Failed to revert draft: {error}',
+  'draft.leveling_created': 'Leveling draft {id} delays {count} task(s) within their float. Review before applying.',
+  'draft.leveling_none': 'No leveling draft was created: {warnings}',
+  'draft.leveling_failed': 'Failed to level resources: {error}',
+  'draft.plan_created': 'Plan draft {id} proposes {count} task(s). Review before applying.',
+  'draft.stale': 'Draft {id} is out of date: {count} target(s) changed after it was planned. Rebase or force-apply.',
+  'draft.rebased': 'Draft {id} rebased onto the latest data. Review before applying.',
+  'draft.rebase_failed': 'Failed to rebase draft: {error}',
+  'draft.approval_required': 'Draft {id} needs approval before it can be applied.',
+  'draft.approved': 'Draft {id} approved ({count}/{total}).',
+  'draft.approve_failed': 'Failed to approve draft: {error}',
+  'draft.conflict.title': '{count} conflicting change(s)',
+  'draft.conflict.field': 'Field',
+  'draft.conflict.planned_before': 'Planned from',
+  'draft.conflict.current': 'Current',
+  'draft.conflict.planned_after': 'Planned to',
+  'draft.conflict.rebase': 'Rebase',
+  'draft.conflict.force_apply': 'Force apply',
+  'draft.view_conversation': 'View the conversation that proposed this draft',
 
   'audit.title': 'Audit Trail',
   'audit.subtitle': 'Recent activity for this project',
@@ -172,12 +251,76 @@ const en = {
   'audit.actions.update': 'Update',
   'audit.actions.delete': 'Delete',
   'audit.actions.rollback': 'Rollback',
+  'audit.actions.restore': 'Restore',
   'audit.entities.all': 'All Entities',
   'audit.entities.project': 'Project',
   'audit.entities.task': 'Task',
   'audit.clear': 'Clear',
   'audit.no_entries': 'No audit entries match the filters.',
   'audit.details': 'Details',
+  'audit.approved_by': 'Approved by {users}',
+  'audit.ai_request': 'AI request {id}',
+  'audit.view_conversation': 'View conversation',
+  'time_travel.label': 'Time travel',
+  'time_travel.toggle': 'Browse this project as it was at an earlier date',
+  'time_travel.viewing': 'Viewing {date}',
+  'time_travel.slider': 'Point in time',
+  'time_travel.read_only': 'Read-only',
+  'time_travel.exit': 'Back to present',
+  'baseline.select': 'Compare against baseline',
+  'baseline.none': 'No baseline',
+  'baseline.save': 'Save baseline',
+  'baseline.save_hint': 'Freeze the current plan to track schedule variance against it',
+  'baseline.saved': 'Saved baseline "{name}".',
+  'baseline.save_failed': 'Failed to save baseline.',
+  'baseline.save_failed_detail': 'Failed to save baseline: {error}',
+  'plan.open': 'Plan from document',
+  'plan.open_hint': 'Draft a full project plan from a requirements document',
+  'plan.title': 'Plan from a requirements document',
+  'plan.description': 'Upload a specification and the assistant drafts a work breakdown with durations, milestones and dependencies. Nothing changes until you apply the draft.',
+  'plan.document': 'Requirements document',
+  'plan.choose_file': 'Choose a file',
+  'plan.document_hint': 'Plain text, Markdown, CSV or PDF, up to 5 MB.',
+  'plan.start_date': 'Start date',
+  'plan.instructions': 'Instructions',
+  'plan.instructions_placeholder': 'e.g. Two developers, release before the end of the quarter',
+  'plan.generate': 'Generate plan',
+  'plan.failed': 'Failed to generate the plan.',
+  'plan.failed_detail': 'Failed to generate the plan: {error}',
+  'plan.stage.uploading': 'Uploading document',
+  'plan.stage.reading': 'Reading document',
+  'plan.stage.drafting': 'Drafting the plan',
+  'plan.stage.validating': 'Scheduling and checking dependencies',
+  'plan.stage.repairing': 'Asking the assistant to fix the plan',
+  'plan.stage.done': 'Done',
+  'plan.review.title': 'Review proposed plan',
+  'plan.review.counts': '{tasks} tasks, {milestones} milestones',
+  'plan.review.span': '{start} to {finish}',
+  'plan.review.tree': 'Work breakdown',
+  'plan.review.timeline': 'Timeline preview',
+  'plan.review.predecessors': 'Predecessors',
+  'plan.review.milestone': 'Milestone',
+  'plan.review.days': '{count} d',
+  'plan.review.apply': 'Apply plan',
+  'plan.review.discard': 'Discard',
+  'plan.review.later': 'Review later',
+  'trash.title': 'Trash',
+  'trash.projects': 'Deleted projects',
+  'trash.tasks': 'Deleted tasks',
+  'trash.empty': 'Nothing has been deleted.',
+  'trash.restore': 'Restore',
+  'trash.task_count': '{count} tasks',
+  'trash.deleted_by': 'Deleted {date} by {actor}',
+  'trash.restored': 'Restored "{name}".',
+  'trash.restore_warnings': 'Restored with warnings: {warnings}',
+  'trash.restore_failed': 'Restore failed.',
+  'trash.restore_failed_detail': 'Restore failed: {error}',
+  'trash.load_failed': 'Failed to load trash.',
+  'time_travel.load_failed': 'Failed to load the historical project state.',
+  'audit.applied_by': '(applied by @{user})',
+  'audit.by_user': 'By @{user}',
+  'audit.filter_by_user': 'Show only changes by @{user}',
+  'audit.clear_actor_user': 'Show changes by everyone',
   'audit.rollback': 'Rollback',
   'audit.rolling_back': 'Rolling back...',
   'audit.page_info': 'Page {page} of {totalPages} · {total} items',
@@ -207,9 +350,22 @@ const en = {
   'task.due_date': 'Due Date',
   'task.assignee': 'Assignee',
   'task.wbs_code': 'WBS Code',
+  'task.parent': 'Parent Task',
+  'task.no_parent': 'None (top level)',
+  'task.summary_rollup': 'Summary task: dates, completion and status roll up from its subtasks.',
   'task.completion': 'Completion',
+  'task.estimated_hours': 'Estimated (h)',
+  'task.actual_hours': 'Actual (h)',
+  'task.no_estimate': 'No estimate',
   'task.dependencies': 'Dependencies',
   'task.not_found': 'Task not found',
+  'task.link_type': 'Link type',
+  'task.link_types.FS': 'Finish → Start',
+  'task.link_types.SS': 'Start → Start',
+  'task.link_types.FF': 'Finish → Finish',
+  'task.link_types.SF': 'Start → Finish',
+  'task.lag_days': 'Lag in days (negative for lead)',
+  'task.lag_unit': 'days',
   'task.add_dependency': '+ Add Dependency...',
   'task.schedule_conflict': 'Schedule Conflict Detected',
   'task.fix_schedule': 'Fix Schedule (Shift Task)',
@@ -231,6 +387,8 @@ const en = {
   'kanban.empty_subtitle': 'Drag tasks here or create new ones',
 
   'list.header.wbs': 'WBS',
+  'list.expand': 'Expand subtasks',
+  'list.collapse': 'Collapse subtasks',
   'list.header.task_name': 'Task Name',
   'list.header.assignee': 'Assignee',
   'list.header.priority': 'Priority',
@@ -238,10 +396,19 @@ const en = {
   'list.header.progress': 'Progress',
   'list.header.start': 'Start',
   'list.header.due': 'Due',
+  'list.header.start_slip': 'Start Slip',
+  'list.header.finish_slip': 'Finish Slip',
+  'list.header.slip_hint': 'Working days behind (+) or ahead of (-) the baseline',
   'list.empty': 'No tasks in this list',
 
   'gantt.no_tasks': 'No tasks found.',
   'gantt.show_list': 'Show List',
+  'gantt.critical_path': 'Critical Path',
+  'gantt.critical_task': 'On the critical path: any delay moves the project finish',
+  'gantt.float': 'Float: {days} days',
+  'gantt.duration': '{days} working days',
+  'gantt.baseline': 'Baseline: {name}',
+  'gantt.slip': 'Slip: start {start}d, finish {finish}d',
   'gantt.view.day': 'Day',
   'gantt.view.week': 'Week',
   'gantt.view.month': 'Month',
@@ -251,6 +418,45 @@ const en = {
   'gantt.today': 'Today',
   'gantt.dependency': 'Dependency',
 
+  'dashboard.title': 'Earned Value',
+  'dashboard.against_plan': 'Planned value follows the current plan',
+  'dashboard.against_baseline': 'Planned value follows baseline {name}',
+  'dashboard.chart_label': 'Planned value, earned value and actual cost over time',
+  'dashboard.empty': 'No earned value yet. Give tasks dates or estimates to track schedule performance.',
+  'dashboard.no_costs': 'No hours logged yet; cost variance and CPI appear once tasks record actual hours.',
+  'dashboard.bac': 'BAC',
+  'dashboard.bac_hint': 'Budget at completion: every task at its estimate, or its working days when it has none',
+  'dashboard.pv': 'PV',
+  'dashboard.pv_hint': 'Planned value: work scheduled to be done by now',
+  'dashboard.ev': 'EV',
+  'dashboard.ev_hint': 'Earned value: budget times completion',
+  'dashboard.ac': 'AC',
+  'dashboard.ac_hint': 'Actual cost: hours logged on tasks',
+  'dashboard.sv': 'SV',
+  'dashboard.sv_hint': 'Schedule variance: EV minus PV',
+  'dashboard.spi': 'SPI',
+  'dashboard.spi_hint': 'Schedule performance index: EV / PV, below 1 is behind schedule',
+  'dashboard.cv': 'CV',
+  'dashboard.cv_hint': 'Cost variance: EV minus AC',
+  'dashboard.cpi': 'CPI',
+  'dashboard.cpi_hint': 'Cost performance index: EV / AC, below 1 is over budget',
+
+  'workload.title': 'Resource Load',
+  'workload.subtitle': 'Estimated hours per person across all projects in this workspace',
+  'workload.view.day': 'Day',
+  'workload.view.week': 'Week',
+  'workload.capacity': 'Capacity',
+  'workload.overloaded': 'Over capacity',
+  'workload.summary': '{total}h planned · {actual}h logged',
+  'workload.overloaded_days': '{count} day(s) over capacity',
+  'workload.bar': '{date}: {hours}h of {capacity}h',
+  'workload.unestimated': '{count} assigned task(s) have no estimate and add no load.',
+  'workload.empty': 'No estimated work is assigned yet. Add estimates and assignees to tasks to see the load.',
+  'workload.load_failed': 'Failed to load the workload.',
+  'workload.level': 'Level project',
+  'workload.level_hint': 'Propose a draft that delays non-critical tasks of this project so no one is over capacity',
+  'workload.leveling': 'Leveling...',
+
   'project.create.title': 'Create New Project',
   'project.create.name': 'Project Name',
   'project.create.description': 'Description',
@@ -269,6 +475,7 @@ const en = {
   'export.format.chat_txt_desc': 'AI conversation transcript',
   'export.pdf.title_all': 'All Projects - Task Export',
   'export.pdf.title_project': '{project} - Task Export',
+  'export.pdf.earned_value': 'Earned value as of {date} (hours)',
   'export.exported_at': 'Exported: {date}',
   'export.markdown.title_all': '# All Projects Tasks',
   'export.markdown.title_project': '# {project} Tasks',
@@ -308,6 +515,8 @@ const zh: Record<keyof typeof en, string> = {
 
   'common.na': '无',
   'common.close': '关闭',
+  'common.save': '保存',
+  'common.cancel': '取消',
   'common.optional': '可选',
 
   'app.sidebar.open': '打开侧边栏',
@@ -317,12 +526,15 @@ const zh: Record<keyof typeof en, string> = {
   'app.sidebar.collapse': '收起侧边栏',
   'app.sidebar.delete': '删除项目',
   'app.sidebar.delete_confirm': '删除项目“{name}”吗？',
+  'app.sidebar.trash': '回收站',
   'app.sidebar.tip': '有任何建议？欢迎反馈。',
   'app.sidebar.tip.subject': '关于FlowSync的建议',
 
   'app.view.board': '看板',
   'app.view.list': '列表',
   'app.view.gantt': '甘特',
+  'app.view.workload': '负荷',
+  'app.view.dashboard': '仪表盘',
 
   'app.header.import': '导入',
   'app.header.import_strategy': '导入策略',
@@ -354,6 +566,28 @@ const zh: Record<keyof typeof en, string> = {
   'workspace.members': '成员',
   'workspace.remove': '移除',
   'workspace.remove_confirm': '确定移除成员“{name}”吗？',
+  'workspace.policy.title': '草案审批策略',
+  'workspace.policy.description': '不满足这些规则的草案需成员签核后才能应用。',
+  'workspace.policy.required_approvals': '每个草案所需审批数',
+  'workspace.policy.agent_task_threshold': '草案涉及任务数超过此值时需管理员签核',
+  'workspace.policy.no_limit': '不限',
+  'workspace.policy.admin_for_project_delete': '删除项目需管理员签核',
+  'workspace.calendar.title': '工作日历',
+  'workspace.calendar.description': '依赖顺延和工期仅按工作日计算。项目可覆盖此日历。',
+  'workspace.calendar.working_days': '工作日',
+  'workspace.calendar.holidays': '节假日',
+  'workspace.calendar.hours_per_day': '每人每个工作日工时',
+  'workspace.calendar.availability': '成员休假日',
+  'workspace.calendar.availability_placeholder': '张三: 2026-08-03, 2026-08-04',
+  'workspace.calendar.import_ics': '导入节假日 (.ics)',
+  'workspace.calendar.importing': '导入中...',
+  'workspace.calendar.weekday.0': '日',
+  'workspace.calendar.weekday.1': '一',
+  'workspace.calendar.weekday.2': '二',
+  'workspace.calendar.weekday.3': '三',
+  'workspace.calendar.weekday.4': '四',
+  'workspace.calendar.weekday.5': '五',
+  'workspace.calendar.weekday.6': '六',
   'workspace.create_new': '创建新工作区',
   'workspace.create_desc': '创建一个工作区来组织您的项目和团队。',
   'workspace.create': '创建工作区',
@@ -400,13 +634,35 @@ const zh: Record<keyof typeof en, string> = {
   'chat.pending.title': '审核待处理草案',
   'chat.pending.action_count': '{count} 个操作',
   'chat.pending.more': '+{count} 条更多…',
+  'chat.pending.accept_action': '接受操作',
+  'chat.pending.reject_action': '拒绝操作',
+  'chat.pending.apply_selected': '应用 {count}/{total} 项',
+  'chat.pending.edit_action': '编辑操作',
+  'chat.pending.approvals': '审批 {count}/{total}',
+  'chat.pending.admin_required': '· 需要管理员签核',
+  'chat.pending.admin_approved': '· 管理员已签核',
+  'chat.pending.cascaded': '顺延',
+  'chat.pending.approve': '批准',
+  'chat.pending.approved_by': '批准人：{users}',
   'chat.accept': '接受',
   'chat.discard': '丢弃',
+  'chat.applied.title': '变更集已应用',
+  'chat.undo_change_set': '撤销此变更集',
   'chat.thinking': 'Joule 思考中',
   'chat.attach_files': '添加附件',
+  'chat.attachment_uploading': '正在上传…',
+  'chat.attachment_failed': '无法添加附件 {name}：{error}',
   'chat.placeholder': '问问 Joule…',
   'chat.code': '代码',
   'chat.you': '你',
+  'chat.streaming': '正在输入…',
+  'chat.conversations.title': '对话记录',
+  'chat.conversations.empty': '此项目还没有保存的对话。',
+  'chat.conversations.teammate': '由团队成员发起',
+  'chat.conversations.delete': '删除对话',
+  'chat.conversations.read_only': '此对话由团队成员发起。请开始新对话以继续。',
+  'chat.conversations.open_failed': '无法打开对话：{error}',
+  'chat.conversations.delete_failed': '无法删除对话：{error}',
   'chat.sent_attachments': '已发送附件。',
   'chat.error_prefix': '错误：{error}',
   'chat.error_generic': '抱歉，出现了问题。',
@@ -433,6 +689,7 @@ const zh: Record<keyof typeof en, string> = {
   'processing.reading_task_list': '读取任务列表',
   'processing.reading_task_details': '读取任务详情',
   'processing.applying_draft': '应用草案',
+  'processing.validating_dependencies': '检查任务依赖',
 
   'tool.projects_list': '项目（{count}）：{items}',
   'tool.project_details': '项目：{name}（{id}）',
@@ -445,18 +702,47 @@ const zh: Record<keyof typeof en, string> = {
   'tool.error.no_valid_actions': '未提供有效操作',
   'tool.retry.no_valid_actions': 'planChanges 调用未包含有效操作。请确认任务 ID 与条件，并确保正确填充 actions 数组。',
   'tool.apply.success': '已应用草案 {id}。',
+  'tool.graph.valid': '依赖检查通过：无循环，无缺失的前置任务。',
+  'tool.graph.cycle': '依赖循环：{path}。',
+  'tool.graph.dangling': '{count} 个前置引用找不到对应任务：{refs}。',
   'tool.unknown': '未知工具：{name}',
   'tool.error.generic': '错误：{error}',
 
   'draft.warnings': '草案警告：{warnings}',
   'draft.created': '草案已创建：{id}。等待审批。',
   'draft.applied': '草案已应用：{id}',
+  'draft.applied_partial': '草案已应用：{id}（{total} 个操作中的 {count} 个，其余已拒绝）',
+  'draft.decision_failed': '更新操作决定失败：{error}',
+  'draft.action_updated': '草案 {id} 已根据你的修改重新规划。',
+  'draft.action_update_failed': '编辑草案操作失败：{error}',
   'draft.discarded': '草案已丢弃：{id}',
   'draft.apply_failed': '应用草案失败：{error}',
+  'draft.apply_failed_action': '草案 {id} 未应用：第 {index} 个操作（{action} {entity}）失败：{error} 未写入任何更改。',
   'draft.discard_failed': '丢弃草案失败：{error}',
   'draft.submit_failed': '提交草案失败',
   'draft.created_action_count': '草案 {id} 已创建，共 {count} 个操作。',
   'draft.create_failed': '创建草案失败：{error}',
+  'draft.revert_created': '已为 {source} 创建撤销草案 {id}，请在应用前审核。',
+  'draft.revert_conflicts': '撤销冲突（{count}）：{conflicts}',
+  'draft.revert_failed': '撤销草案失败：{error}',
+  'draft.leveling_created': '资源平衡草案 {id} 在浮动时间内推迟了 {count} 个任务，请在应用前审核。',
+  'draft.leveling_none': '未创建资源平衡草案：{warnings}',
+  'draft.leveling_failed': '资源平衡失败：{error}',
+  'draft.plan_created': '计划草案 {id} 提议了 {count} 个任务，请在应用前审核。',
+  'draft.stale': '草案 {id} 已过期：{count} 个目标在规划后被修改。请变基或强制应用。',
+  'draft.rebased': '草案 {id} 已基于最新数据变基，请审核后再应用。',
+  'draft.rebase_failed': '变基草案失败：{error}',
+  'draft.approval_required': '草案 {id} 需要审批后才能应用。',
+  'draft.approved': '草案 {id} 已批准（{count}/{total}）。',
+  'draft.approve_failed': '批准草案失败：{error}',
+  'draft.conflict.title': '{count} 处冲突变更',
+  'draft.conflict.field': '字段',
+  'draft.conflict.planned_before': '规划前',
+  'draft.conflict.current': '当前值',
+  'draft.conflict.planned_after': '规划后',
+  'draft.conflict.rebase': '变基',
+  'draft.conflict.force_apply': '强制应用',
+  'draft.view_conversation': '查看提出此草案的对话',
 
   'audit.title': '审计记录',
   'audit.subtitle': '本项目最近活动',
@@ -472,12 +758,76 @@ const zh: Record<keyof typeof en, string> = {
   'audit.actions.update': '更新',
   'audit.actions.delete': '删除',
   'audit.actions.rollback': '回滚',
+  'audit.actions.restore': '恢复',
   'audit.entities.all': '所有实体',
   'audit.entities.project': '项目',
   'audit.entities.task': '任务',
   'audit.clear': '清除',
   'audit.no_entries': '没有符合筛选条件的审计记录。',
   'audit.details': '详情',
+  'audit.approved_by': '批准人：{users}',
+  'audit.ai_request': 'AI 请求 {id}',
+  'audit.view_conversation': '查看对话',
+  'time_travel.label': '时间回溯',
+  'time_travel.toggle': '查看该项目在更早日期的状态',
+  'time_travel.viewing': '正在查看 {date}',
+  'time_travel.slider': '时间点',
+  'time_travel.read_only': '只读',
+  'time_travel.exit': '返回当前',
+  'baseline.select': '对比基线',
+  'baseline.none': '无基线',
+  'baseline.save': '保存基线',
+  'baseline.save_hint': '冻结当前计划，用于跟踪进度偏差',
+  'baseline.saved': '已保存基线“{name}”。',
+  'baseline.save_failed': '保存基线失败。',
+  'baseline.save_failed_detail': '保存基线失败：{error}',
+  'plan.open': '从文档生成计划',
+  'plan.open_hint': '根据需求文档起草完整的项目计划',
+  'plan.title': '从需求文档生成计划',
+  'plan.description': '上传需求说明，助手会起草包含工期、里程碑和依赖关系的工作分解结构。应用草案之前不会有任何更改。',
+  'plan.document': '需求文档',
+  'plan.choose_file': '选择文件',
+  'plan.document_hint': '支持纯文本、Markdown、CSV 或 PDF，最大 5 MB。',
+  'plan.start_date': '开始日期',
+  'plan.instructions': '说明',
+  'plan.instructions_placeholder': '例如：两名开发人员，本季度末前发布',
+  'plan.generate': '生成计划',
+  'plan.failed': '生成计划失败。',
+  'plan.failed_detail': '生成计划失败：{error}',
+  'plan.stage.uploading': '正在上传文档',
+  'plan.stage.reading': '正在读取文档',
+  'plan.stage.drafting': '正在起草计划',
+  'plan.stage.validating': '正在排期并检查依赖',
+  'plan.stage.repairing': '正在请助手修正计划',
+  'plan.stage.done': '完成',
+  'plan.review.title': '审核计划草案',
+  'plan.review.counts': '{tasks} 个任务，{milestones} 个里程碑',
+  'plan.review.span': '{start} 至 {finish}',
+  'plan.review.tree': '工作分解结构',
+  'plan.review.timeline': '时间线预览',
+  'plan.review.predecessors': '前置任务',
+  'plan.review.milestone': '里程碑',
+  'plan.review.days': '{count} 天',
+  'plan.review.apply': '应用计划',
+  'plan.review.discard': '放弃',
+  'plan.review.later': '稍后审核',
+  'trash.title': '回收站',
+  'trash.projects': '已删除的项目',
+  'trash.tasks': '已删除的任务',
+  'trash.empty': '没有已删除的内容。',
+  'trash.restore': '恢复',
+  'trash.task_count': '{count} 个任务',
+  'trash.deleted_by': '{date} 由{actor}删除',
+  'trash.restored': '已恢复“{name}”。',
+  'trash.restore_warnings': '已恢复，但有警告：{warnings}',
+  'trash.restore_failed': '恢复失败。',
+  'trash.restore_failed_detail': '恢复失败：{error}',
+  'trash.load_failed': '加载回收站失败。',
+  'time_travel.load_failed': '加载项目历史状态失败。',
+  'audit.applied_by': '（由 @{user} 应用）',
+  'audit.by_user': '@{user} 的变更',
+  'audit.filter_by_user': '仅显示 @{user} 的变更',
+  'audit.clear_actor_user': '显示所有人的变更',
   'audit.rollback': '回滚',
   'audit.rolling_back': '回滚中...',
   'audit.page_info': '第 {page}/{totalPages} 页 · 共 {total} 条',
@@ -507,9 +857,22 @@ const zh: Record<keyof typeof en, string> = {
   'task.due_date': '截止日期',
   'task.assignee': '负责人',
   'task.wbs_code': 'WBS 编码',
+  'task.parent': '上级任务',
+  'task.no_parent': '无（顶层）',
+  'task.summary_rollup': '汇总任务：日期、完成度和状态由子任务汇总。',
   'task.completion': '完成度',
+  'task.estimated_hours': '预估工时 (h)',
+  'task.actual_hours': '实际工时 (h)',
+  'task.no_estimate': '未预估',
   'task.dependencies': '依赖',
   'task.not_found': '未找到任务',
+  'task.link_type': '依赖类型',
+  'task.link_types.FS': '完成-开始',
+  'task.link_types.SS': '开始-开始',
+  'task.link_types.FF': '完成-完成',
+  'task.link_types.SF': '开始-完成',
+  'task.lag_days': '延隔天数（负数为提前）',
+  'task.lag_unit': '天',
   'task.add_dependency': '+ 添加依赖...',
   'task.schedule_conflict': '检测到进度冲突',
   'task.fix_schedule': '修复排期（顺延任务）',
@@ -531,6 +894,8 @@ const zh: Record<keyof typeof en, string> = {
   'kanban.empty_subtitle': '拖动任务到此处或新建任务',
 
   'list.header.wbs': 'WBS',
+  'list.expand': '展开子任务',
+  'list.collapse': '折叠子任务',
   'list.header.task_name': '任务名称',
   'list.header.assignee': '负责人',
   'list.header.priority': '优先级',
@@ -538,10 +903,19 @@ const zh: Record<keyof typeof en, string> = {
   'list.header.progress': '进度',
   'list.header.start': '开始',
   'list.header.due': '截止',
+  'list.header.start_slip': '开始偏差',
+  'list.header.finish_slip': '完成偏差',
+  'list.header.slip_hint': '相对基线延后 (+) 或提前 (-) 的工作日数',
   'list.empty': '此列表暂无任务',
 
   'gantt.no_tasks': '未找到任务。',
   'gantt.show_list': '显示列表',
+  'gantt.critical_path': '关键路径',
+  'gantt.critical_task': '位于关键路径：任何延误都会推迟项目完成',
+  'gantt.float': '浮动时间：{days} 天',
+  'gantt.duration': '{days} 个工作日',
+  'gantt.baseline': '基线：{name}',
+  'gantt.slip': '偏差：开始 {start} 天，完成 {finish} 天',
   'gantt.view.day': '天',
   'gantt.view.week': '周',
   'gantt.view.month': '月',
@@ -551,6 +925,45 @@ const zh: Record<keyof typeof en, string> = {
   'gantt.today': '今天',
   'gantt.dependency': '依赖',
 
+  'dashboard.title': '挣值',
+  'dashboard.against_plan': '计划值按当前计划计算',
+  'dashboard.against_baseline': '计划值按基线 {name} 计算',
+  'dashboard.chart_label': '计划值、挣值和实际成本随时间的变化',
+  'dashboard.empty': '暂无挣值数据。为任务设置日期或预估工时后即可跟踪进度绩效。',
+  'dashboard.no_costs': '尚未记录工时；任务记录实际工时后将显示成本偏差和 CPI。',
+  'dashboard.bac': 'BAC',
+  'dashboard.bac_hint': '完工预算：每个任务按预估工时计，无预估时按工作日计',
+  'dashboard.pv': 'PV',
+  'dashboard.pv_hint': '计划值：截至目前计划完成的工作',
+  'dashboard.ev': 'EV',
+  'dashboard.ev_hint': '挣值：预算乘以完成度',
+  'dashboard.ac': 'AC',
+  'dashboard.ac_hint': '实际成本：任务上记录的工时',
+  'dashboard.sv': 'SV',
+  'dashboard.sv_hint': '进度偏差：EV 减 PV',
+  'dashboard.spi': 'SPI',
+  'dashboard.spi_hint': '进度绩效指数：EV / PV，小于 1 表示进度落后',
+  'dashboard.cv': 'CV',
+  'dashboard.cv_hint': '成本偏差：EV 减 AC',
+  'dashboard.cpi': 'CPI',
+  'dashboard.cpi_hint': '成本绩效指数：EV / AC，小于 1 表示超出预算',
+
+  'workload.title': '资源负荷',
+  'workload.subtitle': '本工作区所有项目中每人的预估工时',
+  'workload.view.day': '天',
+  'workload.view.week': '周',
+  'workload.capacity': '产能',
+  'workload.overloaded': '超出产能',
+  'workload.summary': '计划 {total}h · 已记录 {actual}h',
+  'workload.overloaded_days': '{count} 天超出产能',
+  'workload.bar': '{date}：{hours}h / {capacity}h',
+  'workload.unestimated': '{count} 个已分配任务未预估工时，不计入负荷。',
+  'workload.empty': '尚无已分配的预估工作。为任务填写预估工时和负责人后即可查看负荷。',
+  'workload.load_failed': '加载负荷失败。',
+  'workload.level': '平衡本项目',
+  'workload.level_hint': '生成草案，推迟本项目的非关键任务，使任何人都不超出产能',
+  'workload.leveling': '平衡中...',
+
   'project.create.title': '创建新项目',
   'project.create.name': '项目名称',
   'project.create.description': '描述',
@@ -569,6 +982,7 @@ const zh: Record<keyof typeof en, string> = {
   'export.format.chat_txt_desc': 'AI 对话记录',
   'export.pdf.title_all': '全部项目 - 任务导出',
   'export.pdf.title_project': '{project} - 任务导出',
+  'export.pdf.earned_value': '截至 {date} 的挣值（工时）',
   'export.exported_at': '导出时间：{date}',
   'export.markdown.title_all': '# 全部项目任务',
   'export.markdown.title_project': '# {project} 任务',
@@ -7,3 +7,8 @@ afterEach(() => {
 });
 
 expect.extend(matchers);
+
+// jsdom does not implement scrollIntoView, which ChatInterface calls on new messages.
+if (typeof Element !== 'undefined' && !Element.prototype.scrollIntoView) {
+  Element.prototype.scrollIntoView = () => {};
+}
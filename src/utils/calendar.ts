@@ -0,0 +1,40 @@
+import type { WorkCalendar } from '../../types';
+
+const DAY_MS = 86400000;
+
+function formatUtcDay(value: number): string {
+  return new Date(value).toISOString().split('T')[0];
+}
+
+export function isWorkingDay(calendar: WorkCalendar, value: number, assignee?: string | null): boolean {
+  const day = formatUtcDay(value);
+  if (!calendar.workingDays.includes(new Date(value).getUTCDay())) return false;
+  if (calendar.holidays.includes(day)) return false;
+  return !(assignee && calendar.availability[assignee]?.includes(day));
+}
+
+// Mirrors the worker's working-time measure: only the parts of the span that fall on working days count.
+export function workingDaysBetween(calendar: WorkCalendar, start: number, end: number, assignee?: string | null): number {
+  let total = 0;
+  for (let cursor = start; cursor < end; cursor = Math.floor(cursor / DAY_MS) * DAY_MS + DAY_MS) {
+    if (isWorkingDay(calendar, cursor, assignee)) {
+      total += Math.min(end, Math.floor(cursor / DAY_MS) * DAY_MS + DAY_MS) - cursor;
+    }
+  }
+  return Math.round(total / DAY_MS);
+}
+
+// Start of every non-working day in [start, end), for shading the timeline.
+export function listNonWorkingDays(calendar: WorkCalendar, start: number, end: number): number[] {
+  const days: number[] = [];
+  for (let cursor = Math.floor(start / DAY_MS) * DAY_MS; cursor < end; cursor += DAY_MS) {
+    if (!isWorkingDay(calendar, cursor)) days.push(cursor);
+  }
+  return days;
+}
+
+// Parses a comma- or whitespace-separated list of dates into a sorted unique list; anything that is not a YYYY-MM-DD date is dropped.
+export function parseDateList(text: string): string[] {
+  const dates = text.split(/[\s,;]+/).filter(value => /^\d{4}-\d{2}-\d{2}$/.test(value));
+  return Array.from(new Set(dates)).sort();
+}
@@ -17,6 +17,22 @@ export function formatExportDate(value?: number): string {
   return new Date(value).toISOString().slice(0, 10);
 }
 
+export function formatDateInput(value?: number | null): string {
+  if (!value) return '';
+  const date = new Date(value);
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const dayNum = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${dayNum}`;
+}
+
+export function parseDateInput(value: string): number | undefined {
+  if (!value) return undefined;
+  const [year, month, dayNum] = value.split('-').map(Number);
+  if (!year || !month || !dayNum) return undefined;
+  return new Date(year, month - 1, dayNum).getTime();
+}
+
 export function parseDateFlexible(value?: string): number | undefined {
   if (!value) return undefined;
   const trimmed = value.trim();
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { formatPredecessor, parsePredecessorList, remapPredecessor } from './dependencies';
+
+describe('dependencies', () => {
+  it('round-trips typed links through the text form', () => {
+    const predecessors = ['1.1', { ref: '1.2', type: 'SS' as const, lagDays: 2 }, { ref: 't3', type: 'FF' as const, lagDays: -1 }];
+    const text = predecessors.map(formatPredecessor).join(',');
+
+    expect(text).toBe('1.1,1.2:SS+2,t3:FF-1');
+    expect(parsePredecessorList(text)).toEqual(predecessors);
+  });
+
+  it('keeps plain finish-to-start links as bare refs when remapping IDs', () => {
+    const ids = new Map([['old', 'new']]);
+
+    expect(remapPredecessor('old', ids)).toBe('new');
+    expect(remapPredecessor({ ref: 'old', type: 'SF', lagDays: 0 }, ids)).toEqual({ ref: 'new', type: 'SF', lagDays: 0 });
+    expect(parsePredecessorList([{ ref: 'a', type: 'FS', lagDays: 0 }, 7])).toEqual(['a']);
+  });
+});
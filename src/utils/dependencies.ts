@@ -0,0 +1,83 @@
+import type { DependencyType, Task, TaskLink, TaskPredecessor } from '../../types';
+
+const DAY_MS = 86400000;
+const DEPENDENCY_TYPES: DependencyType[] = ['FS', 'SS', 'FF', 'SF'];
+
+export function toTaskLink(predecessor: TaskPredecessor): TaskLink {
+  if (typeof predecessor === 'string') return { ref: predecessor, type: 'FS', lagDays: 0 };
+  return {
+    ref: predecessor.ref,
+    type: DEPENDENCY_TYPES.includes(predecessor.type) ? predecessor.type : 'FS',
+    lagDays: Number.isFinite(predecessor.lagDays) ? predecessor.lagDays : 0,
+  };
+}
+
+export function predecessorRef(predecessor: TaskPredecessor): string {
+  return typeof predecessor === 'string' ? predecessor : predecessor.ref;
+}
+
+// Plain finish-to-start links stay bare refs so existing data and exports keep their shape.
+export function fromTaskLink(link: TaskLink): TaskPredecessor {
+  return link.type === 'FS' && link.lagDays === 0 ? link.ref : link;
+}
+
+// Text form used in CSV/TSV: "1.2" for finish-to-start, "1.2:SS+2" or "1.2:FF-1" otherwise.
+export function formatPredecessor(predecessor: TaskPredecessor): string {
+  const link = toTaskLink(predecessor);
+  if (link.type === 'FS' && link.lagDays === 0) return link.ref;
+  const lag = link.lagDays ? `${link.lagDays > 0 ? '+' : ''}${link.lagDays}` : '';
+  return `${link.ref}:${link.type}${lag}`;
+}
+
+export function parsePredecessor(value: string): TaskPredecessor | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const match = /^(.+):(FS|SS|FF|SF)([+-]\d+)?$/i.exec(trimmed);
+  if (!match) return trimmed;
+  return fromTaskLink({
+    ref: match[1].trim(),
+    type: match[2].toUpperCase() as DependencyType,
+    lagDays: match[3] ? Number(match[3]) : 0,
+  });
+}
+
+// Earliest start the link allows the successor, mirroring the server's constraint engine.
+export function linkedStart(link: TaskLink, predecessor: { start: number; end: number }, duration: number): number {
+  const lag = link.lagDays * DAY_MS;
+  switch (link.type) {
+    case 'SS':
+      return predecessor.start + lag;
+    case 'FF':
+      return predecessor.end + lag - duration;
+    case 'SF':
+      return predecessor.start + lag - duration;
+    default:
+      return predecessor.end + lag;
+  }
+}
+
+export function findPredecessorTask(tasks: Task[], predecessor: TaskPredecessor): Task | undefined {
+  const ref = predecessorRef(predecessor);
+  return tasks.find(task => task.id === ref) ?? tasks.find(task => task.wbs === ref);
+}
+
+// Accepts the JSON export's array form or the comma-separated text form of CSV/TSV.
+export function parsePredecessorList(value: unknown): TaskPredecessor[] | undefined {
+  if (typeof value === 'string') {
+    return value.split(',').map(parsePredecessor).filter((item): item is TaskPredecessor => item !== null);
+  }
+  if (!Array.isArray(value)) return undefined;
+  return value.flatMap((item): TaskPredecessor[] => {
+    if (typeof item === 'string') return item ? [item] : [];
+    if (item && typeof item === 'object' && typeof (item as TaskLink).ref === 'string') {
+      return [fromTaskLink(toTaskLink(item as TaskLink))];
+    }
+    return [];
+  });
+}
+
+export function remapPredecessor(predecessor: TaskPredecessor, ids: Map<string, string>): TaskPredecessor {
+  const mapped = ids.get(predecessorRef(predecessor));
+  if (!mapped) return predecessor;
+  return typeof predecessor === 'string' ? mapped : { ...predecessor, ref: mapped };
+}
@@ -0,0 +1,118 @@
+import type { Task } from '../../types';
+
+export interface TaskTreeRow<T extends Task = Task> {
+  task: T;
+  depth: number;
+  hasChildren: boolean;
+  isCollapsed: boolean;
+}
+
+function parentWbs(wbs: string): string | null {
+  const index = wbs.lastIndexOf('.');
+  return index > 0 ? wbs.slice(0, index) : null;
+}
+
+export function compareWbs(left?: string | null, right?: string | null): number {
+  if (left === right) return 0;
+  if (!left) return 1;
+  if (!right) return -1;
+  const a = left.split('.');
+  const b = right.split('.');
+  for (let index = 0; index < Math.max(a.length, b.length); index++) {
+    if (a[index] === undefined) return -1;
+    if (b[index] === undefined) return 1;
+    const order = a[index].localeCompare(b[index], undefined, { numeric: true });
+    if (order !== 0) return order;
+  }
+  return 0;
+}
+
+// Mirrors the worker: an explicit parentId in the same project wins, otherwise the nearest task whose
+// WBS code is a prefix of the task's own. Links that would loop are dropped.
+export function resolveParentIds(tasks: Task[]): Map<string, string | null> {
+  const parents = new Map<string, string | null>();
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const byWbs = new Map<string, Task>();
+  for (const task of tasks) {
+    const key = `${task.projectId}:${task.wbs}`;
+    if (task.wbs && !byWbs.has(key)) byWbs.set(key, task);
+  }
+
+  for (const task of tasks) {
+    const explicit = task.parentId ? byId.get(task.parentId) : undefined;
+    if (explicit && explicit.id !== task.id && explicit.projectId === task.projectId) {
+      parents.set(task.id, explicit.id);
+      continue;
+    }
+    let code = task.wbs ? parentWbs(task.wbs) : null;
+    let parent: Task | undefined;
+    while (code && !parent) {
+      const match = byWbs.get(`${task.projectId}:${code}`);
+      if (match && match.id !== task.id) parent = match;
+      code = parentWbs(code);
+    }
+    parents.set(task.id, parent?.id ?? null);
+  }
+
+  for (const task of tasks) {
+    const seen = new Set([task.id]);
+    for (let parentId = parents.get(task.id); parentId; parentId = parents.get(parentId)) {
+      if (seen.has(parentId)) {
+        parents.set(task.id, null);
+        break;
+      }
+      seen.add(parentId);
+    }
+  }
+  return parents;
+}
+
+// IDs of tasks that have subtasks; their dates, completion and status are rolled up by the worker.
+export function getSummaryTaskIds(tasks: Task[]): Set<string> {
+  return new Set(Array.from(resolveParentIds(tasks).values()).filter((id): id is string => !!id));
+}
+
+// Every task below the given one, at any depth.
+export function getDescendantIds(tasks: Task[], taskId: string): Set<string> {
+  const parents = resolveParentIds(tasks);
+  const descendants = new Set<string>();
+  let added = true;
+  while (added) {
+    added = false;
+    for (const task of tasks) {
+      const parentId = parents.get(task.id);
+      if (parentId && (parentId === taskId || descendants.has(parentId)) && !descendants.has(task.id)) {
+        descendants.add(task.id);
+        added = true;
+      }
+    }
+  }
+  return descendants;
+}
+
+// Flattens the outline depth-first, ordering siblings with `compare` and skipping the subtasks of
+// collapsed summaries.
+export function buildTaskTree<T extends Task>(
+  tasks: T[],
+  compare: (a: T, b: T) => number,
+  collapsed: ReadonlySet<string> = new Set()
+): TaskTreeRow<T>[] {
+  const parents = resolveParentIds(tasks);
+  const children = new Map<string | null, T[]>();
+  for (const task of tasks) {
+    const parentId = parents.get(task.id) ?? null;
+    children.set(parentId, [...(children.get(parentId) ?? []), task]);
+  }
+
+  const rows: TaskTreeRow<T>[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const task of [...(children.get(parentId) ?? [])].sort(compare)) {
+      const hasChildren = children.has(task.id);
+      const isCollapsed = hasChildren && collapsed.has(task.id);
+      rows.push({ task, depth, hasChildren, isCollapsed });
+      if (hasChildren && !isCollapsed) visit(task.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return rows;
+}
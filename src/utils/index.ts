@@ -1,2 +1,6 @@
 export * from './id';
 export * from './date';
+export * from './dependencies';
+export * from './calendar';
+export * from './hierarchy';
+export * from './variance';
@@ -0,0 +1,11 @@
+import type { BaselineComparison, TaskVariance } from '../../types';
+
+export function indexVariance(comparison: BaselineComparison | null | undefined): Map<string, TaskVariance> {
+  return new Map((comparison?.tasks ?? []).map(entry => [entry.taskId, entry]));
+}
+
+// Signed working days, e.g. "+2" for two days late and "-1" for a day early; blank without a baseline.
+export function formatSlipDays(value: number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  return value > 0 ? `+${value}` : String(value);
+}
@@ -30,6 +30,7 @@ export interface Task {
   
   // WBS & Scheduling
   wbs?: string; // e.g., "1.1", "2.0"
+  parentId?: string | null; // Explicit summary task; otherwise derived from the WBS code
   createdAt: number;
   updatedAt?: number;
   startDate?: number; // Planned Start
@@ -38,8 +39,172 @@ export interface Task {
   // Progress & Responsibility
   completion?: number; // 0 to 100
   assignee?: string; // Responsible Unit / Person
+  estimatedHours?: number | null; // Planned work, spread over the task's working days
+  actualHours?: number | null; // Work logged so far
   isMilestone?: boolean; 
-  predecessors?: string[]; // IDs or WBS codes of previous tasks
+  predecessors?: TaskPredecessor[]; // IDs or WBS codes of previous tasks, optionally with link type and lag
+}
+
+export type DependencyType = 'FS' | 'SS' | 'FF' | 'SF';
+
+export interface TaskLink {
+  ref: string;
+  type: DependencyType;
+  lagDays: number;
+}
+
+// A bare string is a finish-to-start link with no lag.
+export type TaskPredecessor = string | TaskLink;
+
+export interface ProjectSnapshot {
+  at: number;
+  project: Project;
+  tasks: Task[];
+}
+
+export interface TaskSchedule {
+  taskId: string;
+  earlyStart: number;
+  earlyFinish: number;
+  lateStart: number;
+  lateFinish: number;
+  totalFloat: number;
+  freeFloat: number;
+  isCritical: boolean;
+}
+
+export interface ProjectSchedule {
+  projectId: string;
+  start: number;
+  finish: number;
+  tasks: TaskSchedule[];
+  criticalPath: string[];
+  warnings: string[];
+}
+
+export interface WorkCalendar {
+  workingDays: number[];
+  holidays: string[];
+  availability: Record<string, string[]>;
+  hoursPerDay: number;
+}
+
+export interface ProjectCalendarState {
+  calendar: WorkCalendar;
+  override: Partial<WorkCalendar> | null;
+}
+
+export interface Baseline {
+  id: string;
+  workspaceId: string;
+  projectId: string;
+  name: string;
+  taskCount: number;
+  createdAt: number;
+  createdByUserId: string | null;
+}
+
+export interface TaskVariance {
+  taskId: string;
+  title: string;
+  wbs: string | null;
+  status: 'tracked' | 'added' | 'removed';
+  baselineStart: number | null;
+  baselineDue: number | null;
+  actualStart: number | null;
+  actualDue: number | null;
+  startSlipDays: number | null;
+  finishSlipDays: number | null;
+  completionDelta: number | null;
+}
+
+export interface BaselineComparison {
+  baseline: Baseline;
+  tasks: TaskVariance[];
+  finishSlipDays: number | null;
+}
+
+export interface EarnedValuePoint {
+  at: number;
+  plannedValue: number;
+  earnedValue: number;
+  actualCost: number;
+  spi: number | null;
+  cpi: number | null;
+}
+
+export interface EarnedValueReport {
+  projectId: string;
+  baselineId: string | null;
+  budgetAtCompletion: number;
+  points: EarnedValuePoint[];
+}
+
+export interface WorkloadDay {
+  date: string;
+  hours: number;
+  capacity: number;
+}
+
+export interface AssigneeWorkload {
+  assignee: string;
+  totalHours: number;
+  actualHours: number;
+  days: WorkloadDay[];
+  overloadedDays: string[];
+}
+
+export interface Workload {
+  from: number;
+  to: number;
+  hoursPerDay: number;
+  assignees: AssigneeWorkload[];
+  unestimatedTaskIds: string[];
+}
+
+export interface LevelingMove {
+  taskId: string;
+  title: string;
+  assignee: string;
+  before: { startDate: number; dueDate: number };
+  after: { startDate: number; dueDate: number };
+  delayDays: number;
+}
+
+export interface LevelingResult {
+  draft: Draft | null;
+  moves: LevelingMove[];
+  warnings: string[];
+}
+
+export interface ProjectPlanSummary {
+  summary: string | null;
+  taskCount: number;
+  milestoneCount: number;
+  startDate: number;
+  finishDate: number;
+}
+
+// What /api/ai/plan returns once the model's outline has become a pending draft.
+export interface PlanResult {
+  draft: Draft;
+  warnings: string[];
+  plan: ProjectPlanSummary;
+  meta: { requestId: string; attempts: number };
+}
+
+export interface DanglingRef {
+  taskId: string;
+  title: string;
+  ref: string;
+}
+
+export interface GraphValidation {
+  valid: boolean;
+  cycle: string[] | null;
+  cyclePath: string | null;
+  danglingRefs: DanglingRef[];
+  warnings: string[];
 }
 
 export interface ChatMessage {
@@ -48,17 +213,57 @@ export interface ChatMessage {
   text: string;
   timestamp: number;
   isThinking?: boolean;
+  isStreaming?: boolean;  // Model text still arriving; replaced by the final message when the turn ends
   attachments?: ChatAttachment[];
 }
 
+export interface Conversation {
+  id: string;
+  workspaceId: string;
+  projectId: string | null;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  createdByUserId: string | null;
+}
+
+export interface ConversationMessage {
+  id: string;
+  conversationId: string;
+  role: 'user' | 'model' | 'system';
+  text: string;
+  createdAt: number;
+  createdByUserId: string | null;
+}
+
+export interface ConversationDetail extends Conversation {
+  messages: ConversationMessage[];
+}
+
 export interface ChatAttachment {
   id: string;
   name: string;
   size: number;
   type: string;
   url: string;
+  attachmentId?: string;  // The uploaded copy the model reads, once the upload has finished
+  isUploading?: boolean;
+}
+
+// An uploaded chat file, as returned by /api/attachments.
+export interface AttachmentInfo {
+  id: string;
+  name: string;
+  type: string;
+  kind: 'text' | 'markdown' | 'csv' | 'pdf';
+  size: number;
+  textLength: number;
+  createdAt: number;
+  createdByUserId: string | null;
 }
 
+export type DraftActionDecision = 'accepted' | 'rejected';
+
 export interface DraftAction {
   id: string;
   entityType: 'task' | 'project';
@@ -67,6 +272,37 @@ export interface DraftAction {
   before?: Record<string, unknown> | null;
   after?: Record<string, unknown> | null;
   warnings?: string[];
+  decision?: DraftActionDecision;
+  cascadedFrom?: string;
+}
+
+export interface DraftApproval {
+  userId: string;
+  username: string;
+  role: WorkspaceMembership['role'];
+  approvedAt: number;
+}
+
+export interface DraftApprovalPolicy {
+  requiredApprovals: number;
+  agentTaskThreshold: number | null;
+  adminForProjectDelete: boolean;
+}
+
+export interface DraftApprovalStatus {
+  required: number;
+  approvals: number;
+  adminRequired: boolean;
+  adminApproved: boolean;
+  satisfied: boolean;
+  reasons: string[];
+}
+
+// The chat turn that produced an agent draft.
+export interface DraftOrigin {
+  requestId: string;
+  conversationId: string | null;
+  messageId: string | null;
 }
 
 export interface Draft {
@@ -77,7 +313,40 @@ export interface Draft {
   actions: DraftAction[];
   createdAt: number;
   createdBy: 'user' | 'agent' | 'system';
+  createdByUserId?: string | null;
+  appliedByUserId?: string | null;
   reason?: string | null;
+  approvals?: DraftApproval[];
+  approval?: DraftApprovalStatus;
+  origin?: DraftOrigin | null;
+}
+
+export interface DraftRevertConflict {
+  auditId: string;
+  entityType: 'task' | 'project';
+  entityId: string;
+  message: string;
+}
+
+export interface DraftApplyFailure {
+  draftId: string;
+  actionId: string;
+  actionIndex: number;
+  entityType: DraftAction['entityType'];
+  action: DraftAction['action'];
+  entityId?: string;
+  message: string;
+}
+
+export interface DraftConflict {
+  actionId: string;
+  entityType: DraftAction['entityType'];
+  entityId: string;
+  action: DraftAction['action'];
+  plannedBefore: Record<string, unknown> | null;
+  current: Record<string, unknown> | null;
+  plannedAfter: Record<string, unknown> | null;
+  message: string;
 }
 
 export interface AuditLog {
@@ -89,17 +358,38 @@ export interface AuditLog {
   before?: Record<string, unknown> | null;
   after?: Record<string, unknown> | null;
   actor: 'user' | 'agent' | 'system';
+  actorUserId?: string | null;
+  actorUsername?: string | null;
   reason?: string | null;
   timestamp: number;
   projectId?: string | null;
   taskId?: string | null;
   draftId?: string | null;
+  approvals?: DraftApproval[] | null;
+  origin?: DraftOrigin | null;
+}
+
+export interface TrashItem {
+  auditId: string;
+  entityType: 'task' | 'project';
+  entityId: string;
+  name: string;
+  projectId: string | null;
+  taskCount: number;
+  deletedAt: number;
+  actor: AuditLog['actor'];
+  actorUserId: string | null;
+}
+
+export interface TrashContents {
+  projects: TrashItem[];
+  tasks: TrashItem[];
 }
 
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
-  error?: { code: string; message: string };
+  error?: { code: string; message: string; failure?: DraftApplyFailure; conflicts?: DraftConflict[]; approval?: DraftApprovalStatus };
 }
 
 export interface User {
@@ -166,12 +456,15 @@ export interface TaskActionArgs {
   status?: string;
   priority?: string;
   wbs?: string;
+  parentId?: string | null;
   startDate?: number;
   dueDate?: number;
   completion?: number;
   assignee?: string;
+  estimatedHours?: number | null;
+  actualHours?: number | null;
   isMilestone?: boolean;
-  predecessors?: string[];
+  predecessors?: TaskPredecessor[];
   reason?: string;
 }
 
@@ -4,6 +4,10 @@ import { projectsRoute } from './routes/projects';
 import { tasksRoute } from './routes/tasks';
 import { draftsRoute } from './routes/drafts';
 import { auditRoute } from './routes/audit';
+import { trashRoute } from './routes/trash';
+import { workloadRoute } from './routes/workload';
+import { conversationsRoute } from './routes/conversations';
+import { attachmentsRoute } from './routes/attachments';
 import { aiRoute } from './routes/ai';
 import { authRoute } from './routes/auth';
 import { workspacesRoute } from './routes/workspaces';
@@ -29,6 +33,10 @@ export const createApp = (db: DrizzleDB, bindings: Bindings) => {
   app.route('/api/tasks', tasksRoute);
   app.route('/api/drafts', draftsRoute);
   app.route('/api/audit', auditRoute);
+  app.route('/api/trash', trashRoute);
+  app.route('/api/workload', workloadRoute);
+  app.route('/api/conversations', conversationsRoute);
+  app.route('/api/attachments', attachmentsRoute);
 
   app.onError((err, c) => {
     return c.json({ success: false, error: { code: 'INTERNAL_ERROR', message: 'Internal server error.' } }, 500);
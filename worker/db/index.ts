@@ -1,6 +1,12 @@
 // Re-export everything for convenience
 export * from './schema';
 export { getPgDb as getDb, closePgDb } from './pg';
+import type { PgDatabase } from 'drizzle-orm/pg-core';
+import type { NodePgQueryResultHKT } from 'drizzle-orm/node-postgres';
 import { getPgDb } from './pg';
+import type * as schema from './schema';
 
 export type DrizzleDB = ReturnType<typeof getPgDb>;
+
+// Common base of the pooled database and a transaction handle, so services can run inside either.
+export type DbExecutor = PgDatabase<NodePgQueryResultHKT, typeof schema>;
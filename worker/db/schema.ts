@@ -1,4 +1,11 @@
-import { pgTable, text, bigint, boolean, jsonb, primaryKey, uniqueIndex } from 'drizzle-orm/pg-core';
+import { pgTable, text, bigint, boolean, customType, doublePrecision, index, integer, jsonb, primaryKey, uniqueIndex } from 'drizzle-orm/pg-core';
+import type { AttachmentKind, BaselineTask, DraftApproval, DraftApprovalPolicy, DraftOrigin, ProjectCalendar, WorkCalendar } from '../services/types';
+
+// node-postgres reads bytea columns as Buffers, which are Uint8Arrays.
+const bytea = customType<{ data: Uint8Array; driverData: Buffer }>({
+  dataType: () => 'bytea',
+  toDriver: (value) => Buffer.from(value),
+});
 
 export const users = pgTable('users', {
   id: text('id').primaryKey(),
@@ -26,6 +33,8 @@ export const workspaces = pgTable('workspaces', {
   createdAt: bigint('created_at', { mode: 'number' }).notNull(),
   createdBy: text('created_by'),
   isPublic: boolean('is_public').notNull().default(false),
+  approvalPolicy: jsonb('approval_policy').$type<DraftApprovalPolicy | null>(),
+  calendar: jsonb('calendar').$type<WorkCalendar | null>(),
 });
 
 export const workspaceMembers = pgTable('workspace_members', {
@@ -44,6 +53,7 @@ export const projects = pgTable('projects', {
   name: text('name').notNull(),
   description: text('description'),
   icon: text('icon'),
+  calendar: jsonb('calendar').$type<ProjectCalendar | null>(),
   createdAt: bigint('created_at', { mode: 'number' }).notNull(),
   updatedAt: bigint('updated_at', { mode: 'number' }).notNull(),
 });
@@ -56,13 +66,16 @@ export const tasks = pgTable('tasks', {
   status: text('status').notNull(),
   priority: text('priority').notNull(),
   wbs: text('wbs'),
+  parentId: text('parent_id'),
   createdAt: bigint('created_at', { mode: 'number' }).notNull(),
   startDate: bigint('start_date', { mode: 'number' }),
   dueDate: bigint('due_date', { mode: 'number' }),
   completion: bigint('completion', { mode: 'number' }),
   assignee: text('assignee'),
+  estimatedHours: doublePrecision('estimated_hours'),
+  actualHours: doublePrecision('actual_hours'),
   isMilestone: boolean('is_milestone').notNull().default(false),
-  predecessors: jsonb('predecessors').$type<string[]>(),
+  predecessors: jsonb('predecessors').$type<Array<string | { ref: string; type: 'FS' | 'SS' | 'FF' | 'SF'; lagDays: number }>>(),
   updatedAt: bigint('updated_at', { mode: 'number' }).notNull(),
 });
 
@@ -74,7 +87,11 @@ export const drafts = pgTable('drafts', {
   actions: jsonb('actions').notNull().$type<any[]>(),
   createdAt: bigint('created_at', { mode: 'number' }).notNull(),
   createdBy: text('created_by').notNull(),
+  createdByUserId: text('created_by_user_id'),
+  appliedByUserId: text('applied_by_user_id'),
   reason: text('reason'),
+  approvals: jsonb('approvals').notNull().default([]).$type<DraftApproval[]>(),
+  origin: jsonb('origin').$type<DraftOrigin | null>(),
 });
 
 export const auditLogs = pgTable('audit_logs', {
@@ -86,11 +103,14 @@ export const auditLogs = pgTable('audit_logs', {
   before: jsonb('before').$type<Record<string, unknown> | null>(),
   after: jsonb('after').$type<Record<string, unknown> | null>(),
   actor: text('actor').notNull(),
+  actorUserId: text('actor_user_id'),
   reason: text('reason'),
   timestamp: bigint('timestamp', { mode: 'number' }).notNull(),
   projectId: text('project_id'),
   taskId: text('task_id'),
   draftId: text('draft_id'),
+  approvals: jsonb('approvals').$type<DraftApproval[] | null>(),
+  origin: jsonb('origin').$type<DraftOrigin | null>(),
 });
 
 export const observabilityLogs = pgTable('observability_logs', {
@@ -99,3 +119,48 @@ export const observabilityLogs = pgTable('observability_logs', {
   payload: jsonb('payload').notNull().$type<Record<string, unknown>>(),
   createdAt: bigint('created_at', { mode: 'number' }).notNull(),
 });
+
+export const baselines = pgTable('baselines', {
+  id: text('id').primaryKey(),
+  workspaceId: text('workspace_id').notNull(),
+  projectId: text('project_id').notNull(),
+  name: text('name').notNull(),
+  tasks: jsonb('tasks').notNull().$type<BaselineTask[]>(),
+  createdAt: bigint('created_at', { mode: 'number' }).notNull(),
+  createdByUserId: text('created_by_user_id'),
+});
+
+export const conversations = pgTable('conversations', {
+  id: text('id').primaryKey(),
+  workspaceId: text('workspace_id').notNull(),
+  projectId: text('project_id'),
+  title: text('title').notNull(),
+  createdAt: bigint('created_at', { mode: 'number' }).notNull(),
+  updatedAt: bigint('updated_at', { mode: 'number' }).notNull(),
+  createdByUserId: text('created_by_user_id'),
+});
+
+export const conversationMessages = pgTable('conversation_messages', {
+  id: text('id').primaryKey(),
+  conversationId: text('conversation_id').notNull(),
+  role: text('role').notNull().$type<'user' | 'model' | 'system'>(),
+  text: text('text').notNull(),
+  createdAt: bigint('created_at', { mode: 'number' }).notNull(),
+  createdByUserId: text('created_by_user_id'),
+}, (table) => ({
+  conversationIdx: index('conversation_messages_conversation_idx').on(table.conversationId, table.createdAt),
+}));
+
+// Uploaded chat files: the original bytes, and the text extracted for the model.
+export const attachments = pgTable('attachments', {
+  id: text('id').primaryKey(),
+  workspaceId: text('workspace_id').notNull(),
+  name: text('name').notNull(),
+  type: text('type').notNull(),
+  kind: text('kind').notNull().$type<AttachmentKind>(),
+  size: integer('size').notNull(),
+  content: bytea('content').notNull(),
+  text: text('text').notNull(),
+  createdAt: bigint('created_at', { mode: 'number' }).notNull(),
+  createdByUserId: text('created_by_user_id'),
+});
@@ -7,6 +7,49 @@ vi.mock('../services/logService', () => ({
   recordLog: vi.fn(),
 }));
 
+vi.mock('../services/calendarService', () => ({
+  getWorkspaceCalendar: async () => ({ workingDays: [1, 2, 3, 4, 5], holidays: ['2099-01-01'], availability: {}, hoursPerDay: 8 }),
+  getProjectCalendar: async () => null,
+}));
+
+vi.mock('../services/projectService', () => ({
+  getProjectById: vi.fn(),
+}));
+
+vi.mock('../services/approvalService', async () => {
+  const actual = await vi.importActual<typeof import('../services/approvalService')>('../services/approvalService');
+  return {
+    ...actual,
+    getApprovalPolicy: async () => actual.DEFAULT_APPROVAL_POLICY,
+  };
+});
+
+vi.mock('../services/documentPlanService', async () => {
+  const actual = await vi.importActual<typeof import('../services/documentPlanService')>('../services/documentPlanService');
+  return {
+    ...actual,
+    proposeProjectPlan: vi.fn(),
+  };
+});
+
+vi.mock('../services/conversationService', async () => {
+  const actual = await vi.importActual<typeof import('../services/conversationService')>('../services/conversationService');
+  return {
+    ...actual,
+    getConversation: vi.fn(),
+    listConversationMessages: vi.fn(),
+    appendConversationMessages: vi.fn(),
+  };
+});
+
+vi.mock('../services/attachmentService', async () => {
+  const actual = await vi.importActual<typeof import('../services/attachmentService')>('../services/attachmentService');
+  return {
+    ...actual,
+    getAttachmentsByIds: vi.fn(),
+  };
+});
+
 vi.mock('./middleware', () => ({
   workspaceMiddleware: async (
     c: { set: (key: string, value: unknown) => void },
@@ -19,6 +62,10 @@ vi.mock('./middleware', () => ({
 }));
 
 import { recordLog } from '../services/logService';
+import { appendConversationMessages, getConversation, listConversationMessages } from '../services/conversationService';
+import { getAttachmentsByIds } from '../services/attachmentService';
+import { getProjectById } from '../services/projectService';
+import { PlanOutlineError, proposeProjectPlan } from '../services/documentPlanService';
 
 const mockDb = {};
 
@@ -35,6 +82,21 @@ const buildApp = () => {
   return app;
 };
 
+const sseResponse = (chunks: unknown[]) =>
+  new Response(
+    [...chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`), 'data: [DONE]\n\n'].join(''),
+    { status: 200, headers: { 'Content-Type': 'text/event-stream' } }
+  );
+
+const readEvents = (body: string) =>
+  body
+    .split('\n\n')
+    .filter(Boolean)
+    .map((block) => {
+      const [eventLine, dataLine] = block.split('\n');
+      return { event: eventLine.slice('event: '.length), data: JSON.parse(dataLine.slice('data: '.length)) };
+    });
+
 const baseRequest = {
   history: [],
   message: 'Hello',
@@ -43,6 +105,7 @@ const baseRequest = {
 describe('aiRoute', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    (getAttachmentsByIds as ReturnType<typeof vi.fn>).mockResolvedValue([]);
   });
 
   afterEach(() => {
@@ -107,6 +170,29 @@ describe('aiRoute', () => {
     expect(recordLog).toHaveBeenCalledTimes(3);
   });
 
+  it('describes the workspace calendar in the system prompt', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) =>
+      new Response(JSON.stringify({ choices: [{ message: { content: 'Done' } }] }), { status: 200 })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const app = buildApp();
+    await app.request(
+      '/api/ai',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(baseRequest),
+      },
+      { OPENAI_API_KEY: 'test-key' }
+    );
+    const body = JSON.parse(String(fetchMock.mock.calls[0][1].body));
+
+    expect(body.messages[0].role).toBe('system');
+    expect(body.messages[0].content).toContain('Working days (UTC): Mon, Tue, Wed, Thu, Fri');
+    expect(body.messages[0].content).toContain('Holidays: 2099-01-01');
+  });
+
   it('returns OPENAI_ERROR when upstream fails', async () => {
     const fetchMock = vi.fn(async () => new Response('Upstream error', { status: 500 }));
     vi.stubGlobal('fetch', fetchMock);
@@ -169,4 +255,305 @@ describe('aiRoute', () => {
     expect(body.model).toBe('custom-model');
     expect(recordLog).toHaveBeenCalledTimes(2);
   });
+
+  it('forwards upstream text deltas and joins streamed tool call fragments', async () => {
+    const fetchMock = vi.fn(async () =>
+      sseResponse([
+        { choices: [{ delta: { role: 'assistant', content: 'Let me ' } }] },
+        { choices: [{ delta: { content: 'check.' } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'listProjects', arguments: '' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '{"li' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'mit":5}' } }] } }] },
+      ])
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const app = buildApp();
+    const res = await app.request(
+      '/api/ai/stream',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(baseRequest),
+      },
+      { OPENAI_API_KEY: 'test-key' }
+    );
+    const events = readEvents(await res.text());
+    const body = JSON.parse(String((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body));
+
+    expect(body.stream).toBe(true);
+    expect(events.filter((item) => item.event === 'assistant_delta').slice(0, 2).map((item) => item.data.text))
+      .toEqual(['Let me ', 'check.']);
+    expect(events.find((item) => item.event === 'assistant_text')?.data.text).toBe('Let me check.');
+    const result = events.find((item) => item.event === 'result')?.data;
+    expect(result.text).toBe('Let me check.');
+    expect(result.toolCalls).toEqual([{ name: 'listProjects', args: { limit: 5 } }]);
+  });
+
+  it('reports an error event when the upstream stream carries an error', async () => {
+    const fetchMock = vi.fn(async () =>
+      sseResponse([
+        { choices: [{ delta: { content: 'Hel' } }] },
+        { error: { message: 'overloaded' } },
+      ])
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const app = buildApp();
+    const res = await app.request(
+      '/api/ai/stream',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(baseRequest),
+      },
+      { OPENAI_API_KEY: 'test-key' }
+    );
+    const events = readEvents(await res.text());
+
+    expect(events.find((item) => item.event === 'assistant_delta')?.data.text).toBe('Hel');
+    expect(events[events.length - 1]).toMatchObject({ event: 'error', data: { code: 'OPENAI_ERROR' } });
+    expect(events.some((item) => item.event === 'result')).toBe(false);
+  });
+
+  it('loads history from a stored conversation and records the exchange', async () => {
+    (getConversation as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 'c1', workspaceId: 'public', createdByUserId: null });
+    (listConversationMessages as ReturnType<typeof vi.fn>).mockResolvedValue([
+      { id: 'm1', conversationId: 'c1', role: 'user', text: 'Earlier question', createdAt: 1, createdByUserId: null },
+      { id: 'm2', conversationId: 'c1', role: 'model', text: 'Earlier answer', createdAt: 2, createdByUserId: null },
+    ]);
+    (appendConversationMessages as ReturnType<typeof vi.fn>).mockResolvedValue([
+      { id: 'm3', conversationId: 'c1', role: 'user', text: 'Hello', createdAt: 3, createdByUserId: null },
+      { id: 'm4', conversationId: 'c1', role: 'model', text: 'Done', createdAt: 4, createdByUserId: null },
+    ]);
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) =>
+      new Response(JSON.stringify({ choices: [{ message: { content: 'Done' } }] }), { status: 200 })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const app = buildApp();
+    const res = await app.request(
+      '/api/ai',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message: 'Hello', conversationId: 'c1', history: [{ role: 'user', parts: [{ text: 'Ignored' }] }] }),
+      },
+      { OPENAI_API_KEY: 'test-key' }
+    );
+    const json = await res.json();
+    const body = JSON.parse(String(fetchMock.mock.calls[0][1].body));
+
+    expect(res.status).toBe(200);
+    expect(json.data.meta.conversationId).toBe('c1');
+    expect(json.data.meta.messageId).toBe('m4');
+    expect(body.messages.slice(1).map((item: { role: string; content: string }) => [item.role, item.content])).toEqual([
+      ['user', 'Earlier question'],
+      ['assistant', 'Earlier answer'],
+      ['user', 'Hello'],
+    ]);
+    expect(appendConversationMessages).toHaveBeenCalledWith(mockDb, 'c1', 'public', [
+      { role: 'user', text: 'Hello' },
+      { role: 'model', text: 'Done' },
+    ], null);
+  });
+
+  it('sends a transient prompt to the model but stores only the reply', async () => {
+    (getConversation as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 'c1', workspaceId: 'public', createdByUserId: null });
+    (listConversationMessages as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    (appendConversationMessages as ReturnType<typeof vi.fn>).mockResolvedValue([
+      { id: 'm5', conversationId: 'c1', role: 'model', text: 'Fixed', createdAt: 5, createdByUserId: null },
+    ]);
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) =>
+      new Response(JSON.stringify({ choices: [{ message: { content: 'Fixed' } }] }), { status: 200 })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const app = buildApp();
+    const res = await app.request(
+      '/api/ai',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message: 'System Alert: missing taskId', conversationId: 'c1', transient: true }),
+      },
+      { OPENAI_API_KEY: 'test-key' }
+    );
+    const json = await res.json();
+    const body = JSON.parse(String(fetchMock.mock.calls[0][1].body));
+
+    expect(res.status).toBe(200);
+    expect(body.messages[body.messages.length - 1]).toMatchObject({ role: 'user', content: 'System Alert: missing taskId' });
+    expect(appendConversationMessages).toHaveBeenCalledWith(mockDb, 'c1', 'public', [
+      { role: 'model', text: 'Fixed' },
+    ], null);
+    expect(json.data.meta.messageId).toBe('m5');
+  });
+
+  it('rejects an unknown conversation before calling the model', async () => {
+    (getConversation as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const app = buildApp();
+    const res = await app.request(
+      '/api/ai',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message: 'Hello', conversationId: 'missing' }),
+      },
+      { OPENAI_API_KEY: 'test-key' }
+    );
+    const json = await res.json();
+
+    expect(res.status).toBe(404);
+    expect(json.error.code).toBe('CONVERSATION_NOT_FOUND');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('adds the text of attached files to the message and notes them in the conversation', async () => {
+    (getConversation as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 'c1', workspaceId: 'public', createdByUserId: null });
+    (listConversationMessages as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    (getAttachmentsByIds as ReturnType<typeof vi.fn>).mockResolvedValue([
+      { id: 'f1', workspaceId: 'public', name: 'spec.md', type: 'text/markdown', kind: 'markdown', size: 40, text: '# Billing\n- Export invoices', createdAt: 1, createdByUserId: null },
+    ]);
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) =>
+      new Response(JSON.stringify({ choices: [{ message: { content: 'Planned' } }] }), { status: 200 })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const app = buildApp();
+    const res = await app.request(
+      '/api/ai',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message: 'Create tasks from this spec', conversationId: 'c1', attachmentIds: ['f1'] }),
+      },
+      { OPENAI_API_KEY: 'test-key' }
+    );
+    const body = JSON.parse(String(fetchMock.mock.calls[0][1].body));
+    const userContent = body.messages[body.messages.length - 1].content as string;
+
+    expect(res.status).toBe(200);
+    expect(getAttachmentsByIds).toHaveBeenCalledWith(mockDb, ['f1'], 'public');
+    expect(userContent.startsWith('Create tasks from this spec\n\nAttached file "spec.md"')).toBe(true);
+    expect(userContent).toContain('- Export invoices');
+    expect(appendConversationMessages).toHaveBeenCalledWith(mockDb, 'c1', 'public', [
+      { role: 'user', text: 'Create tasks from this spec\n\n[Attached: spec.md]' },
+      { role: 'model', text: 'Planned' },
+    ], null);
+  });
+
+  it('rejects attachments that are not in the workspace', async () => {
+    (getAttachmentsByIds as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const app = buildApp();
+    const res = await app.request(
+      '/api/ai',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message: 'Hello', attachmentIds: ['missing'] }),
+      },
+      { OPENAI_API_KEY: 'test-key' }
+    );
+    const json = await res.json();
+
+    expect(res.status).toBe(404);
+    expect(json.error.code).toBe('ATTACHMENT_NOT_FOUND');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  describe('/api/ai/plan', () => {
+    const spec = { id: 'f1', workspaceId: 'public', name: 'spec.md', type: 'text/markdown', kind: 'markdown', size: 40, text: '# Billing\n- Export invoices', createdAt: 1, createdByUserId: null };
+    const outline = {
+      summary: 'Invoice export',
+      tasks: [
+        { wbs: '1', title: 'Export invoices', durationDays: 3 },
+        { wbs: '2', title: 'Release', durationDays: 0, predecessors: [{ wbs: '1', type: null }] },
+      ],
+    };
+    const planReply = (args: unknown) => sseResponse([
+      { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'proposeProjectPlan', arguments: '' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: JSON.stringify(args) } }] } }] },
+    ]);
+    const planResult = {
+      draft: { id: 'd1', workspaceId: 'public', projectId: 'p1', status: 'pending', actions: [], createdAt: 1, createdBy: 'agent', approvals: [] },
+      warnings: [],
+      plan: { summary: 'Invoice export', taskCount: 2, milestoneCount: 1, startDate: 1, finishDate: 2 },
+    };
+    const requestPlan = () => buildApp().request(
+      '/api/ai/plan',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ projectId: 'p1', attachmentIds: ['f1'], startDate: 1736121600000 }),
+      },
+      { OPENAI_API_KEY: 'test-key' }
+    );
+
+    beforeEach(() => {
+      (getProjectById as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 'p1', name: 'Billing portal' });
+      (getAttachmentsByIds as ReturnType<typeof vi.fn>).mockResolvedValue([spec]);
+    });
+
+    it('drafts the outline the model proposes from the documents', async () => {
+      (proposeProjectPlan as ReturnType<typeof vi.fn>).mockResolvedValue(planResult);
+      const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => planReply(outline));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const res = await requestPlan();
+      const events = readEvents(await res.text());
+      const body = JSON.parse(String(fetchMock.mock.calls[0][1].body));
+      const result = events.find((event) => event.event === 'result')?.data;
+
+      expect(res.headers.get('Content-Type')).toBe('text/event-stream');
+      expect(body.tool_choice).toEqual({ type: 'function', function: { name: 'proposeProjectPlan' } });
+      expect(body.messages[0].content).toContain('"Billing portal"');
+      expect(body.messages[1].content).toContain('- Export invoices');
+      expect(events.filter((event) => event.event === 'stage').map((event) => event.data.name)).toEqual([
+        'received', 'reading_documents', 'prepare_request', 'upstream_request', 'upstream_response', 'validating', 'done',
+      ]);
+      const [, projectId, workspaceId, proposed, options] = (proposeProjectPlan as ReturnType<typeof vi.fn>).mock.calls[0];
+      expect([projectId, workspaceId]).toEqual(['p1', 'public']);
+      expect(proposed.tasks[1].predecessors).toEqual([{ wbs: '1' }]);
+      expect(options).toMatchObject({ start: 1736121600000, origin: { requestId: result.meta.requestId, conversationId: null, messageId: null } });
+      expect(result.draft).toMatchObject({ id: 'd1', approval: { satisfied: true } });
+      expect(result.plan.taskCount).toBe(2);
+      expect(events[events.length - 1].event).toBe('done');
+    });
+
+    it('sends a rejected outline back to the model once', async () => {
+      (proposeProjectPlan as ReturnType<typeof vi.fn>)
+        .mockRejectedValueOnce(new PlanOutlineError('Task 2.1 "Orphan" has no parent task 2 in the plan.'))
+        .mockResolvedValueOnce(planResult);
+      const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => planReply(outline));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const events = readEvents(await (await requestPlan()).text());
+      const retry = JSON.parse(String(fetchMock.mock.calls[1][1].body));
+      const feedback = retry.messages[retry.messages.length - 1];
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(feedback).toMatchObject({ role: 'tool', tool_call_id: 'call_1' });
+      expect(feedback.content).toContain('has no parent task 2');
+      expect(events.find((event) => event.event === 'stage' && event.data.name === 'repair')?.data.attempt).toBe(1);
+      expect(events.find((event) => event.event === 'result')?.data.meta.attempts).toBe(2);
+    });
+
+    it('reports an error event when the project does not exist', async () => {
+      (getProjectById as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+
+      const events = readEvents(await (await requestPlan()).text());
+
+      expect(events[events.length - 1]).toMatchObject({ event: 'error', data: { code: 'PROJECT_NOT_FOUND', status: 404 } });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
 });
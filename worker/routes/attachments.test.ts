@@ -0,0 +1,135 @@
+import { Hono } from 'hono';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { attachmentsRoute } from './attachments';
+import type { Variables } from '../types';
+
+vi.mock('../services/attachmentService', async () => {
+  const actual = await vi.importActual<typeof import('../services/attachmentService')>('../services/attachmentService');
+  return {
+    MAX_ATTACHMENT_BYTES: actual.MAX_ATTACHMENT_BYTES,
+    AttachmentError: actual.AttachmentError,
+    isAttachmentError: actual.isAttachmentError,
+    summarizeAttachment: actual.summarizeAttachment,
+    createAttachment: vi.fn(),
+    getAttachment: vi.fn(),
+    getAttachmentContent: vi.fn(),
+    deleteAttachment: vi.fn(),
+  };
+});
+
+vi.mock('./middleware', () => ({
+  workspaceMiddleware: async (
+    c: { set: (key: string, value: unknown) => void },
+    next: () => Promise<void>
+  ) => {
+    c.set('workspace', { id: 'public', name: 'Public', description: null, createdAt: 0, createdBy: null, isPublic: true });
+    c.set('workspaceMembership', null);
+    await next();
+  },
+}));
+
+import { AttachmentError, createAttachment, deleteAttachment, getAttachmentContent } from '../services/attachmentService';
+
+const mockDb = {};
+
+const buildApp = () => {
+  const app = new Hono<{ Variables: Variables }>();
+  app.use('*', async (c, next) => {
+    c.set('db', mockDb as any);
+    c.set('user', { id: 'u1', username: 'ana', createdAt: 0 } as any);
+    c.set('workspace', null);
+    c.set('workspaceMembership', null);
+    await next();
+  });
+  app.route('/api/attachments', attachmentsRoute);
+  return app;
+};
+
+// Written out by hand because jsdom's File and FormData lose the file name on the way to the request.
+const upload = (app: ReturnType<typeof buildApp>, field: { name: string; type?: string; content: string } | string) => {
+  const part = typeof field === 'string'
+    ? `Content-Disposition: form-data; name="file"\r\n\r\n${field}`
+    : `Content-Disposition: form-data; name="file"; filename="${field.name}"\r\nContent-Type: ${field.type ?? 'application/octet-stream'}\r\n\r\n${field.content}`;
+  return app.request('/api/attachments', {
+    method: 'POST',
+    headers: { 'Content-Type': 'multipart/form-data; boundary=upload' },
+    body: `--upload\r\n${part}\r\n--upload--\r\n`,
+  });
+};
+
+const record = {
+  id: 'f1',
+  workspaceId: 'public',
+  name: 'spec.md',
+  type: 'text/markdown',
+  kind: 'markdown',
+  size: 9,
+  text: '# Billing',
+  createdAt: 0,
+  createdByUserId: 'u1',
+};
+
+describe('attachmentsRoute', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('stores an uploaded file and returns its summary', async () => {
+    (createAttachment as ReturnType<typeof vi.fn>).mockResolvedValue(record);
+    const res = await upload(buildApp(), { name: 'spec.md', type: 'text/markdown', content: '# Billing' });
+    const json = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(json.data).toMatchObject({ id: 'f1', name: 'spec.md', kind: 'markdown', textLength: 9 });
+    expect(json.data.text).toBeUndefined();
+    const [, workspaceId, data] = (createAttachment as ReturnType<typeof vi.fn>).mock.calls[0];
+    expect(workspaceId).toBe('public');
+    expect(data).toMatchObject({ name: 'spec.md', type: 'text/markdown', createdByUserId: 'u1' });
+    expect(new TextDecoder().decode(data.bytes)).toBe('# Billing');
+  });
+
+  it('rejects a request without a file', async () => {
+    const res = await upload(buildApp(), 'not a file');
+    const json = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(json.error.code).toBe('INVALID_ATTACHMENT');
+    expect(createAttachment).not.toHaveBeenCalled();
+  });
+
+  it('maps attachment errors to their status', async () => {
+    (createAttachment as ReturnType<typeof vi.fn>).mockRejectedValue(
+      new AttachmentError('UNSUPPORTED_ATTACHMENT', 'Only plain text, Markdown, CSV and PDF files can be attached.', 415)
+    );
+    const res = await upload(buildApp(), { name: 'plan.xlsx', content: 'PK' });
+    const json = await res.json();
+
+    expect(res.status).toBe(415);
+    expect(json.error.code).toBe('UNSUPPORTED_ATTACHMENT');
+  });
+
+  it('serves the stored file as a download of its detected type', async () => {
+    (getAttachmentContent as ReturnType<typeof vi.fn>).mockResolvedValue({
+      name: 'spec.md',
+      contentType: 'text/markdown; charset=utf-8',
+      content: new TextEncoder().encode('# Billing'),
+    });
+    const res = await buildApp().request('/api/attachments/f1/content');
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toBe('text/markdown; charset=utf-8');
+    expect(res.headers.get('X-Content-Type-Options')).toBe('nosniff');
+    expect(res.headers.get('Content-Disposition')).toBe("attachment; filename*=UTF-8''spec.md");
+    expect(await res.text()).toBe('# Billing');
+  });
+
+  it('only lets the uploader delete a file', async () => {
+    (deleteAttachment as ReturnType<typeof vi.fn>).mockRejectedValue(
+      new AttachmentError('FORBIDDEN', 'Only the person who uploaded this file can delete it.', 403)
+    );
+    const res = await buildApp().request('/api/attachments/f1', { method: 'DELETE' });
+
+    expect(res.status).toBe(403);
+    expect(deleteAttachment).toHaveBeenCalledWith(mockDb, 'f1', 'public', 'u1');
+  });
+});
@@ -0,0 +1,82 @@
+import { Hono } from 'hono';
+import { bodyLimit } from 'hono/body-limit';
+import { jsonError, jsonOk } from './helpers';
+import { workspaceMiddleware } from './middleware';
+import {
+  MAX_ATTACHMENT_BYTES,
+  createAttachment,
+  deleteAttachment,
+  getAttachment,
+  getAttachmentContent,
+  isAttachmentError,
+  summarizeAttachment,
+} from '../services/attachmentService';
+import type { Variables } from '../types';
+
+export const attachmentsRoute = new Hono<{ Variables: Variables }>();
+attachmentsRoute.use('*', workspaceMiddleware);
+
+// Leaves room for the multipart framing around the largest accepted file.
+const MAX_UPLOAD_BODY_BYTES = MAX_ATTACHMENT_BYTES + 64 * 1024;
+
+attachmentsRoute.post(
+  '/',
+  bodyLimit({
+    maxSize: MAX_UPLOAD_BODY_BYTES,
+    onError: (c) => jsonError(c, 'ATTACHMENT_TOO_LARGE', `Files can be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB.`, 413),
+  }),
+  async (c) => {
+    const workspace = c.get('workspace');
+    if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+    const body = await c.req.parseBody().catch(() => null);
+    const file = body?.file;
+    if (!file || typeof file === 'string') {
+      return jsonError(c, 'INVALID_ATTACHMENT', 'Send the file as multipart form data in the "file" field.', 400);
+    }
+    try {
+      const record = await createAttachment(c.get('db'), workspace.id, {
+        name: file.name || 'attachment',
+        type: file.type,
+        bytes: new Uint8Array(await file.arrayBuffer()),
+        createdByUserId: c.get('user')?.id ?? null,
+      });
+      return jsonOk(c, summarizeAttachment(record), 201);
+    } catch (error) {
+      if (isAttachmentError(error)) return jsonError(c, error.code, error.message, error.status);
+      throw error;
+    }
+  }
+);
+
+attachmentsRoute.get('/:id', async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const result = await getAttachment(c.get('db'), c.req.param('id'), workspace.id);
+  if (!result) return jsonError(c, 'NOT_FOUND', 'Attachment not found.', 404);
+  return jsonOk(c, { ...summarizeAttachment(result), text: result.text });
+});
+
+attachmentsRoute.get('/:id/content', async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const result = await getAttachmentContent(c.get('db'), c.req.param('id'), workspace.id);
+  if (!result) return jsonError(c, 'NOT_FOUND', 'Attachment not found.', 404);
+  return c.body(result.content, 200, {
+    'Content-Type': result.contentType,
+    'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(result.name)}`,
+    'X-Content-Type-Options': 'nosniff',
+  });
+});
+
+attachmentsRoute.delete('/:id', async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  try {
+    const result = await deleteAttachment(c.get('db'), c.req.param('id'), workspace.id, c.get('user')?.id ?? null);
+    if (!result) return jsonError(c, 'NOT_FOUND', 'Attachment not found.', 404);
+    return jsonOk(c, summarizeAttachment(result));
+  } catch (error) {
+    if (isAttachmentError(error)) return jsonError(c, error.code, error.message, error.status);
+    throw error;
+  }
+});
@@ -21,7 +21,7 @@ vi.mock('./middleware', () => ({
   },
 }));
 
-import { getAuditLogById } from '../services/auditService';
+import { getAuditLogById, listAuditLogs, rollbackAuditLog, isRollbackError } from '../services/auditService';
 
 const mockDb = {};
 
@@ -52,6 +52,15 @@ describe('auditRoute', () => {
     expect(json.error.code).toBe('INVALID_QUERY');
   });
 
+  it('filters by actor user id', async () => {
+    (listAuditLogs as ReturnType<typeof vi.fn>).mockResolvedValue({ data: [], total: 0, page: 1, pageSize: 20 });
+    const app = buildApp();
+    const res = await app.request('/api/audit?actorUserId=u1');
+
+    expect(res.status).toBe(200);
+    expect(listAuditLogs).toHaveBeenCalledWith(mockDb, { actorUserId: 'u1', workspaceId: 'public' });
+  });
+
   it('returns 404 for missing audit entry', async () => {
     (getAuditLogById as ReturnType<typeof vi.fn>).mockResolvedValue(null);
     const app = buildApp();
@@ -62,7 +71,6 @@ describe('auditRoute', () => {
     expect(json.error.code).toBe('NOT_FOUND');
   });
 
-/*
   it('maps rollback errors from service', async () => {
     const error = Object.assign(new Error('Nope'), { code: 'INVALID_ROLLBACK', status: 409, message: 'Nope' });
     (rollbackAuditLog as unknown as ReturnType<typeof vi.fn>).mockRejectedValue(error);
@@ -79,5 +87,20 @@ describe('auditRoute', () => {
     expect(res.status).toBe(409);
     expect(json.error.code).toBe('INVALID_ROLLBACK');
   });
-  */
+
+  it('returns the rollback audit entry', async () => {
+    (rollbackAuditLog as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 'a2', action: 'rollback' });
+
+    const app = buildApp();
+    const res = await app.request('/api/audit/a1/rollback', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
+    });
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(json.data.action).toBe('rollback');
+    expect(rollbackAuditLog).toHaveBeenCalledWith(mockDb, 'a1', 'user', 'public', null);
+  });
 });
@@ -1,8 +1,9 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
+import { zValidator } from '@hono/zod-validator';
 import { jsonError, jsonOk } from './helpers';
 import { workspaceMiddleware } from './middleware';
-import { getAuditLogById, listAuditLogs } from '../services/auditService';
+import { getAuditLogById, isRollbackError, listAuditLogs, rollbackAuditLog } from '../services/auditService';
 import type { Variables } from '../types';
 
 export const auditRoute = new Hono<{ Variables: Variables }>();
@@ -14,6 +15,7 @@ const querySchema = z.object({
   page: z.coerce.number().optional(),
   pageSize: z.coerce.number().optional(),
   actor: z.enum(['user', 'agent', 'system']).optional(),
+  actorUserId: z.string().optional(),
   action: z.string().optional(),
   entityType: z.enum(['project', 'task']).optional(),
   q: z.string().optional(),
@@ -21,6 +23,10 @@ const querySchema = z.object({
   to: z.coerce.number().optional(),
 });
 
+const rollbackSchema = z.object({
+  actor: z.enum(['user', 'agent', 'system']).default('user'),
+});
+
 auditRoute.get('/', async (c) => {
   const workspace = c.get('workspace');
   if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
@@ -37,3 +43,22 @@ auditRoute.get('/:id', async (c) => {
   if (!entry) return jsonError(c, 'NOT_FOUND', 'Audit log not found.', 404);
   return jsonOk(c, entry);
 });
+
+auditRoute.post('/:id/rollback', zValidator('json', rollbackSchema), async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const payload = c.req.valid('json');
+  try {
+    const entry = await rollbackAuditLog(
+      c.get('db'),
+      c.req.param('id'),
+      payload.actor,
+      workspace.id,
+      c.get('user')?.id ?? null
+    );
+    return jsonOk(c, entry);
+  } catch (error) {
+    if (isRollbackError(error)) return jsonError(c, error.code, error.message, error.status);
+    return jsonError(c, 'ROLLBACK_FAILED', error instanceof Error ? error.message : 'Rollback failed.', 400);
+  }
+});
@@ -0,0 +1,136 @@
+import { Hono } from 'hono';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { conversationsRoute } from './conversations';
+import type { Variables } from '../types';
+
+vi.mock('../services/conversationService', async () => {
+  const actual = await vi.importActual<typeof import('../services/conversationService')>('../services/conversationService');
+  return {
+    ConversationError: actual.ConversationError,
+    isConversationError: actual.isConversationError,
+    listConversations: vi.fn(),
+    createConversation: vi.fn(),
+    getConversationDetail: vi.fn(),
+    renameConversation: vi.fn(),
+    deleteConversation: vi.fn(),
+    appendConversationMessages: vi.fn(),
+  };
+});
+
+vi.mock('./middleware', () => ({
+  workspaceMiddleware: async (
+    c: { set: (key: string, value: unknown) => void },
+    next: () => Promise<void>
+  ) => {
+    c.set('workspace', { id: 'public', name: 'Public', description: null, createdAt: 0, createdBy: null, isPublic: true });
+    c.set('workspaceMembership', null);
+    await next();
+  },
+}));
+
+import {
+  ConversationError,
+  appendConversationMessages,
+  createConversation,
+  getConversationDetail,
+  listConversations,
+} from '../services/conversationService';
+
+const mockDb = {};
+
+const buildApp = () => {
+  const app = new Hono<{ Variables: Variables }>();
+  app.use('*', async (c, next) => {
+    c.set('db', mockDb as any);
+    c.set('user', { id: 'u1', username: 'ana', createdAt: 0 } as any);
+    c.set('workspace', null);
+    c.set('workspaceMembership', null);
+    await next();
+  });
+  app.route('/api/conversations', conversationsRoute);
+  return app;
+};
+
+const send = (app: ReturnType<typeof buildApp>, path: string, method: string, body: unknown) => app.request(path, {
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+describe('conversationsRoute', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists the conversations of a project', async () => {
+    (listConversations as ReturnType<typeof vi.fn>).mockResolvedValue([{ id: 'c1', title: 'Plan' }]);
+    const app = buildApp();
+    const res = await app.request('/api/conversations?projectId=p1');
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(json.data).toHaveLength(1);
+    expect(listConversations).toHaveBeenCalledWith(mockDb, 'public', { projectId: 'p1' });
+  });
+
+  it('starts a conversation as the signed-in user', async () => {
+    (createConversation as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 'c1', title: 'Delay design' });
+    const app = buildApp();
+    const res = await send(app, '/api/conversations', 'POST', { projectId: 'p1', title: 'Delay design' });
+
+    expect(res.status).toBe(201);
+    expect(createConversation).toHaveBeenCalledWith(mockDb, 'public', {
+      projectId: 'p1',
+      title: 'Delay design',
+      createdByUserId: 'u1',
+    });
+
+    (createConversation as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+    const missing = await send(app, '/api/conversations', 'POST', { projectId: 'gone' });
+    expect(missing.status).toBe(404);
+  });
+
+  it('returns a conversation with its messages', async () => {
+    (getConversationDetail as ReturnType<typeof vi.fn>).mockResolvedValueOnce({ id: 'c1', messages: [{ id: 'm1' }] });
+    const app = buildApp();
+    const res = await app.request('/api/conversations/c1');
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(json.data.messages).toHaveLength(1);
+
+    (getConversationDetail as ReturnType<typeof vi.fn>).mockResolvedValueOnce(null);
+    expect((await app.request('/api/conversations/c2')).status).toBe(404);
+  });
+
+  it('refuses to add to a teammate\'s conversation', async () => {
+    (appendConversationMessages as ReturnType<typeof vi.fn>).mockRejectedValue(
+      new ConversationError('FORBIDDEN', 'Only the person who started this conversation can change it.', 403)
+    );
+    const app = buildApp();
+    const res = await send(app, '/api/conversations/c1/messages', 'POST', {
+      messages: [{ role: 'system', text: 'Draft d1 created.' }],
+    });
+    const json = await res.json();
+
+    expect(res.status).toBe(403);
+    expect(json.error.code).toBe('FORBIDDEN');
+    expect(appendConversationMessages).toHaveBeenCalledWith(
+      mockDb,
+      'c1',
+      'public',
+      [{ role: 'system', text: 'Draft d1 created.' }],
+      'u1'
+    );
+  });
+
+  it('does not accept model replies from the client', async () => {
+    const app = buildApp();
+    const res = await send(app, '/api/conversations/c1/messages', 'POST', {
+      messages: [{ role: 'model', text: 'Made up reply' }],
+    });
+
+    expect(res.status).toBe(400);
+    expect(appendConversationMessages).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,123 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { zValidator } from '@hono/zod-validator';
+import { jsonError, jsonOk } from './helpers';
+import { workspaceMiddleware } from './middleware';
+import {
+  appendConversationMessages,
+  createConversation,
+  deleteConversation,
+  getConversationDetail,
+  isConversationError,
+  listConversations,
+  renameConversation,
+} from '../services/conversationService';
+import type { NewConversationMessage } from '../services/conversationService';
+import type { Variables } from '../types';
+
+export const conversationsRoute = new Hono<{ Variables: Variables }>();
+conversationsRoute.use('*', workspaceMiddleware);
+
+const listQuerySchema = z.object({
+  projectId: z.string().min(1).optional(),
+});
+
+const conversationInputSchema = z.object({
+  projectId: z.string().min(1).nullable().optional(),
+  title: z.string().max(2000).optional(),
+});
+
+const renameSchema = z.object({
+  title: z.string().min(1).max(2000),
+});
+
+// Model replies are only ever recorded by the AI route itself.
+const messagesSchema = z.object({
+  messages: z.array(
+    z.object({
+      role: z.enum(['user', 'system']),
+      text: z.string().min(1).max(20000),
+    })
+  ).min(1).max(50),
+});
+
+conversationsRoute.get('/', async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const parsed = listQuerySchema.safeParse(c.req.query());
+  if (!parsed.success) return jsonError(c, 'INVALID_QUERY', 'Query parameter "projectId" must be a project ID.', 400);
+  const result = await listConversations(c.get('db'), workspace.id, parsed.data);
+  return jsonOk(c, result);
+});
+
+conversationsRoute.post('/', zValidator('json', conversationInputSchema), async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const payload = c.req.valid('json');
+  const result = await createConversation(c.get('db'), workspace.id, {
+    projectId: payload.projectId,
+    title: payload.title,
+    createdByUserId: c.get('user')?.id ?? null,
+  });
+  if (!result) return jsonError(c, 'NOT_FOUND', 'Project not found.', 404);
+  return jsonOk(c, result, 201);
+});
+
+conversationsRoute.get('/:id', async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const result = await getConversationDetail(c.get('db'), c.req.param('id'), workspace.id);
+  if (!result) return jsonError(c, 'NOT_FOUND', 'Conversation not found.', 404);
+  return jsonOk(c, result);
+});
+
+conversationsRoute.patch('/:id', zValidator('json', renameSchema), async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  try {
+    const result = await renameConversation(
+      c.get('db'),
+      c.req.param('id'),
+      workspace.id,
+      c.req.valid('json').title,
+      c.get('user')?.id ?? null
+    );
+    if (!result) return jsonError(c, 'NOT_FOUND', 'Conversation not found.', 404);
+    return jsonOk(c, result);
+  } catch (error) {
+    if (isConversationError(error)) return jsonError(c, error.code, error.message, error.status);
+    throw error;
+  }
+});
+
+conversationsRoute.delete('/:id', async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  try {
+    const result = await deleteConversation(c.get('db'), c.req.param('id'), workspace.id, c.get('user')?.id ?? null);
+    if (!result) return jsonError(c, 'NOT_FOUND', 'Conversation not found.', 404);
+    return jsonOk(c, result);
+  } catch (error) {
+    if (isConversationError(error)) return jsonError(c, error.code, error.message, error.status);
+    throw error;
+  }
+});
+
+conversationsRoute.post('/:id/messages', zValidator('json', messagesSchema), async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  try {
+    const result = await appendConversationMessages(
+      c.get('db'),
+      c.req.param('id'),
+      workspace.id,
+      c.req.valid('json').messages as NewConversationMessage[],
+      c.get('user')?.id ?? null
+    );
+    if (!result) return jsonError(c, 'NOT_FOUND', 'Conversation not found.', 404);
+    return jsonOk(c, result, 201);
+  } catch (error) {
+    if (isConversationError(error)) return jsonError(c, error.code, error.message, error.status);
+    throw error;
+  }
+});
@@ -9,6 +9,27 @@ vi.mock('../services/draftService', () => ({
   createDraft: vi.fn(),
   applyDraft: vi.fn(),
   discardDraft: vi.fn(),
+  revertDraft: vi.fn(),
+  refreshDraftActions: vi.fn(),
+  setDraftActionDecision: vi.fn(),
+  updateDraftAction: vi.fn(),
+  isDraftApplyError: (error: unknown) => error instanceof Error && 'failure' in error,
+  isDraftApprovalError: (error: unknown) => error instanceof Error && 'approval' in error,
+  isDraftConflictError: (error: unknown) => error instanceof Error && 'conflicts' in error,
+}));
+
+vi.mock('../services/approvalService', () => ({
+  approveDraft: vi.fn(),
+  getApprovalPolicy: vi.fn(async () => ({ requiredApprovals: 0, agentTaskThreshold: null, adminForProjectDelete: false })),
+  hasApprovalRules: vi.fn(() => false),
+  evaluateDraftApproval: vi.fn(() => ({
+    required: 0,
+    approvals: 0,
+    adminRequired: false,
+    adminApproved: false,
+    satisfied: true,
+    reasons: [],
+  })),
 }));
 
 vi.mock('../services/logService', () => ({
@@ -17,31 +38,33 @@ vi.mock('../services/logService', () => ({
 
 vi.mock('../services/utils', () => ({
   generateId: () => 'gen-1',
+  now: () => 1000,
 }));
 
 vi.mock('./middleware', () => ({
   workspaceMiddleware: async (
-    c: { set: (key: string, value: unknown) => void },
+    c: { set: (key: string, value: unknown) => void; get: (key: string) => unknown },
     next: () => Promise<void>
   ) => {
     c.set('workspace', { id: 'public', name: 'Public', description: null, createdAt: 0, createdBy: null, isPublic: true });
-    c.set('workspaceMembership', null);
+    c.set('workspaceMembership', c.get('workspaceMembership') ?? null);
     await next();
   },
 }));
 
-import { createDraft, applyDraft, discardDraft } from '../services/draftService';
+import { createDraft, applyDraft, discardDraft, getDraftById, refreshDraftActions, revertDraft, setDraftActionDecision, updateDraftAction } from '../services/draftService';
+import { approveDraft, evaluateDraftApproval, hasApprovalRules } from '../services/approvalService';
 import { recordLog } from '../services/logService';
 
 const mockDb = {};
 
-const buildApp = () => {
+const buildApp = (options: { user?: Variables['user']; membership?: Variables['workspaceMembership'] } = {}) => {
   const app = new Hono<{ Variables: Variables }>();
   app.use('*', async (c, next) => {
     c.set('db', mockDb as any);
-    c.set('user', null);
+    c.set('user', options.user ?? null);
     c.set('workspace', null);
-    c.set('workspaceMembership', null);
+    c.set('workspaceMembership', options.membership ?? null);
     await next();
   });
   app.route('/api/drafts', draftsRoute);
@@ -77,6 +100,29 @@ describe('draftsRoute', () => {
     expect(recordLog).toHaveBeenCalled();
   });
 
+  it('stores the chat turn an agent draft came from', async () => {
+    (createDraft as ReturnType<typeof vi.fn>).mockResolvedValue({
+      draft: { id: 'd1', status: 'pending', actions: [], createdAt: 1, createdBy: 'agent', projectId: null, reason: null },
+      warnings: [],
+    });
+
+    const app = buildApp();
+    const res = await app.request('/api/drafts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        createdBy: 'agent',
+        actions: [{ entityType: 'task', action: 'create', after: { title: 'Task' } }],
+        origin: { requestId: 'req-1', conversationId: 'c1' },
+      }),
+    });
+
+    expect(res.status).toBe(201);
+    const call = (createDraft as ReturnType<typeof vi.fn>).mock.calls[0][1];
+    expect(call.origin).toEqual({ requestId: 'req-1', conversationId: 'c1', messageId: null });
+    expect(recordLog).toHaveBeenCalledWith(mockDb, 'tool_execution', expect.objectContaining({ requestId: 'req-1' }));
+  });
+
   it('returns apply failure when service throws', async () => {
     (applyDraft as ReturnType<typeof vi.fn>).mockRejectedValue(new Error('boom'));
     const app = buildApp();
@@ -91,6 +137,258 @@ describe('draftsRoute', () => {
     expect(json.error.code).toBe('APPLY_FAILED');
   });
 
+  it('returns the failing action when a transactional apply rolls back', async () => {
+    const failure = {
+      draftId: 'd1',
+      actionId: 'a2',
+      actionIndex: 1,
+      entityType: 'task',
+      action: 'update',
+      entityId: 't1',
+      message: 'Task not found.',
+    };
+    (applyDraft as ReturnType<typeof vi.fn>).mockRejectedValue(
+      Object.assign(new Error('Action 2 of 3 (update task) failed: Task not found. No changes were applied.'), {
+        code: 'APPLY_FAILED',
+        status: 400,
+        failure,
+      })
+    );
+    const app = buildApp();
+    const res = await app.request('/api/drafts/d1/apply', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ actor: 'user' }),
+    });
+    const json = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(json.error.code).toBe('APPLY_FAILED');
+    expect(json.error.failure).toEqual(failure);
+    expect(recordLog).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 with a three-way diff when the draft is stale', async () => {
+    const conflict = {
+      actionId: 'a1',
+      entityType: 'task',
+      entityId: 't1',
+      action: 'update',
+      plannedBefore: { id: 't1', title: 'Old', updatedAt: 1 },
+      current: { id: 't1', title: 'Teammate edit', updatedAt: 2 },
+      plannedAfter: { id: 't1', title: 'Planned', updatedAt: 3 },
+      message: 'Task t1 was modified after the draft was planned.',
+    };
+    (applyDraft as ReturnType<typeof vi.fn>).mockRejectedValue(
+      Object.assign(new Error('Draft is out of date.'), { code: 'DRAFT_CONFLICT', status: 409, conflicts: [conflict] })
+    );
+    const app = buildApp();
+    const res = await app.request('/api/drafts/d1/apply', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ actor: 'user' }),
+    });
+    const json = await res.json();
+
+    expect(res.status).toBe(409);
+    expect(json.error.code).toBe('DRAFT_CONFLICT');
+    expect(json.error.conflicts).toEqual([conflict]);
+    expect(applyDraft).toHaveBeenCalledWith(mockDb, 'd1', 'user', 'public', { force: false, actionIds: undefined, actorUserId: null });
+  });
+
+  it('passes force through to applyDraft', async () => {
+    (applyDraft as ReturnType<typeof vi.fn>).mockResolvedValue({
+      draft: { id: 'd1', status: 'applied', actions: [] },
+      results: [],
+    });
+    const app = buildApp();
+    const res = await app.request('/api/drafts/d1/apply', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ actor: 'user', force: true }),
+    });
+
+    expect(res.status).toBe(200);
+    expect(applyDraft).toHaveBeenCalledWith(mockDb, 'd1', 'user', 'public', { force: true, actionIds: undefined, actorUserId: null });
+  });
+
+  it('records the signed-in user who applies a draft', async () => {
+    (applyDraft as ReturnType<typeof vi.fn>).mockResolvedValue({
+      draft: { id: 'd1', status: 'applied', actions: [], appliedByUserId: 'u1' },
+      results: [],
+    });
+    const app = buildApp({ user: { id: 'u1', username: 'ana', createdAt: 0 } });
+    const res = await app.request('/api/drafts/d1/apply', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ actor: 'user' }),
+    });
+
+    expect(res.status).toBe(200);
+    expect(applyDraft).toHaveBeenCalledWith(mockDb, 'd1', 'user', 'public', { force: false, actionIds: undefined, actorUserId: 'u1' });
+  });
+
+  it('applies only the accepted action IDs', async () => {
+    (applyDraft as ReturnType<typeof vi.fn>).mockResolvedValue({
+      draft: { id: 'd1', status: 'applied', actions: [] },
+      results: [],
+    });
+    const app = buildApp();
+    const res = await app.request('/api/drafts/d1/apply', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ actor: 'user', actionIds: ['a1', 'a3'] }),
+    });
+
+    expect(res.status).toBe(200);
+    expect(applyDraft).toHaveBeenCalledWith(mockDb, 'd1', 'user', 'public', { force: false, actionIds: ['a1', 'a3'], actorUserId: null });
+  });
+
+  it('refuses to apply a pending draft that lacks approvals', async () => {
+    const approval = {
+      required: 2,
+      approvals: 0,
+      adminRequired: false,
+      adminApproved: false,
+      satisfied: false,
+      reasons: ['2 more approval(s) required.'],
+    };
+    (applyDraft as ReturnType<typeof vi.fn>).mockRejectedValue(
+      Object.assign(new Error('2 more approval(s) required.'), { code: 'APPROVAL_REQUIRED', status: 403, approval })
+    );
+    const app = buildApp();
+    const res = await app.request('/api/drafts/d1/apply', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ actor: 'user' }),
+    });
+    const json = await res.json();
+
+    expect(res.status).toBe(403);
+    expect(json.error.code).toBe('APPROVAL_REQUIRED');
+    expect(json.error.approval.required).toBe(2);
+    expect(recordLog).not.toHaveBeenCalled();
+  });
+
+  it('does not let a client create a system draft', async () => {
+    const app = buildApp();
+    const res = await app.request('/api/drafts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ createdBy: 'system', actions: [{ entityType: 'task', action: 'create', after: { title: 'Task' } }] }),
+    });
+
+    expect(res.status).toBe(400);
+    expect(createDraft).not.toHaveBeenCalled();
+  });
+
+  it('requires a login to approve a draft', async () => {
+    const app = buildApp();
+    const res = await app.request('/api/drafts/d1/approve', { method: 'POST' });
+
+    expect(res.status).toBe(401);
+    expect(approveDraft).not.toHaveBeenCalled();
+  });
+
+  it('records an approval from an active member', async () => {
+    (approveDraft as ReturnType<typeof vi.fn>).mockResolvedValue({
+      id: 'd1',
+      status: 'pending',
+      actions: [],
+      approvals: [{ userId: 'u1', username: 'ana', role: 'member', approvedAt: 1000 }],
+    });
+    const app = buildApp({
+      user: { id: 'u1', username: 'ana', createdAt: 0 },
+      membership: { workspaceId: 'public', userId: 'u1', role: 'member', status: 'active', createdAt: 0 },
+    });
+    const res = await app.request('/api/drafts/d1/approve', { method: 'POST' });
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(json.data.approvals).toHaveLength(1);
+    expect(json.data.approval.satisfied).toBe(true);
+    expect(approveDraft).toHaveBeenCalledWith(
+      mockDb,
+      'd1',
+      { userId: 'u1', username: 'ana', role: 'member', approvedAt: 1000 },
+      'public'
+    );
+  });
+
+  it('edits a draft action and returns re-planned warnings', async () => {
+    (updateDraftAction as ReturnType<typeof vi.fn>).mockResolvedValue({
+      draft: { id: 'd1', status: 'pending', actions: [] },
+      warnings: ['Start date adjusted to satisfy predecessors.'],
+    });
+    const app = buildApp();
+    const res = await app.request('/api/drafts/d1/actions/a1', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ after: { assignee: 'Ana' } }),
+    });
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(json.data.warnings).toEqual(['Start date adjusted to satisfy predecessors.']);
+    expect(updateDraftAction).toHaveBeenCalledWith(mockDb, 'd1', 'a1', { assignee: 'Ana' }, 'public');
+  });
+
+  it('returns 409 when editing a stale draft action', async () => {
+    (updateDraftAction as ReturnType<typeof vi.fn>).mockRejectedValue(
+      Object.assign(new Error('Draft is out of date.'), { code: 'DRAFT_CONFLICT', status: 409, conflicts: [] })
+    );
+    const app = buildApp();
+    const res = await app.request('/api/drafts/d1/actions/a1', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ after: { assignee: 'Ana' } }),
+    });
+
+    expect(res.status).toBe(409);
+  });
+
+  it('records a per-action decision', async () => {
+    (setDraftActionDecision as ReturnType<typeof vi.fn>).mockResolvedValue({
+      id: 'd1',
+      status: 'pending',
+      actions: [{ id: 'a1', entityType: 'task', action: 'update', decision: 'rejected' }],
+    });
+    const app = buildApp();
+    const res = await app.request('/api/drafts/d1/actions/a1/decision', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ decision: 'rejected' }),
+    });
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(json.data.actions[0].decision).toBe('rejected');
+    expect(setDraftActionDecision).toHaveBeenCalledWith(mockDb, 'd1', 'a1', 'rejected', 'public');
+  });
+
+  it('returns 404 when the decision target is missing', async () => {
+    (setDraftActionDecision as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+    const app = buildApp();
+    const res = await app.request('/api/drafts/d1/actions/missing/decision', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ decision: 'accepted' }),
+    });
+
+    expect(res.status).toBe(404);
+  });
+
+  it('rebases a draft onto current data', async () => {
+    (refreshDraftActions as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 'd1', status: 'pending', actions: [] });
+    const app = buildApp();
+    const res = await app.request('/api/drafts/d1/rebase', { method: 'POST' });
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(json.data.id).toBe('d1');
+    expect(refreshDraftActions).toHaveBeenCalledWith(mockDb, 'd1', 'public');
+  });
+
   it('returns 404 when discard target missing', async () => {
     (discardDraft as ReturnType<typeof vi.fn>).mockResolvedValue(null);
     const app = buildApp();
@@ -100,4 +398,56 @@ describe('draftsRoute', () => {
     expect(res.status).toBe(404);
     expect(json.error.code).toBe('NOT_FOUND');
   });
+
+  it('creates a revert draft with conflicts', async () => {
+    (revertDraft as ReturnType<typeof vi.fn>).mockResolvedValue({
+      draft: { id: 'd2', status: 'pending', actions: [], createdAt: 2, createdBy: 'user', projectId: null, reason: 'Revert of draft d1' },
+      warnings: ['Task t1 has been modified since the draft was applied.'],
+      conflicts: [{ auditId: 'a1', entityType: 'task', entityId: 't1', message: 'Task t1 has been modified since the draft was applied.' }],
+    });
+    const app = buildApp();
+    const res = await app.request('/api/drafts/d1/revert', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
+    });
+    const json = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(json.data.draft.id).toBe('d2');
+    expect(json.data.conflicts).toHaveLength(1);
+    expect(revertDraft).toHaveBeenCalledWith(mockDb, 'd1', { actor: 'user', actorUserId: null, apply: false }, 'public');
+  });
+
+  it('leaves a revert draft pending under an approval policy', async () => {
+    (hasApprovalRules as ReturnType<typeof vi.fn>).mockReturnValueOnce(true);
+    (revertDraft as ReturnType<typeof vi.fn>).mockResolvedValue({
+      draft: { id: 'd2', status: 'pending', actions: [], approvals: [] },
+      warnings: [],
+      conflicts: [],
+    });
+    const app = buildApp();
+    const res = await app.request('/api/drafts/d1/revert', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ apply: true }),
+    });
+
+    expect(res.status).toBe(201);
+    expect(revertDraft).toHaveBeenCalledWith(mockDb, 'd1', { actor: 'user', actorUserId: null, apply: false }, 'public');
+  });
+
+  it('returns revert failure when service throws', async () => {
+    (revertDraft as ReturnType<typeof vi.fn>).mockRejectedValue(new Error('Only applied drafts can be reverted.'));
+    const app = buildApp();
+    const res = await app.request('/api/drafts/d1/revert', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ apply: true }),
+    });
+    const json = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(json.error.code).toBe('REVERT_FAILED');
+  });
 });
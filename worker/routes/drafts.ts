@@ -3,11 +3,31 @@ import { z } from 'zod';
 import { zValidator } from '@hono/zod-validator';
 import { jsonError, jsonOk } from './helpers';
 import { workspaceMiddleware } from './middleware';
-import { applyDraft, createDraft, discardDraft, getDraftById, listDrafts } from '../services/draftService';
+import {
+  applyDraft,
+  createDraft,
+  discardDraft,
+  getDraftById,
+  isDraftApplyError,
+  isDraftApprovalError,
+  isDraftConflictError,
+  listDrafts,
+  refreshDraftActions,
+  revertDraft,
+  setDraftActionDecision,
+  updateDraftAction,
+} from '../services/draftService';
+import {
+  approveDraft,
+  evaluateDraftApproval,
+  getApprovalPolicy,
+  hasApprovalRules,
+} from '../services/approvalService';
+import { isDependencyCycleError } from '../services/graphService';
 import { recordLog } from '../services/logService';
-import { generateId } from '../services/utils';
-import type { DraftAction } from '../services/types';
-import type { Variables } from '../types';
+import { generateId, now } from '../services/utils';
+import type { DraftAction, DraftOrigin, DraftRecord } from '../services/types';
+import type { DrizzleDB, Variables } from '../types';
 
 export const draftsRoute = new Hono<{ Variables: Variables }>();
 draftsRoute.use('*', workspaceMiddleware);
@@ -20,22 +40,49 @@ const actionSchema = z.object({
   after: z.record(z.string(), z.unknown()).optional(),
 });
 
+// `system` is reserved for drafts the server builds itself, which the task threshold does not cover.
 const createDraftSchema = z.object({
   projectId: z.string().optional(),
-  createdBy: z.enum(['user', 'agent', 'system']).default('agent'),
+  createdBy: z.enum(['user', 'agent']).default('agent'),
   reason: z.string().optional(),
   actions: z.array(actionSchema).min(1),
+  origin: z.object({
+    requestId: z.string().min(1),
+    conversationId: z.string().min(1).nullable().default(null),
+    messageId: z.string().min(1).nullable().default(null),
+  }).optional(),
 });
 
 const applySchema = z.object({
   actor: z.enum(['user', 'agent', 'system']).default('user'),
+  force: z.boolean().default(false),
+  actionIds: z.array(z.string()).optional(),
 });
 
+const updateActionSchema = z.object({
+  after: z.record(z.string(), z.unknown()),
+});
+
+const decisionSchema = z.object({
+  decision: z.enum(['accepted', 'rejected']).nullable(),
+});
+
+const revertSchema = z.object({
+  actor: z.enum(['user', 'agent']).default('user'),
+  apply: z.boolean().default(false),
+});
+
+const withApproval = async (db: DrizzleDB, draft: DraftRecord) => {
+  const policy = await getApprovalPolicy(db, draft.workspaceId);
+  return { ...draft, approval: evaluateDraftApproval(draft, policy) };
+};
+
 draftsRoute.get('/', async (c) => {
   const workspace = c.get('workspace');
   if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
   const drafts = await listDrafts(c.get('db'), workspace.id);
-  return jsonOk(c, drafts);
+  const policy = await getApprovalPolicy(c.get('db'), workspace.id);
+  return jsonOk(c, drafts.map((draft) => ({ ...draft, approval: evaluateDraftApproval(draft, policy) })));
 });
 
 draftsRoute.get('/:id', async (c) => {
@@ -43,7 +90,7 @@ draftsRoute.get('/:id', async (c) => {
   if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
   const draft = await getDraftById(c.get('db'), c.req.param('id'), workspace.id);
   if (!draft) return jsonError(c, 'NOT_FOUND', 'Draft not found.', 404);
-  return jsonOk(c, draft);
+  return jsonOk(c, await withApproval(c.get('db'), draft));
 });
 
 draftsRoute.post('/', zValidator('json', createDraftSchema), async (c) => {
@@ -59,14 +106,25 @@ draftsRoute.post('/', zValidator('json', createDraftSchema), async (c) => {
       after: action.after,
     }));
     const createdBy = payload.createdBy ?? 'agent';
-    const result = await createDraft(c.get('db'), { ...payload, createdBy, actions, workspaceId: workspace.id });
+    const result = await createDraft(c.get('db'), {
+      ...payload,
+      createdBy,
+      createdByUserId: c.get('user')?.id ?? null,
+      actions,
+      workspaceId: workspace.id,
+      origin: (payload.origin as DraftOrigin | undefined) ?? null,
+    });
     await recordLog(c.get('db'), 'tool_execution', {
       tool: 'planChanges',
       draftId: result.draft.id,
+      requestId: payload.origin?.requestId ?? null,
       warnings: result.warnings,
     });
-    return jsonOk(c, result, 201);
+    return jsonOk(c, { ...result, draft: await withApproval(c.get('db'), result.draft) }, 201);
   } catch (error) {
+    if (isDependencyCycleError(error)) {
+      return jsonError(c, error.code, error.message, error.status, { cycle: error.cycle });
+    }
     return jsonError(c, 'CREATE_FAILED', error instanceof Error ? error.message : 'Failed to create draft.', 400);
   }
 });
@@ -76,7 +134,11 @@ draftsRoute.post('/:id/apply', zValidator('json', applySchema), async (c) => {
   if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
   const payload = c.req.valid('json');
   try {
-    const result = await applyDraft(c.get('db'), c.req.param('id'), payload.actor, workspace.id);
+    const result = await applyDraft(c.get('db'), c.req.param('id'), payload.actor, workspace.id, {
+      force: payload.force ?? false,
+      actionIds: payload.actionIds,
+      actorUserId: c.get('user')?.id ?? null,
+    });
     await recordLog(c.get('db'), 'tool_execution', {
       tool: 'applyChanges',
       draftId: result.draft.id,
@@ -84,10 +146,122 @@ draftsRoute.post('/:id/apply', zValidator('json', applySchema), async (c) => {
     });
     return jsonOk(c, result);
   } catch (error) {
+    if (isDraftApprovalError(error)) {
+      return jsonError(c, error.code, error.message, error.status, { approval: error.approval });
+    }
+    if (isDraftConflictError(error)) {
+      return jsonError(c, error.code, error.message, error.status, { conflicts: error.conflicts });
+    }
+    if (isDraftApplyError(error)) {
+      return jsonError(c, error.code, error.message, error.status, { failure: error.failure });
+    }
     return jsonError(c, 'APPLY_FAILED', error instanceof Error ? error.message : 'Apply failed.', 400);
   }
 });
 
+draftsRoute.post('/:id/revert', zValidator('json', revertSchema), async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const payload = c.req.valid('json');
+  try {
+    // Under an approval policy the revert draft waits for sign-off like any other.
+    const policy = await getApprovalPolicy(c.get('db'), workspace.id);
+    const result = await revertDraft(c.get('db'), c.req.param('id'), {
+      actor: payload.actor ?? 'user',
+      actorUserId: c.get('user')?.id ?? null,
+      apply: (payload.apply ?? false) && !hasApprovalRules(policy),
+    }, workspace.id);
+    await recordLog(c.get('db'), 'tool_execution', {
+      tool: 'revertChanges',
+      sourceDraftId: c.req.param('id'),
+      draftId: result.draft.id,
+      conflicts: result.conflicts.length,
+    });
+    return jsonOk(c, { ...result, draft: { ...result.draft, approval: evaluateDraftApproval(result.draft, policy) } }, 201);
+  } catch (error) {
+    return jsonError(c, 'REVERT_FAILED', error instanceof Error ? error.message : 'Revert failed.', 400);
+  }
+});
+
+draftsRoute.patch('/:id/actions/:actionId', zValidator('json', updateActionSchema), async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const payload = c.req.valid('json');
+  try {
+    const result = await updateDraftAction(
+      c.get('db'),
+      c.req.param('id'),
+      c.req.param('actionId'),
+      payload.after,
+      workspace.id
+    );
+    if (!result) return jsonError(c, 'NOT_FOUND', 'Draft action not found.', 404);
+    return jsonOk(c, { ...result, draft: await withApproval(c.get('db'), result.draft) });
+  } catch (error) {
+    if (isDraftConflictError(error)) {
+      return jsonError(c, error.code, error.message, error.status, { conflicts: error.conflicts });
+    }
+    if (isDependencyCycleError(error)) {
+      return jsonError(c, error.code, error.message, error.status, { cycle: error.cycle });
+    }
+    return jsonError(c, 'UPDATE_FAILED', error instanceof Error ? error.message : 'Failed to update draft action.', 400);
+  }
+});
+
+draftsRoute.post('/:id/actions/:actionId/decision', zValidator('json', decisionSchema), async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const payload = c.req.valid('json');
+  try {
+    const draft = await setDraftActionDecision(
+      c.get('db'),
+      c.req.param('id'),
+      c.req.param('actionId'),
+      payload.decision,
+      workspace.id
+    );
+    if (!draft) return jsonError(c, 'NOT_FOUND', 'Draft action not found.', 404);
+    return jsonOk(c, await withApproval(c.get('db'), draft));
+  } catch (error) {
+    return jsonError(c, 'DECISION_FAILED', error instanceof Error ? error.message : 'Failed to record decision.', 400);
+  }
+});
+
+draftsRoute.post('/:id/approve', async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const user = c.get('user');
+  if (!user) return jsonError(c, 'UNAUTHORIZED', 'Login required.', 401);
+  const membership = c.get('workspaceMembership');
+  if (!membership || membership.status !== 'active') {
+    return jsonError(c, 'FORBIDDEN', 'Only workspace members can approve drafts.', 403);
+  }
+  try {
+    const draft = await approveDraft(c.get('db'), c.req.param('id'), {
+      userId: user.id,
+      username: user.username,
+      role: membership.role,
+      approvedAt: now(),
+    }, workspace.id);
+    if (!draft) return jsonError(c, 'NOT_FOUND', 'Draft not found.', 404);
+    return jsonOk(c, await withApproval(c.get('db'), draft));
+  } catch (error) {
+    return jsonError(c, 'APPROVE_FAILED', error instanceof Error ? error.message : 'Approve failed.', 400);
+  }
+});
+
+draftsRoute.post('/:id/rebase', async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  try {
+    const draft = await refreshDraftActions(c.get('db'), c.req.param('id'), workspace.id);
+    if (!draft) return jsonError(c, 'NOT_FOUND', 'Draft not found.', 404);
+    return jsonOk(c, await withApproval(c.get('db'), draft));
+  } catch (error) {
+    return jsonError(c, 'REBASE_FAILED', error instanceof Error ? error.message : 'Rebase failed.', 400);
+  }
+});
+
 draftsRoute.post('/:id/discard', async (c) => {
   const workspace = c.get('workspace');
   if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
@@ -16,6 +16,33 @@ vi.mock('../services/auditService', () => ({
   recordAudit: vi.fn(),
 }));
 
+vi.mock('../services/snapshotService', () => ({
+  getProjectStateAt: vi.fn(),
+}));
+
+vi.mock('../services/scheduleService', () => ({
+  getProjectSchedule: vi.fn(),
+}));
+
+vi.mock('../services/baselineService', () => ({
+  listBaselines: vi.fn(),
+  createBaseline: vi.fn(),
+  compareBaseline: vi.fn(),
+}));
+
+vi.mock('../services/analyticsService', () => ({
+  getEarnedValue: vi.fn(),
+}));
+
+vi.mock('../services/levelingService', () => ({
+  proposeLeveling: vi.fn(),
+}));
+
+vi.mock('../services/approvalService', () => ({
+  getApprovalPolicy: vi.fn(),
+  evaluateDraftApproval: vi.fn(() => ({ satisfied: true })),
+}));
+
 vi.mock('../services/serializers', () => ({
   toTaskRecord: vi.fn((row: { id: string }) => row),
 }));
@@ -33,6 +60,11 @@ vi.mock('./middleware', () => ({
 
 import { listProjects, getProjectById, createProject, updateProject, deleteProject } from '../services/projectService';
 import { recordAudit } from '../services/auditService';
+import { getProjectStateAt } from '../services/snapshotService';
+import { getProjectSchedule } from '../services/scheduleService';
+import { compareBaseline, createBaseline } from '../services/baselineService';
+import { proposeLeveling } from '../services/levelingService';
+import { getEarnedValue } from '../services/analyticsService';
 
 const mockDb = {
   select: () => ({
@@ -125,4 +157,123 @@ describe('projectsRoute', () => {
     expect(json.data.project.id).toBe('p1');
     expect(recordAudit).toHaveBeenCalled();
   });
+
+  it('returns the project state at a point in time', async () => {
+    (getProjectStateAt as ReturnType<typeof vi.fn>).mockResolvedValue({
+      at: 1000,
+      project: { id: 'p1', name: 'Alpha' },
+      tasks: [{ id: 't1', title: 'Old title' }],
+    });
+    const app = buildApp();
+    const res = await app.request('/api/projects/p1/snapshot?at=1000');
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(json.data.tasks[0].title).toBe('Old title');
+    expect(getProjectStateAt).toHaveBeenCalledWith(mockDb, 'p1', 1000, 'public');
+  });
+
+  it('rejects a snapshot request without a timestamp', async () => {
+    const app = buildApp();
+    const res = await app.request('/api/projects/p1/snapshot?at=yesterday');
+    const json = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(json.error.code).toBe('INVALID_QUERY');
+    expect(getProjectStateAt).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when the project did not exist yet', async () => {
+    (getProjectStateAt as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+    const app = buildApp();
+    const res = await app.request('/api/projects/p1/snapshot?at=1');
+
+    expect(res.status).toBe(404);
+  });
+
+  it('returns the critical path schedule', async () => {
+    (getProjectSchedule as ReturnType<typeof vi.fn>).mockResolvedValue({
+      projectId: 'p1',
+      start: 0,
+      finish: 1000,
+      tasks: [],
+      criticalPath: ['t1'],
+      warnings: [],
+    });
+    const app = buildApp();
+    const res = await app.request('/api/projects/p1/schedule');
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(json.data.criticalPath).toEqual(['t1']);
+    expect(getProjectSchedule).toHaveBeenCalledWith(mockDb, 'p1', 'public');
+  });
+
+  it('returns 404 for the schedule of a missing project', async () => {
+    (getProjectSchedule as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+    const app = buildApp();
+    const res = await app.request('/api/projects/p1/schedule');
+
+    expect(res.status).toBe(404);
+  });
+
+  it('saves a baseline of the current plan', async () => {
+    (createBaseline as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 'b1', name: 'Baseline 1', taskCount: 2 });
+    const app = buildApp();
+    const res = await app.request('/api/projects/p1/baselines', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
+    });
+    const json = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(json.data.name).toBe('Baseline 1');
+    expect(createBaseline).toHaveBeenCalledWith(mockDb, 'p1', 'public', { name: undefined, createdByUserId: null });
+  });
+
+  it('returns 404 when comparing against a missing baseline', async () => {
+    (compareBaseline as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+    const app = buildApp();
+    const res = await app.request('/api/projects/p1/baselines/b1/compare');
+
+    expect(res.status).toBe(404);
+    expect(compareBaseline).toHaveBeenCalledWith(mockDb, 'p1', 'b1', 'public');
+  });
+
+  it('returns the earned value series against a baseline', async () => {
+    (getEarnedValue as ReturnType<typeof vi.fn>).mockResolvedValue({ projectId: 'p1', baselineId: 'b1', budgetAtCompletion: 40, points: [] });
+    const app = buildApp();
+    const res = await app.request('/api/projects/p1/earned-value?baselineId=b1');
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(json.data.budgetAtCompletion).toBe(40);
+    expect(getEarnedValue).toHaveBeenCalledWith(mockDb, 'p1', 'public', { baselineId: 'b1' });
+  });
+
+  it('proposes a leveled schedule as a system draft', async () => {
+    (proposeLeveling as ReturnType<typeof vi.fn>).mockResolvedValue({
+      draft: { id: 'd1', createdBy: 'system', actions: [] },
+      moves: [{ taskId: 't2', delayDays: 2 }],
+      warnings: [],
+    });
+    const app = buildApp();
+    const res = await app.request('/api/projects/p1/level', { method: 'POST' });
+    const json = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(json.data.draft).toMatchObject({ id: 'd1', createdBy: 'system', approval: { satisfied: true } });
+    expect(proposeLeveling).toHaveBeenCalledWith(mockDb, 'p1', 'public', { createdByUserId: null });
+  });
+
+  it('returns no draft when nothing needs leveling', async () => {
+    (proposeLeveling as ReturnType<typeof vi.fn>).mockResolvedValue({ draft: null, moves: [], warnings: ['nothing to level'] });
+    const app = buildApp();
+    const res = await app.request('/api/projects/p1/level', { method: 'POST' });
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(json.data.draft).toBeNull();
+  });
 });
@@ -6,8 +6,17 @@ import { jsonError, jsonOk } from './helpers';
 import { workspaceMiddleware } from './middleware';
 import { createProject, deleteProject, getProjectById, listProjects, updateProject } from '../services/projectService';
 import { recordAudit } from '../services/auditService';
+import { getProjectStateAt } from '../services/snapshotService';
+import { getProjectSchedule } from '../services/scheduleService';
+import { validateProjectGraph } from '../services/graphService';
+import { MAX_HOLIDAYS, getProjectCalendar, updateProjectCalendar } from '../services/calendarService';
+import { compareBaseline, createBaseline, listBaselines } from '../services/baselineService';
+import { proposeLeveling } from '../services/levelingService';
+import { getEarnedValue } from '../services/analyticsService';
+import { evaluateDraftApproval, getApprovalPolicy } from '../services/approvalService';
 import { tasks } from '../db/schema';
 import { toTaskRecord } from '../services/serializers';
+import type { DraftAction } from '../services/types';
 import type { Variables } from '../types';
 
 export const projectsRoute = new Hono<{ Variables: Variables }>();
@@ -22,12 +31,45 @@ const projectInputSchema = z.object({
   updatedAt: z.number().optional(),
 });
 
+const snapshotQuerySchema = z.object({
+  at: z.coerce.number().int().nonnegative(),
+});
+
+const earnedValueQuerySchema = z.object({
+  baselineId: z.string().min(1).optional(),
+});
+
 const projectUpdateSchema = z.object({
   name: z.string().min(1).optional(),
   description: z.string().optional(),
   icon: z.string().optional(),
 });
 
+const calendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+// A null calendar drops the override so the project follows the workspace calendar again.
+const projectCalendarSchema = z.object({
+  calendar: z.object({
+    workingDays: z.array(z.number().int().min(0).max(6)).min(1).optional(),
+    holidays: z.array(calendarDateSchema).max(MAX_HOLIDAYS).optional(),
+    availability: z.record(z.string(), z.array(calendarDateSchema).max(MAX_HOLIDAYS)).optional(),
+    hoursPerDay: z.number().positive().max(24).optional(),
+  }).nullable(),
+});
+
+const baselineInputSchema = z.object({
+  name: z.string().max(120).optional(),
+});
+
+const validateGraphSchema = z.object({
+  actions: z.array(z.object({
+    entityType: z.enum(['task', 'project']),
+    action: z.enum(['create', 'update', 'delete']),
+    entityId: z.string().optional(),
+    after: z.record(z.string(), z.unknown()).optional(),
+  })).optional(),
+});
+
 projectsRoute.get('/', async (c) => {
   const workspace = c.get('workspace');
   if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
@@ -43,6 +85,105 @@ projectsRoute.get('/:id', async (c) => {
   return jsonOk(c, project);
 });
 
+projectsRoute.get('/:id/snapshot', async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const parsed = snapshotQuerySchema.safeParse(c.req.query());
+  if (!parsed.success) return jsonError(c, 'INVALID_QUERY', 'Query parameter "at" must be a timestamp in milliseconds.', 400);
+  const snapshot = await getProjectStateAt(c.get('db'), c.req.param('id'), parsed.data.at, workspace.id);
+  if (!snapshot) return jsonError(c, 'NOT_FOUND', 'Project did not exist at that time.', 404);
+  return jsonOk(c, snapshot);
+});
+
+projectsRoute.get('/:id/schedule', async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const schedule = await getProjectSchedule(c.get('db'), c.req.param('id'), workspace.id);
+  if (!schedule) return jsonError(c, 'NOT_FOUND', 'Project not found.', 404);
+  return jsonOk(c, schedule);
+});
+
+projectsRoute.get('/:id/calendar', async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const result = await getProjectCalendar(c.get('db'), c.req.param('id'), workspace.id);
+  if (!result) return jsonError(c, 'NOT_FOUND', 'Project not found.', 404);
+  return jsonOk(c, result);
+});
+
+projectsRoute.put('/:id/calendar', zValidator('json', projectCalendarSchema), async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const result = await updateProjectCalendar(c.get('db'), c.req.param('id'), workspace.id, c.req.valid('json').calendar);
+  if (!result) return jsonError(c, 'NOT_FOUND', 'Project not found.', 404);
+  return jsonOk(c, result);
+});
+
+projectsRoute.get('/:id/baselines', async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const result = await listBaselines(c.get('db'), c.req.param('id'), workspace.id);
+  if (!result) return jsonError(c, 'NOT_FOUND', 'Project not found.', 404);
+  return jsonOk(c, result);
+});
+
+projectsRoute.post('/:id/baselines', zValidator('json', baselineInputSchema), async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const result = await createBaseline(c.get('db'), c.req.param('id'), workspace.id, {
+    name: c.req.valid('json').name,
+    createdByUserId: c.get('user')?.id ?? null,
+  });
+  if (!result) return jsonError(c, 'NOT_FOUND', 'Project not found.', 404);
+  return jsonOk(c, result, 201);
+});
+
+projectsRoute.get('/:id/baselines/:baselineId/compare', async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const result = await compareBaseline(c.get('db'), c.req.param('id'), c.req.param('baselineId'), workspace.id);
+  if (!result) return jsonError(c, 'NOT_FOUND', 'Baseline not found.', 404);
+  return jsonOk(c, result);
+});
+
+projectsRoute.get('/:id/earned-value', async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const parsed = earnedValueQuerySchema.safeParse(c.req.query());
+  if (!parsed.success) return jsonError(c, 'INVALID_QUERY', 'Query parameter "baselineId" must be a baseline ID.', 400);
+  const report = await getEarnedValue(c.get('db'), c.req.param('id'), workspace.id, parsed.data);
+  if (!report) return jsonError(c, 'NOT_FOUND', parsed.data.baselineId ? 'Baseline not found.' : 'Project not found.', 404);
+  return jsonOk(c, report);
+});
+
+// Leveling never writes tasks directly; a proposal comes back as a pending system draft.
+projectsRoute.post('/:id/level', async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const result = await proposeLeveling(c.get('db'), c.req.param('id'), workspace.id, {
+    createdByUserId: c.get('user')?.id ?? null,
+  });
+  if (!result) return jsonError(c, 'NOT_FOUND', 'Project not found.', 404);
+  if (!result.draft) return jsonOk(c, result);
+  const approval = evaluateDraftApproval(result.draft, await getApprovalPolicy(c.get('db'), workspace.id));
+  return jsonOk(c, { ...result, draft: { ...result.draft, approval } }, 201);
+});
+
+// Proposed actions are checked in memory only, so the agent can test a plan before drafting it.
+projectsRoute.post('/:id/validate-graph', zValidator('json', validateGraphSchema), async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const data = c.req.valid('json');
+  const result = await validateProjectGraph(
+    c.get('db'),
+    c.req.param('id'),
+    workspace.id,
+    (data.actions ?? []) as DraftAction[]
+  );
+  if (!result) return jsonError(c, 'NOT_FOUND', 'Project not found.', 404);
+  return jsonOk(c, result);
+});
+
 projectsRoute.post('/', zValidator('json', projectInputSchema), async (c) => {
   const workspace = c.get('workspace');
   if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
@@ -64,6 +205,7 @@ projectsRoute.post('/', zValidator('json', projectInputSchema), async (c) => {
     before: null,
     after: project,
     actor: 'user',
+    actorUserId: c.get('user')?.id ?? null,
     reason: null,
     projectId: project.id,
     taskId: null,
@@ -92,6 +234,7 @@ projectsRoute.patch('/:id', zValidator('json', projectUpdateSchema), async (c) =
     before,
     after: project,
     actor: 'user',
+    actorUserId: c.get('user')?.id ?? null,
     reason: null,
     projectId: project.id,
     taskId: null,
@@ -118,6 +261,7 @@ projectsRoute.delete('/:id', async (c) => {
     before: { project: before, tasks: tasksBefore },
     after: null,
     actor: 'user',
+    actorUserId: c.get('user')?.id ?? null,
     reason: null,
     projectId: result.project.id,
     taskId: null,
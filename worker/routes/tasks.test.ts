@@ -15,6 +15,11 @@ vi.mock('../services/auditService', () => ({
   recordAudit: vi.fn(),
 }));
 
+vi.mock('../services/graphService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/graphService')>()),
+  checkTaskGraph: vi.fn(),
+}));
+
 vi.mock('./middleware', () => ({
   workspaceMiddleware: async (
     c: { set: (key: string, value: unknown) => void },
@@ -26,8 +31,9 @@ vi.mock('./middleware', () => ({
   },
 }));
 
-import { listTasks, createTask, updateTask, deleteTask } from '../services/taskService';
+import { listTasks, getTaskById, createTask, updateTask, deleteTask } from '../services/taskService';
 import { recordAudit } from '../services/auditService';
+import { checkTaskGraph, DependencyCycleError } from '../services/graphService';
 
 const mockDb = {};
 
@@ -73,6 +79,46 @@ describe('tasksRoute', () => {
     expect(recordAudit).toHaveBeenCalled();
   });
 
+  it('rejects a task whose predecessors form a cycle', async () => {
+    (checkTaskGraph as ReturnType<typeof vi.fn>).mockRejectedValue(new DependencyCycleError([
+      { id: 't1', projectId: 'p1', title: 'Build', wbs: '1.2', predecessors: ['1.1'] },
+      { id: 't0', projectId: 'p1', title: 'Design', wbs: '1.1', predecessors: ['1.2'] },
+      { id: 't1', projectId: 'p1', title: 'Build', wbs: '1.2', predecessors: ['1.1'] },
+    ]));
+    const app = buildApp();
+    const res = await app.request('/api/tasks', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id: 't1', projectId: 'p1', title: 'Build', wbs: '1.2', predecessors: ['1.1'] }),
+    });
+    const json = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(json.error.code).toBe('DEPENDENCY_CYCLE');
+    expect(json.error.message).toContain('"1.2 Build" → "1.1 Design" → "1.2 Build"');
+    expect(json.error.cycle).toEqual(['t1', 't0', 't1']);
+    expect(createTask).not.toHaveBeenCalled();
+  });
+
+  it('returns dangling ref warnings alongside an update', async () => {
+    const existing = { id: 't1', projectId: 'p1', title: 'Build', wbs: null, predecessors: [] };
+    (getTaskById as ReturnType<typeof vi.fn>).mockResolvedValue(existing);
+    (checkTaskGraph as ReturnType<typeof vi.fn>).mockResolvedValue(['Task "Build" depends on "9.9", which matches no task in its project.']);
+    (updateTask as ReturnType<typeof vi.fn>).mockResolvedValue({ ...existing, predecessors: ['9.9'] });
+    const app = buildApp();
+    const res = await app.request('/api/tasks/t1', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ predecessors: ['9.9'] }),
+    });
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(checkTaskGraph).toHaveBeenCalledWith(mockDb, expect.objectContaining({ id: 't1', predecessors: ['9.9'] }));
+    expect(json.warnings).toHaveLength(1);
+    expect(json.data.predecessors).toEqual(['9.9']);
+  });
+
   it('returns 404 for missing update target', async () => {
     (updateTask as ReturnType<typeof vi.fn>).mockResolvedValue(null);
     const app = buildApp();
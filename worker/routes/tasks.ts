@@ -5,6 +5,9 @@ import { jsonError, jsonOk } from './helpers';
 import { workspaceMiddleware } from './middleware';
 import { createTask, deleteTask, getTaskById, listTasks, updateTask } from '../services/taskService';
 import { recordAudit } from '../services/auditService';
+import { normalizePredecessors } from '../services/constraintService';
+import { checkTaskGraph, isDependencyCycleError } from '../services/graphService';
+import { generateId } from '../services/utils';
 import type { Variables } from '../types';
 
 export const tasksRoute = new Hono<{ Variables: Variables }>();
@@ -18,6 +21,16 @@ const booleanQuery = z.preprocess((value) => {
   return value;
 }, z.boolean());
 
+// A bare string is a finish-to-start link with no lag.
+const predecessorSchema = z.union([
+  z.string().min(1),
+  z.object({
+    ref: z.string().min(1),
+    type: z.enum(['FS', 'SS', 'FF', 'SF']).default('FS'),
+    lagDays: z.number().int().default(0),
+  }),
+]);
+
 const taskInputSchema = z.object({
   id: z.string().optional(),
   projectId: z.string().min(1),
@@ -26,12 +39,15 @@ const taskInputSchema = z.object({
   status: statusEnum.default('TODO'),
   priority: priorityEnum.default('MEDIUM'),
   wbs: z.string().optional(),
+  parentId: z.string().nullable().optional(),
   startDate: z.number().optional(),
   dueDate: z.number().optional(),
   completion: z.number().min(0).max(100).optional(),
   assignee: z.string().optional(),
+  estimatedHours: z.number().min(0).nullable().optional(),
+  actualHours: z.number().min(0).nullable().optional(),
   isMilestone: z.boolean().optional(),
-  predecessors: z.array(z.string()).optional(),
+  predecessors: z.array(predecessorSchema).optional(),
   createdAt: z.number().optional(),
   updatedAt: z.number().optional(),
 });
@@ -42,12 +58,15 @@ const taskUpdateSchema = z.object({
   status: statusEnum.optional(),
   priority: priorityEnum.optional(),
   wbs: z.string().optional(),
+  parentId: z.string().nullable().optional(),
   startDate: z.number().optional(),
   dueDate: z.number().optional(),
   completion: z.number().min(0).max(100).optional(),
   assignee: z.string().optional(),
+  estimatedHours: z.number().min(0).nullable().optional(),
+  actualHours: z.number().min(0).nullable().optional(),
   isMilestone: z.boolean().optional(),
-  predecessors: z.array(z.string()).optional(),
+  predecessors: z.array(predecessorSchema).optional(),
 });
 
 const listQuerySchema = z.object({
@@ -86,20 +105,42 @@ tasksRoute.post('/', zValidator('json', taskInputSchema), async (c) => {
   const workspace = c.get('workspace');
   if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
   const data = c.req.valid('json');
+  const id = data.id ?? generateId();
+  const predecessors = normalizePredecessors(data.predecessors);
+  let warnings: string[] = [];
+  if (predecessors?.length) {
+    try {
+      warnings = await checkTaskGraph(c.get('db'), {
+        id,
+        projectId: data.projectId,
+        title: data.title,
+        wbs: data.wbs ?? null,
+        predecessors,
+      });
+    } catch (error) {
+      if (isDependencyCycleError(error)) {
+        return jsonError(c, error.code, error.message, error.status, { cycle: error.cycle });
+      }
+      throw error;
+    }
+  }
   const task = await createTask(c.get('db'), {
-    id: data.id,
+    id,
     projectId: data.projectId,
     title: data.title,
     description: data.description,
     status: data.status,
     priority: data.priority,
     wbs: data.wbs,
+    parentId: data.parentId,
     startDate: data.startDate,
     dueDate: data.dueDate,
     completion: data.completion,
     assignee: data.assignee,
+    estimatedHours: data.estimatedHours,
+    actualHours: data.actualHours,
     isMilestone: data.isMilestone,
-    predecessors: data.predecessors,
+    predecessors,
     createdAt: data.createdAt,
     updatedAt: data.updatedAt,
   }, workspace.id);
@@ -112,12 +153,13 @@ tasksRoute.post('/', zValidator('json', taskInputSchema), async (c) => {
     before: null,
     after: task,
     actor: 'user',
+    actorUserId: c.get('user')?.id ?? null,
     reason: null,
     projectId: task.projectId,
     taskId: task.id,
     draftId: null,
   });
-  return jsonOk(c, task, 201);
+  return jsonOk(c, task, 201, warnings.length ? { warnings } : undefined);
 });
 
 tasksRoute.patch('/:id', zValidator('json', taskUpdateSchema), async (c) => {
@@ -126,18 +168,40 @@ tasksRoute.patch('/:id', zValidator('json', taskUpdateSchema), async (c) => {
   const id = c.req.param('id');
   const before = await getTaskById(c.get('db'), id, workspace.id);
   const data = c.req.valid('json');
+  const predecessors = normalizePredecessors(data.predecessors);
+  let warnings: string[] = [];
+  // Renumbering a task can also close a loop when a successor refers to it by WBS code.
+  if (before && (predecessors !== undefined || data.wbs !== undefined)) {
+    try {
+      warnings = await checkTaskGraph(c.get('db'), {
+        id: before.id,
+        projectId: before.projectId,
+        title: data.title ?? before.title,
+        wbs: data.wbs ?? before.wbs,
+        predecessors: predecessors ?? before.predecessors,
+      });
+    } catch (error) {
+      if (isDependencyCycleError(error)) {
+        return jsonError(c, error.code, error.message, error.status, { cycle: error.cycle });
+      }
+      throw error;
+    }
+  }
   const task = await updateTask(c.get('db'), id, {
     title: data.title,
     description: data.description,
     status: data.status,
     priority: data.priority,
     wbs: data.wbs,
+    parentId: data.parentId,
     startDate: data.startDate,
     dueDate: data.dueDate,
     completion: data.completion,
     assignee: data.assignee,
+    estimatedHours: data.estimatedHours,
+    actualHours: data.actualHours,
     isMilestone: data.isMilestone,
-    predecessors: data.predecessors,
+    predecessors,
   }, workspace.id);
   if (!task) return jsonError(c, 'NOT_FOUND', 'Task not found.', 404);
   await recordAudit(c.get('db'), {
@@ -148,12 +212,13 @@ tasksRoute.patch('/:id', zValidator('json', taskUpdateSchema), async (c) => {
     before,
     after: task,
     actor: 'user',
+    actorUserId: c.get('user')?.id ?? null,
     reason: null,
     projectId: task.projectId,
     taskId: task.id,
     draftId: null,
   });
-  return jsonOk(c, task);
+  return jsonOk(c, task, 200, warnings.length ? { warnings } : undefined);
 });
 
 tasksRoute.delete('/:id', async (c) => {
@@ -171,6 +236,7 @@ tasksRoute.delete('/:id', async (c) => {
     before: before ?? task,
     after: null,
     actor: 'user',
+    actorUserId: c.get('user')?.id ?? null,
     reason: null,
     projectId: task.projectId,
     taskId: task.id,
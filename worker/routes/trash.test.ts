@@ -0,0 +1,85 @@
+import { Hono } from 'hono';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { trashRoute } from './trash';
+import type { Variables } from '../types';
+
+vi.mock('../services/trashService', () => ({
+  listTrash: vi.fn(),
+  restoreDeletedProject: vi.fn(),
+  restoreDeletedTask: vi.fn(),
+  isRestoreError: vi.fn(),
+}));
+
+vi.mock('./middleware', () => ({
+  workspaceMiddleware: async (
+    c: { set: (key: string, value: unknown) => void },
+    next: () => Promise<void>
+  ) => {
+    c.set('workspace', { id: 'public', name: 'Public', description: null, createdAt: 0, createdBy: null, isPublic: true });
+    c.set('workspaceMembership', null);
+    await next();
+  },
+}));
+
+import { isRestoreError, listTrash, restoreDeletedProject, restoreDeletedTask } from '../services/trashService';
+
+const mockDb = {};
+
+const buildApp = () => {
+  const app = new Hono<{ Variables: Variables }>();
+  app.use('*', async (c, next) => {
+    c.set('db', mockDb as any);
+    c.set('user', { id: 'u1', username: 'ana', createdAt: 0 } as any);
+    c.set('workspace', null);
+    c.set('workspaceMembership', null);
+    await next();
+  });
+  app.route('/api/trash', trashRoute);
+  return app;
+};
+
+const post = (app: ReturnType<typeof buildApp>, path: string) => app.request(path, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify({}),
+});
+
+describe('trashRoute', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists deleted projects and tasks', async () => {
+    (listTrash as ReturnType<typeof vi.fn>).mockResolvedValue({ projects: [{ entityId: 'p1' }], tasks: [] });
+    const app = buildApp();
+    const res = await app.request('/api/trash');
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(json.data.projects).toHaveLength(1);
+    expect(listTrash).toHaveBeenCalledWith(mockDb, 'public');
+  });
+
+  it('restores a project as the signed-in user', async () => {
+    (restoreDeletedProject as ReturnType<typeof vi.fn>).mockResolvedValue({ project: { id: 'p1' }, tasks: [], warnings: [] });
+    const app = buildApp();
+    const res = await post(app, '/api/trash/projects/p1/restore');
+    const json = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(json.data.project.id).toBe('p1');
+    expect(restoreDeletedProject).toHaveBeenCalledWith(mockDb, 'p1', 'user', 'u1', 'public');
+  });
+
+  it('maps restore errors from service', async () => {
+    const error = Object.assign(new Error('Restore the project first.'), { code: 'PROJECT_DELETED', status: 409 });
+    (restoreDeletedTask as ReturnType<typeof vi.fn>).mockRejectedValue(error);
+    (isRestoreError as unknown as ReturnType<typeof vi.fn>).mockReturnValue(true);
+    const app = buildApp();
+    const res = await post(app, '/api/trash/tasks/t1/restore');
+    const json = await res.json();
+
+    expect(res.status).toBe(409);
+    expect(json.error.code).toBe('PROJECT_DELETED');
+  });
+});
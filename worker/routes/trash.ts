@@ -0,0 +1,59 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { zValidator } from '@hono/zod-validator';
+import { jsonError, jsonOk } from './helpers';
+import { workspaceMiddleware } from './middleware';
+import { isRestoreError, listTrash, restoreDeletedProject, restoreDeletedTask } from '../services/trashService';
+import type { Variables } from '../types';
+
+export const trashRoute = new Hono<{ Variables: Variables }>();
+trashRoute.use('*', workspaceMiddleware);
+
+const restoreSchema = z.object({
+  actor: z.enum(['user', 'agent', 'system']).default('user'),
+});
+
+trashRoute.get('/', async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const trash = await listTrash(c.get('db'), workspace.id);
+  return jsonOk(c, trash);
+});
+
+trashRoute.post('/projects/:id/restore', zValidator('json', restoreSchema), async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const payload = c.req.valid('json');
+  try {
+    const result = await restoreDeletedProject(
+      c.get('db'),
+      c.req.param('id'),
+      payload.actor ?? 'user',
+      c.get('user')?.id ?? null,
+      workspace.id
+    );
+    return jsonOk(c, result, 201);
+  } catch (error) {
+    if (isRestoreError(error)) return jsonError(c, error.code, error.message, error.status);
+    return jsonError(c, 'RESTORE_FAILED', error instanceof Error ? error.message : 'Restore failed.', 400);
+  }
+});
+
+trashRoute.post('/tasks/:id/restore', zValidator('json', restoreSchema), async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const payload = c.req.valid('json');
+  try {
+    const result = await restoreDeletedTask(
+      c.get('db'),
+      c.req.param('id'),
+      payload.actor ?? 'user',
+      c.get('user')?.id ?? null,
+      workspace.id
+    );
+    return jsonOk(c, result, 201);
+  } catch (error) {
+    if (isRestoreError(error)) return jsonError(c, error.code, error.message, error.status);
+    return jsonError(c, 'RESTORE_FAILED', error instanceof Error ? error.message : 'Restore failed.', 400);
+  }
+});
@@ -0,0 +1,63 @@
+import { Hono } from 'hono';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { workloadRoute } from './workload';
+import type { Variables } from '../types';
+
+vi.mock('../services/workloadService', () => ({
+  getWorkspaceWorkload: vi.fn(),
+}));
+
+vi.mock('./middleware', () => ({
+  workspaceMiddleware: async (
+    c: { set: (key: string, value: unknown) => void },
+    next: () => Promise<void>
+  ) => {
+    c.set('workspace', { id: 'public', name: 'Public', description: null, createdAt: 0, createdBy: null, isPublic: true });
+    c.set('workspaceMembership', null);
+    await next();
+  },
+}));
+
+import { getWorkspaceWorkload } from '../services/workloadService';
+
+const mockDb = {};
+
+const buildApp = () => {
+  const app = new Hono<{ Variables: Variables }>();
+  app.use('*', async (c, next) => {
+    c.set('db', mockDb as any);
+    c.set('user', null);
+    c.set('workspace', null);
+    c.set('workspaceMembership', null);
+    await next();
+  });
+  app.route('/api/workload', workloadRoute);
+  return app;
+};
+
+describe('workloadRoute', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the workspace workload for the requested range', async () => {
+    (getWorkspaceWorkload as ReturnType<typeof vi.fn>).mockResolvedValue({ from: 0, to: 1, hoursPerDay: 8, assignees: [], unestimatedTaskIds: [] });
+    const app = buildApp();
+    const res = await app.request('/api/workload?from=1000&to=2000');
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(json.data.hoursPerDay).toBe(8);
+    expect(getWorkspaceWorkload).toHaveBeenCalledWith(mockDb, 'public', { from: 1000, to: 2000 });
+  });
+
+  it('rejects a range that is not a timestamp', async () => {
+    const app = buildApp();
+    const res = await app.request('/api/workload?from=yesterday');
+    const json = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(json.error.code).toBe('INVALID_QUERY');
+    expect(getWorkspaceWorkload).not.toHaveBeenCalled();
+  });
+});
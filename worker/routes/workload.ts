@@ -0,0 +1,24 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { jsonError, jsonOk } from './helpers';
+import { workspaceMiddleware } from './middleware';
+import { getWorkspaceWorkload } from '../services/workloadService';
+import type { Variables } from '../types';
+
+export const workloadRoute = new Hono<{ Variables: Variables }>();
+workloadRoute.use('*', workspaceMiddleware);
+
+const workloadQuerySchema = z.object({
+  from: z.coerce.number().int().nonnegative().optional(),
+  to: z.coerce.number().int().nonnegative().optional(),
+});
+
+// Load per assignee across every project in the workspace.
+workloadRoute.get('/', async (c) => {
+  const workspace = c.get('workspace');
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  const parsed = workloadQuerySchema.safeParse(c.req.query());
+  if (!parsed.success) return jsonError(c, 'INVALID_QUERY', 'Query parameters "from" and "to" must be timestamps in milliseconds.', 400);
+  const workload = await getWorkspaceWorkload(c.get('db'), workspace.id, parsed.data);
+  return jsonOk(c, workload);
+});
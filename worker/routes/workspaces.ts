@@ -1,10 +1,12 @@
 import { Hono } from 'hono';
+import type { Context } from 'hono';
 import { z } from 'zod';
 import { zValidator } from '@hono/zod-validator';
 import { jsonError, jsonOk } from './helpers';
 import {
   approveWorkspaceRequest,
   createWorkspace,
+  getWorkspaceById,
   getWorkspaceMembership,
   listPublicWorkspaces,
   listWorkspaceMembers,
@@ -14,6 +16,14 @@ import {
   rejectWorkspaceRequest,
   removeWorkspaceMember,
 } from '../services/workspaceService';
+import { getApprovalPolicy, updateApprovalPolicy } from '../services/approvalService';
+import {
+  MAX_HOLIDAYS,
+  getWorkspaceCalendar,
+  importWorkspaceHolidays,
+  isCalendarError,
+  updateWorkspaceCalendar,
+} from '../services/calendarService';
 import type { Variables } from '../types';
 
 export const workspacesRoute = new Hono<{ Variables: Variables }>();
@@ -23,6 +33,25 @@ const workspaceSchema = z.object({
   description: z.string().optional(),
 });
 
+const approvalPolicySchema = z.object({
+  requiredApprovals: z.number().int().min(0).max(10).optional(),
+  agentTaskThreshold: z.number().int().min(0).nullable().optional(),
+  adminForProjectDelete: z.boolean().optional(),
+});
+
+const calendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const calendarSchema = z.object({
+  workingDays: z.array(z.number().int().min(0).max(6)).min(1).optional(),
+  holidays: z.array(calendarDateSchema).max(MAX_HOLIDAYS).optional(),
+  availability: z.record(z.string(), z.array(calendarDateSchema).max(MAX_HOLIDAYS)).optional(),
+  hoursPerDay: z.number().positive().max(24).optional(),
+});
+
+const holidayImportSchema = z.object({
+  ics: z.string().min(1).max(1_000_000),
+});
+
 workspacesRoute.get('/', async (c) => {
   const user = c.get('user');
   const workspaces = user
@@ -125,3 +154,72 @@ workspacesRoute.delete('/:id/members/:userId', async (c) => {
     return jsonError(c, 'REMOVE_MEMBER_FAILED', error instanceof Error ? error.message : 'Remove member failed.', 400);
   }
 });
+
+// Public workspaces are readable by anyone; private ones only by active members.
+const checkReadAccess = async (c: Context<{ Variables: Variables }>, workspaceId: string) => {
+  const workspace = await getWorkspaceById(c.get('db'), workspaceId);
+  if (!workspace) return jsonError(c, 'WORKSPACE_NOT_FOUND', 'Workspace not found.', 404);
+  if (workspace.isPublic) return null;
+  const user = c.get('user');
+  if (!user) return jsonError(c, 'UNAUTHORIZED', 'Login required.', 401);
+  const membership = await getWorkspaceMembership(c.get('db'), workspaceId, user.id);
+  if (!membership || membership.status !== 'active') {
+    return jsonError(c, 'WORKSPACE_FORBIDDEN', 'You are not a member of this workspace.', 403);
+  }
+  return null;
+};
+
+const checkAdminAccess = async (c: Context<{ Variables: Variables }>, workspaceId: string) => {
+  const user = c.get('user');
+  if (!user) return jsonError(c, 'UNAUTHORIZED', 'Login required.', 401);
+  const membership = await getWorkspaceMembership(c.get('db'), workspaceId, user.id);
+  if (!membership || membership.status !== 'active' || membership.role !== 'admin') {
+    return jsonError(c, 'FORBIDDEN', 'Admin access required.', 403);
+  }
+  return null;
+};
+
+workspacesRoute.get('/:id/approval-policy', async (c) => {
+  const workspaceId = c.req.param('id');
+  const denied = await checkReadAccess(c, workspaceId);
+  if (denied) return denied;
+  const policy = await getApprovalPolicy(c.get('db'), workspaceId);
+  return jsonOk(c, policy);
+});
+
+workspacesRoute.put('/:id/approval-policy', zValidator('json', approvalPolicySchema), async (c) => {
+  const workspaceId = c.req.param('id');
+  const denied = await checkAdminAccess(c, workspaceId);
+  if (denied) return denied;
+  const policy = await updateApprovalPolicy(c.get('db'), workspaceId, c.req.valid('json'));
+  return jsonOk(c, policy);
+});
+
+workspacesRoute.get('/:id/calendar', async (c) => {
+  const workspaceId = c.req.param('id');
+  const denied = await checkReadAccess(c, workspaceId);
+  if (denied) return denied;
+  return jsonOk(c, await getWorkspaceCalendar(c.get('db'), workspaceId));
+});
+
+workspacesRoute.put('/:id/calendar', zValidator('json', calendarSchema), async (c) => {
+  const workspaceId = c.req.param('id');
+  const denied = await checkAdminAccess(c, workspaceId);
+  if (denied) return denied;
+  return jsonOk(c, await updateWorkspaceCalendar(c.get('db'), workspaceId, c.req.valid('json')));
+});
+
+// Adds the all-day events of an iCalendar file to the workspace holidays.
+workspacesRoute.post('/:id/calendar/holidays/import', zValidator('json', holidayImportSchema), async (c) => {
+  const workspaceId = c.req.param('id');
+  const denied = await checkAdminAccess(c, workspaceId);
+  if (denied) return denied;
+  try {
+    const result = await importWorkspaceHolidays(c.get('db'), workspaceId, c.req.valid('json').ics);
+    if (result.imported === 0) return jsonError(c, 'INVALID_ICS', 'No all-day events found in the calendar file.', 400);
+    return jsonOk(c, result);
+  } catch (error) {
+    if (isCalendarError(error)) return jsonError(c, error.code, error.message, error.status);
+    throw error;
+  }
+});
@@ -9,6 +9,7 @@
 import type { Context } from 'hono';
 import type { Bindings, Variables } from '../types';
 import { PUBLIC_WORKSPACE_ID } from './workspaceService';
+import type { DraftAction } from './types';
 
 // ============================================================================
 // Type Definitions
@@ -80,7 +81,8 @@ const commonSchemas = {
     description: { type: 'string' },
     status: { type: 'string', enum: ['TODO', 'IN_PROGRESS', 'DONE'], description: 'Task status' },
     priority: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH'], description: 'Task priority' },
-    wbs: { type: 'string' },
+    wbs: { type: 'string', description: 'Outline code such as "1.2"; "1.2.1" is a subtask of "1.2". Codes are renumbered automatically' },
+    parentId: { type: 'string', description: 'Summary task ID to nest this task under; overrides the parent implied by the WBS code' },
     startDate: {
       type: 'number',
       description: 'Task start date as Unix timestamp in milliseconds',
@@ -93,8 +95,26 @@ const commonSchemas = {
     },
     completion: { type: 'number', minimum: 0, maximum: 100 },
     assignee: { type: 'string' },
+    estimatedHours: { type: 'number', minimum: 0, description: 'Planned work in hours, spread evenly over the task\'s working days' },
+    actualHours: { type: 'number', minimum: 0, description: 'Hours worked so far' },
     isMilestone: { type: 'boolean' },
-    predecessors: { type: 'array', items: { type: 'string' } },
+    predecessors: {
+      type: 'array',
+      description: 'Dependencies on other tasks in the project. Default link is finish-to-start with no lag.',
+      items: {
+        type: 'object',
+        properties: {
+          ref: { type: 'string', description: 'Predecessor task ID or WBS code' },
+          type: {
+            type: 'string',
+            enum: ['FS', 'SS', 'FF', 'SF'],
+            description: 'FS: starts after predecessor finishes; SS: starts after it starts; FF: finishes after it finishes; SF: finishes after it starts',
+          },
+          lagDays: { type: 'number', description: 'Days of delay after the linked date; negative for overlap (lead)' },
+        },
+        required: ['ref'],
+      },
+    },
   },
   taskFilterFields: {
     projectId: { type: 'string', description: 'Filter by project ID' },
@@ -589,6 +609,41 @@ function createDefaultTools(c: Context<{ Bindings: Bindings; Variables: Variable
         return JSON.stringify({ success: true, data: toTaskRecord(taskList[0].tasks) });
       },
     },
+    {
+      name: 'validateProjectGraph',
+      description: 'Check a project\'s task dependencies for cycles and for predecessor refs that match no task. Pass the actions you are about to plan to check the graph as it would be after them. Call this before planChanges when adding or changing predecessors.',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: commonSchemas.projectId,
+          actions: {
+            type: 'array',
+            description: 'Proposed actions, in the same shape as planChanges (optional)',
+            items: {
+              type: 'object',
+              properties: {
+                entityType: { type: 'string', enum: ['task', 'project'] },
+                action: { type: 'string', enum: ['create', 'update', 'delete'] },
+                entityId: { type: 'string' },
+                after: { type: 'object' },
+              },
+              required: ['entityType', 'action'],
+            },
+          },
+        },
+        required: ['projectId'],
+      },
+      category: 'read',
+      handler: async ({ db, args }) => {
+        const { validateProjectGraph } = await import('./graphService');
+        const actions = Array.isArray(args.actions) ? (args.actions as DraftAction[]) : [];
+        const result = await validateProjectGraph(db, String(args.projectId), workspaceId, actions);
+        if (!result) {
+          return JSON.stringify({ success: false, error: { code: 'NOT_FOUND', message: 'Project not found' } });
+        }
+        return JSON.stringify({ success: true, data: result });
+      },
+    },
 
     // Write tools (create drafts)
     {
@@ -707,10 +762,13 @@ function createDefaultTools(c: Context<{ Bindings: Bindings; Variables: Variable
             status: args.status,
             priority: args.priority,
             wbs: args.wbs,
+            parentId: args.parentId,
             startDate: args.startDate,
             dueDate: args.dueDate,
             completion: args.completion,
             assignee: args.assignee,
+            estimatedHours: args.estimatedHours,
+            actualHours: args.actualHours,
             isMilestone: args.isMilestone,
             predecessors: args.predecessors,
           },
@@ -748,10 +806,13 @@ function createDefaultTools(c: Context<{ Bindings: Bindings; Variables: Variable
             status: args.status,
             priority: args.priority,
             wbs: args.wbs,
+            parentId: args.parentId,
             startDate: args.startDate,
             dueDate: args.dueDate,
             completion: args.completion,
             assignee: args.assignee,
+            estimatedHours: args.estimatedHours,
+            actualHours: args.actualHours,
             isMilestone: args.isMilestone,
             predecessors: args.predecessors,
           },
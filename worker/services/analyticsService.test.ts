@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { computeEarnedValue, sampleMoments } from './analyticsService';
+import { DEFAULT_CALENDAR } from './calendarService';
+import type { TaskRecord } from './types';
+
+const at = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+const baseTask = (overrides: Partial<TaskRecord>): TaskRecord => ({
+  id: 't1',
+  projectId: 'p1',
+  title: 'Task',
+  description: null,
+  status: 'TODO',
+  priority: 'LOW',
+  wbs: null,
+  parentId: null,
+  createdAt: 0,
+  startDate: 0,
+  dueDate: 0,
+  completion: 0,
+  assignee: null,
+  estimatedHours: null,
+  actualHours: null,
+  isMilestone: false,
+  predecessors: [],
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe('analyticsService', () => {
+  it('computes PV, EV, AC and the indices at each moment', () => {
+    // Monday to Friday, four working days with a 40h estimate.
+    const build = baseTask({ id: 'build', startDate: at('2026-10-19'), dueDate: at('2026-10-23'), estimatedHours: 40 });
+    // No estimate: two working days at 8h a day.
+    const test = baseTask({ id: 'test', startDate: at('2026-10-23'), dueDate: at('2026-10-27') });
+    const history = [
+      { at: at('2026-10-19'), tasks: [build, test] },
+      { at: at('2026-10-21'), tasks: [{ ...build, completion: 25, actualHours: 20 }, test] },
+    ];
+
+    const result = computeEarnedValue(history, DEFAULT_CALENDAR);
+
+    expect(result.budgetAtCompletion).toBe(56);
+    expect(result.points[0]).toEqual({ at: at('2026-10-19'), plannedValue: 0, earnedValue: 0, actualCost: 0, spi: null, cpi: null });
+    expect(result.points[1]).toEqual({ at: at('2026-10-21'), plannedValue: 20, earnedValue: 10, actualCost: 20, spi: 0.5, cpi: 0.5 });
+  });
+
+  it('measures planned value against a baseline when given', () => {
+    const task = baseTask({ id: 'build', startDate: at('2026-10-21'), dueDate: at('2026-10-23'), estimatedHours: 16 });
+    const baseline = [{ taskId: 'build', title: 'Build', wbs: null, startDate: at('2026-10-19'), dueDate: at('2026-10-21'), completion: 0 }];
+
+    const result = computeEarnedValue([{ at: at('2026-10-21'), tasks: [task] }], DEFAULT_CALENDAR, baseline);
+
+    expect(result.points[0]).toMatchObject({ plannedValue: 16, earnedValue: 0, spi: 0 });
+  });
+
+  it('samples weekly and always ends now', () => {
+    expect(sampleMoments(at('2026-10-01'), at('2026-10-19'))).toEqual([at('2026-10-01'), at('2026-10-08'), at('2026-10-15'), at('2026-10-19')]);
+    expect(sampleMoments(at('2026-10-20'), at('2026-10-19'))).toEqual([at('2026-10-19')]);
+  });
+});
@@ -0,0 +1,148 @@
+import { and, eq } from 'drizzle-orm';
+import { baselines } from '../db/schema';
+import type { DbExecutor } from '../db';
+import { getCalendarLookup, workingTimeBetween } from './calendarService';
+import { getTaskEnd, getTaskStart } from './constraintService';
+import { groupChildren, resolveParentIds } from './hierarchyService';
+import { getProjectHistory } from './snapshotService';
+import { now } from './utils';
+import type { BaselineTask, TaskRecord, WorkCalendar } from './types';
+
+const day = 86_400_000;
+// Longer projects are sampled less often rather than returning more points.
+const MAX_POINTS = 60;
+
+// Values are in hours: a task is worth its estimate, or its working days at the calendar's hours
+// per day when it has none.
+export type EarnedValuePoint = {
+  at: number;
+  plannedValue: number;  // PV: work scheduled to be done by this moment
+  earnedValue: number;  // EV: work actually done, the budget times completion
+  actualCost: number;  // AC: hours logged
+  spi: number | null;  // EV / PV; null before any work is scheduled
+  cpi: number | null;  // EV / AC; null until hours are logged
+};
+
+export type EarnedValueReport = {
+  projectId: string;
+  baselineId: string | null;  // PV follows this baseline's dates when set, otherwise the plan at each moment
+  budgetAtCompletion: number;  // BAC
+  points: EarnedValuePoint[];  // Oldest first; the last one is now
+};
+
+type PlannedDates = { taskId: string; startDate: number; dueDate: number };
+
+const roundValue = (value: number) => Math.round(value * 100) / 100;
+const ratio = (numerator: number, denominator: number) => (denominator > 0 ? roundValue(numerator / denominator) : null);
+
+// Summary tasks roll up their children and milestones take no work, so neither carries value.
+const valuedTasks = (projectTasks: TaskRecord[]) => {
+  const summaries = new Set(groupChildren(projectTasks, resolveParentIds(projectTasks)).keys());
+  return projectTasks.filter((task) => !task.isMilestone && !summaries.has(task.id));
+};
+
+export const taskBudget = (task: TaskRecord, calendar: WorkCalendar) => {
+  // Audit snapshots from before effort existed have no estimate field at all.
+  const estimate = task.estimatedHours ?? 0;
+  if (estimate > 0) return estimate;
+  return (workingTimeBetween(calendar, getTaskStart(task), getTaskEnd(task)) / day) * calendar.hoursPerDay;
+};
+
+// Share of a task's working time that falls before `at`.
+export const plannedShare = (dates: PlannedDates, at: number, calendar: WorkCalendar) => {
+  if (at <= dates.startDate) return 0;
+  if (at >= dates.dueDate) return 1;
+  const total = workingTimeBetween(calendar, dates.startDate, dates.dueDate);
+  return total > 0 ? workingTimeBetween(calendar, dates.startDate, at) / total : 0;
+};
+
+// Weekly moments from the planned start up to `until`, thinned to at most MAX_POINTS; `until` is always last.
+export const sampleMoments = (start: number, until: number) => {
+  if (start >= until) return [until];
+  const weeks = Math.ceil((until - start) / (7 * day));
+  const step = Math.ceil(weeks / (MAX_POINTS - 1)) * 7 * day;
+  const moments: number[] = [];
+  for (let at = start; at < until; at += step) moments.push(at);
+  return [...moments, until];
+};
+
+// Budgets come from the latest version of each task so PV and EV are measured in the same units
+// at every moment; tasks deleted since keep the budget they last had.
+export const computeEarnedValue = (
+  history: Array<{ at: number; tasks: TaskRecord[] }>,
+  calendar: WorkCalendar,
+  baselineTasks: BaselineTask[] | null = null
+): Pick<EarnedValueReport, 'budgetAtCompletion' | 'points'> => {
+  const budgets = new Map<string, number>();
+  for (const entry of history) {
+    for (const task of valuedTasks(entry.tasks)) budgets.set(task.id, taskBudget(task, calendar));
+  }
+  const latest = history.length > 0 ? valuedTasks(history[history.length - 1].tasks) : [];
+  const plannedIds = baselineTasks ? baselineTasks.map((task) => task.taskId) : latest.map((task) => task.id);
+  const budgetAtCompletion = roundValue(plannedIds.reduce((sum, id) => sum + (budgets.get(id) ?? 0), 0));
+
+  const points = history.map(({ at, tasks: current }): EarnedValuePoint => {
+    const valued = valuedTasks(current);
+    const planned: PlannedDates[] = baselineTasks
+      ?? valued.map((task) => ({ taskId: task.id, startDate: getTaskStart(task), dueDate: getTaskEnd(task) }));
+    const plannedValue = planned.reduce(
+      (sum, dates) => sum + (budgets.get(dates.taskId) ?? 0) * plannedShare(dates, at, calendar),
+      0
+    );
+    const earnedValue = valued.reduce(
+      (sum, task) => sum + (budgets.get(task.id) ?? 0) * Math.min(Math.max(task.completion ?? 0, 0), 100) / 100,
+      0
+    );
+    const actualCost = valued.reduce((sum, task) => sum + (task.actualHours ?? 0), 0);
+    return {
+      at,
+      plannedValue: roundValue(plannedValue),
+      earnedValue: roundValue(earnedValue),
+      actualCost: roundValue(actualCost),
+      spi: ratio(earnedValue, plannedValue),
+      cpi: ratio(earnedValue, actualCost),
+    };
+  });
+
+  return { budgetAtCompletion, points };
+};
+
+export const getEarnedValue = async (
+  db: DbExecutor,
+  projectId: string,
+  workspaceId: string,
+  options: { baselineId?: string } = {}
+): Promise<EarnedValueReport | null> => {
+  let baselineTasks: BaselineTask[] | null = null;
+  if (options.baselineId) {
+    const rows = await db
+      .select()
+      .from(baselines)
+      .where(and(
+        eq(baselines.id, options.baselineId),
+        eq(baselines.projectId, projectId),
+        eq(baselines.workspaceId, workspaceId)
+      ))
+      .limit(1);
+    if (!rows[0]) return null;
+    baselineTasks = rows[0].tasks;
+  }
+
+  const current = await getProjectHistory(db, projectId, [now()], workspaceId);
+  if (!current) return null;
+  const until = current[0].at;
+  const starts = [
+    ...current[0].tasks.map(getTaskStart),
+    ...(baselineTasks ?? []).map((task) => task.startDate),
+  ];
+  const start = starts.length > 0 ? Math.min(...starts) : until;
+  const history = await getProjectHistory(db, projectId, sampleMoments(start, until), workspaceId);
+  if (!history) return null;
+
+  const calendarFor = await getCalendarLookup(db, [projectId], workspaceId);
+  return {
+    projectId,
+    baselineId: options.baselineId ?? null,
+    ...computeEarnedValue(history, calendarFor(projectId), baselineTasks),
+  };
+};
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest';
+import { drafts } from '../db/schema';
+import { createMemoryDb } from '../test/memoryDb';
+
+vi.mock('drizzle-orm', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('drizzle-orm')>()),
+  ...(await import('../test/memoryDb')).memoryOperators,
+}));
+
+import { DEFAULT_APPROVAL_POLICY, approveDraft, evaluateDraftApproval } from './approvalService';
+import type { DraftAction, DraftApproval, DraftRecord } from './types';
+
+const baseDraft = (overrides: Partial<DraftRecord>): DraftRecord => ({
+  id: 'd1',
+  workspaceId: 'w1',
+  projectId: 'p1',
+  status: 'pending',
+  actions: [],
+  createdAt: 0,
+  createdBy: 'agent',
+  reason: null,
+  approvals: [],
+  ...overrides,
+});
+
+const taskUpdate = (id: string, overrides: Partial<DraftAction> = {}): DraftAction => ({
+  id: `a-${id}`,
+  entityType: 'task',
+  action: 'update',
+  entityId: id,
+  after: { title: id },
+  ...overrides,
+});
+
+const approval = (userId: string): DraftApproval => ({ userId, username: userId, role: 'member', approvedAt: 1 });
+
+const seedDraft = () => {
+  const db = createMemoryDb();
+  db.rows(drafts).push({
+    id: 'd1',
+    workspaceId: 'w1',
+    projectId: 'p1',
+    status: 'pending',
+    actions: [],
+    createdAt: 0,
+    createdBy: 'user',
+    createdByUserId: 'u1',
+    appliedByUserId: null,
+    reason: null,
+    approvals: [],
+    origin: null,
+  });
+  return db;
+};
+
+describe('approvalService', () => {
+  it('is satisfied without any rules', () => {
+    const status = evaluateDraftApproval(baseDraft({ actions: [taskUpdate('t1')] }), DEFAULT_APPROVAL_POLICY);
+
+    expect(status.satisfied).toBe(true);
+    expect(status.reasons).toEqual([]);
+  });
+
+  it('counts approvals against the required number', () => {
+    const policy = { ...DEFAULT_APPROVAL_POLICY, requiredApprovals: 2 };
+    const draft = baseDraft({
+      approvals: [{ userId: 'u1', username: 'ana', role: 'member', approvedAt: 1 }],
+    });
+
+    expect(evaluateDraftApproval(draft, policy)).toMatchObject({ required: 2, approvals: 1, satisfied: false });
+  });
+
+  it('requires an admin for large agent drafts, ignoring rejected actions', () => {
+    const policy = { ...DEFAULT_APPROVAL_POLICY, agentTaskThreshold: 1 };
+    const actions = [taskUpdate('t1'), taskUpdate('t2')];
+
+    expect(evaluateDraftApproval(baseDraft({ actions }), policy).adminRequired).toBe(true);
+    expect(evaluateDraftApproval(
+      baseDraft({ actions: [actions[0], { ...actions[1], decision: 'rejected' }] }),
+      policy
+    ).adminRequired).toBe(false);
+
+    const approved = baseDraft({
+      actions,
+      approvals: [{ userId: 'u2', username: 'root', role: 'admin', approvedAt: 1 }],
+    });
+    expect(evaluateDraftApproval(approved, policy).satisfied).toBe(true);
+  });
+
+  it('applies the task threshold whatever creator a client claims', () => {
+    const policy = { ...DEFAULT_APPROVAL_POLICY, agentTaskThreshold: 1 };
+    const actions = [taskUpdate('t1'), taskUpdate('t2')];
+
+    expect(evaluateDraftApproval(baseDraft({ createdBy: 'user', actions }), policy).adminRequired).toBe(true);
+    expect(evaluateDraftApproval(baseDraft({ createdBy: 'system', actions }), policy).adminRequired).toBe(false);
+  });
+
+  it('does not let the author approve their own draft', async () => {
+    const db = seedDraft();
+
+    await expect(approveDraft(db, 'd1', approval('u1'), 'w1')).rejects.toThrow('You cannot approve your own draft.');
+    expect(db.rows(drafts)[0].approvals).toEqual([]);
+  });
+
+  it('keeps every approval when two arrive at once', async () => {
+    const db = seedDraft();
+
+    await Promise.all([approveDraft(db, 'd1', approval('u2'), 'w1'), approveDraft(db, 'd1', approval('u3'), 'w1')]);
+
+    expect(db.locks).toEqual(['drafts', 'drafts']);
+    expect((db.rows(drafts)[0].approvals as DraftApproval[]).map((entry) => entry.userId)).toEqual(['u2', 'u3']);
+  });
+
+  it('requires an admin to delete a project', () => {
+    const policy = { ...DEFAULT_APPROVAL_POLICY, adminForProjectDelete: true };
+    const draft = baseDraft({
+      createdBy: 'user',
+      actions: [{ id: 'a1', entityType: 'project', action: 'delete', entityId: 'p1' }],
+      approvals: [{ userId: 'u1', username: 'ana', role: 'member', approvedAt: 1 }],
+    });
+
+    const status = evaluateDraftApproval(draft, policy);
+    expect(status.adminRequired).toBe(true);
+    expect(status.satisfied).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import { eq } from 'drizzle-orm';
+import { drafts, workspaces } from '../db/schema';
+import type { DbExecutor } from '../db';
+import { getDraftById } from './draftService';
+import type { DraftApproval, DraftApprovalPolicy, DraftApprovalStatus, DraftRecord } from './types';
+
+export const DEFAULT_APPROVAL_POLICY: DraftApprovalPolicy = {
+  requiredApprovals: 0,
+  agentTaskThreshold: null,
+  adminForProjectDelete: false,
+};
+
+const normalizePolicy = (value: Partial<DraftApprovalPolicy> | null | undefined): DraftApprovalPolicy => ({
+  requiredApprovals: Math.max(0, Math.floor(value?.requiredApprovals ?? DEFAULT_APPROVAL_POLICY.requiredApprovals)),
+  agentTaskThreshold: typeof value?.agentTaskThreshold === 'number' && value.agentTaskThreshold >= 0
+    ? Math.floor(value.agentTaskThreshold)
+    : null,
+  adminForProjectDelete: value?.adminForProjectDelete ?? DEFAULT_APPROVAL_POLICY.adminForProjectDelete,
+});
+
+export const hasApprovalRules = (policy: DraftApprovalPolicy): boolean =>
+  policy.requiredApprovals > 0 || policy.agentTaskThreshold !== null || policy.adminForProjectDelete;
+
+export const getApprovalPolicy = async (
+  db: DbExecutor,
+  workspaceId: string
+): Promise<DraftApprovalPolicy> => {
+  const rows = await db
+    .select({ approvalPolicy: workspaces.approvalPolicy })
+    .from(workspaces)
+    .where(eq(workspaces.id, workspaceId))
+    .limit(1);
+  return normalizePolicy(rows[0]?.approvalPolicy);
+};
+
+export const updateApprovalPolicy = async (
+  db: DbExecutor,
+  workspaceId: string,
+  policy: Partial<DraftApprovalPolicy>
+): Promise<DraftApprovalPolicy> => {
+  const current = await getApprovalPolicy(db, workspaceId);
+  const next = normalizePolicy({ ...current, ...policy });
+  await db.update(workspaces).set({ approvalPolicy: next }).where(eq(workspaces.id, workspaceId));
+  return next;
+};
+
+// Rejected actions never run, so they do not count towards a rule. The task threshold covers every
+// draft a client submits: `createdBy` comes from the request, so only drafts the server builds
+// itself are exempt.
+export const evaluateDraftApproval = (
+  draft: DraftRecord,
+  policy: DraftApprovalPolicy
+): DraftApprovalStatus => {
+  const actions = draft.actions.filter((action) => action.decision !== 'rejected');
+  const taskCount = new Set(
+    actions.filter((action) => action.entityType === 'task').map((action) => action.entityId ?? action.id)
+  ).size;
+  const deletesProject = actions.some((action) => action.entityType === 'project' && action.action === 'delete');
+
+  const adminReasons: string[] = [];
+  if (draft.createdBy !== 'system' && policy.agentTaskThreshold !== null && taskCount > policy.agentTaskThreshold) {
+    adminReasons.push(`Draft touches ${taskCount} tasks (limit ${policy.agentTaskThreshold}) and needs an admin approval.`);
+  }
+  if (policy.adminForProjectDelete && deletesProject) {
+    adminReasons.push('Deleting a project needs an admin approval.');
+  }
+
+  const approvals = draft.approvals.length;
+  const adminRequired = adminReasons.length > 0;
+  const adminApproved = draft.approvals.some((approval) => approval.role === 'admin');
+  const reasons: string[] = [];
+  if (approvals < policy.requiredApprovals) {
+    reasons.push(`${policy.requiredApprovals - approvals} more approval(s) required.`);
+  }
+  if (adminRequired && !adminApproved) {
+    reasons.push(...adminReasons);
+  }
+
+  return {
+    required: policy.requiredApprovals,
+    approvals,
+    adminRequired,
+    adminApproved,
+    satisfied: reasons.length === 0,
+    reasons,
+  };
+};
+
+export const approveDraft = async (
+  db: DbExecutor,
+  id: string,
+  approval: DraftApproval,
+  workspaceId: string
+): Promise<DraftRecord | null> => {
+  // The draft row stays locked from the read to the write, so concurrent approvals queue up
+  // instead of each appending to the same stale list.
+  return db.transaction(async (tx) => {
+    await tx.select({ id: drafts.id }).from(drafts).where(eq(drafts.id, id)).for('update');
+    const draft = await getDraftById(tx, id, workspaceId);
+    if (!draft) return null;
+    if (draft.status !== 'pending') {
+      throw new Error('Only pending drafts can be approved.');
+    }
+    if (draft.createdByUserId && draft.createdByUserId === approval.userId) {
+      throw new Error('You cannot approve your own draft.');
+    }
+    if (draft.approvals.some((existing) => existing.userId === approval.userId)) {
+      throw new Error('You have already approved this draft.');
+    }
+    const approvals = [...draft.approvals, approval];
+    await tx.update(drafts).set({ approvals }).where(eq(drafts.id, id));
+    return { ...draft, approvals };
+  });
+};
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { buildAttachmentContext, detectAttachmentKind, extractAttachmentText } from './attachmentService';
+import type { AttachmentRecord } from './types';
+
+const attachment = (overrides: Partial<AttachmentRecord>): AttachmentRecord => ({
+  id: 'f1',
+  workspaceId: 'public',
+  name: 'spec.md',
+  type: 'text/markdown',
+  kind: 'markdown',
+  size: 100,
+  text: '',
+  createdAt: 0,
+  createdByUserId: null,
+  ...overrides,
+});
+
+describe('attachmentService', () => {
+  it('detects supported files by extension before MIME type', () => {
+    expect(detectAttachmentKind('notes.MD', '')).toBe('markdown');
+    expect(detectAttachmentKind('tasks.csv', 'application/vnd.ms-excel')).toBe('csv');
+    expect(detectAttachmentKind('export', 'application/pdf')).toBe('pdf');
+    expect(detectAttachmentKind('photo.png', 'image/png')).toBeNull();
+  });
+
+  it('decodes text files and rejects binary content', () => {
+    const encoder = new TextEncoder();
+    expect(extractAttachmentText('csv', encoder.encode('\uFEFFtask,owner\r\nSpec,Ana\r\n'))).toBe('task,owner\nSpec,Ana');
+    expect(extractAttachmentText('text', new Uint8Array([0x50, 0x4b, 0x00, 0x03]))).toBe('');
+  });
+
+  it('includes short files in full and samples every part of long ones', () => {
+    const short = attachment({ text: '# Billing\n- Export invoices' });
+    expect(buildAttachmentContext([short], 1000)).toBe('Attached file "spec.md" (markdown, 100 bytes):\n<<<\n# Billing\n- Export invoices\n>>>');
+
+    const sections = Array.from({ length: 10 }, (_, index) => `## Section ${index + 1}\n${'detail '.repeat(60)}`);
+    const long = attachment({ name: 'long.md', text: sections.join('\n') });
+    const context = buildAttachmentContext([long], 2000);
+
+    expect(context.length).toBeLessThanOrEqual(2200);
+    expect(context).toContain('too long to include in full');
+    expect(context).toContain('[Part 1/4]\n## Section 1\n');
+    expect(context).toContain('[Part 4/4]');
+  });
+});
@@ -0,0 +1,232 @@
+import { and, eq, inArray } from 'drizzle-orm';
+import { attachments } from '../db/schema';
+import type { DbExecutor } from '../db';
+import { extractPdfText } from '../utils/pdfText';
+import { generateId, now } from './utils';
+import type { AttachmentKind, AttachmentRecord } from './types';
+
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+const MAX_ATTACHMENT_TEXT_CHARS = 200000;
+// Room left for attachments in the model request, shared between the files of one message.
+const MAX_CONTEXT_CHARS = 24000;
+const CHUNK_CHARS = 2000;
+const MIN_EXCERPT_CHARS = 200;
+
+const KINDS_BY_EXTENSION: Record<string, AttachmentKind> = {
+  txt: 'text',
+  text: 'text',
+  log: 'text',
+  md: 'markdown',
+  markdown: 'markdown',
+  csv: 'csv',
+  pdf: 'pdf',
+};
+
+const KINDS_BY_TYPE: Record<string, AttachmentKind> = {
+  'text/plain': 'text',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/csv': 'csv',
+  'application/csv': 'csv',
+  'application/pdf': 'pdf',
+};
+
+// What the content route serves, whatever type the uploader's browser claimed.
+const CONTENT_TYPES: Record<AttachmentKind, string> = {
+  text: 'text/plain; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+export type AttachmentSummary = Omit<AttachmentRecord, 'workspaceId' | 'text'> & {
+  textLength: number;
+};
+
+export class AttachmentError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status: number) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export const isAttachmentError = (error: unknown): error is AttachmentError => error instanceof AttachmentError;
+
+// Browsers often leave the type of .md and .csv files empty, so the extension decides first.
+export const detectAttachmentKind = (name: string, type: string): AttachmentKind | null => {
+  const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+  return KINDS_BY_EXTENSION[extension] ?? KINDS_BY_TYPE[type.split(';')[0].trim().toLowerCase()] ?? null;
+};
+
+export const extractAttachmentText = (kind: AttachmentKind, bytes: Uint8Array) => {
+  if (kind === 'pdf') return extractPdfText(bytes, { maxTextChars: MAX_ATTACHMENT_TEXT_CHARS });
+  const text = new TextDecoder('utf-8').decode(bytes).replace(/^\uFEFF/, '');
+  // A text file full of NUL bytes is binary under the wrong extension.
+  if (text.includes('\u0000')) return '';
+  return text.replace(/\r\n?/g, '\n').trim();
+};
+
+export const summarizeAttachment = (record: AttachmentRecord): AttachmentSummary => ({
+  id: record.id,
+  name: record.name,
+  type: record.type,
+  kind: record.kind,
+  size: record.size,
+  createdAt: record.createdAt,
+  createdByUserId: record.createdByUserId,
+  textLength: record.text.length,
+});
+
+const splitIntoChunks = (text: string, count: number) => {
+  const size = Math.ceil(text.length / count);
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(text.length, start + size);
+    // Prefer to cut at a line break so chunks start at headings and rows.
+    const lineBreak = text.lastIndexOf('\n', end);
+    if (end < text.length && lineBreak > start + size / 2) end = lineBreak + 1;
+    chunks.push(text.slice(start, end));
+    start = end;
+  }
+  return chunks;
+};
+
+// The opening of a chunk, cut back to a whole line where one fits.
+const excerpt = (chunk: string, limit: number) => {
+  const trimmed = chunk.trim();
+  if (trimmed.length <= limit) return trimmed;
+  const cut = trimmed.slice(0, limit);
+  const lineBreak = cut.lastIndexOf('\n');
+  return `${(lineBreak > limit / 2 ? cut.slice(0, lineBreak) : cut).trimEnd()} …`;
+};
+
+// Files that fit their share of the budget are given in full. Longer ones are split into chunks
+// and each chunk contributes its opening lines, so the model sees the outline of the whole
+// document rather than only its first pages.
+export const buildAttachmentContext = (records: AttachmentRecord[], budget = MAX_CONTEXT_CHARS) => {
+  if (records.length === 0) return '';
+  const share = Math.floor(budget / records.length);
+  const sections = records.map((record) => {
+    const header = `Attached file "${record.name}" (${record.kind}, ${record.size} bytes)`;
+    if (record.text.length <= share) return `${header}:\n<<<\n${record.text}\n>>>`;
+    const count = Math.max(1, Math.min(Math.ceil(record.text.length / CHUNK_CHARS), Math.floor(share / MIN_EXCERPT_CHARS)));
+    const chunks = splitIntoChunks(record.text, count);
+    const limit = Math.floor(share / chunks.length) - 20;
+    const parts = chunks.map((chunk, index) => `[Part ${index + 1}/${chunks.length}]\n${excerpt(chunk, limit)}`);
+    return `${header}, too long to include in full; the opening of each part follows:\n<<<\n${parts.join('\n')}\n>>>`;
+  });
+  return sections.join('\n\n');
+};
+
+// How an attachment appears in the stored conversation, where later turns only need to know it was there.
+export const describeAttachments = (records: AttachmentRecord[]) =>
+  records.map((record) => `[Attached: ${record.name}]`).join('\n');
+
+export const createAttachment = async (
+  db: DbExecutor,
+  workspaceId: string,
+  data: { name: string; type: string; bytes: Uint8Array; createdByUserId: string | null }
+): Promise<AttachmentRecord> => {
+  if (data.bytes.length > MAX_ATTACHMENT_BYTES) {
+    throw new AttachmentError('ATTACHMENT_TOO_LARGE', `Files can be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB.`, 413);
+  }
+  const kind = detectAttachmentKind(data.name, data.type);
+  if (!kind) {
+    throw new AttachmentError('UNSUPPORTED_ATTACHMENT', 'Only plain text, Markdown, CSV and PDF files can be attached.', 415);
+  }
+  const text = extractAttachmentText(kind, data.bytes);
+  if (!text) {
+    throw new AttachmentError(
+      'ATTACHMENT_UNREADABLE',
+      kind === 'pdf' ? 'No text could be read from this PDF. Scanned and encrypted PDFs are not supported.' : 'The file is empty or not text.',
+      422
+    );
+  }
+  const record: AttachmentRecord = {
+    id: generateId(),
+    workspaceId,
+    name: data.name,
+    type: data.type,
+    kind,
+    size: data.bytes.length,
+    text: text.slice(0, MAX_ATTACHMENT_TEXT_CHARS),
+    createdAt: now(),
+    createdByUserId: data.createdByUserId,
+  };
+  await db.insert(attachments).values({ ...record, content: data.bytes });
+  return record;
+};
+
+const attachmentColumns = {
+  id: attachments.id,
+  workspaceId: attachments.workspaceId,
+  name: attachments.name,
+  type: attachments.type,
+  kind: attachments.kind,
+  size: attachments.size,
+  text: attachments.text,
+  createdAt: attachments.createdAt,
+  createdByUserId: attachments.createdByUserId,
+};
+
+export const getAttachment = async (db: DbExecutor, id: string, workspaceId: string): Promise<AttachmentRecord | null> => {
+  const rows = await db
+    .select(attachmentColumns)
+    .from(attachments)
+    .where(and(eq(attachments.id, id), eq(attachments.workspaceId, workspaceId)))
+    .limit(1);
+  return rows[0] ?? null;
+};
+
+export const getAttachmentContent = async (
+  db: DbExecutor,
+  id: string,
+  workspaceId: string
+): Promise<{ name: string; contentType: string; content: Uint8Array } | null> => {
+  const rows = await db
+    .select({ name: attachments.name, kind: attachments.kind, content: attachments.content })
+    .from(attachments)
+    .where(and(eq(attachments.id, id), eq(attachments.workspaceId, workspaceId)))
+    .limit(1);
+  if (rows.length === 0) return null;
+  const { name, kind, content } = rows[0];
+  return { name, contentType: CONTENT_TYPES[kind] ?? 'application/octet-stream', content };
+};
+
+// In the order asked for; returns null when any of them is missing from the workspace.
+export const getAttachmentsByIds = async (
+  db: DbExecutor,
+  ids: string[],
+  workspaceId: string
+): Promise<AttachmentRecord[] | null> => {
+  if (ids.length === 0) return [];
+  const rows = await db
+    .select(attachmentColumns)
+    .from(attachments)
+    .where(and(inArray(attachments.id, ids), eq(attachments.workspaceId, workspaceId)));
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  const ordered = ids.map((id) => byId.get(id));
+  return ordered.every(Boolean) ? (ordered as AttachmentRecord[]) : null;
+};
+
+// Like conversations, only the uploader can delete a file; anonymous uploads stay open to everyone.
+export const deleteAttachment = async (
+  db: DbExecutor,
+  id: string,
+  workspaceId: string,
+  userId: string | null
+): Promise<AttachmentRecord | null> => {
+  const attachment = await getAttachment(db, id, workspaceId);
+  if (!attachment) return null;
+  if (attachment.createdByUserId && attachment.createdByUserId !== userId) {
+    throw new AttachmentError('FORBIDDEN', 'Only the person who uploaded this file can delete it.', 403);
+  }
+  await db.delete(attachments).where(eq(attachments.id, id));
+  return attachment;
+};
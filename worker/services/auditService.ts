@@ -1,11 +1,49 @@
-import { and, desc, eq, sql, like, or, gte, lte } from 'drizzle-orm';
-import { auditLogs } from '../db/schema';
-import type { AuditRecord } from './types';
+import { and, desc, eq, inArray, sql, like, or, gte, lte } from 'drizzle-orm';
+import { auditLogs, projects, tasks, users } from '../db/schema';
+import type { DbExecutor } from '../db';
+import { toTaskRecord } from './serializers';
+import { createProject, deleteProject, getProjectById, restoreProject } from './projectService';
+import { createTask, deleteTask, getTaskById, restoreTask } from './taskService';
+import type { AuditRecord, ProjectRecord, TaskRecord } from './types';
 import { generateId, now } from './utils';
 
+const parseAuditRow = (row: typeof auditLogs.$inferSelect): AuditRecord => ({
+  id: row.id,
+  workspaceId: row.workspaceId,
+  entityType: row.entityType as AuditRecord['entityType'],
+  entityId: row.entityId,
+  action: row.action,
+  before: row.before as Record<string, unknown> | null,
+  after: row.after as Record<string, unknown> | null,
+  actor: row.actor as AuditRecord['actor'],
+  actorUserId: row.actorUserId,
+  reason: row.reason,
+  timestamp: row.timestamp,
+  projectId: row.projectId,
+  taskId: row.taskId,
+  draftId: row.draftId,
+  approvals: row.approvals ?? null,
+  origin: row.origin ?? null,
+});
+
+// Usernames are looked up at read time so renames show up in older entries too.
+const withActorUsernames = async (db: DbExecutor, records: AuditRecord[]): Promise<AuditRecord[]> => {
+  const ids = Array.from(new Set(records.map((record) => record.actorUserId).filter((id): id is string => !!id)));
+  if (ids.length === 0) return records;
+  const rows = await db
+    .select({ id: users.id, username: users.username })
+    .from(users)
+    .where(inArray(users.id, ids));
+  const usernames = new Map(rows.map((row) => [row.id, row.username]));
+  return records.map((record) => ({
+    ...record,
+    actorUsername: record.actorUserId ? usernames.get(record.actorUserId) ?? null : null,
+  }));
+};
+
 export const recordAudit = async (
-  db: ReturnType<typeof import('../db').getDb>,
-  entry: Omit<AuditRecord, 'id' | 'timestamp'>
+  db: DbExecutor,
+  entry: Omit<AuditRecord, 'id' | 'timestamp' | 'actorUsername'>
 ): Promise<AuditRecord> => {
   const timestamp = now();
   const record: AuditRecord = {
@@ -17,11 +55,14 @@ export const recordAudit = async (
     before: entry.before ?? null,
     after: entry.after ?? null,
     actor: entry.actor,
+    actorUserId: entry.actorUserId ?? null,
     reason: entry.reason ?? null,
     timestamp,
     projectId: entry.projectId ?? null,
     taskId: entry.taskId ?? null,
     draftId: entry.draftId ?? null,
+    approvals: entry.approvals ?? null,
+    origin: entry.origin ?? null,
   };
 
   await db.insert(auditLogs).values({
@@ -33,18 +74,21 @@ export const recordAudit = async (
     before: record.before,
     after: record.after,
     actor: record.actor,
+    actorUserId: record.actorUserId ?? null,
     reason: record.reason ?? null,
     timestamp: record.timestamp,
     projectId: record.projectId ?? null,
     taskId: record.taskId ?? null,
     draftId: record.draftId ?? null,
+    approvals: record.approvals ?? null,
+    origin: record.origin ?? null,
   });
 
   return record;
 };
 
 export const listAuditLogs = async (
-  db: ReturnType<typeof import('../db').getDb>,
+  db: DbExecutor,
   filters: {
     workspaceId: string;
     projectId?: string;
@@ -52,6 +96,7 @@ export const listAuditLogs = async (
     page?: number;
     pageSize?: number;
     actor?: string;
+    actorUserId?: string;
     action?: string;
     entityType?: string;
     q?: string;
@@ -63,6 +108,7 @@ export const listAuditLogs = async (
   if (filters.projectId) clauses.push(eq(auditLogs.projectId, filters.projectId));
   if (filters.taskId) clauses.push(eq(auditLogs.taskId, filters.taskId));
   if (filters.actor) clauses.push(eq(auditLogs.actor, filters.actor));
+  if (filters.actorUserId) clauses.push(eq(auditLogs.actorUserId, filters.actorUserId));
   if (filters.action) clauses.push(eq(auditLogs.action, filters.action));
   if (filters.entityType) clauses.push(eq(auditLogs.entityType, filters.entityType));
   if (filters.from) clauses.push(gte(auditLogs.timestamp, filters.from));
@@ -90,26 +136,25 @@ export const listAuditLogs = async (
     .limit(pageSize)
     .offset((page - 1) * pageSize);
 
-  const data = rows.map((row) => ({
-    id: row.id,
-    workspaceId: row.workspaceId,
-    entityType: row.entityType as AuditRecord['entityType'],
-    entityId: row.entityId,
-    action: row.action,
-    before: row.before as Record<string, unknown> | null,
-    after: row.after as Record<string, unknown> | null,
-    actor: row.actor as AuditRecord['actor'],
-    reason: row.reason,
-    timestamp: row.timestamp,
-    projectId: row.projectId,
-    taskId: row.taskId,
-    draftId: row.draftId,
-  }));
+  const data = await withActorUsernames(db, rows.map(parseAuditRow));
   return { data, total: count, page, pageSize };
 };
 
+export const listAuditLogsByDraft = async (
+  db: DbExecutor,
+  draftId: string,
+  workspaceId: string
+): Promise<AuditRecord[]> => {
+  const rows = await db
+    .select()
+    .from(auditLogs)
+    .where(and(eq(auditLogs.draftId, draftId), eq(auditLogs.workspaceId, workspaceId)))
+    .orderBy(auditLogs.timestamp);
+  return rows.map(parseAuditRow);
+};
+
 export const getAuditLogById = async (
-  db: ReturnType<typeof import('../db').getDb>,
+  db: DbExecutor,
   id: string,
   workspaceId: string
 ): Promise<AuditRecord | null> => {
@@ -120,19 +165,177 @@ export const getAuditLogById = async (
     .limit(1);
   const row = rows[0];
   if (!row) return null;
-  return {
-    id: row.id,
-    workspaceId: row.workspaceId,
-    entityType: row.entityType as AuditRecord['entityType'],
-    entityId: row.entityId,
-    action: row.action,
-    before: row.before as Record<string, unknown> | null,
-    after: row.after as Record<string, unknown> | null,
-    actor: row.actor as AuditRecord['actor'],
-    reason: row.reason,
-    timestamp: row.timestamp,
-    projectId: row.projectId,
-    taskId: row.taskId,
-    draftId: row.draftId,
-  };
+  const [record] = await withActorUsernames(db, [parseAuditRow(row)]);
+  return record;
+};
+
+export class RollbackError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status: number) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export const isRollbackError = (error: unknown): error is RollbackError => error instanceof RollbackError;
+
+export type ProjectSnapshot = { project: ProjectRecord; tasks: TaskRecord[] };
+
+// Project deletes store `{ project, tasks }`; creates and updates store the bare project.
+export const toProjectSnapshot = (value: Record<string, unknown>): ProjectSnapshot => {
+  if (value.project && typeof value.project === 'object') {
+    return {
+      project: value.project as ProjectRecord,
+      tasks: Array.isArray(value.tasks) ? (value.tasks as TaskRecord[]) : [],
+    };
+  }
+  return { project: value as ProjectRecord, tasks: [] };
+};
+
+const assertUnchanged = (
+  label: string,
+  current: { updatedAt: number } | null,
+  recorded: { updatedAt?: number } | null
+) => {
+  if (recorded) {
+    if (!current) {
+      throw new RollbackError('ROLLBACK_CONFLICT', `${label} has been deleted since this change.`, 409);
+    }
+    if (recorded.updatedAt !== undefined && current.updatedAt !== recorded.updatedAt) {
+      throw new RollbackError('ROLLBACK_CONFLICT', `${label} has been modified since this change.`, 409);
+    }
+    return;
+  }
+  if (current) {
+    throw new RollbackError('ROLLBACK_CONFLICT', `${label} already exists.`, 409);
+  }
+};
+
+export const recreateTask = async (
+  db: DbExecutor,
+  snapshot: TaskRecord,
+  workspaceId: string
+) => createTask(db, {
+  id: snapshot.id,
+  projectId: snapshot.projectId,
+  title: snapshot.title,
+  description: snapshot.description ?? undefined,
+  status: snapshot.status,
+  priority: snapshot.priority,
+  wbs: snapshot.wbs ?? undefined,
+  parentId: snapshot.parentId ?? null,
+  startDate: snapshot.startDate ?? undefined,
+  dueDate: snapshot.dueDate ?? undefined,
+  completion: snapshot.completion ?? undefined,
+  assignee: snapshot.assignee ?? undefined,
+  estimatedHours: snapshot.estimatedHours ?? null,
+  actualHours: snapshot.actualHours ?? null,
+  isMilestone: snapshot.isMilestone,
+  predecessors: snapshot.predecessors ?? [],
+  createdAt: snapshot.createdAt,
+  updatedAt: now(),
+}, workspaceId);
+
+const rollbackTask = async (
+  db: DbExecutor,
+  entry: AuditRecord
+): Promise<{ before: TaskRecord | null; after: TaskRecord | null }> => {
+  const target = (entry.before ?? null) as TaskRecord | null;
+  const recorded = (entry.after ?? null) as TaskRecord | null;
+  // Locked until the rollback commits, so a concurrent edit cannot land between the check and the write.
+  await db.select({ id: tasks.id }).from(tasks).where(eq(tasks.id, entry.entityId)).for('update');
+  const current = await getTaskById(db, entry.entityId, entry.workspaceId);
+  assertUnchanged('Task', current, recorded);
+
+  if (!target) {
+    await deleteTask(db, entry.entityId, entry.workspaceId);
+    return { before: current, after: null };
+  }
+  if (!current) {
+    const created = await recreateTask(db, target, entry.workspaceId);
+    if (!created) {
+      throw new RollbackError('INVALID_ROLLBACK', 'The project for this task no longer exists.', 409);
+    }
+    return { before: null, after: created };
+  }
+  const restored = await restoreTask(db, target, entry.workspaceId);
+  return { before: current, after: restored };
+};
+
+const rollbackProject = async (
+  db: DbExecutor,
+  entry: AuditRecord
+): Promise<{ before: Record<string, unknown> | null; after: Record<string, unknown> | null }> => {
+  const target = entry.before ? toProjectSnapshot(entry.before) : null;
+  const recorded = entry.after ? toProjectSnapshot(entry.after) : null;
+  await db.select({ id: projects.id }).from(projects).where(eq(projects.id, entry.entityId)).for('update');
+  const current = await getProjectById(db, entry.entityId, entry.workspaceId);
+  assertUnchanged('Project', current, recorded?.project ?? null);
+
+  if (!target) {
+    const taskRows = await db.select().from(tasks).where(eq(tasks.projectId, entry.entityId));
+    const tasksBefore = taskRows.map(toTaskRecord);
+    await deleteProject(db, entry.entityId, entry.workspaceId);
+    return { before: { project: current, tasks: tasksBefore }, after: null };
+  }
+  if (!current) {
+    const project = await createProject(db, {
+      id: target.project.id,
+      name: target.project.name,
+      description: target.project.description ?? undefined,
+      icon: target.project.icon ?? undefined,
+      createdAt: target.project.createdAt,
+      updatedAt: now(),
+      workspaceId: entry.workspaceId,
+    });
+    const restoredTasks: TaskRecord[] = [];
+    for (const task of target.tasks) {
+      const created = await recreateTask(db, task, entry.workspaceId);
+      if (created) restoredTasks.push(created);
+    }
+    return { before: null, after: { project, tasks: restoredTasks } };
+  }
+  const restored = await restoreProject(db, target.project, entry.workspaceId);
+  return { before: current, after: restored };
+};
+
+export const rollbackAuditLog = async (
+  db: DbExecutor,
+  id: string,
+  actor: AuditRecord['actor'],
+  workspaceId: string,
+  actorUserId: string | null = null
+): Promise<AuditRecord> => {
+  const entry = await getAuditLogById(db, id, workspaceId);
+  if (!entry) {
+    throw new RollbackError('NOT_FOUND', 'Audit log not found.', 404);
+  }
+  if (!entry.before && !entry.after) {
+    throw new RollbackError('INVALID_ROLLBACK', 'Audit entry has no snapshot to roll back to.', 400);
+  }
+
+  // The restored rows and the rollback entry commit together, so a failure leaves nothing half restored.
+  return db.transaction(async (tx) => {
+    const result = entry.entityType === 'project'
+      ? await rollbackProject(tx, entry)
+      : await rollbackTask(tx, entry);
+
+    return recordAudit(tx, {
+      workspaceId,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      action: 'rollback',
+      before: result.before,
+      after: result.after,
+      actor,
+      actorUserId,
+      reason: `Rollback of audit ${entry.id}`,
+      projectId: entry.projectId ?? null,
+      taskId: entry.taskId ?? null,
+      draftId: null,
+    });
+  });
 };
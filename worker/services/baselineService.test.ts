@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { compareToBaseline, slipDays, snapshotTasks } from './baselineService';
+import { DEFAULT_CALENDAR } from './calendarService';
+import type { TaskRecord } from './types';
+
+const at = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+const baseTask = (overrides: Partial<TaskRecord>): TaskRecord => ({
+  id: 't1',
+  projectId: 'p1',
+  title: 'Task',
+  description: null,
+  status: 'TODO',
+  priority: 'LOW',
+  wbs: null,
+  parentId: null,
+  createdAt: 0,
+  startDate: 0,
+  dueDate: 0,
+  completion: 0,
+  assignee: null,
+  estimatedHours: null,
+  actualHours: null,
+  isMilestone: false,
+  predecessors: [],
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe('baselineService', () => {
+  it('counts slip in signed working days', () => {
+    // Friday to the following Tuesday is two working days late; the reverse is two early.
+    expect(slipDays(DEFAULT_CALENDAR, at('2026-10-16'), at('2026-10-20'))).toBe(2);
+    expect(slipDays(DEFAULT_CALENDAR, at('2026-10-20'), at('2026-10-16'))).toBe(-2);
+    expect(slipDays(DEFAULT_CALENDAR, at('2026-10-16'), at('2026-10-16'))).toBe(0);
+  });
+
+  it('compares current tasks against the frozen plan', () => {
+    const planned = [
+      baseTask({ id: 'design', wbs: '1', startDate: at('2026-10-12'), dueDate: at('2026-10-14'), completion: 20 }),
+      baseTask({ id: 'build', wbs: '2', startDate: at('2026-10-14'), dueDate: at('2026-10-16') }),
+      baseTask({ id: 'dropped', wbs: '3', startDate: at('2026-10-16'), dueDate: at('2026-10-19') }),
+    ];
+    const snapshot = snapshotTasks(planned);
+    const current = [
+      { ...planned[0], completion: 50 },
+      { ...planned[1], startDate: at('2026-10-15'), dueDate: at('2026-10-20') },
+      baseTask({ id: 'extra', wbs: '4', startDate: at('2026-10-20'), dueDate: at('2026-10-21') }),
+    ];
+
+    const result = compareToBaseline(snapshot, current, DEFAULT_CALENDAR);
+    const byId = new Map(result.tasks.map((entry) => [entry.taskId, entry]));
+
+    expect(byId.get('design')).toMatchObject({ status: 'tracked', startSlipDays: 0, finishSlipDays: 0, completionDelta: 30 });
+    expect(byId.get('build')).toMatchObject({ status: 'tracked', startSlipDays: 1, finishSlipDays: 2 });
+    expect(byId.get('dropped')).toMatchObject({ status: 'removed', actualStart: null, finishSlipDays: null });
+    expect(byId.get('extra')).toMatchObject({ status: 'added', baselineStart: null });
+    expect(result.tasks.map((entry) => entry.taskId)).toEqual(['design', 'build', 'dropped', 'extra']);
+    // The plan finished Monday the 19th; the latest task now ends Wednesday the 21st.
+    expect(result.finishSlipDays).toBe(2);
+  });
+});
@@ -0,0 +1,188 @@
+import { and, desc, eq } from 'drizzle-orm';
+import { baselines, tasks } from '../db/schema';
+import type { DbExecutor } from '../db';
+import { getCalendarLookup, workingDaysBetween } from './calendarService';
+import { getTaskEnd, getTaskStart } from './constraintService';
+import { compareWbs } from './hierarchyService';
+import { getProjectById } from './projectService';
+import { toTaskRecord } from './serializers';
+import { generateId, now } from './utils';
+import type { BaselineRecord, BaselineTask, TaskRecord, WorkCalendar } from './types';
+
+export type BaselineSummary = Omit<BaselineRecord, 'tasks'> & {
+  taskCount: number;
+};
+
+export type TaskVariance = {
+  taskId: string;
+  title: string;
+  wbs: string | null;
+  status: 'tracked' | 'added' | 'removed';  // Added tasks have no baseline; removed ones no longer exist
+  baselineStart: number | null;
+  baselineDue: number | null;
+  actualStart: number | null;
+  actualDue: number | null;
+  startSlipDays: number | null;  // Working days late (positive) or early (negative)
+  finishSlipDays: number | null;
+  completionDelta: number | null;  // Percentage points ahead of the completion recorded in the baseline
+};
+
+export type BaselineComparison = {
+  baseline: BaselineSummary;
+  tasks: TaskVariance[];
+  finishSlipDays: number | null;  // Slip of the latest finish across the project
+};
+
+const toSummary = ({ tasks: snapshot, ...baseline }: BaselineRecord): BaselineSummary => ({
+  ...baseline,
+  taskCount: snapshot.length,
+});
+
+export const snapshotTasks = (projectTasks: TaskRecord[]): BaselineTask[] =>
+  projectTasks.map((task) => ({
+    taskId: task.id,
+    title: task.title,
+    wbs: task.wbs,
+    startDate: getTaskStart(task),
+    dueDate: getTaskEnd(task),
+    completion: task.completion ?? 0,
+  }));
+
+// Signed working days from the planned to the actual date; slipping later is positive.
+export const slipDays = (calendar: WorkCalendar, planned: number, actual: number) =>
+  actual >= planned ? workingDaysBetween(calendar, planned, actual) : -workingDaysBetween(calendar, actual, planned);
+
+export const compareToBaseline = (
+  snapshot: BaselineTask[],
+  projectTasks: TaskRecord[],
+  calendar: WorkCalendar
+) => {
+  const current = new Map(projectTasks.map((task) => [task.id, task]));
+  const planned = new Set(snapshot.map((entry) => entry.taskId));
+  const variances: TaskVariance[] = [];
+
+  for (const entry of snapshot) {
+    const task = current.get(entry.taskId);
+    if (!task) {
+      variances.push({
+        taskId: entry.taskId,
+        title: entry.title,
+        wbs: entry.wbs,
+        status: 'removed',
+        baselineStart: entry.startDate,
+        baselineDue: entry.dueDate,
+        actualStart: null,
+        actualDue: null,
+        startSlipDays: null,
+        finishSlipDays: null,
+        completionDelta: null,
+      });
+      continue;
+    }
+    const actualStart = getTaskStart(task);
+    const actualDue = getTaskEnd(task);
+    variances.push({
+      taskId: task.id,
+      title: task.title,
+      wbs: task.wbs,
+      status: 'tracked',
+      baselineStart: entry.startDate,
+      baselineDue: entry.dueDate,
+      actualStart,
+      actualDue,
+      startSlipDays: slipDays(calendar, entry.startDate, actualStart),
+      finishSlipDays: slipDays(calendar, entry.dueDate, actualDue),
+      completionDelta: (task.completion ?? 0) - entry.completion,
+    });
+  }
+
+  for (const task of projectTasks) {
+    if (planned.has(task.id)) continue;
+    variances.push({
+      taskId: task.id,
+      title: task.title,
+      wbs: task.wbs,
+      status: 'added',
+      baselineStart: null,
+      baselineDue: null,
+      actualStart: getTaskStart(task),
+      actualDue: getTaskEnd(task),
+      startSlipDays: null,
+      finishSlipDays: null,
+      completionDelta: null,
+    });
+  }
+
+  variances.sort((a, b) => compareWbs(a.wbs, b.wbs) || (a.actualStart ?? a.baselineStart ?? 0) - (b.actualStart ?? b.baselineStart ?? 0));
+
+  const plannedFinish = snapshot.length > 0 ? Math.max(...snapshot.map((entry) => entry.dueDate)) : null;
+  const actualFinish = projectTasks.length > 0 ? Math.max(...projectTasks.map(getTaskEnd)) : null;
+  const finishSlipDays = plannedFinish !== null && actualFinish !== null
+    ? slipDays(calendar, plannedFinish, actualFinish)
+    : null;
+  return { tasks: variances, finishSlipDays };
+};
+
+const loadProjectTasks = async (db: DbExecutor, projectId: string) => {
+  const rows = await db.select().from(tasks).where(eq(tasks.projectId, projectId));
+  return rows.map(toTaskRecord);
+};
+
+export const listBaselines = async (
+  db: DbExecutor,
+  projectId: string,
+  workspaceId: string
+): Promise<BaselineSummary[] | null> => {
+  const project = await getProjectById(db, projectId, workspaceId);
+  if (!project) return null;
+  const rows = await db
+    .select()
+    .from(baselines)
+    .where(and(eq(baselines.projectId, projectId), eq(baselines.workspaceId, workspaceId)))
+    .orderBy(desc(baselines.createdAt));
+  return rows.map(toSummary);
+};
+
+// Freezes the project's current plan. Unnamed baselines are numbered "Baseline 1", "Baseline 2"...
+export const createBaseline = async (
+  db: DbExecutor,
+  projectId: string,
+  workspaceId: string,
+  data: { name?: string; createdByUserId: string | null }
+): Promise<BaselineSummary | null> => {
+  const existing = await listBaselines(db, projectId, workspaceId);
+  if (!existing) return null;
+  const record: BaselineRecord = {
+    id: generateId(),
+    workspaceId,
+    projectId,
+    name: data.name?.trim() || `Baseline ${existing.length + 1}`,
+    tasks: snapshotTasks(await loadProjectTasks(db, projectId)),
+    createdAt: now(),
+    createdByUserId: data.createdByUserId,
+  };
+  await db.insert(baselines).values(record);
+  return toSummary(record);
+};
+
+export const compareBaseline = async (
+  db: DbExecutor,
+  projectId: string,
+  baselineId: string,
+  workspaceId: string
+): Promise<BaselineComparison | null> => {
+  const rows = await db
+    .select()
+    .from(baselines)
+    .where(and(
+      eq(baselines.id, baselineId),
+      eq(baselines.projectId, projectId),
+      eq(baselines.workspaceId, workspaceId)
+    ))
+    .limit(1);
+  const baseline = rows[0];
+  if (!baseline) return null;
+  const calendarFor = await getCalendarLookup(db, [projectId], workspaceId);
+  const result = compareToBaseline(baseline.tasks, await loadProjectTasks(db, projectId), calendarFor(projectId));
+  return { baseline: toSummary(baseline), ...result };
+};
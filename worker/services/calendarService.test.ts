@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CALENDAR,
+  addWorkingTime,
+  calendarForAssignee,
+  mergeCalendars,
+  nextWorkingTime,
+  parseIcsHolidays,
+  workingDaysBetween,
+} from './calendarService';
+import { resolveDependencyConflicts } from './constraintService';
+import type { TaskRecord } from './types';
+
+const at = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+const baseTask = (overrides: Partial<TaskRecord>): TaskRecord => ({
+  id: 't1',
+  projectId: 'p1',
+  title: 'Task',
+  description: null,
+  status: 'TODO',
+  priority: 'LOW',
+  wbs: null,
+  parentId: null,
+  createdAt: 0,
+  startDate: 0,
+  dueDate: 0,
+  completion: 0,
+  assignee: null,
+  estimatedHours: null,
+  actualHours: null,
+  isMilestone: false,
+  predecessors: [],
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe('calendarService', () => {
+  it('skips weekends when adding working time', () => {
+    // Friday plus two working days ends on Tuesday.
+    expect(addWorkingTime(DEFAULT_CALENDAR, at('2026-10-16'), 2 * 86_400_000)).toBe(at('2026-10-20'));
+    expect(addWorkingTime(DEFAULT_CALENDAR, at('2026-10-19'), -86_400_000)).toBe(at('2026-10-16'));
+    expect(workingDaysBetween(DEFAULT_CALENDAR, at('2026-10-16'), at('2026-10-21'))).toBe(3);
+  });
+
+  it('rolls a weekend or holiday forward to the next working day', () => {
+    const calendar = { ...DEFAULT_CALENDAR, holidays: ['2026-10-19'] };
+
+    expect(nextWorkingTime(calendar, at('2026-10-17') + 3_600_000)).toBe(at('2026-10-20'));
+    expect(nextWorkingTime(calendar, at('2026-10-16') + 3_600_000)).toBe(at('2026-10-16') + 3_600_000);
+  });
+
+  it('reads all-day events from an ICS file', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20261224',
+      'DTEND;VALUE=DATE:20261227',
+      'SUMMARY:Christmas',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20270101',
+      'SUMMARY:New Year',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    expect(parseIcsHolidays(ics)).toEqual(['2026-12-24', '2026-12-25', '2026-12-26', '2027-01-01']);
+  });
+
+  it('skips long events and refuses a file with too many holidays', () => {
+    const event = (start: string, end: string) => ['BEGIN:VEVENT', `DTSTART;VALUE=DATE:${start}`, `DTEND;VALUE=DATE:${end}`, 'END:VEVENT'];
+    const calendar = (events: string[][]) => ['BEGIN:VCALENDAR', ...events.flat(), 'END:VCALENDAR'].join('\r\n');
+
+    expect(parseIcsHolidays(calendar([event('20260101', '99991231'), event('20260501', '20260502')]))).toEqual(['2026-05-01']);
+
+    const years = Array.from({ length: 80 }, (_, index) => event(`${2000 + index}0101`, `${2000 + index}0201`));
+    expect(() => parseIcsHolidays(calendar(years))).toThrow(/at most 2000 holidays/);
+  });
+
+  it('layers project overrides and assignee days off on the workspace calendar', () => {
+    const workspace = { ...DEFAULT_CALENDAR, holidays: ['2026-12-25'], availability: { Ana: ['2026-11-02'] } };
+    const merged = mergeCalendars(workspace, { workingDays: [1, 2, 3, 4], holidays: ['2026-11-27'] });
+
+    expect(merged.workingDays).toEqual([1, 2, 3, 4]);
+    expect(merged.holidays).toEqual(['2026-11-27', '2026-12-25']);
+    expect(calendarForAssignee(merged, 'Ana').holidays).toContain('2026-11-02');
+    expect(calendarForAssignee(merged, 'Ben')).toBe(merged);
+  });
+
+  it('keeps a moved task length in working days', () => {
+    const calendar = { ...DEFAULT_CALENDAR, holidays: ['2026-10-19'] };
+    const predecessor = baseTask({ id: 't0', startDate: at('2026-10-14'), dueDate: at('2026-10-17') });
+    const task = baseTask({ startDate: at('2026-10-12'), dueDate: at('2026-10-14'), predecessors: ['t0'] });
+
+    const result = resolveDependencyConflicts(task, [predecessor, task], calendar);
+
+    expect(result.changed).toBe(true);
+    expect(result.task.startDate).toBe(at('2026-10-20'));
+    expect(result.task.dueDate).toBe(at('2026-10-22'));
+  });
+});
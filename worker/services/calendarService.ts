@@ -0,0 +1,298 @@
+import { and, eq, inArray } from 'drizzle-orm';
+import { projects, workspaces } from '../db/schema';
+import type { DbExecutor } from '../db';
+import type { ProjectCalendar, WorkCalendar } from './types';
+
+const day = 86_400_000;
+
+export const DEFAULT_CALENDAR: WorkCalendar = {
+  workingDays: [1, 2, 3, 4, 5],
+  holidays: [],
+  availability: {},
+  hoursPerDay: 8,
+};
+
+// Every day is worked; calendar math reduces to plain millisecond arithmetic.
+export const CONTINUOUS_CALENDAR: WorkCalendar = {
+  workingDays: [0, 1, 2, 3, 4, 5, 6],
+  holidays: [],
+  availability: {},
+  hoursPerDay: 8,
+};
+
+// Enough for years of public holidays; bounds both stored calendars and ICS imports.
+export const MAX_HOLIDAYS = 2000;
+// Longer all-day events are vacations or reminders rather than holidays, and are skipped on import.
+export const MAX_HOLIDAY_EVENT_DAYS = 31;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class CalendarError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status: number) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export const isCalendarError = (error: unknown): error is CalendarError => error instanceof CalendarError;
+
+const normalizeDates = (value: unknown) =>
+  Array.isArray(value)
+    ? Array.from(new Set(value.filter((entry): entry is string => typeof entry === 'string' && DATE_PATTERN.test(entry)))).sort()
+    : [];
+
+const normalizeWorkingDays = (value: unknown) => {
+  if (!Array.isArray(value)) return null;
+  const days = Array.from(new Set(
+    value.filter((entry): entry is number => Number.isInteger(entry) && entry >= 0 && entry <= 6)
+  )).sort();
+  // A week without working days would leave nowhere to schedule anything.
+  return days.length > 0 ? days : null;
+};
+
+const normalizeHoursPerDay = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= 24 ? value : null;
+
+const normalizeAvailability = (value: unknown): Record<string, string[]> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>)
+      .map(([assignee, dates]) => [assignee.trim(), normalizeDates(dates)] as const)
+      .filter(([assignee, dates]) => assignee && dates.length > 0)
+  );
+};
+
+export const normalizeCalendar = (value: Partial<WorkCalendar> | null | undefined): WorkCalendar => ({
+  workingDays: normalizeWorkingDays(value?.workingDays) ?? DEFAULT_CALENDAR.workingDays,
+  holidays: normalizeDates(value?.holidays),
+  availability: normalizeAvailability(value?.availability),
+  hoursPerDay: normalizeHoursPerDay(value?.hoursPerDay) ?? DEFAULT_CALENDAR.hoursPerDay,
+});
+
+const normalizeProjectCalendar = (value: ProjectCalendar): ProjectCalendar => {
+  const workingDays = normalizeWorkingDays(value.workingDays);
+  const hoursPerDay = normalizeHoursPerDay(value.hoursPerDay);
+  return {
+    ...(workingDays ? { workingDays } : {}),
+    ...(hoursPerDay ? { hoursPerDay } : {}),
+    ...(value.holidays ? { holidays: normalizeDates(value.holidays) } : {}),
+    ...(value.availability ? { availability: normalizeAvailability(value.availability) } : {}),
+  };
+};
+
+export const mergeCalendars = (base: WorkCalendar, override: ProjectCalendar | null | undefined): WorkCalendar => {
+  if (!override) return base;
+  const availability = { ...base.availability };
+  for (const [assignee, dates] of Object.entries(override.availability ?? {})) {
+    availability[assignee] = normalizeDates([...(availability[assignee] ?? []), ...dates]);
+  }
+  return {
+    workingDays: normalizeWorkingDays(override.workingDays) ?? base.workingDays,
+    holidays: normalizeDates([...base.holidays, ...(override.holidays ?? [])]),
+    availability,
+    hoursPerDay: normalizeHoursPerDay(override.hoursPerDay) ?? base.hoursPerDay,
+  };
+};
+
+// An assignee's days off count as holidays for the tasks they work on.
+export const calendarForAssignee = (calendar: WorkCalendar, assignee: string | null | undefined): WorkCalendar => {
+  const daysOff = assignee ? calendar.availability[assignee] : undefined;
+  if (!daysOff?.length) return calendar;
+  return { ...calendar, holidays: normalizeDates([...calendar.holidays, ...daysOff]) };
+};
+
+const startOfDay = (value: number) => Math.floor(value / day) * day;
+const formatDay = (value: number) => new Date(value).toISOString().split('T')[0];
+
+// Calendars are plain JSON, so the lookup set is cached per holiday list rather than stored on them.
+const holidaySets = new WeakMap<string[], Set<string>>();
+
+const holidaySet = (calendar: WorkCalendar) => {
+  let set = holidaySets.get(calendar.holidays);
+  if (!set) {
+    set = new Set(calendar.holidays);
+    holidaySets.set(calendar.holidays, set);
+  }
+  return set;
+};
+
+export const isWorkingDay = (calendar: WorkCalendar, value: number) =>
+  calendar.workingDays.includes(new Date(value).getUTCDay()) && !holidaySet(calendar).has(formatDay(value));
+
+// Holidays are finite, so a working day turns up within a week of the last one.
+const maxSkippedDays = (calendar: WorkCalendar) => 7 + calendar.holidays.length;
+
+// Rolls a moment that falls on a non-working day forward to the start of the next working day.
+export const nextWorkingTime = (calendar: WorkCalendar, value: number) => {
+  let cursor = value;
+  for (let skipped = 0; !isWorkingDay(calendar, cursor) && skipped <= maxSkippedDays(calendar); skipped += 1) {
+    cursor = startOfDay(cursor) + day;
+  }
+  return cursor;
+};
+
+// Moves `amount` of working time from `start`, skipping non-working days; negative amounts move back.
+export const addWorkingTime = (calendar: WorkCalendar, start: number, amount: number) => {
+  let cursor = start;
+  let remaining = Math.abs(amount);
+  let skipped = 0;
+  if (amount >= 0) {
+    while (remaining > 0) {
+      const nextDay = startOfDay(cursor) + day;
+      if (!isWorkingDay(calendar, cursor)) {
+        if ((skipped += 1) > maxSkippedDays(calendar)) return cursor + remaining;
+        cursor = nextDay;
+        continue;
+      }
+      skipped = 0;
+      if (remaining <= nextDay - cursor) return cursor + remaining;
+      remaining -= nextDay - cursor;
+      cursor = nextDay;
+    }
+    return cursor;
+  }
+  while (remaining > 0) {
+    const previousDay = startOfDay(cursor - 1);
+    if (!isWorkingDay(calendar, previousDay)) {
+      if ((skipped += 1) > maxSkippedDays(calendar)) return cursor - remaining;
+      cursor = previousDay;
+      continue;
+    }
+    skipped = 0;
+    if (remaining <= cursor - previousDay) return cursor - remaining;
+    remaining -= cursor - previousDay;
+    cursor = previousDay;
+  }
+  return cursor;
+};
+
+// Working time between two moments; plain elapsed time when every day is worked.
+export const workingTimeBetween = (calendar: WorkCalendar, start: number, end: number) => {
+  if (end <= start) return end - start;
+  let total = 0;
+  for (let cursor = start; cursor < end; cursor = startOfDay(cursor) + day) {
+    if (isWorkingDay(calendar, cursor)) total += Math.min(end, startOfDay(cursor) + day) - cursor;
+  }
+  return total;
+};
+
+export const workingDaysBetween = (calendar: WorkCalendar, start: number, end: number) =>
+  Math.round(workingTimeBetween(calendar, start, end) / day);
+
+const formatIcsDate = (value: string) => `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+
+const tooManyHolidays = () =>
+  new CalendarError('TOO_MANY_HOLIDAYS', `A calendar can hold at most ${MAX_HOLIDAYS} holidays.`, 422);
+
+// Reads all-day events from an iCalendar file; multi-day events (DTEND is exclusive) cover every day in between.
+// Events longer than MAX_HOLIDAY_EVENT_DAYS are skipped.
+export const parseIcsHolidays = (text: string): string[] => {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const dates = new Set<string>();
+  let start: string | null = null;
+  let end: string | null = null;
+  for (const line of lines) {
+    const upper = line.toUpperCase();
+    if (upper.startsWith('BEGIN:VEVENT')) {
+      start = null;
+      end = null;
+    } else if (upper.startsWith('DTSTART')) {
+      start = line.split(':').pop()?.trim().slice(0, 8) ?? null;
+    } else if (upper.startsWith('DTEND')) {
+      end = line.split(':').pop()?.trim().slice(0, 8) ?? null;
+    } else if (upper.startsWith('END:VEVENT') && start && /^\d{8}$/.test(start)) {
+      const first = Date.parse(`${formatIcsDate(start)}T00:00:00Z`);
+      const last = end && /^\d{8}$/.test(end) ? Date.parse(`${formatIcsDate(end)}T00:00:00Z`) : first + day;
+      if (!Number.isFinite(first) || !Number.isFinite(last) || last - first > MAX_HOLIDAY_EVENT_DAYS * day) continue;
+      for (let cursor = first; cursor < Math.max(last, first + day); cursor += day) {
+        dates.add(formatDay(cursor));
+      }
+      if (dates.size > MAX_HOLIDAYS) throw tooManyHolidays();
+    }
+  }
+  return normalizeDates(Array.from(dates));
+};
+
+export const getWorkspaceCalendar = async (db: DbExecutor, workspaceId: string): Promise<WorkCalendar> => {
+  const rows = await db
+    .select({ calendar: workspaces.calendar })
+    .from(workspaces)
+    .where(eq(workspaces.id, workspaceId))
+    .limit(1);
+  return normalizeCalendar(rows[0]?.calendar);
+};
+
+export const updateWorkspaceCalendar = async (
+  db: DbExecutor,
+  workspaceId: string,
+  calendar: Partial<WorkCalendar>
+): Promise<WorkCalendar> => {
+  const current = await getWorkspaceCalendar(db, workspaceId);
+  const next = normalizeCalendar({ ...current, ...calendar });
+  await db.update(workspaces).set({ calendar: next }).where(eq(workspaces.id, workspaceId));
+  return next;
+};
+
+export const importWorkspaceHolidays = async (db: DbExecutor, workspaceId: string, ics: string) => {
+  const imported = parseIcsHolidays(ics);
+  const current = await getWorkspaceCalendar(db, workspaceId);
+  if (new Set([...current.holidays, ...imported]).size > MAX_HOLIDAYS) throw tooManyHolidays();
+  const calendar = await updateWorkspaceCalendar(db, workspaceId, { holidays: [...current.holidays, ...imported] });
+  return { calendar, imported: imported.length };
+};
+
+export type ProjectCalendarState = {
+  calendar: WorkCalendar;  // Effective calendar: the workspace's with the project override applied
+  override: ProjectCalendar | null;
+};
+
+export const getProjectCalendar = async (
+  db: DbExecutor,
+  projectId: string,
+  workspaceId: string
+): Promise<ProjectCalendarState | null> => {
+  const rows = await db
+    .select({ calendar: projects.calendar })
+    .from(projects)
+    .where(and(eq(projects.id, projectId), eq(projects.workspaceId, workspaceId)))
+    .limit(1);
+  if (rows.length === 0) return null;
+  const override = rows[0].calendar ?? null;
+  return { calendar: mergeCalendars(await getWorkspaceCalendar(db, workspaceId), override), override };
+};
+
+export const updateProjectCalendar = async (
+  db: DbExecutor,
+  projectId: string,
+  workspaceId: string,
+  override: ProjectCalendar | null
+): Promise<ProjectCalendarState | null> => {
+  const current = await getProjectCalendar(db, projectId, workspaceId);
+  if (!current) return null;
+  const next = override ? normalizeProjectCalendar(override) : null;
+  await db.update(projects).set({ calendar: next }).where(eq(projects.id, projectId));
+  return { calendar: mergeCalendars(await getWorkspaceCalendar(db, workspaceId), next), override: next };
+};
+
+// Resolves the effective calendar for any of several projects with two queries. Projects not found,
+// such as ones a draft is about to create, get the workspace calendar.
+export const getCalendarLookup = async (
+  db: DbExecutor,
+  projectIds: string[],
+  workspaceId: string
+): Promise<(projectId: string) => WorkCalendar> => {
+  const base = await getWorkspaceCalendar(db, workspaceId);
+  const ids = projectIds.filter(Boolean);
+  const rows = ids.length > 0
+    ? await db
+      .select({ id: projects.id, calendar: projects.calendar })
+      .from(projects)
+      .where(and(inArray(projects.id, ids), eq(projects.workspaceId, workspaceId)))
+    : [];
+  const calendars = new Map(rows.map((row) => [row.id, mergeCalendars(base, row.calendar)]));
+  return (projectId) => calendars.get(projectId) ?? base;
+};
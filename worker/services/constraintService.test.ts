@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { applyTaskConstraints } from './constraintService';
+import { applyTaskConstraints, cascadeSuccessors } from './constraintService';
 import type { TaskRecord } from './types';
 
 const baseTask = (overrides: Partial<TaskRecord>): TaskRecord => ({
@@ -10,11 +10,14 @@ const baseTask = (overrides: Partial<TaskRecord>): TaskRecord => ({
   status: 'TODO',
   priority: 'LOW',
   wbs: null,
+  parentId: null,
   createdAt: 0,
   startDate: 0,
   dueDate: 0,
   completion: 0,
   assignee: null,
+  estimatedHours: null,
+  actualHours: null,
   isMilestone: false,
   predecessors: [],
   updatedAt: 0,
@@ -39,4 +42,31 @@ describe('constraintService', () => {
     expect((result.task.startDate ?? 0)).toBeGreaterThanOrEqual(2000);
     expect(result.warnings.length).toBeGreaterThan(0);
   });
+
+  it('shifts every downstream task when a predecessor is delayed', () => {
+    const day = 86_400_000;
+    const moved = baseTask({ id: 'a', wbs: '1', title: 'A', startDate: 0, dueDate: 5 * day });
+    const tasks = [
+      moved,
+      baseTask({ id: 'b', title: 'B', startDate: 2 * day, dueDate: 4 * day, predecessors: ['1'] }),
+      baseTask({ id: 'c', title: 'C', startDate: 4 * day, dueDate: 5 * day, predecessors: ['b'] }),
+      baseTask({ id: 'd', title: 'D', startDate: 9 * day, dueDate: 10 * day, predecessors: ['a'] }),
+    ];
+
+    const result = cascadeSuccessors(tasks, ['a']);
+
+    expect(result.shifts.map((shift) => shift.task.id)).toEqual(['b', 'c']);
+    expect(result.tasks.find((task) => task.id === 'c')).toMatchObject({ startDate: 7 * day, dueDate: 8 * day });
+    expect(result.shifts[0].message).toContain('3 day(s) later because predecessor "A"');
+  });
+
+  it('honours start-to-start and finish-to-finish links with lag', () => {
+    const day = 86_400_000;
+    const dependency = baseTask({ id: 't0', startDate: 10 * day, dueDate: 20 * day });
+    const startLinked = baseTask({ startDate: 0, dueDate: 2 * day, predecessors: [{ ref: 't0', type: 'SS', lagDays: 2 }] });
+    const finishLinked = baseTask({ startDate: 0, dueDate: 4 * day, predecessors: [{ ref: 't0', type: 'FF', lagDays: -1 }] });
+
+    expect(applyTaskConstraints(startLinked, [dependency, startLinked]).task).toMatchObject({ startDate: 12 * day, dueDate: 14 * day });
+    expect(applyTaskConstraints(finishLinked, [dependency, finishLinked]).task).toMatchObject({ startDate: 15 * day, dueDate: 19 * day });
+  });
 });
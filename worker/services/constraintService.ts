@@ -1,14 +1,67 @@
-import type { TaskRecord } from './types';
+import { addWorkingTime, CONTINUOUS_CALENDAR, nextWorkingTime, workingDaysBetween, workingTimeBetween } from './calendarService';
+import type { DependencyType, TaskLink, TaskPredecessor, TaskRecord, WorkCalendar } from './types';
 
 const day = 86_400_000;
 
-const getTaskStart = (task: TaskRecord) => task.startDate ?? task.createdAt;
-const getTaskEnd = (task: TaskRecord) => {
+export const getTaskStart = (task: TaskRecord) => task.startDate ?? task.createdAt;
+export const getTaskEnd = (task: TaskRecord) => {
   const start = getTaskStart(task);
   const end = task.dueDate ?? start + day;
   return end <= start ? start + day : end;
 };
 
+const DEPENDENCY_TYPES: DependencyType[] = ['FS', 'SS', 'FF', 'SF'];
+
+export const toTaskLink = (predecessor: TaskPredecessor): TaskLink => {
+  if (typeof predecessor === 'string') return { ref: predecessor, type: 'FS', lagDays: 0 };
+  return {
+    ref: predecessor.ref,
+    type: DEPENDENCY_TYPES.includes(predecessor.type) ? predecessor.type : 'FS',
+    lagDays: Number.isFinite(predecessor.lagDays) ? predecessor.lagDays : 0,
+  };
+};
+
+// Keeps bare refs as they are and fills in defaults on links; anything else is dropped.
+export const normalizePredecessors = (value: unknown): TaskPredecessor[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value.flatMap((entry): TaskPredecessor[] => {
+    if (typeof entry === 'string') return entry ? [entry] : [];
+    if (entry && typeof entry === 'object' && typeof (entry as TaskLink).ref === 'string') {
+      return [toTaskLink(entry as TaskLink)];
+    }
+    return [];
+  });
+};
+
+export const predecessorRef = (predecessor: TaskPredecessor) =>
+  typeof predecessor === 'string' ? predecessor : predecessor.ref;
+
+// Earliest start a link allows the successor, given the predecessor's dates and the successor's duration.
+// Lag and duration are working time, so with a calendar they step over weekends and holidays.
+export const linkedStart = (
+  link: TaskLink,
+  predecessor: { start: number; end: number },
+  duration: number,
+  calendar: WorkCalendar = CONTINUOUS_CALENDAR
+) => {
+  const lag = link.lagDays * day;
+  switch (link.type) {
+    case 'SS':
+      return addWorkingTime(calendar, predecessor.start, lag);
+    case 'FF':
+      return addWorkingTime(calendar, addWorkingTime(calendar, predecessor.end, lag), -duration);
+    case 'SF':
+      return addWorkingTime(calendar, addWorkingTime(calendar, predecessor.start, lag), -duration);
+    default:
+      return addWorkingTime(calendar, predecessor.end, lag);
+  }
+};
+
+const describeLink = (link: TaskLink) =>
+  link.type === 'FS' && link.lagDays === 0
+    ? ''
+    : ` (${link.type}${link.lagDays ? `${link.lagDays > 0 ? '+' : ''}${link.lagDays}d` : ''})`;
+
 export type ConstraintResult = {
   task: TaskRecord;
   warnings: string[];
@@ -28,24 +81,30 @@ export const enforceDateOrder = (task: TaskRecord): ConstraintResult => {
   };
 };
 
-export const resolveDependencyConflicts = (task: TaskRecord, allTasks: TaskRecord[]): ConstraintResult => {
+export const resolveDependencyConflicts = (
+  task: TaskRecord,
+  allTasks: TaskRecord[],
+  calendar: WorkCalendar = CONTINUOUS_CALENDAR
+): ConstraintResult => {
   if (!task.predecessors.length) return { task, warnings: [], changed: false };
   const start = getTaskStart(task);
   const end = getTaskEnd(task);
-  let maxEnd = start;
-  for (const ref of task.predecessors) {
+  const duration = Math.max(day, workingTimeBetween(calendar, start, end));
+  let minStart = start;
+  for (const predecessor of task.predecessors) {
+    const link = toTaskLink(predecessor);
     const match = allTasks.find(
-      (candidate) => candidate.projectId === task.projectId && (candidate.id === ref || candidate.wbs === ref)
+      (candidate) => candidate.projectId === task.projectId && (candidate.id === link.ref || candidate.wbs === link.ref)
     );
     if (match) {
-      maxEnd = Math.max(maxEnd, getTaskEnd(match));
+      minStart = Math.max(minStart, linkedStart(link, { start: getTaskStart(match), end: getTaskEnd(match) }, duration, calendar));
     }
   }
 
-  if (maxEnd <= start) return { task, warnings: [], changed: false };
-  const duration = Math.max(day, end - start);
-  const nextStart = maxEnd;
-  const nextEnd = Math.max(nextStart + day, nextStart + duration);
+  if (minStart <= start) return { task, warnings: [], changed: false };
+  // A moved task keeps its length in working days and never starts on a day off.
+  const nextStart = nextWorkingTime(calendar, minStart);
+  const nextEnd = addWorkingTime(calendar, nextStart, duration);
   return {
     task: { ...task, startDate: nextStart, dueDate: nextEnd },
     warnings: ['Adjusted task dates to satisfy predecessor dependencies.'],
@@ -53,12 +112,16 @@ export const resolveDependencyConflicts = (task: TaskRecord, allTasks: TaskRecor
   };
 };
 
-export const applyTaskConstraints = (task: TaskRecord, allTasks: TaskRecord[]) => {
+export const applyTaskConstraints = (
+  task: TaskRecord,
+  allTasks: TaskRecord[],
+  calendar: WorkCalendar = CONTINUOUS_CALENDAR
+) => {
   const warnings: string[] = [];
   let nextTask = task;
   let changed = false;
 
-  const dependencyResult = resolveDependencyConflicts(nextTask, allTasks);
+  const dependencyResult = resolveDependencyConflicts(nextTask, allTasks, calendar);
   if (dependencyResult.changed) {
     changed = true;
     nextTask = dependencyResult.task;
@@ -74,3 +137,71 @@ export const applyTaskConstraints = (task: TaskRecord, allTasks: TaskRecord[]) =
 
   return { task: nextTask, warnings, changed, violated: false };
 };
+
+export type SuccessorShift = {
+  task: TaskRecord;  // Successor after the shift
+  previous: TaskRecord;  // Successor before this shift
+  predecessor: TaskRecord;  // Task whose new dates forced the shift
+  message: string;
+};
+
+const formatDay = (value: number) => new Date(value).toISOString().split('T')[0];
+
+const linkTo = (task: TaskRecord, predecessor: TaskRecord) => {
+  if (task.id === predecessor.id || task.projectId !== predecessor.projectId) return null;
+  const match = task.predecessors.find((entry) => {
+    const ref = predecessorRef(entry);
+    return ref === predecessor.id || (predecessor.wbs !== null && ref === predecessor.wbs);
+  });
+  return match === undefined ? null : toTaskLink(match);
+};
+
+// Walks downstream from the moved tasks, pushing each successor past its predecessors. A task
+// can be shifted more than once when several of its predecessors move.
+export const cascadeSuccessors = (
+  allTasks: TaskRecord[],
+  movedTaskIds: string[],
+  calendarFor: (task: TaskRecord) => WorkCalendar = () => CONTINUOUS_CALENDAR
+) => {
+  let state = allTasks;
+  const shifts: SuccessorShift[] = [];
+  const warnings: string[] = [];
+  const visits = new Map<string, number>();
+  const queue = [...movedTaskIds];
+
+  while (queue.length > 0) {
+    const predecessor = state.find((task) => task.id === queue[0]);
+    queue.shift();
+    if (!predecessor) continue;
+
+    for (const successor of state.filter((task) => linkTo(task, predecessor))) {
+      const link = linkTo(successor, predecessor) as TaskLink;
+      const current = state.find((task) => task.id === successor.id) as TaskRecord;
+      const calendar = calendarFor(current);
+      const result = resolveDependencyConflicts(current, state, calendar);
+      if (!result.changed) continue;
+
+      // Only a dependency cycle can keep pushing the same task; stop once every task has had a turn.
+      const count = (visits.get(current.id) ?? 0) + 1;
+      visits.set(current.id, count);
+      if (count > state.length) {
+        warnings.push(`Stopped shifting "${current.title}": its predecessors form a cycle.`);
+        continue;
+      }
+
+      state = state.map((task) => (task.id === current.id ? result.task : task));
+      const days = workingDaysBetween(calendar, getTaskStart(current), getTaskStart(result.task));
+      shifts.push({
+        task: result.task,
+        previous: current,
+        predecessor,
+        message: link.type === 'SS' || link.type === 'SF'
+          ? `Shifted "${current.title}" ${days} day(s) later because predecessor "${predecessor.title}"${describeLink(link)} now starts on ${formatDay(getTaskStart(predecessor))}.`
+          : `Shifted "${current.title}" ${days} day(s) later because predecessor "${predecessor.title}"${describeLink(link)} now finishes on ${formatDay(getTaskEnd(predecessor))}.`,
+      });
+      queue.push(current.id);
+    }
+  }
+
+  return { tasks: state, shifts, warnings };
+};
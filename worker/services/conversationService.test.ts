@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { canWriteConversation, deriveTitle, toModelHistory } from './conversationService';
+import type { ConversationMessageRecord, ConversationRecord } from './types';
+
+const conversation = (overrides: Partial<ConversationRecord>): ConversationRecord => ({
+  id: 'c1',
+  workspaceId: 'public',
+  projectId: 'p1',
+  title: 'Plan',
+  createdAt: 0,
+  updatedAt: 0,
+  createdByUserId: null,
+  ...overrides,
+});
+
+const message = (role: ConversationMessageRecord['role'], text: string, createdAt: number): ConversationMessageRecord => ({
+  id: `m${createdAt}`,
+  conversationId: 'c1',
+  role,
+  text,
+  createdAt,
+  createdByUserId: null,
+});
+
+describe('conversationService', () => {
+  it('titles a conversation after the first line of its opening message', () => {
+    expect(deriveTitle('\n  Move   the launch\nto next week')).toBe('Move the launch');
+    expect(deriveTitle('   ')).toBe('New conversation');
+    const title = deriveTitle('x'.repeat(200));
+    expect(title).toHaveLength(80);
+    expect(title.endsWith('…')).toBe(true);
+  });
+
+  it('lets only the person who started a conversation continue it', () => {
+    expect(canWriteConversation(conversation({ createdByUserId: 'u1' }), 'u1')).toBe(true);
+    expect(canWriteConversation(conversation({ createdByUserId: 'u1' }), 'u2')).toBe(false);
+    expect(canWriteConversation(conversation({ createdByUserId: 'u1' }), null)).toBe(false);
+    // Started without signing in: open to everyone.
+    expect(canWriteConversation(conversation({ createdByUserId: null }), 'u2')).toBe(true);
+  });
+
+  it('sends the latest stored messages as model history', () => {
+    const history = toModelHistory([
+      message('user', 'Old question', 1),
+      message('user', 'Delay design by a week', 2),
+      message('model', 'Drafted the change.', 3),
+      message('system', 'Draft d1 created with 2 actions.', 4),
+    ], 3);
+
+    expect(history).toEqual([
+      { role: 'user', parts: [{ text: 'Delay design by a week' }] },
+      { role: 'model', parts: [{ text: 'Drafted the change.' }] },
+      { role: 'model', parts: [{ text: 'Draft d1 created with 2 actions.' }] },
+    ]);
+  });
+});
@@ -0,0 +1,187 @@
+import { and, asc, desc, eq, isNull } from 'drizzle-orm';
+import { conversationMessages, conversations } from '../db/schema';
+import type { DbExecutor } from '../db';
+import { getProjectById } from './projectService';
+import { generateId, now } from './utils';
+import type { ConversationMessageRecord, ConversationRecord } from './types';
+
+const MAX_TITLE_CHARS = 80;
+const MAX_LISTED_CONVERSATIONS = 50;
+
+export type ConversationDetail = ConversationRecord & {
+  messages: ConversationMessageRecord[];  // Oldest first
+};
+
+export type NewConversationMessage = Pick<ConversationMessageRecord, 'role' | 'text'>;
+
+export class ConversationError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status: number) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export const isConversationError = (error: unknown): error is ConversationError => error instanceof ConversationError;
+
+// The first line of the opening message, shortened to fit the conversation list.
+export const deriveTitle = (text: string) => {
+  const line = text.split('\n').map((part) => part.trim()).find(Boolean) ?? '';
+  const collapsed = line.replace(/\s+/g, ' ');
+  if (!collapsed) return 'New conversation';
+  return collapsed.length > MAX_TITLE_CHARS ? `${collapsed.slice(0, MAX_TITLE_CHARS - 1)}…` : collapsed;
+};
+
+// Anyone in the workspace can read a conversation; only the person who started it can add to,
+// rename or delete it. Conversations started without signing in stay open to everyone.
+export const canWriteConversation = (conversation: ConversationRecord, userId: string | null) =>
+  !conversation.createdByUserId || conversation.createdByUserId === userId;
+
+// Stored messages in the shape the model request takes. System notes (drafts created, changes
+// applied) are sent as model turns, as the chat panel has always done.
+export const toModelHistory = (messages: ConversationMessageRecord[], limit: number) =>
+  messages.slice(-limit).map((message) => ({
+    role: message.role === 'user' ? ('user' as const) : ('model' as const),
+    parts: [{ text: message.text }],
+  }));
+
+export const listConversations = async (
+  db: DbExecutor,
+  workspaceId: string,
+  options: { projectId?: string | null } = {}
+): Promise<ConversationRecord[]> => {
+  const scope = options.projectId === undefined
+    ? eq(conversations.workspaceId, workspaceId)
+    : and(
+      eq(conversations.workspaceId, workspaceId),
+      options.projectId === null ? isNull(conversations.projectId) : eq(conversations.projectId, options.projectId)
+    );
+  return db
+    .select()
+    .from(conversations)
+    .where(scope)
+    .orderBy(desc(conversations.updatedAt))
+    .limit(MAX_LISTED_CONVERSATIONS);
+};
+
+export const getConversation = async (
+  db: DbExecutor,
+  id: string,
+  workspaceId: string
+): Promise<ConversationRecord | null> => {
+  const rows = await db
+    .select()
+    .from(conversations)
+    .where(and(eq(conversations.id, id), eq(conversations.workspaceId, workspaceId)))
+    .limit(1);
+  return rows[0] ?? null;
+};
+
+export const listConversationMessages = async (db: DbExecutor, conversationId: string): Promise<ConversationMessageRecord[]> =>
+  db
+    .select()
+    .from(conversationMessages)
+    .where(eq(conversationMessages.conversationId, conversationId))
+    .orderBy(asc(conversationMessages.createdAt));
+
+export const getConversationDetail = async (
+  db: DbExecutor,
+  id: string,
+  workspaceId: string
+): Promise<ConversationDetail | null> => {
+  const conversation = await getConversation(db, id, workspaceId);
+  if (!conversation) return null;
+  return { ...conversation, messages: await listConversationMessages(db, id) };
+};
+
+// Returns null when the project does not exist in the workspace.
+export const createConversation = async (
+  db: DbExecutor,
+  workspaceId: string,
+  data: { projectId?: string | null; title?: string; createdByUserId: string | null }
+): Promise<ConversationRecord | null> => {
+  const projectId = data.projectId ?? null;
+  if (projectId && !(await getProjectById(db, projectId, workspaceId))) return null;
+  const timestamp = now();
+  const record: ConversationRecord = {
+    id: generateId(),
+    workspaceId,
+    projectId,
+    title: deriveTitle(data.title ?? ''),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    createdByUserId: data.createdByUserId,
+  };
+  await db.insert(conversations).values(record);
+  return record;
+};
+
+const getWritableConversation = async (db: DbExecutor, id: string, workspaceId: string, userId: string | null) => {
+  const conversation = await getConversation(db, id, workspaceId);
+  if (!conversation) return null;
+  if (!canWriteConversation(conversation, userId)) {
+    throw new ConversationError('FORBIDDEN', 'Only the person who started this conversation can change it.', 403);
+  }
+  return conversation;
+};
+
+export const renameConversation = async (
+  db: DbExecutor,
+  id: string,
+  workspaceId: string,
+  title: string,
+  userId: string | null
+): Promise<ConversationRecord | null> => {
+  const conversation = await getWritableConversation(db, id, workspaceId, userId);
+  if (!conversation) return null;
+  const next = { ...conversation, title: deriveTitle(title), updatedAt: now() };
+  await db
+    .update(conversations)
+    .set({ title: next.title, updatedAt: next.updatedAt })
+    .where(eq(conversations.id, id));
+  return next;
+};
+
+export const deleteConversation = async (
+  db: DbExecutor,
+  id: string,
+  workspaceId: string,
+  userId: string | null
+): Promise<ConversationRecord | null> => {
+  const conversation = await getWritableConversation(db, id, workspaceId, userId);
+  if (!conversation) return null;
+  await db.delete(conversationMessages).where(eq(conversationMessages.conversationId, id));
+  await db.delete(conversations).where(eq(conversations.id, id));
+  return conversation;
+};
+
+// Messages get increasing timestamps so they read back in the order they were given.
+export const appendConversationMessages = async (
+  db: DbExecutor,
+  id: string,
+  workspaceId: string,
+  messages: NewConversationMessage[],
+  userId: string | null
+): Promise<ConversationMessageRecord[] | null> => {
+  const conversation = await getWritableConversation(db, id, workspaceId, userId);
+  if (!conversation) return null;
+  if (messages.length === 0) return [];
+  const timestamp = now();
+  const records: ConversationMessageRecord[] = messages.map((message, index) => ({
+    id: generateId(),
+    conversationId: id,
+    role: message.role,
+    text: message.text,
+    createdAt: timestamp + index,
+    createdByUserId: message.role === 'model' ? null : userId,
+  }));
+  await db.insert(conversationMessages).values(records);
+  await db
+    .update(conversations)
+    .set({ updatedAt: records[records.length - 1].createdAt })
+    .where(eq(conversations.id, id));
+  return records;
+};
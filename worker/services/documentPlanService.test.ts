@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { buildProjectPlan, isPlanOutlineError, summarizePlan } from './documentPlanService';
+import type { TaskRecord, WorkCalendar } from './types';
+
+const calendar: WorkCalendar = { workingDays: [1, 2, 3, 4, 5], holidays: [], availability: {}, hoursPerDay: 8 };
+const date = (day: number) => Date.UTC(2025, 0, day);
+
+const existing = (id: string, wbs: string): TaskRecord => ({
+  id,
+  projectId: 'p1',
+  title: id,
+  description: null,
+  status: 'DONE',
+  priority: 'MEDIUM',
+  wbs,
+  parentId: null,
+  createdAt: 0,
+  startDate: date(1),
+  dueDate: date(2),
+  completion: 100,
+  assignee: null,
+  estimatedHours: null,
+  actualHours: null,
+  isMilestone: false,
+  predecessors: [],
+  updatedAt: 0,
+});
+
+describe('documentPlanService', () => {
+  it('numbers the plan after existing tasks and schedules it on working days', () => {
+    const plan = buildProjectPlan(
+      {
+        summary: 'Billing portal',
+        tasks: [
+          { wbs: '1', title: 'Design' },
+          { wbs: '1.2', title: 'Mockups', durationDays: 3, predecessors: ['1.1'] },
+          { wbs: '1.1', title: 'Requirements', durationDays: 2 },
+          { wbs: '2', title: 'Build', durationDays: 4, predecessors: [{ wbs: '1', type: 'FS' }] },
+          { wbs: '3', title: 'Launch', durationDays: 0, predecessors: ['2'] },
+        ],
+      },
+      { projectId: 'p1', start: date(3), calendar, existingTasks: [existing('a', '1'), existing('b', '2')] }
+    );
+    const byTitle = new Map(plan.tasks.map((task) => [task.title, task]));
+    const design = byTitle.get('Design') as TaskRecord;
+
+    expect(plan.warnings).toEqual([]);
+    expect(plan.actions.map((action) => action.after?.title)).toEqual(['Design', 'Requirements', 'Mockups', 'Build', 'Launch']);
+    expect(plan.tasks.map((task) => task.wbs)).toEqual(['3', '3.1', '3.2', '4', '5']);
+    expect(byTitle.get('Mockups')?.parentId).toBe(design.id);
+    expect(byTitle.get('Mockups')?.predecessors).toEqual([byTitle.get('Requirements')?.id]);
+    // Friday start; two working days end on Tuesday, and each successor starts where its predecessor ends.
+    expect(byTitle.get('Requirements')).toMatchObject({ startDate: date(3), dueDate: date(7) });
+    expect(byTitle.get('Mockups')).toMatchObject({ startDate: date(7), dueDate: date(10) });
+    expect(design).toMatchObject({ startDate: date(3), dueDate: date(10), estimatedHours: null });
+    expect(byTitle.get('Build')).toMatchObject({ startDate: date(10), dueDate: date(16), predecessors: [design.id] });
+    expect(byTitle.get('Launch')).toMatchObject({ isMilestone: true, startDate: date(16), dueDate: date(17) });
+    expect(summarizePlan(plan, 'Billing portal')).toEqual({
+      summary: 'Billing portal',
+      taskCount: 5,
+      milestoneCount: 1,
+      startDate: date(3),
+      finishDate: date(17),
+    });
+  });
+
+  it('starts the subtasks of a linked summary task after its predecessor', () => {
+    const plan = buildProjectPlan(
+      {
+        tasks: [
+          { wbs: '1', title: 'Kickoff', durationDays: 1 },
+          { wbs: '2', title: 'Delivery', predecessors: [{ wbs: '1', type: 'FS', lagDays: 1 }] },
+          { wbs: '2.1', title: 'Develop', durationDays: 2 },
+        ],
+      },
+      { projectId: 'p1', start: date(6), calendar }
+    );
+    const [kickoff, delivery, develop] = plan.tasks;
+
+    expect(develop).toMatchObject({ title: 'Develop', startDate: date(8), dueDate: date(10) });
+    expect(delivery).toMatchObject({ startDate: date(8), dueDate: date(10) });
+    expect(delivery.predecessors).toEqual([{ ref: kickoff.id, type: 'FS', lagDays: 1 }]);
+  });
+
+  it('drops links it cannot resolve and rejects a broken outline', () => {
+    const plan = buildProjectPlan(
+      { tasks: [{ wbs: '1', title: 'Spec', durationDays: 2, predecessors: ['9', '1'] }] },
+      { projectId: 'p1', start: date(6), calendar }
+    );
+    expect(plan.tasks[0].predecessors).toEqual([]);
+    expect(plan.warnings).toHaveLength(2);
+
+    let error: unknown;
+    try {
+      buildProjectPlan({ tasks: [{ wbs: '2.1', title: 'Orphan', durationDays: 1 }] }, { projectId: 'p1', start: date(6), calendar });
+    } catch (caught) {
+      error = caught;
+    }
+    expect(isPlanOutlineError(error)).toBe(true);
+    expect((error as Error).message).toContain('no parent task 2');
+  });
+});
@@ -0,0 +1,296 @@
+import { eq } from 'drizzle-orm';
+import { tasks } from '../db/schema';
+import type { DbExecutor } from '../db';
+import { addWorkingTime, calendarForAssignee, getCalendarLookup, nextWorkingTime } from './calendarService';
+import { getTaskEnd, getTaskStart, resolveDependencyConflicts } from './constraintService';
+import { createDraft } from './draftService';
+import { compareWbs, parentWbs, summarizeChildren } from './hierarchyService';
+import { getProjectById } from './projectService';
+import { toTaskRecord } from './serializers';
+import { generateId, now } from './utils';
+import type { DependencyType, DraftAction, DraftOrigin, DraftRecord, TaskLink, TaskPredecessor, TaskRecord, WorkCalendar } from './types';
+
+const day = 86_400_000;
+export const MAX_PLAN_TASKS = 150;
+const MAX_TASK_DAYS = 365;
+const WBS_PATTERN = /^\d+(\.\d+)*$/;
+
+// One line of the outline the model proposes. Its codes only tie the outline together: tasks get
+// new IDs, and the codes are renumbered to follow the project's existing tasks.
+export type PlanOutlineTask = {
+  wbs: string;
+  title: string;
+  description?: string;
+  durationDays?: number;  // Working days; 0 makes a milestone. Ignored for summary tasks
+  isMilestone?: boolean;
+  assignee?: string;
+  estimatedHours?: number;
+  priority?: TaskRecord['priority'];
+  predecessors?: Array<string | { wbs: string; type?: DependencyType; lagDays?: number }>;
+};
+
+export type PlanOutline = {
+  summary?: string;
+  tasks: PlanOutlineTask[];
+};
+
+export type ProjectPlan = {
+  actions: DraftAction[];
+  tasks: TaskRecord[];  // Scheduled tasks, in the order of their actions
+  warnings: string[];
+};
+
+export type PlanStats = {
+  summary: string | null;
+  taskCount: number;
+  milestoneCount: number;
+  startDate: number;
+  finishDate: number;
+};
+
+export type DocumentPlanResult = {
+  draft: DraftRecord;
+  warnings: string[];
+  plan: PlanStats;
+};
+
+export class PlanOutlineError extends Error {
+  code: string;
+  status: number;
+
+  constructor(message: string) {
+    super(message);
+    this.code = 'INVALID_PLAN';
+    this.status = 422;
+  }
+}
+
+export const isPlanOutlineError = (error: unknown): error is PlanOutlineError => error instanceof PlanOutlineError;
+
+// Codes of the project's own tasks run first; the plan is numbered after the highest top-level one.
+const topLevelOffset = (existingTasks: TaskRecord[]) =>
+  existingTasks.reduce((max, task) => {
+    const top = Number((task.wbs ?? '').split('.')[0]);
+    return Number.isInteger(top) && top > max ? top : max;
+  }, 0);
+
+export const summarizePlan = (plan: ProjectPlan, summary?: string): PlanStats => ({
+  summary: summary?.trim() || null,
+  taskCount: plan.tasks.length,
+  milestoneCount: plan.tasks.filter((task) => task.isMilestone).length,
+  startDate: Math.min(...plan.tasks.map(getTaskStart)),
+  finishDate: Math.max(...plan.tasks.map(getTaskEnd)),
+});
+
+// Turns an outline into one create action per task. Every leaf is placed at the earliest working
+// day its links allow, counting its summary tasks' links as its own, and summary tasks span their
+// subtasks, so the draft planner finds nothing left to move. Links to unknown codes are dropped
+// with a warning; outline mistakes that would change the tree are thrown back as errors.
+export const buildProjectPlan = (
+  outline: PlanOutline,
+  options: { projectId: string; start: number; calendar: WorkCalendar; existingTasks?: TaskRecord[] }
+): ProjectPlan => {
+  const { projectId, calendar } = options;
+  const warnings: string[] = [];
+  if (outline.tasks.length === 0) throw new PlanOutlineError('The plan has no tasks.');
+  if (outline.tasks.length > MAX_PLAN_TASKS) {
+    throw new PlanOutlineError(`The plan has ${outline.tasks.length} tasks; at most ${MAX_PLAN_TASKS} are allowed.`);
+  }
+
+  const byCode = new Map<string, PlanOutlineTask>();
+  for (const item of outline.tasks) {
+    const code = item.wbs.trim();
+    if (!WBS_PATTERN.test(code)) throw new PlanOutlineError(`"${item.title}" has an invalid WBS code "${item.wbs}".`);
+    if (byCode.has(code)) throw new PlanOutlineError(`WBS code ${code} is used by more than one task.`);
+    byCode.set(code, { ...item, wbs: code });
+  }
+  const codes = Array.from(byCode.keys()).sort(compareWbs);
+  for (const code of codes) {
+    const parent = parentWbs(code);
+    if (parent && !byCode.has(parent)) {
+      throw new PlanOutlineError(`Task ${code} "${byCode.get(code)?.title}" has no parent task ${parent} in the plan.`);
+    }
+  }
+
+  // Siblings are numbered 1, 2, 3... in outline order, so gaps in the model's codes close up.
+  const offset = topLevelOffset(options.existingTasks ?? []);
+  const ids = new Map<string, string>();
+  const newCodes = new Map<string, string>();
+  const siblingCount = new Map<string | null, number>();
+  const children = new Map<string, string[]>();
+  for (const code of codes) {
+    const parent = parentWbs(code);
+    const index = (siblingCount.get(parent) ?? 0) + 1;
+    siblingCount.set(parent, index);
+    ids.set(code, generateId());
+    newCodes.set(code, parent ? `${newCodes.get(parent)}.${index}` : String(offset + index));
+    if (parent) children.set(parent, [...(children.get(parent) ?? []), code]);
+  }
+
+  const ancestorsOf = (code: string) => {
+    const result: string[] = [];
+    for (let parent = parentWbs(code); parent; parent = parentWbs(parent)) result.push(parent);
+    return result;
+  };
+  const leavesOf = (code: string): string[] =>
+    children.has(code) ? (children.get(code) ?? []).flatMap(leavesOf) : [code];
+
+  const links = new Map<string, TaskLink[]>();
+  for (const code of codes) {
+    const item = byCode.get(code) as PlanOutlineTask;
+    const own: TaskLink[] = [];
+    for (const entry of item.predecessors ?? []) {
+      const ref = (typeof entry === 'string' ? entry : entry.wbs).trim();
+      if (!byCode.has(ref)) {
+        warnings.push(`Dropped predecessor ${ref} of "${item.title}": no task in the plan has that code.`);
+        continue;
+      }
+      if (ref === code || ancestorsOf(code).includes(ref) || ancestorsOf(ref).includes(code)) {
+        warnings.push(`Dropped predecessor ${ref} of "${item.title}": a task cannot depend on itself, its summary task or its subtasks.`);
+        continue;
+      }
+      if (own.some((link) => link.ref === ref)) continue;
+      const lagDays = typeof entry === 'string' ? 0 : Math.round(entry.lagDays ?? 0);
+      own.push({ ref, type: typeof entry === 'string' ? 'FS' : entry.type ?? 'FS', lagDays: Number.isFinite(lagDays) ? lagDays : 0 });
+    }
+    links.set(code, own);
+  }
+  const inheritedLinks = (code: string) => [code, ...ancestorsOf(code)].flatMap((owner) => links.get(owner) ?? []);
+
+  // A task follows its summary task and everything its links, or its summary tasks' links, wait
+  // for. A cycle leaves nothing ready; its tasks are then taken in outline order and the draft
+  // planner reports the cycle.
+  const waitsFor = new Map(codes.map((code) => {
+    const parent = parentWbs(code);
+    const refs = inheritedLinks(code).flatMap((link) => [link.ref, ...leavesOf(link.ref)]);
+    return [code, new Set([...(parent ? [parent] : []), ...refs])];
+  }));
+  const order: string[] = [];
+  const placed = new Set<string>();
+  while (order.length < codes.length) {
+    const remaining = codes.filter((code) => !placed.has(code));
+    const next = remaining.find((code) => Array.from(waitsFor.get(code) ?? []).every((ref) => placed.has(ref))) ?? remaining[0];
+    order.push(next);
+    placed.add(next);
+  }
+
+  const toPredecessor = (link: TaskLink): TaskPredecessor => {
+    const ref = ids.get(link.ref) as string;
+    return link.type === 'FS' && link.lagDays === 0 ? ref : { ...link, ref };
+  };
+  const timestamp = now();
+  const start = nextWorkingTime(calendar, options.start);
+  const state = new Map<string, TaskRecord>(codes.map((code) => {
+    const item = byCode.get(code) as PlanOutlineTask;
+    const isSummary = children.has(code);
+    const parent = parentWbs(code);
+    const task: TaskRecord = {
+      id: ids.get(code) as string,
+      projectId,
+      title: item.title.trim(),
+      description: item.description?.trim() || null,
+      status: 'TODO',
+      priority: item.priority ?? 'MEDIUM',
+      wbs: newCodes.get(code) as string,
+      parentId: parent ? ids.get(parent) as string : null,
+      createdAt: timestamp,
+      startDate: start,
+      dueDate: start + day,
+      completion: 0,
+      assignee: item.assignee?.trim() || null,
+      estimatedHours: !isSummary && item.estimatedHours !== undefined ? item.estimatedHours : null,
+      actualHours: null,
+      isMilestone: !isSummary && (item.isMilestone === true || item.durationDays === 0),
+      predecessors: (links.get(code) ?? []).map(toPredecessor),
+      updatedAt: timestamp,
+    };
+    return [code, task];
+  }));
+
+  const rollUp = (code: string): TaskRecord => {
+    const task = state.get(code) as TaskRecord;
+    const kids = children.get(code);
+    if (!kids) return task;
+    const next = { ...task, ...summarizeChildren(kids.map(rollUp)) };
+    state.set(code, next);
+    return next;
+  };
+
+  for (const code of order) {
+    if (children.has(code)) continue;
+    const item = byCode.get(code) as PlanOutlineTask;
+    const task = state.get(code) as TaskRecord;
+    const taskCalendar = calendarForAssignee(calendar, task.assignee);
+    const inherited = inheritedLinks(code);
+    // Summary tasks this one waits for are complete by now; bring their dates up to date.
+    inherited.forEach((link) => rollUp(link.ref));
+    const days = task.isMilestone ? 1 : Math.min(MAX_TASK_DAYS, Math.max(1, Math.round(item.durationDays ?? 1)));
+    const begin = nextWorkingTime(taskCalendar, start);
+    const placedTask = { ...task, startDate: begin, dueDate: addWorkingTime(taskCalendar, begin, days * day) };
+    const resolved = resolveDependencyConflicts(
+      { ...placedTask, predecessors: inherited.map(toPredecessor) },
+      Array.from(state.values()),
+      taskCalendar
+    ).task;
+    state.set(code, { ...resolved, predecessors: task.predecessors });
+  }
+  codes.filter((code) => !parentWbs(code)).forEach(rollUp);
+
+  const planned = order.map((code) => state.get(code) as TaskRecord);
+  const actions: DraftAction[] = planned.map((task) => ({
+    id: generateId(),
+    entityType: 'task',
+    action: 'create',
+    after: {
+      id: task.id,
+      projectId: task.projectId,
+      title: task.title,
+      ...(task.description ? { description: task.description } : {}),
+      status: task.status,
+      priority: task.priority,
+      wbs: task.wbs,
+      parentId: task.parentId,
+      startDate: task.startDate,
+      dueDate: task.dueDate,
+      completion: task.completion,
+      ...(task.assignee ? { assignee: task.assignee } : {}),
+      ...(task.estimatedHours !== null ? { estimatedHours: task.estimatedHours } : {}),
+      isMilestone: task.isMilestone,
+      predecessors: task.predecessors,
+    },
+  }));
+
+  return { actions, tasks: planned, warnings };
+};
+
+// Drafts a whole project plan from an outline as one agent draft, which the draft planner checks
+// against the project's tasks and calendar like any other before it can be applied.
+export const proposeProjectPlan = async (
+  db: DbExecutor,
+  projectId: string,
+  workspaceId: string,
+  outline: PlanOutline,
+  options: { start?: number; reason?: string; createdByUserId?: string | null; origin?: DraftOrigin | null } = {}
+): Promise<DocumentPlanResult | null> => {
+  const project = await getProjectById(db, projectId, workspaceId);
+  if (!project) return null;
+  const rows = await db.select().from(tasks).where(eq(tasks.projectId, projectId));
+  const calendarOf = await getCalendarLookup(db, [projectId], workspaceId);
+  const plan = buildProjectPlan(outline, {
+    projectId,
+    start: options.start ?? now(),
+    calendar: calendarOf(projectId),
+    existingTasks: rows.map(toTaskRecord),
+  });
+  const stats = summarizePlan(plan, outline.summary);
+  const result = await createDraft(db, {
+    actions: plan.actions,
+    createdBy: 'agent',
+    createdByUserId: options.createdByUserId ?? null,
+    reason: options.reason ?? `Project plan for "${project.name}": ${stats.taskCount} task(s), ${stats.milestoneCount} milestone(s).`,
+    projectId,
+    workspaceId,
+    origin: options.origin ?? null,
+  });
+  return { draft: result.draft, warnings: [...plan.warnings, ...result.warnings], plan: stats };
+};
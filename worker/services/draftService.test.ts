@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { projects, tasks } from '../db/schema';
+import { createMemoryDb } from '../test/memoryDb';
+
+vi.mock('drizzle-orm', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('drizzle-orm')>()),
+  ...(await import('../test/memoryDb')).memoryOperators,
+}));
+
+import { applyDraft, createDraft, revertDraft } from './draftService';
+
+const seed = (task: Record<string, unknown> = {}) => {
+  const db = createMemoryDb();
+  db.rows(projects).push({ id: 'p1', workspaceId: 'w1', name: 'Alpha', description: null, icon: null, calendar: null, createdAt: 1, updatedAt: 1 });
+  db.rows(tasks).push({
+    id: 't1',
+    projectId: 'p1',
+    title: 'Spec',
+    description: null,
+    status: 'TODO',
+    priority: 'MEDIUM',
+    wbs: null,
+    parentId: null,
+    createdAt: 1,
+    startDate: 1,
+    dueDate: null,
+    completion: 0,
+    assignee: null,
+    estimatedHours: null,
+    actualHours: null,
+    isMilestone: false,
+    predecessors: [],
+    updatedAt: 1,
+    ...task,
+  });
+  return db;
+};
+
+describe('draftService', () => {
+  it('clears fields again when a draft that filled them is reverted', async () => {
+    const db = seed();
+    const { draft } = await createDraft(db, {
+      actions: [{ id: 'a1', entityType: 'task', action: 'update', entityId: 't1', after: { assignee: 'Ana', dueDate: 86_400_000 } }],
+      createdBy: 'user',
+      projectId: 'p1',
+      workspaceId: 'w1',
+    });
+    await applyDraft(db, draft.id, 'user', 'w1');
+    expect(db.rows(tasks)[0]).toMatchObject({ assignee: 'Ana', dueDate: 86_400_000 });
+
+    const reverted = await revertDraft(db, draft.id, { actor: 'user', apply: true }, 'w1');
+
+    expect(reverted.conflicts).toEqual([]);
+    expect(reverted.draft.status).toBe('applied');
+    expect(db.rows(tasks)[0]).toMatchObject({ assignee: null, dueDate: null });
+  });
+
+  it('does not warn about load on a task that the draft turns into a summary', async () => {
+    // Monday 2026-10-19, a full working day for Ana.
+    const monday = Date.parse('2026-10-19T00:00:00Z');
+    const db = seed({ assignee: 'Ana', startDate: monday, dueDate: monday + 86_400_000, estimatedHours: 8 });
+
+    const { draft, warnings } = await createDraft(db, {
+      actions: [{
+        id: 'a1',
+        entityType: 'task',
+        action: 'create',
+        after: { id: 't2', projectId: 'p1', parentId: 't1', title: 'Detail', assignee: 'Ana', startDate: monday, dueDate: monday + 86_400_000, estimatedHours: 8 },
+      }],
+      createdBy: 'user',
+      projectId: 'p1',
+      workspaceId: 'w1',
+    });
+
+    expect(warnings).toEqual([]);
+    expect(draft.actions.flatMap((action) => action.warnings ?? [])).toEqual([]);
+  });
+});
@@ -1,12 +1,37 @@
 import { eq } from 'drizzle-orm';
 import { drafts, projects, tasks } from '../db/schema';
+import type { DbExecutor } from '../db';
 import { toProjectRecord, toTaskRecord } from './serializers';
-import { applyTaskConstraints } from './constraintService';
-import { recordAudit } from './auditService';
+import { applyTaskConstraints, cascadeSuccessors, normalizePredecessors, resolveDependencyConflicts } from './constraintService';
+import { calendarForAssignee, getCalendarLookup, getWorkspaceCalendar } from './calendarService';
+import { DependencyCycleError, describeDanglingRef, findDanglingRefs, findDependencyCycle } from './graphService';
+import { groupChildren, renumberWbs, resolveParentIds, rollUpSummaries } from './hierarchyService';
+import type { HierarchyChange } from './hierarchyService';
+import { computeWorkload, describeOverload, findNewOverloads, listAssignedTasks } from './workloadService';
+import { listAuditLogsByDraft, recordAudit, toProjectSnapshot } from './auditService';
+import { evaluateDraftApproval, getApprovalPolicy } from './approvalService';
 import { createProject, updateProject, deleteProject, getProjectById } from './projectService';
 import { createTask, updateTask, deleteTask, getTaskById } from './taskService';
 import { generateId, now } from './utils';
-import type { DraftAction, DraftRecord, PlanResult, TaskRecord, ProjectRecord, TaskStatus, Priority } from './types';
+import type {
+  AuditRecord,
+  DraftAction,
+  DraftActionDecision,
+  DraftApplyFailure,
+  DraftApproval,
+  DraftApprovalStatus,
+  DraftConflict,
+  DraftOrigin,
+  DraftRecord,
+  PlanResult,
+  Priority,
+  ProjectRecord,
+  RevertConflict,
+  RevertResult,
+  TaskPredecessor,
+  TaskRecord,
+  TaskStatus,
+} from './types';
 
 const toTaskStatus = (value: unknown, fallback: TaskStatus): TaskStatus => {
   if (value === 'TODO' || value === 'IN_PROGRESS' || value === 'DONE') return value;
@@ -28,6 +53,9 @@ const toOptionalPriority = (value: unknown): Priority | undefined => {
   return undefined;
 };
 
+// Effort is cleared with null; anything that is not a non-negative number counts as no estimate.
+const toHours = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : null);
+
 const parseDraftRow = (row: {
   id: string;
   workspaceId: string;
@@ -36,7 +64,11 @@ const parseDraftRow = (row: {
   actions: any[];
   createdAt: number;
   createdBy: string;
+  createdByUserId: string | null;
+  appliedByUserId: string | null;
   reason: string | null;
+  approvals: DraftApproval[] | null;
+  origin: DraftOrigin | null;
 }): DraftRecord => ({
   id: row.id,
   workspaceId: row.workspaceId,
@@ -45,9 +77,16 @@ const parseDraftRow = (row: {
   actions: row.actions as DraftAction[],
   createdAt: row.createdAt,
   createdBy: row.createdBy as DraftRecord['createdBy'],
+  createdByUserId: row.createdByUserId,
+  appliedByUserId: row.appliedByUserId,
   reason: row.reason,
+  approvals: row.approvals ?? [],
+  origin: row.origin ?? null,
 });
 
+// An absent field keeps the fallback; an explicit null clears it, as when reverting to an empty value.
+const orFallback = <T>(value: unknown, fallback: T) => (value === undefined ? fallback : (value as T));
+
 const normalizeTaskInput = (
   input: Record<string, unknown>,
   fallback: TaskRecord | null,
@@ -59,24 +98,32 @@ const normalizeTaskInput = (
   const priority = toPriority(input.priority, fallback?.priority ?? 'MEDIUM');
   const createdAt = (input.createdAt as number | undefined) ?? fallback?.createdAt ?? timestamp;
   const updatedAt = (input.updatedAt as number | undefined) ?? timestamp;
-  const startDate = (input.startDate as number | undefined) ?? fallback?.startDate ?? createdAt;
-  const dueDate = (input.dueDate as number | undefined) ?? fallback?.dueDate ?? null;
+  const startDate = orFallback<number | null>(input.startDate, fallback ? fallback.startDate : createdAt);
+  const dueDate = orFallback<number | null>(input.dueDate, fallback?.dueDate ?? null);
   const completion = (input.completion as number | undefined) ?? fallback?.completion ?? 0;
-  const predecessors = (input.predecessors as string[] | undefined) ?? fallback?.predecessors ?? [];
+  const predecessors = normalizePredecessors(input.predecessors) ?? fallback?.predecessors ?? [];
+  // A new WBS code without an explicit parent moves the task under the summary that code names.
+  const wbsChanged = input.wbs !== undefined && input.wbs !== fallback?.wbs;
+  const parentId = input.parentId !== undefined
+    ? (input.parentId as string | null) || null
+    : (wbsChanged ? null : fallback?.parentId ?? null);
 
   return {
     id: (input.id as string | undefined) ?? fallback?.id ?? generateId(),
     projectId,
     title: (input.title as string | undefined) ?? fallback?.title ?? 'Untitled Task',
-    description: (input.description as string | undefined) ?? fallback?.description ?? null,
+    description: orFallback<string | null>(input.description, fallback?.description ?? null),
     status: status as TaskRecord['status'],
     priority: priority as TaskRecord['priority'],
-    wbs: (input.wbs as string | undefined) ?? fallback?.wbs ?? null,
+    wbs: orFallback<string | null>(input.wbs, fallback?.wbs ?? null),
+    parentId,
     createdAt,
     startDate,
     dueDate,
     completion,
-    assignee: (input.assignee as string | undefined) ?? fallback?.assignee ?? null,
+    assignee: orFallback<string | null>(input.assignee, fallback?.assignee ?? null),
+    estimatedHours: input.estimatedHours !== undefined ? toHours(input.estimatedHours) : fallback?.estimatedHours ?? null,
+    actualHours: input.actualHours !== undefined ? toHours(input.actualHours) : fallback?.actualHours ?? null,
     isMilestone: (input.isMilestone as boolean | undefined) ?? fallback?.isMilestone ?? false,
     predecessors,
     updatedAt,
@@ -96,20 +143,95 @@ const normalizeProjectInput = (
     id: (input.id as string | undefined) ?? fallback?.id ?? generateId(),
     workspaceId: resolvedWorkspaceId,
     name: (input.name as string | undefined) ?? fallback?.name ?? 'Untitled Project',
-    description: (input.description as string | undefined) ?? fallback?.description ?? null,
-    icon: (input.icon as string | undefined) ?? fallback?.icon ?? null,
+    description: orFallback<string | null>(input.description, fallback?.description ?? null),
+    icon: orFallback<string | null>(input.icon, fallback?.icon ?? null),
     createdAt,
     updatedAt,
   };
 };
 
+const formatPlanDate = (value: number | null) => (value ? new Date(value).toISOString().split('T')[0] : 'N/A');
+
+const buildDateViolationMessage = (
+  requested: TaskRecord,
+  constrained: TaskRecord,
+  explicitFields: string[]
+) => {
+  const startViolated = explicitFields.includes('startDate') && constrained.startDate !== requested.startDate;
+  const dueViolated = explicitFields.includes('dueDate') && constrained.dueDate !== requested.dueDate;
+  if (!startViolated && !dueViolated) return null;
+  return [
+    `Cannot modify task dates: ${startViolated ? 'Start Date' : ''}${startViolated && dueViolated ? ' and ' : ''}${dueViolated ? 'Due Date' : ''} violate predecessor constraints`,
+    `Task "${requested.title}" has mandatory predecessors.`,
+    `Requested dates: ${formatPlanDate(requested.startDate)} - ${formatPlanDate(requested.dueDate)}`,
+    `Constraint dates: ${formatPlanDate(constrained.startDate)} - ${formatPlanDate(constrained.dueDate)}`,
+    `Please modify the predecessor task or remove the dependency.`,
+  ].join('\n');
+};
+
+// Compares the load of everyone whose estimated work the draft touches, across the whole workspace,
+// before and after the draft; days it newly pushes over capacity become warnings.
+const detectOverloads = async (
+  db: DbExecutor,
+  workspaceId: string,
+  planned: DraftAction[],
+  finalTasks: TaskRecord[]
+) => {
+  const assignees = new Set<string>();
+  for (const action of planned) {
+    if (action.entityType !== 'task') continue;
+    for (const snapshot of [action.before, action.after]) {
+      const task = snapshot as Partial<TaskRecord> | null | undefined;
+      if (task?.assignee && (task.estimatedHours ?? 0) > 0) assignees.add(task.assignee);
+    }
+  }
+  if (assignees.size === 0) return [];
+
+  const current = await listAssignedTasks(db, workspaceId, Array.from(assignees));
+  const finalById = new Map(finalTasks.map((task) => [task.id, task]));
+  const afterById = new Map(current.map((task) => [task.id, task]));
+  for (const action of planned) {
+    if (action.entityType !== 'task' || !action.entityId) continue;
+    const task = finalById.get(action.entityId);
+    if (action.action === 'delete' || !task) afterById.delete(action.entityId);
+    else afterById.set(task.id, task);
+  }
+  // A draft can give a task its first subtask; from then on the subtasks carry its load.
+  const summaries = new Set(groupChildren(finalTasks, resolveParentIds(finalTasks)).keys());
+  const after = Array.from(afterById.values()).filter((task) => !summaries.has(task.id));
+
+  const calendarOf = await getCalendarLookup(
+    db,
+    Array.from(new Set([...current, ...after].map((task) => task.projectId))),
+    workspaceId
+  );
+  const capacity = await getWorkspaceCalendar(db, workspaceId);
+  return findNewOverloads(
+    computeWorkload(current, calendarOf, capacity),
+    computeWorkload(after, calendarOf, capacity)
+  );
+};
+
+// With `cascade`, derived updates from an earlier plan (successor shifts, WBS renumbering and summary
+// roll-ups) are dropped and recomputed against the current state, keeping their IDs and decisions.
+// Without it they are planned like any other update.
 const planActions = async (
-  db: ReturnType<typeof import('../db').getDb>,
-  actions: DraftAction[],
-  workspaceId: string
+  db: DbExecutor,
+  inputActions: DraftAction[],
+  workspaceId: string,
+  options: { cascade?: boolean } = {}
 ) => {
+  const cascade = options.cascade ?? true;
+  const previousDerived = new Map(
+    inputActions
+      .filter((action) => cascade && action.cascadedFrom && action.entityId)
+      .map((action) => [action.entityId as string, action])
+  );
+  const actions = cascade ? inputActions.filter((action) => !action.cascadedFrom) : inputActions;
   const planned: DraftAction[] = [];
   const warnings: string[] = [];
+  const movedTaskIds = new Set<string>();
+  const deferredDateChecks: Array<{ taskId: string; explicitFields: string[] }> = [];
 
   // Extract IDs that we need to fetch
   const projectIdsToFetch = new Set<string>();
@@ -197,6 +319,43 @@ const planActions = async (
     taskState = taskRows.map((row) => toTaskRecord(row.tasks));
   }
 
+  // Successors of a moved task live in its project, which the update itself may not name; the
+  // graph check needs the whole project too.
+  if (taskIdsToFetch.size > 0 && taskIdsToFetch.size <= SELECTIVE_LOAD_THRESHOLD) {
+    const missingProjectIds = Array.from(new Set(
+      taskState.filter((task) => taskIdsToFetch.has(task.id)).map((task) => task.projectId)
+    )).filter((projectId) => !projectIdsReferenced.has(projectId));
+    if (missingProjectIds.length > 0) {
+      const { inArray } = await import('drizzle-orm');
+      const known = new Set(taskState.map((task) => task.id));
+      const siblingRows = await db.select().from(tasks).where(inArray(tasks.projectId, missingProjectIds));
+      taskState = [...taskState, ...siblingRows.map(toTaskRecord).filter((task) => !known.has(task.id))];
+    }
+  }
+
+  const calendarOf = await getCalendarLookup(
+    db,
+    Array.from(new Set([...taskState.map((task) => task.projectId), ...projectIdsReferenced])),
+    workspaceId
+  );
+  const calendarFor = (task: TaskRecord) => calendarForAssignee(calendarOf(task.projectId), task.assignee);
+
+  const danglingKey = (dangling: { taskId: string; ref: string }) => `${dangling.taskId}:${dangling.ref}`;
+  const initialDangling = new Set(findDanglingRefs(taskState).map(danglingKey));
+  const linkedTaskIds = new Set<string>();
+  const initialTasks = taskState;
+  // Projects whose outline changed, and projects with any task change, each with the first task
+  // responsible; renumbering and roll-ups list it as the source of their derived updates.
+  const restructuredProjects = new Map<string, TaskRecord>();
+  const touchedProjects = new Map<string, TaskRecord>();
+  const restructuredTaskIds = new Set<string>();
+  const trackTaskChange = (task: TaskRecord, restructured: boolean) => {
+    if (!touchedProjects.has(task.projectId)) touchedProjects.set(task.projectId, task);
+    if (!restructured) return;
+    restructuredTaskIds.add(task.id);
+    if (!restructuredProjects.has(task.projectId)) restructuredProjects.set(task.projectId, task);
+  };
+
   for (const action of actions) {
     if (action.entityType === 'project') {
       if (action.action === 'create') {
@@ -261,12 +420,14 @@ const planActions = async (
       if (action.action === 'create') {
         const projectIdOverride = (action.after as Record<string, unknown> | undefined)?.projectId as string | undefined;
         const task = normalizeTaskInput(action.after ?? {}, null, projectIdOverride);
-        const constraintResult = applyTaskConstraints(task, [...taskState, task]);
+        const constraintResult = applyTaskConstraints(task, [...taskState, task], calendarFor(task));
         const updatedTask = constraintResult.task;
         if (!updatedTask.projectId) {
           constraintResult.warnings.push('Task create missing projectId.');
         }
         taskState = [...taskState, updatedTask];
+        linkedTaskIds.add(updatedTask.id);
+        trackTaskChange(updatedTask, Boolean(updatedTask.wbs || updatedTask.parentId));
         if (constraintResult.warnings.length) warnings.push(...constraintResult.warnings);
         planned.push({
           ...action,
@@ -294,6 +455,8 @@ const planActions = async (
 
       if (action.action === 'update') {
         const merged = normalizeTaskInput(action.after ?? {}, existing, existing.projectId);
+        linkedTaskIds.add(existing.id);
+        trackTaskChange(merged, merged.wbs !== existing.wbs || merged.parentId !== existing.parentId);
 
         // Detect which fields were explicitly modified
         const explicitFields: string[] = [];
@@ -321,35 +484,34 @@ const planActions = async (
         const datesModified = explicitFields.includes('startDate') || explicitFields.includes('dueDate');
 
         // First, check what the constraints would require
-        const constraintResult = applyTaskConstraints(merged, taskState.map((item) => (item.id === existing.id ? merged : item)));
-
-        // If dates were modified and constraints would change them, it's a violation
-        if (datesModified && constraintResult.changed) {
-          const originalStart = existing.startDate;
-          const originalDue = existing.dueDate;
-          const constrainedStart = constraintResult.task.startDate;
-          const constrainedDue = constraintResult.task.dueDate;
-
-          // Check if the constrained dates differ from the user's requested dates
-          const startViolated = explicitFields.includes('startDate') && constrainedStart !== merged.startDate;
-          const dueViolated = explicitFields.includes('dueDate') && constrainedDue !== merged.dueDate;
-
-          if (startViolated || dueViolated) {
-            // Throw an error to prevent draft creation
-            const errorMessage = [
-      `Cannot modify task dates: ${startViolated ? 'Start Date' : ''}${startViolated && dueViolated ? ' and ' : ''}${dueViolated ? 'Due Date' : ''} violate predecessor constraints`,
-      `Task "${existing.title}" has mandatory predecessors.`,
-      `Requested dates: ${merged.startDate ? new Date(merged.startDate).toISOString().split('T')[0] : 'N/A'} - ${merged.dueDate ? new Date(merged.dueDate).toISOString().split('T')[0] : 'N/A'}`,
-      `Constraint dates: ${constrainedStart ? new Date(constrainedStart).toISOString().split('T')[0] : 'N/A'} - ${constrainedDue ? new Date(constrainedDue).toISOString().split('T')[0] : 'N/A'}`,
-      `Please modify the predecessor task or remove the dependency.`
-            ].join('\n');
-
-            throw new Error(errorMessage);
-          }
+        const constraintResult = applyTaskConstraints(
+          merged,
+          taskState.map((item) => (item.id === existing.id ? merged : item)),
+          calendarFor(merged)
+        );
+
+        // If dates were modified and constraints would change them, it's a violation, unless a later
+        // action in this draft moves the predecessor out of the way; that is judged once all are planned.
+        if (datesModified && constraintResult.changed
+          && buildDateViolationMessage(merged, constraintResult.task, explicitFields)) {
+          deferredDateChecks.push({ taskId: existing.id, explicitFields });
+          taskState = taskState.map((item) => (item.id === existing.id ? merged : item));
+          movedTaskIds.add(existing.id);
+          planned.push({
+            ...action,
+            id: action.id || generateId(),
+            entityId: existing.id,
+            before: existing,
+            after: merged,
+          });
+          continue;
         }
 
         // If no violation, apply the constraints and proceed
         taskState = taskState.map((item) => (item.id === existing.id ? constraintResult.task : item));
+        if (constraintResult.task.startDate !== existing.startDate || constraintResult.task.dueDate !== existing.dueDate) {
+          movedTaskIds.add(existing.id);
+        }
         if (constraintResult.warnings.length) warnings.push(...constraintResult.warnings);
         planned.push({
           ...action,
@@ -364,6 +526,7 @@ const planActions = async (
 
       if (action.action === 'delete') {
         taskState = taskState.filter((item) => item.id !== existing.id);
+        trackTaskChange(existing, true);
         planned.push({
           ...action,
           id: action.id || generateId(),
@@ -375,17 +538,128 @@ const planActions = async (
     }
   }
 
+  // Derived changes (successor shifts, renumbering, roll-ups) fold into the task's own action when
+  // the draft already has one, and otherwise become updates that are regenerated on every re-plan.
+  const absorbDerived = (task: TaskRecord, previous: TaskRecord, sourceId: string, message: string) => {
+    warnings.push(message);
+    const index = planned.findIndex((action) =>
+      action.entityType === 'task' && action.action !== 'delete' && action.entityId === task.id
+    );
+    if (index >= 0) {
+      const current = planned[index];
+      planned[index] = { ...current, after: task, warnings: [...(current.warnings ?? []), message] };
+      return;
+    }
+    const prior = previousDerived.get(task.id);
+    planned.push({
+      id: prior?.id ?? generateId(),
+      entityType: 'task',
+      action: 'update',
+      entityId: task.id,
+      before: previous,
+      after: task,
+      warnings: [message],
+      cascadedFrom: sourceId,
+      ...(prior?.decision ? { decision: prior.decision } : {}),
+    });
+  };
+  const absorbHierarchyChange = (change: HierarchyChange) =>
+    absorbDerived(change.task, change.previous, change.source.id, change.message);
+
+  // Codes are settled before the graph checks; predecessor refs are rewritten along with them.
+  if (cascade && restructuredProjects.size > 0) {
+    const renumbered = renumberWbs(
+      taskState,
+      Array.from(restructuredProjects.keys()),
+      restructuredTaskIds,
+      initialTasks,
+      (projectId) => restructuredProjects.get(projectId)
+    );
+    taskState = renumbered.tasks;
+    renumbered.changes.forEach(absorbHierarchyChange);
+  }
+
+  for (const check of deferredDateChecks) {
+    const requested = taskState.find((item) => item.id === check.taskId);
+    if (!requested) continue;
+    const result = resolveDependencyConflicts(requested, taskState, calendarFor(requested));
+    const message = result.changed ? buildDateViolationMessage(requested, result.task, check.explicitFields) : null;
+    if (message) throw new Error(message);
+  }
+
+  // A created or edited task must not close a loop. Refs this draft leaves pointing at nothing
+  // are only flagged, since the missing task may be added by a later draft.
+  const cycle = findDependencyCycle(taskState, Array.from(linkedTaskIds));
+  if (cycle) throw new DependencyCycleError(cycle);
+  for (const dangling of findDanglingRefs(taskState)) {
+    if (initialDangling.has(danglingKey(dangling))) continue;
+    const message = describeDanglingRef(dangling);
+    warnings.push(message);
+    const index = planned.findIndex((action) => action.entityType === 'task' && action.entityId === dangling.taskId);
+    if (index >= 0) {
+      planned[index] = { ...planned[index], warnings: [...(planned[index].warnings ?? []), message] };
+    }
+  }
+
+  if (cascade && movedTaskIds.size > 0) {
+    const cascaded = cascadeSuccessors(taskState, Array.from(movedTaskIds), calendarFor);
+    taskState = cascaded.tasks;
+    warnings.push(...cascaded.warnings);
+    for (const shift of cascaded.shifts) {
+      absorbDerived(shift.task, shift.previous, shift.predecessor.id, shift.message);
+    }
+  }
+
+  // Summary tasks follow their subtasks. A summary that moves pushes its own successors, whose
+  // summaries are then rolled up once more.
+  if (cascade && touchedProjects.size > 0) {
+    const projectIds = Array.from(touchedProjects.keys());
+    const sourceFor = (projectId: string) => touchedProjects.get(projectId);
+    const rolled = rollUpSummaries(taskState, projectIds, sourceFor);
+    taskState = rolled.tasks;
+    rolled.changes.forEach(absorbHierarchyChange);
+    const movedSummaryIds = rolled.changes
+      .filter((change) => change.task.startDate !== change.previous.startDate || change.task.dueDate !== change.previous.dueDate)
+      .map((change) => change.task.id);
+    if (movedSummaryIds.length > 0) {
+      const cascaded = cascadeSuccessors(taskState, movedSummaryIds, calendarFor);
+      taskState = cascaded.tasks;
+      warnings.push(...cascaded.warnings);
+      for (const shift of cascaded.shifts) {
+        absorbDerived(shift.task, shift.previous, shift.predecessor.id, shift.message);
+      }
+      if (cascaded.shifts.length > 0) {
+        const rerolled = rollUpSummaries(taskState, projectIds, sourceFor);
+        taskState = rerolled.tasks;
+        rerolled.changes.forEach(absorbHierarchyChange);
+      }
+    }
+  }
+
+  if (cascade) {
+    for (const overload of await detectOverloads(db, workspaceId, planned, taskState)) {
+      const message = describeOverload(overload);
+      warnings.push(message);
+      planned.forEach((action, index) => {
+        if (action.entityType !== 'task' || (action.after as Partial<TaskRecord> | null | undefined)?.assignee !== overload.assignee) return;
+        planned[index] = { ...action, warnings: [...(action.warnings ?? []), message] };
+      });
+    }
+  }
+
   return { actions: planned, warnings };
 };
 
 export const createDraft = async (
-  db: ReturnType<typeof import('../db').getDb>,
+  db: DbExecutor,
   input: {
     actions: DraftAction[];
     createdBy: DraftRecord['createdBy'];
+    createdByUserId?: string | null;
     reason?: string;
     projectId?: string | null;
     workspaceId: string;
+    origin?: DraftOrigin | null;
   }
 ): Promise<PlanResult> => {
   const { actions, warnings } = await planActions(db, input.actions, input.workspaceId);
@@ -397,7 +671,11 @@ export const createDraft = async (
     actions,
     createdAt: now(),
     createdBy: input.createdBy,
+    createdByUserId: input.createdByUserId ?? null,
+    appliedByUserId: null,
     reason: input.reason ?? null,
+    approvals: [],
+    origin: input.origin ?? null,
   };
 
   await db.insert(drafts).values({
@@ -408,14 +686,17 @@ export const createDraft = async (
     actions: draft.actions,
     createdAt: draft.createdAt,
     createdBy: draft.createdBy,
+    createdByUserId: draft.createdByUserId,
     reason: draft.reason,
+    approvals: draft.approvals,
+    origin: draft.origin,
   });
 
   return { draft, warnings };
 };
 
 export const getDraftById = async (
-  db: ReturnType<typeof import('../db').getDb>,
+  db: DbExecutor,
   id: string,
   workspaceId: string
 ): Promise<DraftRecord | null> => {
@@ -430,7 +711,7 @@ export const getDraftById = async (
 };
 
 export const listDrafts = async (
-  db: ReturnType<typeof import('../db').getDb>,
+  db: DbExecutor,
   workspaceId: string
 ): Promise<DraftRecord[]> => {
   const rows = await db
@@ -441,219 +722,632 @@ export const listDrafts = async (
   return rows.map(parseDraftRow);
 };
 
-export const discardDraft = async (
-  db: ReturnType<typeof import('../db').getDb>,
+export const setDraftActionDecision = async (
+  db: DbExecutor,
   id: string,
+  actionId: string,
+  decision: DraftActionDecision | null,
   workspaceId: string
 ): Promise<DraftRecord | null> => {
   const draft = await getDraftById(db, id, workspaceId);
-  if (!draft) return null;
-  await db.update(drafts).set({ status: 'discarded' }).where(eq(drafts.id, id));
-  return { ...draft, status: 'discarded' };
+  if (!draft || !draft.actions.some((action) => action.id === actionId)) return null;
+  if (draft.status !== 'pending') {
+    throw new Error('Only pending drafts can be reviewed.');
+  }
+  const actions = draft.actions.map((action) =>
+    action.id === actionId ? { ...action, decision: decision ?? undefined } : action
+  );
+  // Decisions change what an apply runs, so earlier sign-offs no longer cover the draft.
+  await db.update(drafts).set({ actions, approvals: [] }).where(eq(drafts.id, id));
+  return { ...draft, actions, approvals: [] };
 };
 
-export const applyDraft = async (
-  db: ReturnType<typeof import('../db').getDb>,
+export const updateDraftAction = async (
+  db: DbExecutor,
   id: string,
-  actor: DraftRecord['createdBy'],
+  actionId: string,
+  after: Record<string, unknown>,
   workspaceId: string
-): Promise<{ draft: DraftRecord; results: DraftAction[] }> => {
+): Promise<PlanResult | null> => {
   const draft = await getDraftById(db, id, workspaceId);
-  if (!draft) {
-    throw new Error('Draft not found.');
-  }
+  const target = draft?.actions.find((action) => action.id === actionId);
+  if (!draft || !target) return null;
   if (draft.status !== 'pending') {
-    return { draft, results: draft.actions };
+    throw new Error('Only pending drafts can be edited.');
+  }
+  if (target.action === 'delete') {
+    throw new Error('Delete actions have no fields to edit.');
   }
 
-  const results: DraftAction[] = [];
+  // Re-planning refreshes every `before`, so surface teammates' edits instead of absorbing them.
+  const conflicts = await detectStaleActions(db, draft.actions, workspaceId);
+  if (conflicts.length > 0) throw new DraftConflictError(conflicts);
 
-  for (const action of draft.actions) {
-      if (action.entityType === 'project') {
-      if (action.action === 'create' && action.after) {
-        const created = await createProject(db, {
-          id: (action.after.id as string) ?? undefined,
-          name: (action.after.name as string) ?? 'Untitled Project',
-          description: (action.after.description as string) ?? undefined,
-          icon: (action.after.icon as string) ?? undefined,
-          createdAt: (action.after.createdAt as number) ?? undefined,
-          updatedAt: (action.after.updatedAt as number) ?? undefined,
+  // Hand-editing a successor shift makes it the reviewer's own update rather than a derived one.
+  const edited = draft.actions.map((action) => {
+    const replan = toReplanAction(action);
+    if (action.id !== actionId) return replan;
+    const { cascadedFrom: _cascadedFrom, ...explicit } = replan;
+    return { ...explicit, after: { ...replan.after, ...after } };
+  });
+  const planned = await planActions(db, edited, workspaceId);
+  // Sign-offs covered the old content, so an edited draft has to be approved again.
+  const next = { ...draft, actions: planned.actions, approvals: [] };
+  await db.update(drafts).set({ actions: next.actions, approvals: next.approvals }).where(eq(drafts.id, id));
+  return { draft: next, warnings: planned.warnings };
+};
+
+export const discardDraft = async (
+  db: DbExecutor,
+  id: string,
+  workspaceId: string
+): Promise<DraftRecord | null> => {
+  const draft = await getDraftById(db, id, workspaceId);
+  if (!draft) return null;
+  await db.update(drafts).set({ status: 'discarded' }).where(eq(drafts.id, id));
+  return { ...draft, status: 'discarded' };
+};
+
+const applyDraftAction = async (
+  db: DbExecutor,
+  draft: DraftRecord,
+  action: DraftAction,
+  actor: DraftRecord['createdBy'],
+  actorUserId: string | null,
+  workspaceId: string
+): Promise<DraftAction | null> => {
+  let result: DraftAction | null = null;
+  if (action.entityType === 'project') {
+    if (action.action === 'create' && action.after) {
+      const created = await createProject(db, {
+        id: (action.after.id as string) ?? undefined,
+        name: (action.after.name as string) ?? 'Untitled Project',
+        description: (action.after.description as string) ?? undefined,
+        icon: (action.after.icon as string) ?? undefined,
+        createdAt: (action.after.createdAt as number) ?? undefined,
+        updatedAt: (action.after.updatedAt as number) ?? undefined,
+        workspaceId,
+      });
+      result = { ...action, entityId: created.id, after: created };
+      await recordAudit(db, {
+        workspaceId,
+        entityType: 'project',
+        entityId: created.id,
+        action: 'create',
+        before: null,
+        after: created,
+        actor,
+        actorUserId,
+        reason: draft.reason ?? null,
+        approvals: draft.approvals.length > 0 ? draft.approvals : null,
+        projectId: created.id,
+        taskId: null,
+        draftId: draft.id,
+        origin: draft.origin ?? null,
+      });
+    } else if (action.action === 'update' && action.entityId) {
+      const before = await getProjectById(db, action.entityId, workspaceId);
+      const updated = await updateProject(db, action.entityId, {
+        name: (action.after?.name as string) ?? undefined,
+        description: action.after?.description as string | null | undefined,
+        icon: action.after?.icon as string | null | undefined,
+      }, workspaceId);
+      if (updated) {
+        result = { ...action, before: before ?? undefined, after: updated };
+        await recordAudit(db, {
           workspaceId,
+          entityType: 'project',
+          entityId: updated.id,
+          action: 'update',
+          before: before ?? null,
+          after: updated,
+          actor,
+          actorUserId,
+          reason: draft.reason ?? null,
+          approvals: draft.approvals.length > 0 ? draft.approvals : null,
+          projectId: updated.id,
+          taskId: null,
+          draftId: draft.id,
+          origin: draft.origin ?? null,
         });
-        results.push({ ...action, entityId: created.id, after: created });
+      }
+    } else if (action.action === 'delete' && action.entityId) {
+      const before = await getProjectById(db, action.entityId, workspaceId);
+      const taskRows = await db.select().from(tasks).where(eq(tasks.projectId, action.entityId));
+      const tasksBefore = taskRows.map(toTaskRecord);
+      const deleted = await deleteProject(db, action.entityId, workspaceId);
+      result = { ...action, before: before ?? undefined, after: null };
+      if (deleted.project) {
         await recordAudit(db, {
           workspaceId,
           entityType: 'project',
-          entityId: created.id,
-          action: 'create',
-          before: null,
-          after: created,
+          entityId: deleted.project.id,
+          action: 'delete',
+          before: { project: before ?? deleted.project, tasks: tasksBefore },
+          after: null,
           actor,
+          actorUserId,
           reason: draft.reason ?? null,
-          projectId: created.id,
+          approvals: draft.approvals.length > 0 ? draft.approvals : null,
+          projectId: deleted.project.id,
           taskId: null,
           draftId: draft.id,
+          origin: draft.origin ?? null,
         });
-      } else if (action.action === 'update' && action.entityId) {
-        const before = await getProjectById(db, action.entityId, workspaceId);
-        const updated = await updateProject(db, action.entityId, {
-          name: (action.after?.name as string) ?? undefined,
-          description: (action.after?.description as string) ?? undefined,
-          icon: (action.after?.icon as string) ?? undefined,
-        }, workspaceId);
-        if (updated) {
-          results.push({ ...action, before: before ?? undefined, after: updated });
-          await recordAudit(db, {
-            workspaceId,
-            entityType: 'project',
-            entityId: updated.id,
-            action: 'update',
-            before: before ?? null,
-            after: updated,
-            actor,
-            reason: draft.reason ?? null,
-            projectId: updated.id,
-            taskId: null,
-            draftId: draft.id,
-          });
-        }
-      } else if (action.action === 'delete' && action.entityId) {
-        const before = await getProjectById(db, action.entityId, workspaceId);
-        const taskRows = await db.select().from(tasks).where(eq(tasks.projectId, action.entityId));
-        const tasksBefore = taskRows.map(toTaskRecord);
-        const deleted = await deleteProject(db, action.entityId, workspaceId);
-        results.push({ ...action, before: before ?? undefined, after: null });
-        if (deleted.project) {
-          await recordAudit(db, {
-            workspaceId,
-            entityType: 'project',
-            entityId: deleted.project.id,
-            action: 'delete',
-            before: { project: before ?? deleted.project, tasks: tasksBefore },
-            after: null,
-            actor,
-            reason: draft.reason ?? null,
-            projectId: deleted.project.id,
-            taskId: null,
-            draftId: draft.id,
-          });
-        }
       }
-      continue;
     }
+    return result;
+  }
 
-    if (action.entityType === 'task') {
-      if (action.action === 'create' && action.after) {
-        const created = await createTask(db, {
-          id: (action.after.id as string) ?? undefined,
-          projectId: (action.after.projectId as string) ?? '',
-          title: (action.after.title as string) ?? 'Untitled Task',
-          description: (action.after.description as string) ?? undefined,
-          status: toTaskStatus(action.after.status, 'TODO'),
-          priority: toPriority(action.after.priority, 'MEDIUM'),
-          wbs: (action.after.wbs as string) ?? undefined,
-          startDate: (action.after.startDate as number) ?? undefined,
-          dueDate: (action.after.dueDate as number) ?? undefined,
-          completion: (action.after.completion as number) ?? undefined,
-          assignee: (action.after.assignee as string) ?? undefined,
-          isMilestone: (action.after.isMilestone as boolean) ?? undefined,
-          predecessors: (action.after.predecessors as string[]) ?? undefined,
-          createdAt: (action.after.createdAt as number) ?? undefined,
-          updatedAt: (action.after.updatedAt as number) ?? undefined,
-        }, workspaceId);
-        if (!created) {
-          throw new Error('Invalid project for task creation.');
-        }
-        results.push({ ...action, entityId: created.id, after: created });
+  if (action.entityType === 'task') {
+    if (action.action === 'create' && action.after) {
+      const created = await createTask(db, {
+        id: (action.after.id as string) ?? undefined,
+        projectId: (action.after.projectId as string) ?? '',
+        title: (action.after.title as string) ?? 'Untitled Task',
+        description: (action.after.description as string) ?? undefined,
+        status: toTaskStatus(action.after.status, 'TODO'),
+        priority: toPriority(action.after.priority, 'MEDIUM'),
+        wbs: (action.after.wbs as string) ?? undefined,
+        parentId: (action.after.parentId as string | null) ?? undefined,
+        startDate: (action.after.startDate as number) ?? undefined,
+        dueDate: (action.after.dueDate as number) ?? undefined,
+        completion: (action.after.completion as number) ?? undefined,
+        assignee: (action.after.assignee as string) ?? undefined,
+        estimatedHours: toHours(action.after.estimatedHours),
+        actualHours: toHours(action.after.actualHours),
+        isMilestone: (action.after.isMilestone as boolean) ?? undefined,
+        predecessors: (action.after.predecessors as TaskPredecessor[]) ?? undefined,
+        createdAt: (action.after.createdAt as number) ?? undefined,
+        updatedAt: (action.after.updatedAt as number) ?? undefined,
+      }, workspaceId);
+      if (!created) {
+        throw new Error('Invalid project for task creation.');
+      }
+      result = { ...action, entityId: created.id, after: created };
+      await recordAudit(db, {
+        workspaceId,
+        entityType: 'task',
+        entityId: created.id,
+        action: 'create',
+        before: null,
+        after: created,
+        actor,
+        actorUserId,
+        reason: draft.reason ?? null,
+        approvals: draft.approvals.length > 0 ? draft.approvals : null,
+        projectId: created.projectId,
+        taskId: created.id,
+        draftId: draft.id,
+        origin: draft.origin ?? null,
+      });
+    } else if (action.action === 'update' && action.entityId) {
+      const before = await getTaskById(db, action.entityId, workspaceId);
+
+      if (!before) {
+        throw new Error(`Task not found: ${action.entityId}. The task may have been deleted or the draft is outdated.`);
+      }
+
+      if (!action.after) {
+        throw new Error(`Invalid draft: No update data provided for task ${action.entityId}. This draft may be corrupted.`);
+      }
+
+      const updated = await updateTask(db, action.entityId, {
+        title: (action.after?.title as string) ?? undefined,
+        // null clears a field (reverts rely on it); only absent fields are left alone.
+        description: action.after?.description as string | null | undefined,
+        status: toOptionalTaskStatus(action.after?.status),
+        priority: toOptionalPriority(action.after?.priority),
+        wbs: action.after?.wbs as string | null | undefined,
+        parentId: action.after?.parentId === undefined ? undefined : (action.after.parentId as string | null),
+        startDate: action.after?.startDate as number | null | undefined,
+        dueDate: action.after?.dueDate as number | null | undefined,
+        completion: (action.after?.completion as number) ?? undefined,
+        assignee: action.after?.assignee as string | null | undefined,
+        estimatedHours: action.after?.estimatedHours === undefined ? undefined : toHours(action.after.estimatedHours),
+        actualHours: action.after?.actualHours === undefined ? undefined : toHours(action.after.actualHours),
+        isMilestone: (action.after?.isMilestone as boolean) ?? undefined,
+        predecessors: (action.after?.predecessors as TaskPredecessor[]) ?? undefined,
+      }, workspaceId);
+      if (updated) {
+        result = { ...action, before: before ?? undefined, after: updated };
         await recordAudit(db, {
           workspaceId,
           entityType: 'task',
-          entityId: created.id,
-          action: 'create',
-          before: null,
-          after: created,
+          entityId: updated.id,
+          action: 'update',
+          before: before ?? null,
+          after: updated,
+          actor,
+          actorUserId,
+          reason: draft.reason ?? null,
+          approvals: draft.approvals.length > 0 ? draft.approvals : null,
+          projectId: updated.projectId,
+          taskId: updated.id,
+          draftId: draft.id,
+          origin: draft.origin ?? null,
+        });
+      }
+    } else if (action.action === 'delete' && action.entityId) {
+      const before = await getTaskById(db, action.entityId, workspaceId);
+      const deleted = await deleteTask(db, action.entityId, workspaceId);
+      result = { ...action, before: before ?? undefined, after: null };
+      if (deleted) {
+        await recordAudit(db, {
+          workspaceId,
+          entityType: 'task',
+          entityId: deleted.id,
+          action: 'delete',
+          before: before ?? null,
+          after: null,
           actor,
+          actorUserId,
           reason: draft.reason ?? null,
-          projectId: created.projectId,
-          taskId: created.id,
+          approvals: draft.approvals.length > 0 ? draft.approvals : null,
+          projectId: deleted.projectId,
+          taskId: deleted.id,
           draftId: draft.id,
+          origin: draft.origin ?? null,
         });
-      } else if (action.action === 'update' && action.entityId) {
-        const before = await getTaskById(db, action.entityId, workspaceId);
+      }
+    }
+  }
+  return result;
+};
 
-        if (!before) {
-          throw new Error(`Task not found: ${action.entityId}. The task may have been deleted or the draft is outdated.`);
-        }
+export class DraftApplyError extends Error {
+  code: string;
+  status: number;
+  failure: DraftApplyFailure;
 
-        if (!action.after) {
-          throw new Error(`Invalid draft: No update data provided for task ${action.entityId}. This draft may be corrupted.`);
-        }
+  constructor(failure: DraftApplyFailure, message: string) {
+    super(message);
+    this.code = 'APPLY_FAILED';
+    this.status = 400;
+    this.failure = failure;
+  }
+}
 
-        const updated = await updateTask(db, action.entityId, {
-          title: (action.after?.title as string) ?? undefined,
-          description: (action.after?.description as string) ?? undefined,
-          status: toOptionalTaskStatus(action.after?.status),
-          priority: toOptionalPriority(action.after?.priority),
-          wbs: (action.after?.wbs as string) ?? undefined,
-          startDate: (action.after?.startDate as number) ?? undefined,
-          dueDate: (action.after?.dueDate as number) ?? undefined,
-          completion: (action.after?.completion as number) ?? undefined,
-          assignee: (action.after?.assignee as string) ?? undefined,
-          isMilestone: (action.after?.isMilestone as boolean) ?? undefined,
-          predecessors: (action.after?.predecessors as string[]) ?? undefined,
-        }, workspaceId);
-        if (updated) {
-          results.push({ ...action, before: before ?? undefined, after: updated });
-          await recordAudit(db, {
-            workspaceId,
-            entityType: 'task',
-            entityId: updated.id,
-            action: 'update',
-            before: before ?? null,
-            after: updated,
-            actor,
-            reason: draft.reason ?? null,
-            projectId: updated.projectId,
-            taskId: updated.id,
-            draftId: draft.id,
-          });
-        }
-      } else if (action.action === 'delete' && action.entityId) {
-        const before = await getTaskById(db, action.entityId, workspaceId);
-        const deleted = await deleteTask(db, action.entityId, workspaceId);
-        results.push({ ...action, before: before ?? undefined, after: null });
-        if (deleted) {
-          await recordAudit(db, {
-            workspaceId,
-            entityType: 'task',
-            entityId: deleted.id,
-            action: 'delete',
-            before: before ?? null,
-            after: null,
-            actor,
-            reason: draft.reason ?? null,
-            projectId: deleted.projectId,
-            taskId: deleted.id,
+export const isDraftApplyError = (error: unknown): error is DraftApplyError => error instanceof DraftApplyError;
+
+export class DraftConflictError extends Error {
+  code: string;
+  status: number;
+  conflicts: DraftConflict[];
+
+  constructor(conflicts: DraftConflict[]) {
+    super(`Draft is out of date: ${conflicts.length} target(s) changed after it was planned.`);
+    this.code = 'DRAFT_CONFLICT';
+    this.status = 409;
+    this.conflicts = conflicts;
+  }
+}
+
+export const isDraftConflictError = (error: unknown): error is DraftConflictError => error instanceof DraftConflictError;
+
+export class DraftApprovalError extends Error {
+  code: string;
+  status: number;
+  approval: DraftApprovalStatus;
+
+  constructor(approval: DraftApprovalStatus) {
+    super(approval.reasons.join(' '));
+    this.code = 'APPROVAL_REQUIRED';
+    this.status = 403;
+    this.approval = approval;
+  }
+}
+
+export const isDraftApprovalError = (error: unknown): error is DraftApprovalError => error instanceof DraftApprovalError;
+
+// Compares each targeted row against the `before` snapshot captured at plan time.
+const detectStaleActions = async (
+  db: DbExecutor,
+  actions: DraftAction[],
+  workspaceId: string
+): Promise<DraftConflict[]> => {
+  const conflicts: DraftConflict[] = [];
+  // Only the first action per entity sees the live row; later ones build on the draft's own changes.
+  const checked = new Set<string>();
+  for (const action of actions) {
+    if (!action.entityId) continue;
+    const key = `${action.entityType}:${action.entityId}`;
+    if (checked.has(key)) continue;
+    checked.add(key);
+    if (action.action === 'create' || !action.before) continue;
+    const plannedAt = action.before.updatedAt;
+    if (typeof plannedAt !== 'number') continue;
+
+    const label = action.entityType === 'project' ? 'Project' : 'Task';
+    const current = action.entityType === 'project'
+      ? await getProjectById(db, action.entityId, workspaceId)
+      : await getTaskById(db, action.entityId, workspaceId);
+    if (current && current.updatedAt === plannedAt) continue;
+
+    conflicts.push({
+      actionId: action.id,
+      entityType: action.entityType,
+      entityId: action.entityId,
+      action: action.action,
+      plannedBefore: action.before,
+      current: current ?? null,
+      plannedAfter: action.after ?? null,
+      message: current
+        ? `${label} ${action.entityId} was modified after the draft was planned.`
+        : `${label} ${action.entityId} was deleted after the draft was planned.`,
+    });
+  }
+  return conflicts;
+};
+
+// An explicit list of action IDs wins over the decisions stored on the draft.
+const selectAcceptedActions = (draft: DraftRecord, actionIds?: string[]): DraftAction[] => {
+  if (actionIds) {
+    const known = new Set(draft.actions.map((action) => action.id));
+    const unknown = actionIds.filter((actionId) => !known.has(actionId));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown draft action(s): ${unknown.join(', ')}.`);
+    }
+    const accepted = new Set(actionIds);
+    return draft.actions.filter((action) => accepted.has(action.id));
+  }
+  return draft.actions.filter((action) => action.decision !== 'rejected');
+};
+
+export const applyDraft = async (
+  db: DbExecutor,
+  id: string,
+  actor: DraftRecord['createdBy'],
+  workspaceId: string,
+  options: { force?: boolean; actionIds?: string[]; actorUserId?: string | null } = {}
+): Promise<{ draft: DraftRecord; results: DraftAction[] }> => {
+  const draft = await getDraftById(db, id, workspaceId);
+  if (!draft) {
+    throw new Error('Draft not found.');
+  }
+  if (draft.status !== 'pending') {
+    return { draft, results: draft.actions };
+  }
+  const actorUserId = options.actorUserId ?? null;
+
+  // Every action and its audit row commit together; a failing action rolls back the whole draft.
+  // The draft is re-read under the lock so the approval check and the apply see the same actions.
+  const results = await db.transaction(async (tx) => {
+    const [row] = await tx
+      .select()
+      .from(drafts)
+      .where(eq(drafts.id, draft.id))
+      .for('update');
+    const locked = row ? parseDraftRow(row) : null;
+    if (!locked || locked.status !== 'pending') return null;
+
+    const accepted = selectAcceptedActions(locked, options.actionIds);
+    if (accepted.length === 0) {
+      throw new Error('No actions were accepted. Discard the draft instead.');
+    }
+    const isPartial = accepted.length < locked.actions.length;
+
+    if (!options.force) {
+      const conflicts = await detectStaleActions(tx, accepted, workspaceId);
+      if (conflicts.length > 0) throw new DraftConflictError(conflicts);
+    }
+
+    // Constraint effects were planned against the whole draft, so re-plan what is left. Successor
+    // shifts are not recomputed: the reviewer already kept or rejected each one.
+    const toApply = isPartial
+      ? (await planActions(tx, accepted.map(toReplanAction), workspaceId, { cascade: false })).actions
+      : locked.actions;
+
+    // The policy is judged on exactly what will run; an explicit action list can include actions
+    // the stored decisions reject.
+    const approval = evaluateDraftApproval(
+      { ...locked, actions: toApply.map((action) => ({ ...action, decision: 'accepted' as const })) },
+      await getApprovalPolicy(tx, workspaceId)
+    );
+    if (!approval.satisfied) throw new DraftApprovalError(approval);
+
+    const applied: DraftAction[] = [];
+    for (const action of toApply) {
+      const index = locked.actions.findIndex((item) => item.id === action.id);
+      try {
+        const result = await applyDraftAction(tx, locked, action, actor, actorUserId, workspaceId);
+        if (result) applied.push(result);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : 'Unknown error.';
+        throw new DraftApplyError(
+          {
             draftId: draft.id,
-          });
-        }
+            actionId: action.id,
+            actionIndex: index,
+            entityType: action.entityType,
+            action: action.action,
+            entityId: action.entityId,
+            message: reason,
+          },
+          `Action ${index + 1} of ${locked.actions.length} (${action.action} ${action.entityType}) failed: ${reason} No changes were applied.`
+        );
       }
     }
+
+    const actions: DraftAction[] = isPartial
+      ? locked.actions.map((action) => {
+        const replanned = toApply.find((item) => item.id === action.id);
+        return replanned
+          ? { ...replanned, decision: 'accepted' as const }
+          : { ...action, decision: 'rejected' as const };
+      })
+      : locked.actions;
+    await tx.update(drafts).set({ status: 'applied', actions, appliedByUserId: actorUserId }).where(eq(drafts.id, draft.id));
+    return { draft: locked, applied, actions };
+  });
+
+  if (!results) {
+    // Another request applied or discarded the draft while we waited for the lock.
+    const current = await getDraftById(db, id, workspaceId);
+    return { draft: current ?? draft, results: current?.actions ?? draft.actions };
   }
+  return {
+    draft: { ...results.draft, status: 'applied', actions: results.actions, appliedByUserId: actorUserId },
+    results: results.applied,
+  };
+};
+
+const PLAN_METADATA_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
 
-  await db.update(drafts).set({ status: 'applied' }).where(eq(drafts.id, draft.id));
-  return { draft: { ...draft, status: 'applied' }, results };
+// Narrows an update back to the fields the draft actually changed so re-planning keeps
+// everyone else's edits to the same row.
+const toReplanAction = (action: DraftAction): DraftAction => {
+  if (action.action !== 'update' || !action.before || !action.after) return action;
+  const before = action.before;
+  const changed = Object.fromEntries(
+    Object.entries(action.after).filter(([key, value]) =>
+      key === 'projectId' || (!PLAN_METADATA_FIELDS.has(key) && JSON.stringify(value) !== JSON.stringify(before[key]))
+    )
+  );
+  return { ...action, before: null, after: changed, warnings: undefined };
 };
 
 export const refreshDraftActions = async (
-  db: ReturnType<typeof import('../db').getDb>,
+  db: DbExecutor,
   id: string,
   workspaceId: string
 ): Promise<DraftRecord | null> => {
   const draft = await getDraftById(db, id, workspaceId);
   if (!draft) return null;
-  const planned = await planActions(db, draft.actions, workspaceId);
-  const next = { ...draft, actions: planned.actions };
-  await db.update(drafts).set({ actions: next.actions }).where(eq(drafts.id, id));
+  if (draft.status !== 'pending') return draft;
+  const planned = await planActions(db, draft.actions.map(toReplanAction), workspaceId);
+  const next = { ...draft, actions: planned.actions, approvals: [] };
+  await db.update(drafts).set({ actions: next.actions, approvals: next.approvals }).where(eq(drafts.id, id));
   return next;
 };
+
+// Snapshots carry the original updatedAt; drop it so the planner stamps a fresh one.
+const withoutUpdatedAt = (snapshot: Record<string, unknown>) => {
+  const { updatedAt: _updatedAt, ...rest } = snapshot;
+  return rest;
+};
+
+const buildInverseActions = (entry: AuditRecord): DraftAction[] => {
+  if (entry.entityType === 'project') {
+    const before = entry.before ? toProjectSnapshot(entry.before) : null;
+    if (!before) {
+      return [{ id: generateId(), entityType: 'project', action: 'delete', entityId: entry.entityId }];
+    }
+    if (!entry.after) {
+      return [
+        { id: generateId(), entityType: 'project', action: 'create', after: withoutUpdatedAt(before.project) },
+        ...before.tasks.map((task): DraftAction => ({
+          id: generateId(),
+          entityType: 'task',
+          action: 'create',
+          after: withoutUpdatedAt(task),
+        })),
+      ];
+    }
+    return [{
+      id: generateId(),
+      entityType: 'project',
+      action: 'update',
+      entityId: entry.entityId,
+      after: withoutUpdatedAt(before.project),
+    }];
+  }
+
+  if (!entry.before) {
+    return [{ id: generateId(), entityType: 'task', action: 'delete', entityId: entry.entityId }];
+  }
+  if (!entry.after) {
+    return [{ id: generateId(), entityType: 'task', action: 'create', after: withoutUpdatedAt(entry.before) }];
+  }
+  return [{
+    id: generateId(),
+    entityType: 'task',
+    action: 'update',
+    entityId: entry.entityId,
+    after: withoutUpdatedAt(entry.before),
+  }];
+};
+
+const detectRevertConflict = async (
+  db: DbExecutor,
+  entry: AuditRecord
+): Promise<RevertConflict | null> => {
+  const label = entry.entityType === 'project' ? 'Project' : 'Task';
+  const recorded = entry.entityType === 'project'
+    ? (entry.after ? toProjectSnapshot(entry.after).project : null)
+    : ((entry.after ?? null) as TaskRecord | null);
+  const current = entry.entityType === 'project'
+    ? await getProjectById(db, entry.entityId, entry.workspaceId)
+    : await getTaskById(db, entry.entityId, entry.workspaceId);
+
+  let message: string | null = null;
+  if (recorded && !current) {
+    message = `${label} ${entry.entityId} has been deleted since the draft was applied.`;
+  } else if (recorded && current && current.updatedAt !== recorded.updatedAt) {
+    message = `${label} ${entry.entityId} has been modified since the draft was applied.`;
+  } else if (!recorded && current) {
+    message = `${label} ${entry.entityId} has been recreated since the draft was applied.`;
+  }
+  return message
+    ? { auditId: entry.id, entityType: entry.entityType, entityId: entry.entityId, message }
+    : null;
+};
+
+export const revertDraft = async (
+  db: DbExecutor,
+  id: string,
+  options: { actor: DraftRecord['createdBy']; actorUserId?: string | null; apply?: boolean },
+  workspaceId: string
+): Promise<RevertResult> => {
+  const draft = await getDraftById(db, id, workspaceId);
+  if (!draft) {
+    throw new Error('Draft not found.');
+  }
+  if (draft.status !== 'applied') {
+    throw new Error('Only applied drafts can be reverted.');
+  }
+
+  const entries = await listAuditLogsByDraft(db, id, workspaceId);
+  if (entries.length === 0) {
+    throw new Error('Draft has no recorded changes to revert.');
+  }
+
+  // Rows written in the same millisecond fall back to the draft's own action order.
+  const actionOrder = new Map<string, number>();
+  draft.actions.forEach((action, index) => {
+    if (action.entityId && !actionOrder.has(action.entityId)) actionOrder.set(action.entityId, index);
+  });
+  const ordered = [...entries].sort((a, b) =>
+    (a.timestamp - b.timestamp) || ((actionOrder.get(a.entityId) ?? 0) - (actionOrder.get(b.entityId) ?? 0))
+  ).reverse();
+
+  // Only the latest row per entity reflects what the draft left behind.
+  const conflicts: RevertConflict[] = [];
+  const checked = new Set<string>();
+  for (const entry of ordered) {
+    const key = `${entry.entityType}:${entry.entityId}`;
+    if (checked.has(key)) continue;
+    checked.add(key);
+    const conflict = await detectRevertConflict(db, entry);
+    if (conflict) conflicts.push(conflict);
+  }
+
+  const actions = ordered.flatMap(buildInverseActions);
+  const result = await createDraft(db, {
+    actions,
+    createdBy: options.actor,
+    createdByUserId: options.actorUserId ?? null,
+    reason: `Revert of draft ${draft.id}`,
+    projectId: draft.projectId,
+    workspaceId,
+  });
+  const warnings = [...conflicts.map((conflict) => conflict.message), ...result.warnings];
+
+  if (options.apply && conflicts.length === 0) {
+    const applied = await applyDraft(db, result.draft.id, options.actor, workspaceId, {
+      actorUserId: options.actorUserId ?? null,
+    });
+    return { draft: applied.draft, warnings, conflicts };
+  }
+  return { draft: result.draft, warnings, conflicts };
+};
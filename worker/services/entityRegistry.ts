@@ -315,10 +315,13 @@ export const projectManagementDomain: DomainConfig = {
         { name: 'status', type: 'enum', required: true, editable: true, listable: true, enumValues: ['TODO', 'IN_PROGRESS', 'DONE'] },
         { name: 'priority', type: 'enum', required: true, editable: true, listable: true, enumValues: ['LOW', 'MEDIUM', 'HIGH'] },
         { name: 'wbs', type: 'string', required: false, editable: true, listable: true },
+        { name: 'parentId', type: 'string', required: false, editable: true, listable: false },
         { name: 'startDate', type: 'date', required: false, editable: true, listable: true },
         { name: 'dueDate', type: 'date', required: false, editable: true, listable: true },
         { name: 'completion', type: 'number', required: false, editable: true, listable: false },
         { name: 'assignee', type: 'string', required: false, editable: true, listable: true },
+        { name: 'estimatedHours', type: 'number', required: false, editable: true, listable: false },
+        { name: 'actualHours', type: 'number', required: false, editable: true, listable: false },
         { name: 'isMilestone', type: 'boolean', required: false, editable: true, listable: false },
         { name: 'predecessors', type: 'array', required: false, editable: true, listable: false },
         { name: 'createdAt', type: 'date', required: true, editable: false, listable: false },
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { DependencyCycleError, findDependencyCycle, validateTaskGraph } from './graphService';
+import type { GraphTask } from './graphService';
+
+const baseTask = (overrides: Partial<GraphTask>): GraphTask => ({
+  id: 't1',
+  projectId: 'p1',
+  title: 'Task',
+  wbs: null,
+  predecessors: [],
+  ...overrides,
+});
+
+describe('graphService', () => {
+  it('accepts a chain without cycles', () => {
+    const tasks = [
+      baseTask({ id: 'a', wbs: '1.1' }),
+      baseTask({ id: 'b', wbs: '1.2', predecessors: ['1.1'] }),
+      baseTask({ id: 'c', predecessors: [{ ref: 'b', type: 'SS', lagDays: 1 }] }),
+    ];
+
+    expect(validateTaskGraph(tasks)).toMatchObject({ valid: true, cycle: null, danglingRefs: [] });
+  });
+
+  it('reports the cycle path in dependency order', () => {
+    const tasks = [
+      baseTask({ id: 'a', title: 'Design', wbs: '1.1', predecessors: ['1.3'] }),
+      baseTask({ id: 'b', title: 'Build', wbs: '1.2', predecessors: ['a'] }),
+      baseTask({ id: 'c', title: 'Test', wbs: '1.3', predecessors: [{ ref: '1.2', type: 'FF', lagDays: 0 }] }),
+    ];
+
+    const result = validateTaskGraph(tasks);
+    expect(result.valid).toBe(false);
+    expect(result.cycle).toEqual(['a', 'b', 'c', 'a']);
+    expect(result.cyclePath).toBe('"1.1 Design" → "1.2 Build" → "1.3 Test" → "1.1 Design"');
+  });
+
+  it('treats a task listed as its own predecessor as a cycle', () => {
+    const cycle = findDependencyCycle([baseTask({ id: 'a', predecessors: ['a'] })]);
+
+    expect(cycle?.map((task) => task.id)).toEqual(['a', 'a']);
+    expect(new DependencyCycleError(cycle ?? []).code).toBe('DEPENDENCY_CYCLE');
+  });
+
+  it('only counts cycles through the given tasks', () => {
+    const tasks = [
+      baseTask({ id: 'a', predecessors: ['b'] }),
+      baseTask({ id: 'b', predecessors: ['a'] }),
+      baseTask({ id: 'c', predecessors: ['a'] }),
+    ];
+
+    expect(findDependencyCycle(tasks, ['c'])).toBeNull();
+    expect(findDependencyCycle(tasks, ['b'])?.map((task) => task.id)).toEqual(['b', 'a', 'b']);
+  });
+
+  it('flags refs that match no task in the same project', () => {
+    const tasks = [
+      baseTask({ id: 'a', wbs: '1.1' }),
+      baseTask({ id: 'x', projectId: 'p2', wbs: '2.1' }),
+      baseTask({ id: 'b', title: 'Ship', predecessors: ['1.1', '2.1', 'missing'] }),
+    ];
+
+    const result = validateTaskGraph(tasks);
+    expect(result.cycle).toBeNull();
+    expect(result.danglingRefs).toEqual([
+      { taskId: 'b', title: 'Ship', ref: '2.1' },
+      { taskId: 'b', title: 'Ship', ref: 'missing' },
+    ]);
+    expect(result.warnings[0]).toContain('"2.1"');
+  });
+});
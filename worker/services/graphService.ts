@@ -0,0 +1,155 @@
+import { eq } from 'drizzle-orm';
+import { tasks } from '../db/schema';
+import type { DbExecutor } from '../db';
+import { toTaskRecord } from './serializers';
+import { getProjectById } from './projectService';
+import { normalizePredecessors, predecessorRef } from './constraintService';
+import type { DraftAction, TaskRecord } from './types';
+
+// Only the fields that shape the dependency graph, so callers can check a task before it is saved.
+export type GraphTask = Pick<TaskRecord, 'id' | 'projectId' | 'title' | 'wbs' | 'predecessors'>;
+
+export type DanglingRef = {
+  taskId: string;
+  title: string;
+  ref: string;
+};
+
+export type GraphValidation = {
+  valid: boolean;
+  cycle: string[] | null;  // Task ids in dependency order; the first task repeats at the end
+  cyclePath: string | null;
+  danglingRefs: DanglingRef[];
+  warnings: string[];
+};
+
+// Same matching rule as the constraint engine: a ref names a task id or WBS code in the task's own project.
+const resolveRef = <T extends GraphTask>(task: GraphTask, ref: string, allTasks: T[]) =>
+  allTasks.find((candidate) =>
+    candidate.projectId === task.projectId && (candidate.id === ref || (candidate.wbs !== null && candidate.wbs === ref))
+  );
+
+const taskLabel = (task: GraphTask) => (task.wbs ? `${task.wbs} ${task.title}` : task.title);
+
+export const formatCyclePath = (cycle: GraphTask[]) =>
+  cycle.map((task) => `"${taskLabel(task)}"`).join(' → ');
+
+// Looks for a chain of predecessors that leads back to where it started. With `throughTaskIds`
+// only cycles containing one of those tasks count, so an older cycle elsewhere does not block an edit.
+export const findDependencyCycle = <T extends GraphTask>(allTasks: T[], throughTaskIds?: string[]): T[] | null => {
+  const byId = new Map(allTasks.map((task) => [task.id, task]));
+  const edges = new Map(allTasks.map((task) => [
+    task.id,
+    task.predecessors.flatMap((predecessor) => {
+      const match = resolveRef(task, predecessorRef(predecessor), allTasks);
+      return match ? [match.id] : [];
+    }),
+  ]));
+
+  for (const startId of throughTaskIds ?? allTasks.map((task) => task.id)) {
+    if (!byId.has(startId)) continue;
+    const visited = new Set<string>();
+    const path = [startId];
+    const search = (id: string): boolean => {
+      for (const next of edges.get(id) ?? []) {
+        if (next === startId) return true;
+        if (visited.has(next)) continue;
+        visited.add(next);
+        path.push(next);
+        if (search(next)) return true;
+        path.pop();
+      }
+      return false;
+    };
+    // The walk runs from successor to predecessor; reversed it reads in the order work would flow.
+    if (search(startId)) return [...path, startId].reverse().map((id) => byId.get(id) as T);
+  }
+  return null;
+};
+
+export const findDanglingRefs = (allTasks: GraphTask[], taskIds?: string[]): DanglingRef[] => {
+  const scope = taskIds ? allTasks.filter((task) => taskIds.includes(task.id)) : allTasks;
+  return scope.flatMap((task) =>
+    task.predecessors
+      .map(predecessorRef)
+      .filter((ref) => !resolveRef(task, ref, allTasks))
+      .map((ref) => ({ taskId: task.id, title: task.title, ref }))
+  );
+};
+
+export const describeDanglingRef = (dangling: DanglingRef) =>
+  `Task "${dangling.title}" depends on "${dangling.ref}", which matches no task in its project.`;
+
+export const validateTaskGraph = (allTasks: GraphTask[], taskIds?: string[]): GraphValidation => {
+  const cycle = findDependencyCycle(allTasks, taskIds);
+  const danglingRefs = findDanglingRefs(allTasks, taskIds);
+  return {
+    valid: cycle === null && danglingRefs.length === 0,
+    cycle: cycle ? cycle.map((task) => task.id) : null,
+    cyclePath: cycle ? formatCyclePath(cycle) : null,
+    danglingRefs,
+    warnings: danglingRefs.map(describeDanglingRef),
+  };
+};
+
+export class DependencyCycleError extends Error {
+  code: string;
+  status: number;
+  cycle: string[];
+
+  constructor(cycle: GraphTask[]) {
+    super(`Dependency cycle: ${formatCyclePath(cycle)}.`);
+    this.code = 'DEPENDENCY_CYCLE';
+    this.status = 400;
+    this.cycle = cycle.map((task) => task.id);
+  }
+}
+
+export const isDependencyCycleError = (error: unknown): error is DependencyCycleError =>
+  error instanceof DependencyCycleError;
+
+// Checks `task` as it would be saved against the rest of its project. Throws on a cycle through it
+// and returns warnings for refs that resolve to nothing.
+export const checkTaskGraph = async (db: DbExecutor, task: GraphTask) => {
+  const rows = await db.select().from(tasks).where(eq(tasks.projectId, task.projectId));
+  const projectTasks: GraphTask[] = [...rows.map(toTaskRecord).filter((row) => row.id !== task.id), task];
+  const cycle = findDependencyCycle(projectTasks, [task.id]);
+  if (cycle) throw new DependencyCycleError(cycle);
+  return findDanglingRefs(projectTasks, [task.id]).map(describeDanglingRef);
+};
+
+// Dates and constraints are left to the planner; only the graph is simulated.
+const applyProposedActions = (projectId: string, current: GraphTask[], actions: DraftAction[]) =>
+  actions.reduce((state, action, index) => {
+    if (action.entityType !== 'task') return state;
+    const after = (action.after ?? {}) as Record<string, unknown>;
+    if (action.action === 'delete') return state.filter((task) => task.id !== action.entityId);
+    if (action.action === 'update') {
+      return state.map((task) => (task.id !== action.entityId ? task : {
+        ...task,
+        title: typeof after.title === 'string' ? after.title : task.title,
+        wbs: typeof after.wbs === 'string' ? after.wbs : task.wbs,
+        predecessors: normalizePredecessors(after.predecessors) ?? task.predecessors,
+      }));
+    }
+    if (typeof after.projectId === 'string' && after.projectId !== projectId) return state;
+    return [...state, {
+      id: typeof after.id === 'string' ? after.id : `proposed-${index + 1}`,
+      projectId,
+      title: typeof after.title === 'string' ? after.title : 'Untitled Task',
+      wbs: typeof after.wbs === 'string' ? after.wbs : null,
+      predecessors: normalizePredecessors(after.predecessors) ?? [],
+    }];
+  }, current);
+
+export const validateProjectGraph = async (
+  db: DbExecutor,
+  projectId: string,
+  workspaceId: string,
+  actions: DraftAction[] = []
+): Promise<GraphValidation | null> => {
+  const project = await getProjectById(db, projectId, workspaceId);
+  if (!project) return null;
+  const rows = await db.select().from(tasks).where(eq(tasks.projectId, projectId));
+  return validateTaskGraph(applyProposedActions(projectId, rows.map(toTaskRecord), actions));
+};
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { renumberWbs, resolveParentIds, rollUpSummaries } from './hierarchyService';
+import type { TaskRecord } from './types';
+
+const day = 86_400_000;
+
+const baseTask = (overrides: Partial<TaskRecord>): TaskRecord => ({
+  id: 't1',
+  projectId: 'p1',
+  title: 'Task',
+  description: null,
+  status: 'TODO',
+  priority: 'LOW',
+  wbs: null,
+  parentId: null,
+  createdAt: 0,
+  startDate: 0,
+  dueDate: day,
+  completion: 0,
+  assignee: null,
+  estimatedHours: null,
+  actualHours: null,
+  isMilestone: false,
+  predecessors: [],
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe('hierarchyService', () => {
+  it('derives parents from WBS codes unless a parentId is set', () => {
+    const tasks = [
+      baseTask({ id: 'phase', wbs: '1' }),
+      baseTask({ id: 'design', wbs: '1.1' }),
+      baseTask({ id: 'deep', wbs: '1.1.4.2' }),
+      baseTask({ id: 'other', wbs: '2' }),
+      baseTask({ id: 'moved', wbs: '1.2', parentId: 'other' }),
+      baseTask({ id: 'elsewhere', projectId: 'p2', wbs: '1.3' }),
+    ];
+
+    const parents = resolveParentIds(tasks);
+    expect(parents.get('design')).toBe('phase');
+    expect(parents.get('deep')).toBe('design');
+    expect(parents.get('moved')).toBe('other');
+    expect(parents.get('elsewhere')).toBeNull();
+  });
+
+  it('drops explicit parent links that would loop', () => {
+    const parents = resolveParentIds([
+      baseTask({ id: 'a', parentId: 'b' }),
+      baseTask({ id: 'b', parentId: 'a' }),
+    ]);
+
+    expect([parents.get('a'), parents.get('b')]).toContain(null);
+  });
+
+  it('rolls dates, completion and status up through nested summaries', () => {
+    const tasks = [
+      baseTask({ id: 'phase', title: 'Phase', wbs: '1' }),
+      baseTask({ id: 'group', wbs: '1.1' }),
+      baseTask({ id: 'a', wbs: '1.1.1', startDate: day, dueDate: 2 * day, status: 'DONE', completion: 100 }),
+      baseTask({ id: 'b', wbs: '1.1.2', startDate: 2 * day, dueDate: 5 * day, status: 'IN_PROGRESS', completion: 40 }),
+      baseTask({ id: 'c', wbs: '1.2', startDate: 6 * day, dueDate: 7 * day }),
+    ];
+
+    const { tasks: rolled, changes } = rollUpSummaries(tasks, ['p1']);
+    const group = rolled.find((task) => task.id === 'group');
+    const phase = rolled.find((task) => task.id === 'phase');
+
+    expect(group).toMatchObject({ startDate: day, dueDate: 5 * day, completion: 55, status: 'IN_PROGRESS' });
+    expect(phase).toMatchObject({ startDate: day, dueDate: 7 * day, status: 'IN_PROGRESS' });
+    expect(changes.map((change) => change.task.id)).toEqual(['phase', 'group']);
+    expect(changes[0].message).toContain('"Phase"');
+  });
+
+  it('makes room for an inserted task and keeps predecessor codes on their targets', () => {
+    const tasks = [
+      baseTask({ id: 'phase', wbs: '1' }),
+      baseTask({ id: 'design', wbs: '1.1' }),
+      baseTask({ id: 'build', wbs: '1.2', createdAt: 1 }),
+      baseTask({ id: 'build-sub', wbs: '1.2.1' }),
+      baseTask({ id: 'test', wbs: '1.3', predecessors: ['1.2', { ref: '1.1', type: 'SS', lagDays: 1 }] }),
+      baseTask({ id: 'spike', wbs: '1.2', createdAt: 5 }),
+    ];
+
+    const { tasks: renumbered, changes } = renumberWbs(tasks, ['p1'], new Set(['spike']));
+    const codeOf = (id: string) => renumbered.find((task) => task.id === id)?.wbs;
+
+    expect(codeOf('spike')).toBe('1.2');
+    expect(codeOf('build')).toBe('1.3');
+    expect(codeOf('build-sub')).toBe('1.3.1');
+    expect(codeOf('test')).toBe('1.4');
+    expect(renumbered.find((task) => task.id === 'test')?.predecessors).toEqual(['1.3', { ref: '1.1', type: 'SS', lagDays: 1 }]);
+    expect(changes.map((change) => change.task.id).sort()).toEqual(['build', 'build-sub', 'test']);
+  });
+
+  it('numbers a task moved under a new parent and closes the gap it left', () => {
+    const tasks = [
+      baseTask({ id: 'one', wbs: '1' }),
+      baseTask({ id: 'two', wbs: '2' }),
+      baseTask({ id: 'three', wbs: '3', parentId: 'one' }),
+      baseTask({ id: 'four', wbs: '4', predecessors: ['3'] }),
+    ];
+    const previous = tasks.map((task) => (task.id === 'three' ? { ...task, parentId: null } : task));
+
+    const { tasks: renumbered } = renumberWbs(tasks, ['p1'], new Set(['three']), previous);
+    const byId = new Map(renumbered.map((task) => [task.id, task]));
+
+    expect(byId.get('three')?.wbs).toBe('1.1');
+    expect(byId.get('four')?.wbs).toBe('3');
+    expect(byId.get('four')?.predecessors).toEqual(['1.1']);
+  });
+});
@@ -0,0 +1,238 @@
+import { getTaskEnd, getTaskStart, predecessorRef } from './constraintService';
+import type { TaskPredecessor, TaskRecord, TaskStatus } from './types';
+
+const day = 86_400_000;
+
+export type HierarchyChange = {
+  task: TaskRecord;  // Task after the change
+  previous: TaskRecord;  // Task before this change
+  source: TaskRecord;  // Inserted, moved or edited task that made the change necessary
+  message: string;
+};
+
+// "1.2.3" → "1.2"; top-level codes have no parent.
+export const parentWbs = (wbs: string) => {
+  const index = wbs.lastIndexOf('.');
+  return index > 0 ? wbs.slice(0, index) : null;
+};
+
+export const compareWbs = (left: string | null, right: string | null) => {
+  if (left === right) return 0;
+  if (left === null) return 1;
+  if (right === null) return -1;
+  const a = left.split('.');
+  const b = right.split('.');
+  for (let index = 0; index < Math.max(a.length, b.length); index += 1) {
+    if (a[index] === undefined) return -1;
+    if (b[index] === undefined) return 1;
+    const order = a[index].localeCompare(b[index], undefined, { numeric: true });
+    if (order !== 0) return order;
+  }
+  return 0;
+};
+
+// When two tasks share a code, the one that was already there keeps it; an inserted or moved
+// task only takes over codes nobody else holds.
+const indexByWbs = (tasks: TaskRecord[], movedIds: Set<string>) => {
+  const byWbs = new Map<string, TaskRecord>();
+  for (const task of tasks) {
+    if (!task.wbs) continue;
+    const current = byWbs.get(task.wbs);
+    if (!current || (movedIds.has(current.id) && !movedIds.has(task.id))) byWbs.set(task.wbs, task);
+  }
+  return byWbs;
+};
+
+// Maps every task to its summary task: an explicit `parentId` in the same project wins, otherwise
+// the nearest task whose WBS code is a prefix of the task's own. Links that would loop are dropped.
+export const resolveParentIds = (tasks: TaskRecord[], movedIds: Set<string> = new Set()) => {
+  const parents = new Map<string, string | null>();
+  const byProject = new Map<string, TaskRecord[]>();
+  for (const task of tasks) byProject.set(task.projectId, [...(byProject.get(task.projectId) ?? []), task]);
+
+  for (const projectTasks of byProject.values()) {
+    const ids = new Set(projectTasks.map((task) => task.id));
+    const byWbs = indexByWbs(projectTasks, movedIds);
+    for (const task of projectTasks) {
+      if (task.parentId && task.parentId !== task.id && ids.has(task.parentId)) {
+        parents.set(task.id, task.parentId);
+        continue;
+      }
+      let code = task.wbs ? parentWbs(task.wbs) : null;
+      let parent: TaskRecord | undefined;
+      while (code && !parent) {
+        const match = byWbs.get(code);
+        if (match && match.id !== task.id) parent = match;
+        code = parentWbs(code);
+      }
+      parents.set(task.id, parent?.id ?? null);
+    }
+  }
+
+  for (const task of tasks) {
+    const seen = new Set([task.id]);
+    for (let parentId = parents.get(task.id); parentId; parentId = parents.get(parentId)) {
+      if (seen.has(parentId)) {
+        parents.set(task.id, null);
+        break;
+      }
+      seen.add(parentId);
+    }
+  }
+  return parents;
+};
+
+export const groupChildren = (tasks: TaskRecord[], parents: Map<string, string | null>) => {
+  const children = new Map<string, TaskRecord[]>();
+  for (const task of tasks) {
+    const parentId = parents.get(task.id);
+    if (parentId) children.set(parentId, [...(children.get(parentId) ?? []), task]);
+  }
+  return children;
+};
+
+export type SummaryValues = Pick<TaskRecord, 'startDate' | 'dueDate' | 'completion' | 'status'>;
+
+// Dates span the subtasks, completion is weighted by subtask length, and the status is DONE only
+// once every subtask is done.
+export const summarizeChildren = (children: TaskRecord[]): SummaryValues => {
+  const startDate = Math.min(...children.map(getTaskStart));
+  const dueDate = Math.max(...children.map(getTaskEnd));
+  let weighted = 0;
+  let total = 0;
+  for (const child of children) {
+    const weight = Math.max(day, getTaskEnd(child) - getTaskStart(child));
+    weighted += weight * (child.status === 'DONE' ? 100 : child.completion ?? 0);
+    total += weight;
+  }
+  const completion = Math.round(weighted / total);
+  let status: TaskStatus = 'IN_PROGRESS';
+  if (children.every((child) => child.status === 'DONE')) status = 'DONE';
+  else if (children.every((child) => child.status === 'TODO') && completion === 0) status = 'TODO';
+  return { startDate, dueDate, completion, status };
+};
+
+const describeRollUp = (previous: TaskRecord, next: TaskRecord) => {
+  const fields = [
+    previous.startDate !== next.startDate || previous.dueDate !== next.dueDate ? 'dates' : null,
+    previous.completion !== next.completion ? `completion ${next.completion}%` : null,
+    previous.status !== next.status ? `status ${next.status}` : null,
+  ].filter(Boolean);
+  return `Rolled up ${fields.join(', ')} of summary task "${next.title}" from its subtasks.`;
+};
+
+// Recomputes every summary task in the given projects from the bottom up, so nested summaries see
+// their subtasks' rolled-up values.
+export const rollUpSummaries = (
+  allTasks: TaskRecord[],
+  projectIds: string[],
+  sourceFor: (projectId: string) => TaskRecord | undefined = () => undefined
+) => {
+  const scope = new Set(projectIds);
+  const scoped = allTasks.filter((task) => scope.has(task.projectId));
+  const children = groupChildren(scoped, resolveParentIds(scoped));
+  const rolled = new Map<string, TaskRecord>();
+
+  const visit = (task: TaskRecord): TaskRecord => {
+    const cached = rolled.get(task.id);
+    if (cached) return cached;
+    const subtasks = children.get(task.id);
+    const next = subtasks?.length ? { ...task, ...summarizeChildren(subtasks.map(visit)) } : task;
+    rolled.set(task.id, next);
+    return next;
+  };
+  scoped.forEach(visit);
+
+  const changes: HierarchyChange[] = [];
+  const tasks = allTasks.map((task) => {
+    const next = rolled.get(task.id);
+    if (!next || next === task) return task;
+    if (next.startDate === task.startDate && next.dueDate === task.dueDate
+      && next.completion === task.completion && next.status === task.status) return task;
+    changes.push({ task: next, previous: task, source: sourceFor(task.projectId) ?? task, message: describeRollUp(task, next) });
+    return next;
+  });
+  return { tasks, changes };
+};
+
+// Numbers siblings 1, 2, 3... under their summary task's code. Siblings keep their current order;
+// an inserted or moved task goes ahead of the task whose code it took. Tasks outside the outline
+// (no code and no explicit parent) are left unnumbered.
+const assignWbs = (projectTasks: TaskRecord[], movedIds: Set<string>) => {
+  const parents = resolveParentIds(projectTasks, movedIds);
+  const children = groupChildren(projectTasks, parents);
+  const codes = new Map<string, string>();
+  const order = (siblings: TaskRecord[]) => [...siblings].sort((a, b) =>
+    compareWbs(a.wbs, b.wbs)
+    || Number(movedIds.has(b.id)) - Number(movedIds.has(a.id))
+    || a.createdAt - b.createdAt
+    || a.id.localeCompare(b.id)
+  );
+  const number = (siblings: TaskRecord[], prefix: string | null) => {
+    order(siblings).forEach((task, index) => {
+      const code = prefix ? `${prefix}.${index + 1}` : String(index + 1);
+      codes.set(task.id, code);
+      number(children.get(task.id) ?? [], code);
+    });
+  };
+  number(projectTasks.filter((task) => !parents.get(task.id) && task.wbs), null);
+  return { codes, parents };
+};
+
+// Renumbers the outline of the given projects after tasks were inserted, moved or deleted, and
+// rewrites predecessor refs that name a renumbered code so every link keeps its target.
+// `previousTasks` resolves codes that the edit itself removed from the outline.
+export const renumberWbs = (
+  allTasks: TaskRecord[],
+  projectIds: string[],
+  movedIds: Set<string>,
+  previousTasks: TaskRecord[] = [],
+  sourceFor: (projectId: string) => TaskRecord | undefined = () => undefined
+) => {
+  const scope = new Set(projectIds);
+  const renumbered = new Map<string, TaskRecord>();
+
+  for (const projectId of scope) {
+    const projectTasks = allTasks.filter((task) => task.projectId === projectId);
+    if (!projectTasks.some((task) => task.wbs)) continue;
+    const { codes } = assignWbs(projectTasks, movedIds);
+    const ids = new Set(projectTasks.map((task) => task.id));
+    const current = indexByWbs(projectTasks, movedIds);
+    const previous = indexByWbs(previousTasks.filter((task) => task.projectId === projectId && ids.has(task.id)), new Set());
+
+    const rewriteRef = (ref: string) => {
+      if (ids.has(ref)) return ref;
+      const target = current.get(ref) ?? previous.get(ref);
+      return target ? codes.get(target.id) ?? ref : ref;
+    };
+    const rewrite = (predecessor: TaskPredecessor): TaskPredecessor => {
+      const ref = predecessorRef(predecessor);
+      const next = rewriteRef(ref);
+      if (next === ref) return predecessor;
+      return typeof predecessor === 'string' ? next : { ...predecessor, ref: next };
+    };
+
+    for (const task of projectTasks) {
+      const wbs = codes.get(task.id) ?? task.wbs;
+      const predecessors = task.predecessors.map(rewrite);
+      if (wbs === task.wbs && predecessors.every((entry, index) => entry === task.predecessors[index])) continue;
+      renumbered.set(task.id, { ...task, wbs, predecessors });
+    }
+  }
+
+  const changes: HierarchyChange[] = [];
+  const tasks = allTasks.map((task) => {
+    const next = renumbered.get(task.id);
+    if (!next) return task;
+    changes.push({
+      task: next,
+      previous: task,
+      source: sourceFor(task.projectId) ?? task,
+      message: next.wbs !== task.wbs
+        ? `Renumbered "${task.title}" from ${task.wbs ?? '(none)'} to ${next.wbs}.`
+        : `Updated predecessor codes of "${task.title}" after renumbering.`,
+    });
+    return next;
+  });
+  return { tasks, changes };
+};
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_CALENDAR } from './calendarService';
+import { levelProject } from './levelingService';
+import type { TaskRecord } from './types';
+
+const at = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+const baseTask = (overrides: Partial<TaskRecord>): TaskRecord => ({
+  id: 't1',
+  projectId: 'p1',
+  title: 'Task',
+  description: null,
+  status: 'TODO',
+  priority: 'LOW',
+  wbs: null,
+  parentId: null,
+  createdAt: 0,
+  startDate: 0,
+  dueDate: 0,
+  completion: 0,
+  assignee: null,
+  estimatedHours: null,
+  actualHours: null,
+  isMilestone: false,
+  predecessors: [],
+  updatedAt: 0,
+  ...overrides,
+});
+
+const calendarOf = () => DEFAULT_CALENDAR;
+
+// A two-week task for someone else sets the project finish, leaving the short tasks float.
+const longTask = baseTask({ id: 'long', title: 'Long', assignee: 'Ben', startDate: at('2026-10-19'), dueDate: at('2026-10-31') });
+
+describe('levelingService', () => {
+  it('delays a non-critical task until its assignee has room', () => {
+    const tasks = [
+      longTask,
+      baseTask({ id: 'a', title: 'Design', assignee: 'Ana', priority: 'HIGH', startDate: at('2026-10-19'), dueDate: at('2026-10-21'), estimatedHours: 16 }),
+      baseTask({ id: 'b', title: 'Copy', assignee: 'Ana', startDate: at('2026-10-19'), dueDate: at('2026-10-21'), estimatedHours: 16 }),
+    ];
+
+    const plan = levelProject(tasks, [], calendarOf, DEFAULT_CALENDAR);
+
+    expect(plan.moves).toEqual([{
+      taskId: 'b',
+      title: 'Copy',
+      assignee: 'Ana',
+      before: { startDate: at('2026-10-19'), dueDate: at('2026-10-21') },
+      after: { startDate: at('2026-10-21'), dueDate: at('2026-10-23') },
+      delayDays: 2,
+    }]);
+    expect(plan.unresolved).toEqual([]);
+  });
+
+  it('keeps successors behind a delayed predecessor', () => {
+    const tasks = [
+      longTask,
+      baseTask({ id: 'a', title: 'Design', assignee: 'Ana', startDate: at('2026-10-19'), dueDate: at('2026-10-20'), estimatedHours: 8 }),
+      baseTask({ id: 'b', title: 'Review', assignee: 'Cy', startDate: at('2026-10-20'), dueDate: at('2026-10-21'), predecessors: ['a'] }),
+    ];
+    // Ana is fully booked on Monday in another project.
+    const other = [baseTask({ id: 'x', projectId: 'p2', assignee: 'Ana', startDate: at('2026-10-19'), dueDate: at('2026-10-20'), estimatedHours: 8 })];
+
+    const plan = levelProject(tasks, other, calendarOf, DEFAULT_CALENDAR);
+    const byId = new Map(plan.tasks.map((task) => [task.id, task]));
+
+    expect(plan.moves.map((move) => [move.taskId, move.delayDays])).toEqual([['a', 1], ['b', 1]]);
+    expect(byId.get('b')?.startDate).toBe(byId.get('a')?.dueDate);
+  });
+
+  it('measures the room to delay in working days, not across the weekend', () => {
+    const tasks = [
+      baseTask({ id: 'b', title: 'Build', assignee: 'Ana', startDate: at('2026-10-21'), dueDate: at('2026-10-22'), estimatedHours: 8 }),
+      baseTask({ id: 'c', title: 'Ship', assignee: 'Cy', startDate: at('2026-10-26'), dueDate: at('2026-10-27'), predecessors: [{ ref: 'b', type: 'FS', lagDays: 1 }] }),
+    ];
+    // Ana is booked Wednesday and Thursday; a Friday start would push Ship past Monday.
+    const other = [baseTask({ id: 'x', projectId: 'p2', assignee: 'Ana', startDate: at('2026-10-21'), dueDate: at('2026-10-23'), estimatedHours: 16 })];
+
+    const plan = levelProject(tasks, other, calendarOf, DEFAULT_CALENDAR);
+
+    expect(plan.moves).toEqual([]);
+    expect(plan.unresolved).toEqual([
+      '"Build" keeps Ana over capacity from 2026-10-21: it cannot move far enough without delaying the project finish.',
+    ]);
+  });
+
+  it('leaves critical tasks in place and reports the overload', () => {
+    const critical = baseTask({ id: 'a', title: 'Launch', assignee: 'Ana', startDate: at('2026-10-19'), dueDate: at('2026-10-21'), estimatedHours: 16 });
+    const other = [baseTask({ id: 'x', projectId: 'p2', assignee: 'Ana', startDate: at('2026-10-19'), dueDate: at('2026-10-20'), estimatedHours: 4 })];
+
+    const plan = levelProject([critical], other, calendarOf, DEFAULT_CALENDAR);
+
+    expect(plan.moves).toEqual([]);
+    expect(plan.unresolved).toEqual(['"Launch" keeps Ana over capacity from 2026-10-19: it is on the critical path.']);
+  });
+});
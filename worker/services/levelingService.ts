@@ -0,0 +1,216 @@
+import { eq } from 'drizzle-orm';
+import { tasks } from '../db/schema';
+import type { DbExecutor } from '../db';
+import {
+  addWorkingTime,
+  calendarForAssignee,
+  getCalendarLookup,
+  getWorkspaceCalendar,
+  nextWorkingTime,
+  workingDaysBetween,
+  workingTimeBetween,
+} from './calendarService';
+import { getTaskEnd, getTaskStart, resolveDependencyConflicts, toTaskLink } from './constraintService';
+import { createDraft } from './draftService';
+import { groupChildren, resolveParentIds } from './hierarchyService';
+import { getProjectById } from './projectService';
+import { computeSchedule } from './scheduleService';
+import { toTaskRecord } from './serializers';
+import { generateId } from './utils';
+import { carriesLoad, dailyCapacity, distributeEffort, listAssignedTasks } from './workloadService';
+import type { DraftAction, DraftRecord, TaskRecord, WorkCalendar } from './types';
+
+const day = 86_400_000;
+// A task is never pushed more than this many working days, float or not.
+const MAX_DELAY_DAYS = 366;
+// Spreading an estimate leaves rounding noise; a day is only over capacity beyond it.
+const EPSILON = 1e-6;
+
+const PRIORITY_RANK: Record<TaskRecord['priority'], number> = { HIGH: 0, MEDIUM: 1, LOW: 2 };
+
+export type LevelingMove = {
+  taskId: string;
+  title: string;
+  assignee: string;
+  before: { startDate: number; dueDate: number };
+  after: { startDate: number; dueDate: number };
+  delayDays: number;  // Working days the task starts later
+};
+
+export type LevelingPlan = {
+  tasks: TaskRecord[];
+  moves: LevelingMove[];
+  unresolved: string[];  // Tasks that still put their assignee over capacity
+};
+
+export type LevelingResult = {
+  draft: DraftRecord | null;  // null when nothing needs to move
+  moves: LevelingMove[];
+  warnings: string[];
+};
+
+const formatDay = (value: number) => new Date(value).toISOString().split('T')[0];
+
+// Predecessor refs inside the project, matched by ID first and then by WBS code.
+const indexPredecessors = (projectTasks: TaskRecord[]) => {
+  const byRef = new Map<string, string>();
+  for (const task of projectTasks) {
+    if (task.wbs && !byRef.has(task.wbs)) byRef.set(task.wbs, task.id);
+  }
+  for (const task of projectTasks) byRef.set(task.id, task.id);
+  return new Map(projectTasks.map((task) => [
+    task.id,
+    task.predecessors
+      .map((entry) => byRef.get(toTaskLink(entry).ref))
+      .filter((id): id is string => Boolean(id) && id !== task.id),
+  ]));
+};
+
+// Serial leveling: tasks are placed one at a time, least float first, against a day-by-day load
+// profile that starts with the assignees' work in other projects. A task that does not fit is
+// delayed a working day at a time, but never past its late start, so the project finish holds.
+// Critical, started and summary tasks stay where they are.
+export const levelProject = (
+  projectTasks: TaskRecord[],
+  otherTasks: TaskRecord[],
+  calendarOf: (projectId: string) => WorkCalendar,
+  capacityCalendar: WorkCalendar
+): LevelingPlan => {
+  if (projectTasks.length === 0) return { tasks: [], moves: [], unresolved: [] };
+  const calendarFor = (task: TaskRecord) => calendarForAssignee(calendarOf(task.projectId), task.assignee);
+  // Late starts come from the same working calendars the delays below step through.
+  const schedule = computeSchedule(projectTasks[0].projectId, projectTasks, calendarFor);
+  const lateStart = new Map(schedule.tasks.map((entry) => [entry.taskId, entry.lateStart]));
+  const critical = new Set(schedule.criticalPath);
+  const summaries = new Set(groupChildren(projectTasks, resolveParentIds(projectTasks)).keys());
+  const predecessors = indexPredecessors(projectTasks);
+
+  const profile = new Map<string, Map<string, number>>();
+  const addLoad = (task: TaskRecord) => {
+    if (!carriesLoad(task)) return;
+    const load = profile.get(task.assignee as string) ?? new Map<string, number>();
+    for (const [date, hours] of distributeEffort(task, calendarFor(task))) load.set(date, (load.get(date) ?? 0) + hours);
+    profile.set(task.assignee as string, load);
+  };
+  const fits = (task: TaskRecord) => {
+    if (!carriesLoad(task)) return true;
+    const assignee = task.assignee as string;
+    const load = profile.get(assignee);
+    for (const [date, hours] of distributeEffort(task, calendarFor(task))) {
+      if ((load?.get(date) ?? 0) + hours > dailyCapacity(capacityCalendar, assignee, date) + EPSILON) return false;
+    }
+    return true;
+  };
+  const fixedReason = (task: TaskRecord) => {
+    if (summaries.has(task.id)) return 'it is a summary task';
+    if (task.status !== 'TODO' || (task.completion ?? 0) > 0) return 'it has already started';
+    if (critical.has(task.id)) return 'it is on the critical path';
+    return null;
+  };
+
+  otherTasks.forEach(addLoad);
+
+  let state = projectTasks;
+  const placed = new Set<string>();
+  const moves: LevelingMove[] = [];
+  const unresolved: string[] = [];
+
+  while (placed.size < state.length) {
+    const remaining = state.filter((task) => !placed.has(task.id));
+    const ready = remaining.filter((task) => (predecessors.get(task.id) ?? []).every((id) => placed.has(id)));
+    // Only a dependency cycle leaves nothing ready; its tasks are then placed as they come.
+    const [task] = (ready.length > 0 ? ready : remaining).sort((left, right) =>
+      ((lateStart.get(left.id) ?? 0) - (lateStart.get(right.id) ?? 0))
+      || (PRIORITY_RANK[left.priority] - PRIORITY_RANK[right.priority])
+      || (getTaskStart(left) - getTaskStart(right))
+    );
+    placed.add(task.id);
+
+    const reason = fixedReason(task);
+    const calendar = calendarFor(task);
+    // Predecessors placed earlier may have been delayed; the task has to follow them.
+    const current = reason ? task : resolveDependencyConflicts(task, state, calendar).task;
+    let chosen: TaskRecord | null = fits(current) ? current : null;
+
+    if (!chosen && !reason) {
+      const start = nextWorkingTime(calendar, getTaskStart(current));
+      const duration = Math.max(day, workingTimeBetween(calendar, getTaskStart(current), getTaskEnd(current)));
+      const latest = Math.max(lateStart.get(task.id) ?? start, getTaskStart(current));
+      for (let delay = 1; delay <= MAX_DELAY_DAYS && !chosen; delay += 1) {
+        const nextStart = addWorkingTime(calendar, start, delay * day);
+        if (nextStart > latest) break;
+        const candidate = { ...current, startDate: nextStart, dueDate: addWorkingTime(calendar, nextStart, duration) };
+        if (fits(candidate)) chosen = candidate;
+      }
+    }
+
+    if (!chosen) {
+      const why = reason ?? 'it cannot move far enough without delaying the project finish';
+      unresolved.push(`"${task.title}" keeps ${task.assignee} over capacity from ${formatDay(getTaskStart(current))}: ${why}.`);
+      chosen = current;
+    }
+
+    addLoad(chosen);
+    const next = chosen;
+    state = state.map((entry) => (entry.id === next.id ? next : entry));
+    if (getTaskStart(next) !== getTaskStart(task)) {
+      moves.push({
+        taskId: task.id,
+        title: task.title,
+        assignee: task.assignee ?? '',
+        before: { startDate: getTaskStart(task), dueDate: getTaskEnd(task) },
+        after: { startDate: getTaskStart(next), dueDate: getTaskEnd(next) },
+        delayDays: workingDaysBetween(calendar, getTaskStart(task), getTaskStart(next)),
+      });
+    }
+  }
+
+  return { tasks: state, moves, unresolved };
+};
+
+// Proposes a leveled schedule for one project as a system draft, so it is reviewed, approved,
+// applied and audited like any other change. Nothing is written when no task needs to move.
+export const proposeLeveling = async (
+  db: DbExecutor,
+  projectId: string,
+  workspaceId: string,
+  options: { createdByUserId?: string | null } = {}
+): Promise<LevelingResult | null> => {
+  const project = await getProjectById(db, projectId, workspaceId);
+  if (!project) return null;
+  const rows = await db.select().from(tasks).where(eq(tasks.projectId, projectId));
+  const projectTasks = rows.map(toTaskRecord);
+  const assignees = Array.from(new Set(projectTasks.flatMap((task) => (task.assignee ? [task.assignee] : []))));
+  const otherTasks = (await listAssignedTasks(db, workspaceId, assignees)).filter((task) => task.projectId !== projectId);
+  const calendarOf = await getCalendarLookup(
+    db,
+    Array.from(new Set([projectId, ...otherTasks.map((task) => task.projectId)])),
+    workspaceId
+  );
+  const plan = levelProject(projectTasks, otherTasks, calendarOf, await getWorkspaceCalendar(db, workspaceId));
+
+  if (plan.moves.length === 0) {
+    return {
+      draft: null,
+      moves: [],
+      warnings: plan.unresolved.length > 0 ? plan.unresolved : ['Everyone on this project is within capacity; nothing to level.'],
+    };
+  }
+
+  const actions: DraftAction[] = plan.moves.map((move) => ({
+    id: generateId(),
+    entityType: 'task',
+    action: 'update',
+    entityId: move.taskId,
+    after: { startDate: move.after.startDate, dueDate: move.after.dueDate },
+  }));
+  const result = await createDraft(db, {
+    actions,
+    createdBy: 'system',
+    createdByUserId: options.createdByUserId ?? null,
+    reason: `Resource leveling for "${project.name}": delays ${plan.moves.length} task(s) within their float to keep assignees within capacity.`,
+    projectId,
+    workspaceId,
+  });
+  return { draft: result.draft, moves: plan.moves, warnings: [...plan.unresolved, ...result.warnings] };
+};
@@ -1,11 +1,12 @@
 import { and, eq, sql } from 'drizzle-orm';
 import { projects, tasks } from '../db/schema';
+import type { DbExecutor } from '../db';
 import { toProjectRecord } from './serializers';
 import { generateId, now } from './utils';
 import type { ProjectRecord } from './types';
 
 export const listProjects = async (
-  db: ReturnType<typeof import('../db').getDb>,
+  db: DbExecutor,
   workspaceId: string
 ): Promise<ProjectRecord[]> => {
   const rows = await db
@@ -17,7 +18,7 @@ export const listProjects = async (
 };
 
 export const getProjectById = async (
-  db: ReturnType<typeof import('../db').getDb>,
+  db: DbExecutor,
   id: string,
   workspaceId: string
 ): Promise<ProjectRecord | null> => {
@@ -31,7 +32,7 @@ export const getProjectById = async (
 };
 
 export const createProject = async (
-  db: ReturnType<typeof import('../db').getDb>,
+  db: DbExecutor,
   data: { id?: string; name: string; description?: string; icon?: string; createdAt?: number; updatedAt?: number; workspaceId: string }
 ): Promise<ProjectRecord> => {
   const timestamp = now();
@@ -51,9 +52,9 @@ export const createProject = async (
 };
 
 export const updateProject = async (
-  db: ReturnType<typeof import('../db').getDb>,
+  db: DbExecutor,
   id: string,
-  data: { name?: string; description?: string; icon?: string },
+  data: { name?: string; description?: string | null; icon?: string | null },
   workspaceId: string
 ): Promise<ProjectRecord | null> => {
   const existingRows = await db
@@ -66,8 +67,8 @@ export const updateProject = async (
 
   const next = {
     name: data.name ?? existing.name,
-    description: data.description ?? existing.description,
-    icon: data.icon ?? existing.icon,
+    description: data.description === undefined ? existing.description : data.description,
+    icon: data.icon === undefined ? existing.icon : data.icon,
     updatedAt: now(),
   };
 
@@ -76,7 +77,7 @@ export const updateProject = async (
 };
 
 export const deleteProject = async (
-  db: ReturnType<typeof import('../db').getDb>,
+  db: DbExecutor,
   id: string,
   workspaceId: string
 ): Promise<{ project: ProjectRecord | null; deletedTasks: number }> => {
@@ -112,3 +113,22 @@ export const deleteProject = async (
 
   return { project: toProjectRecord(existing), deletedTasks: taskCount };
 };
+
+export const restoreProject = async (
+  db: DbExecutor,
+  snapshot: ProjectRecord,
+  workspaceId: string
+): Promise<ProjectRecord | null> => {
+  const existing = await getProjectById(db, snapshot.id, workspaceId);
+  if (!existing) return null;
+
+  const next = {
+    name: snapshot.name ?? existing.name,
+    description: snapshot.description ?? null,
+    icon: snapshot.icon ?? null,
+    updatedAt: now(),
+  };
+
+  await db.update(projects).set(next).where(eq(projects.id, snapshot.id));
+  return { ...existing, ...next };
+};
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { computeSchedule } from './scheduleService';
+import type { TaskRecord, WorkCalendar } from './types';
+
+const day = 86_400_000;
+
+const baseTask = (overrides: Partial<TaskRecord>): TaskRecord => ({
+  id: 't1',
+  projectId: 'p1',
+  title: 'Task',
+  description: null,
+  status: 'TODO',
+  priority: 'LOW',
+  wbs: null,
+  parentId: null,
+  createdAt: 0,
+  startDate: 0,
+  dueDate: day,
+  completion: 0,
+  assignee: null,
+  estimatedHours: null,
+  actualHours: null,
+  isMilestone: false,
+  predecessors: [],
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe('scheduleService', () => {
+  it('finds the critical path and the float of parallel work', () => {
+    const tasks = [
+      baseTask({ id: 'a', wbs: '1', startDate: 0, dueDate: 2 * day }),
+      baseTask({ id: 'b', startDate: 2 * day, dueDate: 6 * day, predecessors: ['1'] }),
+      baseTask({ id: 'c', startDate: 2 * day, dueDate: 3 * day, predecessors: ['a'] }),
+      baseTask({ id: 'd', startDate: 6 * day, dueDate: 7 * day, predecessors: ['b', 'c'] }),
+    ];
+
+    const schedule = computeSchedule('p1', tasks);
+    const byId = new Map(schedule.tasks.map((task) => [task.taskId, task]));
+
+    expect(schedule.criticalPath).toEqual(['a', 'b', 'd']);
+    expect(schedule.finish).toBe(7 * day);
+    expect(byId.get('c')).toMatchObject({ totalFloat: 3 * day, freeFloat: 3 * day, lateFinish: 6 * day, isCritical: false });
+  });
+
+  it('starts a task no earlier than its predecessors finish', () => {
+    const tasks = [
+      baseTask({ id: 'a', startDate: 0, dueDate: 3 * day }),
+      baseTask({ id: 'b', startDate: day, dueDate: 2 * day, predecessors: ['a'] }),
+    ];
+
+    const schedule = computeSchedule('p1', tasks);
+
+    expect(schedule.tasks.find((task) => task.taskId === 'b')).toMatchObject({ earlyStart: 3 * day, earlyFinish: 4 * day });
+  });
+
+  it('lets a start-to-start link with a lead overlap its predecessor', () => {
+    const tasks = [
+      baseTask({ id: 'a', startDate: 0, dueDate: 4 * day }),
+      baseTask({ id: 'b', startDate: 0, dueDate: 2 * day, predecessors: [{ ref: 'a', type: 'SS', lagDays: 1 }] }),
+    ];
+
+    const schedule = computeSchedule('p1', tasks);
+    const b = schedule.tasks.find((task) => task.taskId === 'b');
+
+    expect(b).toMatchObject({ earlyStart: day, earlyFinish: 3 * day, totalFloat: day });
+    expect(schedule.criticalPath).toEqual(['a']);
+  });
+
+  it('counts float and lag in working days on the project calendar', () => {
+    const weekdays: WorkCalendar = { workingDays: [1, 2, 3, 4, 5], holidays: [], availability: {}, hoursPerDay: 8 };
+    // Day 4 is Monday 1970-01-05; b runs Thursday to Monday and d follows on Tuesday.
+    const tasks = [
+      baseTask({ id: 'a', startDate: 4 * day, dueDate: 7 * day }),
+      baseTask({ id: 'b', startDate: 7 * day, dueDate: 12 * day, predecessors: ['a'] }),
+      baseTask({ id: 'c', startDate: 7 * day, dueDate: 8 * day, predecessors: ['a'] }),
+      baseTask({ id: 'd', startDate: 12 * day, dueDate: 13 * day, predecessors: ['b', { ref: 'c', type: 'FS', lagDays: 1 }] }),
+    ];
+
+    const schedule = computeSchedule('p1', tasks, () => weekdays);
+    const byId = new Map(schedule.tasks.map((task) => [task.taskId, task]));
+
+    expect(schedule.criticalPath).toEqual(['a', 'b', 'd']);
+    expect(byId.get('b')).toMatchObject({ earlyFinish: 12 * day, lateStart: 7 * day, totalFloat: 0 });
+    // The weekend neither adds float to c nor stretches its one-day lag.
+    expect(byId.get('c')).toMatchObject({ lateStart: 8 * day, totalFloat: day, freeFloat: day, isCritical: false });
+  });
+
+  it('still schedules tasks caught in a cycle and warns about them', () => {
+    const tasks = [
+      baseTask({ id: 'a', title: 'A', predecessors: ['b'] }),
+      baseTask({ id: 'b', title: 'B', predecessors: ['a'] }),
+    ];
+
+    const schedule = computeSchedule('p1', tasks);
+
+    expect(schedule.tasks).toHaveLength(2);
+    expect(schedule.warnings[0]).toContain('A, B');
+  });
+});
@@ -0,0 +1,211 @@
+import { eq } from 'drizzle-orm';
+import { tasks } from '../db/schema';
+import type { DbExecutor } from '../db';
+import { addWorkingTime, calendarForAssignee, CONTINUOUS_CALENDAR, getCalendarLookup, workingTimeBetween } from './calendarService';
+import { getTaskEnd, getTaskStart, linkedStart, toTaskLink } from './constraintService';
+import { getProjectById } from './projectService';
+import { toTaskRecord } from './serializers';
+import type { TaskLink, TaskRecord, WorkCalendar } from './types';
+
+const DAY_MS = 86_400_000;
+
+export type TaskSchedule = {
+  taskId: string;
+  earlyStart: number;
+  earlyFinish: number;
+  lateStart: number;
+  lateFinish: number;
+  totalFloat: number;  // Working time (ms) the task can slip without moving the project finish
+  freeFloat: number;  // Working time (ms) the task can slip without moving any successor
+  isCritical: boolean;
+};
+
+export type ProjectSchedule = {
+  projectId: string;
+  start: number;
+  finish: number;
+  tasks: TaskSchedule[];
+  criticalPath: string[];  // Critical task IDs in early-start order
+  warnings: string[];
+};
+
+type Edge = { from: string; to: string; link: TaskLink };
+
+// Predecessor refs match a task ID first, then a WBS code; unmatched refs are ignored here.
+const buildGraph = (projectTasks: TaskRecord[]) => {
+  const byRef = new Map<string, TaskRecord>();
+  for (const task of projectTasks) {
+    if (task.wbs && !byRef.has(task.wbs)) byRef.set(task.wbs, task);
+  }
+  for (const task of projectTasks) byRef.set(task.id, task);
+
+  const predecessors = new Map<string, Edge[]>();
+  const successors = new Map<string, Edge[]>(projectTasks.map((task) => [task.id, []]));
+  for (const task of projectTasks) {
+    const edges = new Map<string, Edge>();
+    for (const entry of task.predecessors ?? []) {
+      const link = toTaskLink(entry);
+      const match = byRef.get(link.ref);
+      if (match && match.id !== task.id && !edges.has(match.id)) {
+        edges.set(match.id, { from: match.id, to: task.id, link });
+      }
+    }
+    predecessors.set(task.id, Array.from(edges.values()));
+    for (const edge of edges.values()) successors.get(edge.from)?.push(edge);
+  }
+  return { predecessors, successors };
+};
+
+// Kahn's algorithm; tasks caught in a cycle are appended afterwards so they still get dates.
+const orderTasks = (
+  projectTasks: TaskRecord[],
+  predecessors: Map<string, Edge[]>,
+  successors: Map<string, Edge[]>
+) => {
+  const byStart = [...projectTasks].sort((a, b) => getTaskStart(a) - getTaskStart(b));
+  const remaining = new Map(byStart.map((task) => [task.id, predecessors.get(task.id)?.length ?? 0]));
+  const queue = byStart.filter((task) => remaining.get(task.id) === 0).map((task) => task.id);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    order.push(id);
+    for (const { to: next } of successors.get(id) ?? []) {
+      const count = (remaining.get(next) ?? 0) - 1;
+      remaining.set(next, count);
+      if (count === 0) queue.push(next);
+    }
+  }
+  const cyclic = byStart.filter((task) => !order.includes(task.id)).map((task) => task.id);
+  return { order: [...order, ...cyclic], cyclic };
+};
+
+// Working time from `start` to `end` on a calendar, negative when `end` comes first.
+const signedWorkingTime = (calendar: WorkCalendar, start: number, end: number) =>
+  end >= start ? workingTimeBetween(calendar, start, end) : -workingTimeBetween(calendar, end, start);
+
+// Durations, lags and float are working time on each task's calendar; links are measured on the
+// successor's calendar, as when dependencies shift a task.
+export const computeSchedule = (
+  projectId: string,
+  projectTasks: TaskRecord[],
+  calendarFor: (task: TaskRecord) => WorkCalendar = () => CONTINUOUS_CALENDAR
+): ProjectSchedule => {
+  const warnings: string[] = [];
+  if (projectTasks.length === 0) {
+    return { projectId, start: 0, finish: 0, tasks: [], criticalPath: [], warnings };
+  }
+  const taskById = new Map(projectTasks.map((task) => [task.id, task]));
+  const { predecessors, successors } = buildGraph(projectTasks);
+  const { order, cyclic } = orderTasks(projectTasks, predecessors, successors);
+  if (cyclic.length > 0) {
+    const titles = cyclic.map((id) => taskById.get(id)?.title ?? id).join(', ');
+    warnings.push(`Dependency cycle detected between: ${titles}. Their float is approximate.`);
+  }
+
+  const calendars = new Map(projectTasks.map((task) => [task.id, calendarFor(task)]));
+  const calendarOf = (id: string) => calendars.get(id) as WorkCalendar;
+  const durations = new Map(projectTasks.map((task) => [
+    task.id,
+    workingTimeBetween(calendarOf(task.id), getTaskStart(task), getTaskEnd(task)),
+  ]));
+  const duration = (id: string) => durations.get(id) as number;
+
+  // Forward pass: a task starts at its planned start or as soon as every link allows, whichever is later.
+  const earlyStart = new Map<string, number>();
+  const earlyFinish = new Map<string, number>();
+  for (const id of order) {
+    const task = taskById.get(id) as TaskRecord;
+    const calendar = calendarOf(id);
+    let start = getTaskStart(task);
+    for (const edge of predecessors.get(id) ?? []) {
+      const predStart = earlyStart.get(edge.from);
+      const predFinish = earlyFinish.get(edge.from);
+      if (predStart === undefined || predFinish === undefined) continue;
+      start = Math.max(start, linkedStart(edge.link, { start: predStart, end: predFinish }, duration(id), calendar));
+    }
+    earlyStart.set(id, start);
+    earlyFinish.set(id, addWorkingTime(calendar, start, duration(id)));
+  }
+
+  const projectStart = Math.min(...earlyStart.values());
+  const projectFinish = Math.max(...earlyFinish.values());
+
+  // Backward pass: the latest finish that still lets every successor keep its late dates. Each link
+  // is undone on the successor's calendar; start-based links then add the task's own duration back.
+  const lateStart = new Map<string, number>();
+  const lateFinish = new Map<string, number>();
+  for (const id of [...order].reverse()) {
+    const calendar = calendarOf(id);
+    let finish = projectFinish;
+    for (const edge of successors.get(id) ?? []) {
+      const succStart = lateStart.get(edge.to);
+      const succFinish = lateFinish.get(edge.to);
+      if (succStart === undefined || succFinish === undefined) continue;
+      const succCalendar = calendarOf(edge.to);
+      const lag = edge.link.lagDays * DAY_MS;
+      const limit = {
+        FS: addWorkingTime(succCalendar, succStart, -lag),
+        SS: addWorkingTime(calendar, addWorkingTime(succCalendar, succStart, -lag), duration(id)),
+        FF: addWorkingTime(succCalendar, succFinish, -lag),
+        SF: addWorkingTime(calendar, addWorkingTime(succCalendar, succFinish, -lag), duration(id)),
+      }[edge.link.type];
+      finish = Math.min(finish, limit);
+    }
+    lateFinish.set(id, finish);
+    lateStart.set(id, addWorkingTime(calendar, finish, -duration(id)));
+  }
+
+  // Free float: the smallest gap between what a link requires of a successor and its early dates.
+  const linkGap = (edge: Edge) => {
+    const calendar = calendarOf(edge.to);
+    const required = linkedStart(
+      edge.link,
+      { start: earlyStart.get(edge.from) as number, end: earlyFinish.get(edge.from) as number },
+      duration(edge.to),
+      calendar
+    );
+    return signedWorkingTime(calendar, required, earlyStart.get(edge.to) as number);
+  };
+
+  const schedules = order.map((id): TaskSchedule => {
+    const es = earlyStart.get(id) as number;
+    const ef = earlyFinish.get(id) as number;
+    const ls = lateStart.get(id) as number;
+    const next = successors.get(id) ?? [];
+    const freeFloat = next.length > 0 ? Math.min(...next.map(linkGap)) : signedWorkingTime(calendarOf(id), ef, projectFinish);
+    const totalFloat = signedWorkingTime(calendarOf(id), es, ls);
+    return {
+      taskId: id,
+      earlyStart: es,
+      earlyFinish: ef,
+      lateStart: ls,
+      lateFinish: lateFinish.get(id) as number,
+      totalFloat,
+      freeFloat: Math.max(0, freeFloat),
+      isCritical: totalFloat <= 0,
+    };
+  });
+
+  const criticalPath = schedules
+    .filter((schedule) => schedule.isCritical)
+    .sort((a, b) => a.earlyStart - b.earlyStart)
+    .map((schedule) => schedule.taskId);
+
+  return { projectId, start: projectStart, finish: projectFinish, tasks: schedules, criticalPath, warnings };
+};
+
+export const getProjectSchedule = async (
+  db: DbExecutor,
+  projectId: string,
+  workspaceId: string
+): Promise<ProjectSchedule | null> => {
+  const project = await getProjectById(db, projectId, workspaceId);
+  if (!project) return null;
+  const rows = await db.select().from(tasks).where(eq(tasks.projectId, projectId));
+  const calendarOf = await getCalendarLookup(db, [projectId], workspaceId);
+  return computeSchedule(
+    projectId,
+    rows.map(toTaskRecord),
+    (task) => calendarForAssignee(calendarOf(task.projectId), task.assignee)
+  );
+};
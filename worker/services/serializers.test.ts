@@ -11,11 +11,14 @@ describe('serializers', () => {
       status: 'TODO',
       priority: 'LOW',
       wbs: null,
+      parentId: null,
       createdAt: 1,
       startDate: 1,
       dueDate: 2,
       completion: 0,
       assignee: null,
+      estimatedHours: null,
+      actualHours: null,
       isMilestone: true,
       predecessors: ['a', 'b'],
       updatedAt: 1,
@@ -34,11 +37,14 @@ describe('serializers', () => {
       status: 'TODO',
       priority: 'LOW',
       wbs: null,
+      parentId: null,
       createdAt: 1,
       startDate: 1,
       dueDate: 2,
       completion: 0,
       assignee: null,
+      estimatedHours: null,
+      actualHours: null,
       isMilestone: false,
       predecessors: null,
       updatedAt: 1,
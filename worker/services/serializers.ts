@@ -1,4 +1,4 @@
-import type { ProjectRecord, TaskRecord } from './types';
+import type { ProjectRecord, TaskPredecessor, TaskRecord } from './types';
 
 export const toProjectRecord = (row: {
   id: string;
@@ -26,13 +26,16 @@ export const toTaskRecord = (row: {
   status: string;
   priority: string;
   wbs: string | null;
+  parentId: string | null;
   createdAt: number;
   startDate: number | null;
   dueDate: number | null;
   completion: number | null;
   assignee: string | null;
+  estimatedHours: number | null;
+  actualHours: number | null;
   isMilestone: boolean;
-  predecessors: string[] | null;
+  predecessors: TaskPredecessor[] | null;
   updatedAt: number;
 }): TaskRecord => ({
   id: row.id,
@@ -42,11 +45,14 @@ export const toTaskRecord = (row: {
   status: row.status as TaskRecord['status'],
   priority: row.priority as TaskRecord['priority'],
   wbs: row.wbs,
+  parentId: row.parentId,
   createdAt: row.createdAt,
   startDate: row.startDate,
   dueDate: row.dueDate,
   completion: row.completion,
   assignee: row.assignee,
+  estimatedHours: row.estimatedHours,
+  actualHours: row.actualHours,
   isMilestone: row.isMilestone,
   predecessors: row.predecessors ?? [],
   updatedAt: row.updatedAt,
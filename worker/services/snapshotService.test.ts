@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getProjectHistory, getProjectStateAt } from './snapshotService';
+import type { ProjectRecord, TaskRecord } from './types';
+
+vi.mock('./projectService', () => ({
+  getProjectById: vi.fn(),
+}));
+
+import { getProjectById } from './projectService';
+
+const project: ProjectRecord = {
+  id: 'p1',
+  workspaceId: 'w1',
+  name: 'Alpha',
+  description: null,
+  icon: null,
+  createdAt: 100,
+  updatedAt: 100,
+};
+
+const baseTask = (overrides: Partial<TaskRecord>): TaskRecord => ({
+  id: 't1',
+  projectId: 'p1',
+  title: 'Task',
+  description: null,
+  status: 'TODO',
+  priority: 'LOW',
+  wbs: null,
+  parentId: null,
+  createdAt: 100,
+  startDate: null,
+  dueDate: null,
+  completion: 0,
+  assignee: null,
+  estimatedHours: null,
+  actualHours: null,
+  isMilestone: false,
+  predecessors: [],
+  updatedAt: 100,
+  ...overrides,
+});
+
+// Task rows are awaited straight from `where`; audit rows go through `orderBy`.
+const buildDb = (taskRows: TaskRecord[], auditRows: Array<{ entityType: string; entityId: string; before: unknown; timestamp?: number }>) => ({
+  select: () => ({
+    from: () => ({
+      where: () => Object.assign(Promise.resolve(taskRows), {
+        orderBy: async () => auditRows,
+      }),
+    }),
+  }),
+});
+
+describe('snapshotService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('undoes task edits and creations made after the timestamp', async () => {
+    (getProjectById as ReturnType<typeof vi.fn>).mockResolvedValue(project);
+    const db = buildDb(
+      [baseTask({ title: 'Renamed', updatedAt: 300 }), baseTask({ id: 't2', createdAt: 250 })],
+      [
+        { entityType: 'task', entityId: 't2', before: null },
+        { entityType: 'task', entityId: 't1', before: baseTask({ title: 'Original' }) },
+      ]
+    );
+
+    const result = await getProjectStateAt(db as any, 'p1', 200, 'w1');
+
+    expect(result?.tasks.map((task) => task.title)).toEqual(['Original']);
+  });
+
+  it('brings back a project and its tasks deleted after the timestamp', async () => {
+    (getProjectById as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+    const db = buildDb([], [
+      { entityType: 'project', entityId: 'p1', before: { project, tasks: [baseTask({})] } },
+    ]);
+
+    const result = await getProjectStateAt(db as any, 'p1', 200, 'w1');
+
+    expect(result?.project.name).toBe('Alpha');
+    expect(result?.tasks).toHaveLength(1);
+  });
+
+  it('returns null before the project was created', async () => {
+    (getProjectById as ReturnType<typeof vi.fn>).mockResolvedValue(project);
+    const db = buildDb([], [{ entityType: 'project', entityId: 'p1', before: null }]);
+
+    expect(await getProjectStateAt(db as any, 'p1', 50, 'w1')).toBeNull();
+  });
+
+  it('replays several moments in one pass', async () => {
+    (getProjectById as ReturnType<typeof vi.fn>).mockResolvedValue(project);
+    const db = buildDb([baseTask({ completion: 80 })], [
+      { entityType: 'task', entityId: 't1', before: baseTask({ completion: 40 }), timestamp: 400 },
+      { entityType: 'task', entityId: 't1', before: baseTask({ completion: 0 }), timestamp: 300 },
+      { entityType: 'project', entityId: 'p1', before: null, timestamp: 100 },
+    ]);
+
+    const result = await getProjectHistory(db as any, 'p1', [50, 350, 200, 500], 'w1');
+
+    expect(result?.map((entry) => [entry.at, entry.tasks.map((task) => task.completion)])).toEqual([
+      [50, []],
+      [350, [40]],
+      [200, [0]],
+      [500, [80]],
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+import { and, desc, eq, gt } from 'drizzle-orm';
+import { auditLogs, tasks } from '../db/schema';
+import type { DbExecutor } from '../db';
+import { toTaskRecord } from './serializers';
+import { getProjectById } from './projectService';
+import { toProjectSnapshot } from './auditService';
+import type { AuditRecord, ProjectRecord, TaskRecord } from './types';
+
+export type ProjectStateAt = {
+  at: number;
+  project: ProjectRecord;
+  tasks: TaskRecord[];
+};
+
+type ReplayState = {
+  project: ProjectRecord | null;
+  tasks: Map<string, TaskRecord>;
+};
+
+// Undoing an entry puts the entity back to its `before` snapshot; a null `before` means it did not exist yet.
+const undoEntry = (state: ReplayState, entry: Pick<AuditRecord, 'entityType' | 'entityId' | 'before'>) => {
+  if (entry.entityType === 'task') {
+    if (entry.before) {
+      state.tasks.set(entry.entityId, entry.before as TaskRecord);
+    } else {
+      state.tasks.delete(entry.entityId);
+    }
+    return;
+  }
+  if (!entry.before) {
+    state.project = null;
+    state.tasks.clear();
+    return;
+  }
+  const snapshot = toProjectSnapshot(entry.before);
+  state.project = snapshot.project;
+  // Project deletes cascade to tasks without per-task rows, so the snapshot brings them back.
+  for (const task of snapshot.tasks) {
+    state.tasks.set(task.id, task);
+  }
+};
+
+const loadCurrentState = async (db: DbExecutor, projectId: string, workspaceId: string): Promise<ReplayState> => {
+  const project = await getProjectById(db, projectId, workspaceId);
+  const taskRows = project
+    ? await db.select().from(tasks).where(eq(tasks.projectId, projectId))
+    : [];
+  return {
+    project,
+    tasks: new Map(taskRows.map((row) => [row.id, toTaskRecord(row)])),
+  };
+};
+
+// Entries written after `at`, newest first, which is the order they are undone in.
+const listEntriesAfter = (db: DbExecutor, projectId: string, at: number, workspaceId: string) =>
+  db
+    .select({
+      entityType: auditLogs.entityType,
+      entityId: auditLogs.entityId,
+      before: auditLogs.before,
+      timestamp: auditLogs.timestamp,
+    })
+    .from(auditLogs)
+    .where(and(
+      eq(auditLogs.workspaceId, workspaceId),
+      eq(auditLogs.projectId, projectId),
+      gt(auditLogs.timestamp, at)
+    ))
+    .orderBy(desc(auditLogs.timestamp));
+
+const undoRow = (state: ReplayState, entry: { entityType: string; entityId: string; before: Record<string, unknown> | null }) =>
+  undoEntry(state, {
+    entityType: entry.entityType as AuditRecord['entityType'],
+    entityId: entry.entityId,
+    before: entry.before,
+  });
+
+const historicalTasks = (state: ReplayState, projectId: string) =>
+  Array.from(state.tasks.values())
+    .filter((task) => task.projectId === projectId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+export const getProjectStateAt = async (
+  db: DbExecutor,
+  projectId: string,
+  at: number,
+  workspaceId: string
+): Promise<ProjectStateAt | null> => {
+  const state = await loadCurrentState(db, projectId, workspaceId);
+
+  // Walk back from the present, newest first, undoing everything written after `at`.
+  for (const entry of await listEntriesAfter(db, projectId, at, workspaceId)) {
+    undoRow(state, entry);
+  }
+
+  if (!state.project) return null;
+  return { at, project: state.project, tasks: historicalTasks(state, projectId) };
+};
+
+// Task lists at several moments from one pass over the audit log. Moments before the project
+// existed come back empty; null means the project does not exist now.
+export const getProjectHistory = async (
+  db: DbExecutor,
+  projectId: string,
+  moments: number[],
+  workspaceId: string
+): Promise<Array<{ at: number; tasks: TaskRecord[] }> | null> => {
+  const state = await loadCurrentState(db, projectId, workspaceId);
+  if (!state.project) return null;
+  if (moments.length === 0) return [];
+
+  const entries = await listEntriesAfter(db, projectId, Math.min(...moments), workspaceId);
+  const states = new Map<number, TaskRecord[]>();
+  let index = 0;
+  for (const at of [...moments].sort((a, b) => b - a)) {
+    for (; index < entries.length && entries[index].timestamp > at; index += 1) undoRow(state, entries[index]);
+    states.set(at, state.project ? historicalTasks(state, projectId) : []);
+  }
+  return moments.map((at) => ({ at, tasks: states.get(at) ?? [] }));
+};
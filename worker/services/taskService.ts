@@ -1,9 +1,10 @@
 import { and, eq, gte, like, lte, or, sql } from 'drizzle-orm';
 import type { SQLWrapper } from 'drizzle-orm';
 import { projects, tasks } from '../db/schema';
+import type { DbExecutor } from '../db';
 import { toTaskRecord } from './serializers';
 import { clampNumber, generateId, now } from './utils';
-import type { Priority, TaskRecord, TaskStatus } from './types';
+import type { Priority, TaskPredecessor, TaskRecord, TaskStatus } from './types';
 
 export type TaskFilters = {
   projectId?: string;
@@ -45,7 +46,7 @@ const buildWhere = (filters: TaskFilters) => {
 };
 
 export const listTasks = async (
-  db: ReturnType<typeof import('../db').getDb>,
+  db: DbExecutor,
   filters: TaskFilters,
   workspaceId: string
 ): Promise<{ data: TaskRecord[]; total: number; page: number; pageSize: number }> => {
@@ -74,7 +75,7 @@ export const listTasks = async (
 };
 
 export const getTaskById = async (
-  db: ReturnType<typeof import('../db').getDb>,
+  db: DbExecutor,
   id: string,
   workspaceId: string
 ): Promise<TaskRecord | null> => {
@@ -89,7 +90,7 @@ export const getTaskById = async (
 };
 
 export const createTask = async (
-  db: ReturnType<typeof import('../db').getDb>,
+  db: DbExecutor,
   data: {
     id?: string;
     projectId: string;
@@ -98,12 +99,15 @@ export const createTask = async (
     status: TaskStatus;
     priority: Priority;
     wbs?: string;
+    parentId?: string | null;
     startDate?: number;
     dueDate?: number;
     completion?: number;
     assignee?: string;
+    estimatedHours?: number | null;
+    actualHours?: number | null;
     isMilestone?: boolean;
-    predecessors?: string[];
+    predecessors?: TaskPredecessor[];
     createdAt?: number;
     updatedAt?: number;
   },
@@ -127,11 +131,14 @@ export const createTask = async (
     status: data.status,
     priority: data.priority,
     wbs: data.wbs ?? null,
+    parentId: data.parentId ?? null,
     createdAt,
     startDate: data.startDate ?? createdAt,
     dueDate: data.dueDate ?? null,
     completion: clampNumber(data.completion, 0, 100) ?? 0,
     assignee: data.assignee ?? null,
+    estimatedHours: data.estimatedHours ?? null,
+    actualHours: data.actualHours ?? null,
     isMilestone: data.isMilestone ?? false,
     predecessors: data.predecessors ?? [],
     updatedAt,
@@ -141,20 +148,23 @@ export const createTask = async (
 };
 
 export const updateTask = async (
-  db: ReturnType<typeof import('../db').getDb>,
+  db: DbExecutor,
   id: string,
   data: Partial<{
     title: string;
-    description: string;
+    description: string | null;
     status: TaskStatus;
     priority: Priority;
-    wbs: string;
-    startDate: number;
-    dueDate: number;
+    wbs: string | null;
+    parentId: string | null;
+    startDate: number | null;
+    dueDate: number | null;
     completion: number;
-    assignee: string;
+    assignee: string | null;
+    estimatedHours: number | null;
+    actualHours: number | null;
     isMilestone: boolean;
-    predecessors: string[];
+    predecessors: TaskPredecessor[];
   }>,
   workspaceId: string
 ): Promise<TaskRecord | null> => {
@@ -163,14 +173,17 @@ export const updateTask = async (
 
   const next = {
     title: data.title ?? existing.title,
-    description: data.description ?? existing.description,
+    description: data.description === undefined ? existing.description : data.description,
     status: data.status ?? existing.status,
     priority: data.priority ?? existing.priority,
-    wbs: data.wbs ?? existing.wbs,
-    startDate: data.startDate ?? existing.startDate,
-    dueDate: data.dueDate ?? existing.dueDate,
+    wbs: data.wbs === undefined ? existing.wbs : data.wbs,
+    parentId: data.parentId === undefined ? existing.parentId : data.parentId,
+    startDate: data.startDate === undefined ? existing.startDate : data.startDate,
+    dueDate: data.dueDate === undefined ? existing.dueDate : data.dueDate,
     completion: clampNumber(data.completion ?? existing.completion ?? undefined, 0, 100),
-    assignee: data.assignee ?? existing.assignee,
+    assignee: data.assignee === undefined ? existing.assignee : data.assignee,
+    estimatedHours: data.estimatedHours === undefined ? existing.estimatedHours : data.estimatedHours,
+    actualHours: data.actualHours === undefined ? existing.actualHours : data.actualHours,
     isMilestone: data.isMilestone === undefined ? existing.isMilestone : data.isMilestone,
     predecessors: data.predecessors ?? existing.predecessors,
     updatedAt: now(),
@@ -181,7 +194,7 @@ export const updateTask = async (
 };
 
 export const deleteTask = async (
-  db: ReturnType<typeof import('../db').getDb>,
+  db: DbExecutor,
   id: string,
   workspaceId: string
 ): Promise<TaskRecord | null> => {
@@ -190,3 +203,34 @@ export const deleteTask = async (
   await db.delete(tasks).where(eq(tasks.id, id));
   return existing;
 };
+
+export const restoreTask = async (
+  db: DbExecutor,
+  snapshot: TaskRecord,
+  workspaceId: string
+): Promise<TaskRecord | null> => {
+  const existing = await getTaskById(db, snapshot.id, workspaceId);
+  if (!existing) return null;
+
+  // Unlike updateTask, nullable fields are restored verbatim so cleared values stay cleared.
+  const next = {
+    title: snapshot.title ?? existing.title,
+    description: snapshot.description ?? null,
+    status: snapshot.status ?? existing.status,
+    priority: snapshot.priority ?? existing.priority,
+    wbs: snapshot.wbs ?? null,
+    parentId: snapshot.parentId ?? null,
+    startDate: snapshot.startDate ?? null,
+    dueDate: snapshot.dueDate ?? null,
+    completion: snapshot.completion ?? null,
+    assignee: snapshot.assignee ?? null,
+    estimatedHours: snapshot.estimatedHours ?? null,
+    actualHours: snapshot.actualHours ?? null,
+    isMilestone: snapshot.isMilestone ?? false,
+    predecessors: snapshot.predecessors ?? [],
+    updatedAt: now(),
+  };
+
+  await db.update(tasks).set(next).where(eq(tasks.id, snapshot.id));
+  return { ...existing, ...next };
+};
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { listTrash, restoreDeletedProject } from './trashService';
+import type { ProjectRecord, TaskRecord } from './types';
+
+vi.mock('./auditService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./auditService')>()),
+  recordAudit: vi.fn(),
+  recreateTask: vi.fn(async (_db: unknown, task: TaskRecord) => task),
+}));
+
+vi.mock('./projectService', () => ({
+  createProject: vi.fn(async (_db: unknown, input: ProjectRecord) => input),
+}));
+
+import { recordAudit, recreateTask } from './auditService';
+
+const project: ProjectRecord = {
+  id: 'p1',
+  workspaceId: 'w1',
+  name: 'Alpha',
+  description: null,
+  icon: null,
+  createdAt: 100,
+  updatedAt: 100,
+};
+
+const baseTask = (overrides: Partial<TaskRecord>): TaskRecord => ({
+  id: 't1',
+  projectId: 'p1',
+  title: 'Task',
+  description: null,
+  status: 'TODO',
+  priority: 'LOW',
+  wbs: null,
+  parentId: null,
+  createdAt: 100,
+  startDate: null,
+  dueDate: null,
+  completion: 0,
+  assignee: null,
+  estimatedHours: null,
+  actualHours: null,
+  isMilestone: false,
+  predecessors: [],
+  updatedAt: 100,
+  ...overrides,
+});
+
+const deleteRow = (entityType: string, entityId: string, before: unknown, timestamp = 500) => ({
+  id: `a-${entityId}-${timestamp}`,
+  entityType,
+  entityId,
+  before,
+  actor: 'user',
+  actorUserId: null,
+  timestamp,
+});
+
+// Each select resolves to the next queued result, whichever of where/orderBy/limit ends the chain.
+const buildDb = (results: unknown[][]) => {
+  const db = {
+    select: () => {
+      const rows = results.shift() ?? [];
+      const chain: any = {
+        from: () => chain,
+        where: () => chain,
+        orderBy: () => chain,
+        limit: () => chain,
+        then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+          Promise.resolve(rows).then(resolve, reject),
+      };
+      return chain;
+    },
+    transaction: async (fn: (tx: unknown) => unknown) => fn(db),
+  };
+  return db;
+};
+
+describe('trashService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists the latest delete per entity and skips anything that exists again', async () => {
+    const db = buildDb([
+      [
+        deleteRow('project', 'p2', { project: { ...project, id: 'p2', name: 'Gone' }, tasks: [baseTask({ projectId: 'p2' })] }),
+        deleteRow('task', 't1', baseTask({ title: 'Latest' }), 400),
+        deleteRow('task', 't1', baseTask({ title: 'Older' }), 300),
+        deleteRow('task', 't2', baseTask({ id: 't2', title: 'Back again' }), 200),
+        deleteRow('task', 't3', baseTask({ id: 't3', projectId: 'p2' }), 100),
+      ],
+      [{ id: 'p1' }],
+      [{ id: 't2' }],
+    ]);
+
+    const result = await listTrash(db as any, 'w1');
+
+    expect(result.projects).toMatchObject([{ entityId: 'p2', name: 'Gone', taskCount: 1 }]);
+    expect(result.tasks).toMatchObject([{ entityId: 't1', name: 'Latest', deletedAt: 400 }]);
+  });
+
+  it('restores a project with its tasks and drops predecessors that did not come back', async () => {
+    const tasks = [
+      baseTask({ id: 't1', wbs: '1' }),
+      baseTask({ id: 't2', title: 'Second', predecessors: ['1', 'gone'] }),
+    ];
+    const db = buildDb([
+      [deleteRow('project', 'p1', { project, tasks })],
+      [],
+      [],
+    ]);
+
+    const result = await restoreDeletedProject(db as any, 'p1', 'user', 'u1', 'w1');
+
+    expect(result.tasks.map((task) => task.id)).toEqual(['t1', 't2']);
+    expect(recreateTask).toHaveBeenLastCalledWith(db, expect.objectContaining({ predecessors: ['1'] }), 'w1');
+    expect(result.warnings).toEqual(['Task "Second" lost predecessor gone, which no longer exists.']);
+    expect(recordAudit).toHaveBeenCalledWith(db, expect.objectContaining({
+      action: 'restore',
+      before: null,
+      entityId: 'p1',
+      actorUserId: 'u1',
+    }));
+  });
+
+  it('refuses to restore a project that already exists', async () => {
+    const db = buildDb([
+      [deleteRow('project', 'p1', { project, tasks: [] })],
+      [{ id: 'p1' }],
+    ]);
+
+    await expect(restoreDeletedProject(db as any, 'p1', 'user', null, 'w1'))
+      .rejects.toMatchObject({ code: 'ALREADY_EXISTS', status: 409 });
+  });
+});
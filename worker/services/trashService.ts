@@ -0,0 +1,239 @@
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { auditLogs, projects, tasks } from '../db/schema';
+import type { DbExecutor } from '../db';
+import { recordAudit, recreateTask, toProjectSnapshot } from './auditService';
+import { createProject } from './projectService';
+import { toTaskRecord } from './serializers';
+import { now } from './utils';
+import { predecessorRef } from './constraintService';
+import type { AuditRecord, ProjectRecord, TaskRecord, TrashItem } from './types';
+
+export class RestoreError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status: number) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export const isRestoreError = (error: unknown): error is RestoreError => error instanceof RestoreError;
+
+type DeleteEntry = {
+  id: string;
+  entityType: AuditRecord['entityType'];
+  entityId: string;
+  before: Record<string, unknown> | null;
+  actor: AuditRecord['actor'];
+  actorUserId: string | null;
+  timestamp: number;
+};
+
+const selectDeleteEntries = (db: DbExecutor, workspaceId: string, entity?: Pick<DeleteEntry, 'entityType' | 'entityId'>) => {
+  const clauses = [eq(auditLogs.workspaceId, workspaceId), eq(auditLogs.action, 'delete')];
+  if (entity) {
+    clauses.push(eq(auditLogs.entityType, entity.entityType), eq(auditLogs.entityId, entity.entityId));
+  }
+  return db
+    .select({
+      id: auditLogs.id,
+      entityType: auditLogs.entityType,
+      entityId: auditLogs.entityId,
+      before: auditLogs.before,
+      actor: auditLogs.actor,
+      actorUserId: auditLogs.actorUserId,
+      timestamp: auditLogs.timestamp,
+    })
+    .from(auditLogs)
+    .where(and(...clauses))
+    .orderBy(desc(auditLogs.timestamp));
+};
+
+const findLatestDelete = async (
+  db: DbExecutor,
+  workspaceId: string,
+  entity: Pick<DeleteEntry, 'entityType' | 'entityId'>
+): Promise<DeleteEntry | null> => {
+  const rows = await selectDeleteEntries(db, workspaceId, entity).limit(1);
+  const row = rows[0];
+  if (!row?.before) return null;
+  return row as DeleteEntry;
+};
+
+const existingIds = async (db: DbExecutor, table: typeof projects | typeof tasks, ids: string[]) => {
+  if (ids.length === 0) return new Set<string>();
+  const rows = await db.select({ id: table.id }).from(table).where(inArray(table.id, ids));
+  return new Set(rows.map((row) => row.id));
+};
+
+// An entity is in the trash while its latest delete entry is the last word, i.e. it does not exist again.
+export const listTrash = async (
+  db: DbExecutor,
+  workspaceId: string
+): Promise<{ projects: TrashItem[]; tasks: TrashItem[] }> => {
+  const rows = await selectDeleteEntries(db, workspaceId);
+  const latest = new Map<string, DeleteEntry>();
+  for (const row of rows) {
+    const key = `${row.entityType}:${row.entityId}`;
+    if (!latest.has(key) && row.before) latest.set(key, row as DeleteEntry);
+  }
+  const entries = Array.from(latest.values());
+
+  const taskProjectId = (entry: DeleteEntry) => (entry.before as TaskRecord).projectId;
+  const projectIds = new Set([
+    ...entries.filter((entry) => entry.entityType === 'project').map((entry) => entry.entityId),
+    ...entries.filter((entry) => entry.entityType === 'task').map(taskProjectId),
+  ]);
+  const liveProjects = await existingIds(db, projects, Array.from(projectIds));
+  const liveTasks = await existingIds(
+    db,
+    tasks,
+    entries.filter((entry) => entry.entityType === 'task').map((entry) => entry.entityId)
+  );
+
+  const toItem = (entry: DeleteEntry, name: string, projectId: string | null, taskCount: number): TrashItem => ({
+    auditId: entry.id,
+    entityType: entry.entityType,
+    entityId: entry.entityId,
+    name,
+    projectId,
+    taskCount,
+    deletedAt: entry.timestamp,
+    actor: entry.actor,
+    actorUserId: entry.actorUserId,
+  });
+
+  const trashedProjects = entries
+    .filter((entry) => entry.entityType === 'project' && !liveProjects.has(entry.entityId))
+    .map((entry) => {
+      const snapshot = toProjectSnapshot(entry.before ?? {});
+      return toItem(entry, snapshot.project.name, entry.entityId, snapshot.tasks.length);
+    });
+  // Tasks of a trashed project come back with the project, so only tasks whose project still exists are listed.
+  const trashedTasks = entries
+    .filter((entry) => entry.entityType === 'task'
+      && !liveTasks.has(entry.entityId)
+      && liveProjects.has(taskProjectId(entry)))
+    .map((entry) => {
+      const task = entry.before as TaskRecord;
+      return toItem(entry, task.title, task.projectId, 0);
+    });
+
+  return { projects: trashedProjects, tasks: trashedTasks };
+};
+
+// Keeps predecessor references that resolve to a task by ID or WBS code; the rest are reported and dropped.
+const reattachPredecessors = (task: TaskRecord, known: Set<string>, warnings: string[]): TaskRecord => {
+  const predecessors = task.predecessors ?? [];
+  const kept = predecessors.filter((entry) => known.has(predecessorRef(entry)));
+  for (const entry of predecessors) {
+    const ref = predecessorRef(entry);
+    if (!known.has(ref)) warnings.push(`Task "${task.title}" lost predecessor ${ref}, which no longer exists.`);
+  }
+  return { ...task, predecessors: kept };
+};
+
+export const restoreDeletedProject = async (
+  db: DbExecutor,
+  projectId: string,
+  actor: AuditRecord['actor'],
+  actorUserId: string | null,
+  workspaceId: string
+): Promise<{ project: ProjectRecord; tasks: TaskRecord[]; warnings: string[] }> => {
+  const entry = await findLatestDelete(db, workspaceId, { entityType: 'project', entityId: projectId });
+  if (!entry) {
+    throw new RestoreError('NOT_FOUND', 'No deleted project found to restore.', 404);
+  }
+  const live = await existingIds(db, projects, [projectId]);
+  if (live.size > 0) {
+    throw new RestoreError('ALREADY_EXISTS', 'Project already exists.', 409);
+  }
+
+  const snapshot = toProjectSnapshot(entry.before ?? {});
+  const warnings: string[] = [];
+  // A task ID reused since the delete would collide on insert, so that task stays in the trash.
+  const taken = await existingIds(db, tasks, snapshot.tasks.map((task) => task.id));
+  const candidates = snapshot.tasks.filter((task) => {
+    if (taken.has(task.id)) warnings.push(`Task "${task.title}" was not restored: its ID is in use.`);
+    return !taken.has(task.id);
+  });
+  const known = new Set(candidates.flatMap((task) => (task.wbs ? [task.id, task.wbs] : [task.id])));
+
+  return db.transaction(async (tx) => {
+    const project = await createProject(tx, {
+      id: snapshot.project.id,
+      name: snapshot.project.name,
+      description: snapshot.project.description ?? undefined,
+      icon: snapshot.project.icon ?? undefined,
+      createdAt: snapshot.project.createdAt,
+      updatedAt: now(),
+      workspaceId,
+    });
+    const restoredTasks: TaskRecord[] = [];
+    for (const task of candidates) {
+      const created = await recreateTask(tx, reattachPredecessors(task, known, warnings), workspaceId);
+      if (created) restoredTasks.push(created);
+    }
+    await recordAudit(tx, {
+      workspaceId,
+      entityType: 'project',
+      entityId: project.id,
+      action: 'restore',
+      before: null,
+      after: { project, tasks: restoredTasks },
+      actor,
+      actorUserId,
+      reason: `Restored from trash (audit ${entry.id})`,
+      projectId: project.id,
+      taskId: null,
+      draftId: null,
+    });
+    return { project, tasks: restoredTasks, warnings };
+  });
+};
+
+export const restoreDeletedTask = async (
+  db: DbExecutor,
+  taskId: string,
+  actor: AuditRecord['actor'],
+  actorUserId: string | null,
+  workspaceId: string
+): Promise<{ task: TaskRecord; warnings: string[] }> => {
+  const entry = await findLatestDelete(db, workspaceId, { entityType: 'task', entityId: taskId });
+  if (!entry) {
+    throw new RestoreError('NOT_FOUND', 'No deleted task found to restore.', 404);
+  }
+  const live = await existingIds(db, tasks, [taskId]);
+  if (live.size > 0) {
+    throw new RestoreError('ALREADY_EXISTS', 'Task already exists.', 409);
+  }
+
+  const snapshot = entry.before as TaskRecord;
+  const siblingRows = await db.select().from(tasks).where(eq(tasks.projectId, snapshot.projectId));
+  const known = new Set(siblingRows.map(toTaskRecord).flatMap((task) => (task.wbs ? [task.id, task.wbs] : [task.id])));
+  const warnings: string[] = [];
+
+  return db.transaction(async (tx) => {
+    const task = await recreateTask(tx, reattachPredecessors(snapshot, known, warnings), workspaceId);
+    if (!task) {
+      throw new RestoreError('PROJECT_DELETED', 'The project for this task has been deleted. Restore the project first.', 409);
+    }
+    await recordAudit(tx, {
+      workspaceId,
+      entityType: 'task',
+      entityId: task.id,
+      action: 'restore',
+      before: null,
+      after: task,
+      actor,
+      actorUserId,
+      reason: `Restored from trash (audit ${entry.id})`,
+      projectId: task.projectId,
+      taskId: task.id,
+      draftId: null,
+    });
+    return { task, warnings };
+  });
+};
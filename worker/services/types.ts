@@ -32,16 +32,30 @@ export type TaskRecord = {
   status: TaskStatus;
   priority: Priority;
   wbs: string | null;
+  parentId: string | null;  // Explicit summary task; when null the parent is derived from the WBS code
   createdAt: number;
   startDate: number | null;
   dueDate: number | null;
   completion: number | null;
   assignee: string | null;
+  estimatedHours: number | null;  // Planned work in hours, spread over the task's working days
+  actualHours: number | null;  // Hours logged so far
   isMilestone: boolean;
-  predecessors: string[];
+  predecessors: TaskPredecessor[];
   updatedAt: number;
 };
 
+export type DependencyType = 'FS' | 'SS' | 'FF' | 'SF';
+
+export type TaskLink = {
+  ref: string;  // Predecessor task ID or WBS code
+  type: DependencyType;  // Finish-to-start, start-to-start, finish-to-finish or start-to-finish
+  lagDays: number;  // Positive delays the successor, negative lets it overlap (lead)
+};
+
+// A bare string is shorthand for a finish-to-start link with no lag.
+export type TaskPredecessor = string | TaskLink;
+
 export type ProjectRecord = {
   id: string;
   workspaceId: string;
@@ -52,6 +66,101 @@ export type ProjectRecord = {
   updatedAt: number;
 };
 
+export type WorkCalendar = {
+  workingDays: number[];  // UTC weekdays that are worked, 0 = Sunday
+  holidays: string[];  // Non-working dates as YYYY-MM-DD
+  availability: Record<string, string[]>;  // Days off per assignee, as YYYY-MM-DD
+  hoursPerDay: number;  // Work one person can take on in a working day
+};
+
+// A project calendar overrides the workspace's working days and hours per day; its holidays and days off are added to the workspace's.
+export type ProjectCalendar = Partial<WorkCalendar>;
+
+// The planned dates of one task when the baseline was saved.
+export type BaselineTask = {
+  taskId: string;
+  title: string;
+  wbs: string | null;
+  startDate: number;
+  dueDate: number;
+  completion: number;
+};
+
+export type BaselineRecord = {
+  id: string;
+  workspaceId: string;
+  projectId: string;
+  name: string;
+  tasks: BaselineTask[];
+  createdAt: number;
+  createdByUserId: string | null;
+};
+
+export type ConversationRecord = {
+  id: string;
+  workspaceId: string;
+  projectId: string | null;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  createdByUserId: string | null;
+};
+
+export type ConversationMessageRecord = {
+  id: string;
+  conversationId: string;
+  role: 'user' | 'model' | 'system';
+  text: string;
+  createdAt: number;
+  createdByUserId: string | null;  // Null for model replies and for anonymous users
+};
+
+export type AttachmentKind = 'text' | 'markdown' | 'csv' | 'pdf';
+
+export type AttachmentRecord = {
+  id: string;
+  workspaceId: string;
+  name: string;
+  type: string;  // MIME type as uploaded
+  kind: AttachmentKind;
+  size: number;  // Bytes
+  text: string;  // Extracted text, as given to the model
+  createdAt: number;
+  createdByUserId: string | null;
+};
+
+export type DraftActionDecision = 'accepted' | 'rejected';
+
+export type DraftApprovalPolicy = {
+  requiredApprovals: number;  // Sign-offs every draft needs before apply; 0 disables
+  agentTaskThreshold: number | null;  // Client-submitted drafts touching more tasks than this need an admin
+  adminForProjectDelete: boolean;  // Drafts deleting a project need an admin
+};
+
+export type DraftApproval = {
+  userId: string;
+  username: string;
+  role: WorkspaceMembershipRecord['role'];
+  approvedAt: number;
+};
+
+// The chat turn an agent draft came from: the AI request, and the conversation and model reply it
+// was stored as. The conversation and message are null when the chat was not saved.
+export type DraftOrigin = {
+  requestId: string;
+  conversationId: string | null;
+  messageId: string | null;
+};
+
+export type DraftApprovalStatus = {
+  required: number;
+  approvals: number;
+  adminRequired: boolean;
+  adminApproved: boolean;
+  satisfied: boolean;
+  reasons: string[];
+};
+
 export type DraftAction = {
   id: string;
   entityType: 'task' | 'project';
@@ -61,6 +170,8 @@ export type DraftAction = {
   after?: Record<string, unknown> | null;
   warnings?: string[];
   explicitFields?: string[];  // Fields explicitly modified by user/AI (e.g., ['startDate', 'dueDate'])
+  decision?: DraftActionDecision;  // Reviewer verdict; undecided actions are applied unless rejected
+  cascadedFrom?: string;  // Task whose change produced this derived update (successor shift, renumbering, roll-up); regenerated on every re-plan
 };
 
 export type DraftRecord = {
@@ -71,7 +182,11 @@ export type DraftRecord = {
   actions: DraftAction[];
   createdAt: number;
   createdBy: 'user' | 'agent' | 'system';
+  createdByUserId?: string | null;  // Signed-in user who created the draft, including agent drafts from their chat
+  appliedByUserId?: string | null;  // Signed-in user who applied it; for agent drafts this is the approving user
   reason?: string | null;
+  approvals: DraftApproval[];
+  origin?: DraftOrigin | null;
 };
 
 export type AuditRecord = {
@@ -83,14 +198,62 @@ export type AuditRecord = {
   before?: Record<string, unknown> | null;
   after?: Record<string, unknown> | null;
   actor: 'user' | 'agent' | 'system';
+  actorUserId?: string | null;  // Signed-in user behind the change; null for anonymous and system writes
+  actorUsername?: string | null;
   reason?: string | null;
   timestamp: number;
   projectId?: string | null;
   taskId?: string | null;
   draftId?: string | null;
+  approvals?: DraftApproval[] | null;
+  origin?: DraftOrigin | null;  // Copied from the draft, for changes made by agent drafts
+};
+
+export type TrashItem = {
+  auditId: string;  // The delete entry the item would be restored from
+  entityType: 'task' | 'project';
+  entityId: string;
+  name: string;
+  projectId: string | null;
+  taskCount: number;  // Tasks deleted along with a project; 0 for tasks
+  deletedAt: number;
+  actor: AuditRecord['actor'];
+  actorUserId: string | null;
 };
 
 export type PlanResult = {
   draft: DraftRecord;
   warnings: string[];
 };
+
+export type DraftApplyFailure = {
+  draftId: string;
+  actionId: string;
+  actionIndex: number;
+  entityType: DraftAction['entityType'];
+  action: DraftAction['action'];
+  entityId?: string;
+  message: string;
+};
+
+export type DraftConflict = {
+  actionId: string;
+  entityType: DraftAction['entityType'];
+  entityId: string;
+  action: DraftAction['action'];
+  plannedBefore: Record<string, unknown> | null;
+  current: Record<string, unknown> | null;
+  plannedAfter: Record<string, unknown> | null;
+  message: string;
+};
+
+export type RevertConflict = {
+  auditId: string;
+  entityType: 'task' | 'project';
+  entityId: string;
+  message: string;
+};
+
+export type RevertResult = PlanResult & {
+  conflicts: RevertConflict[];
+};
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import { projects, tasks as taskTable } from '../db/schema';
+import { createMemoryDb } from '../test/memoryDb';
+import { DEFAULT_CALENDAR } from './calendarService';
+import type { TaskRecord } from './types';
+
+vi.mock('drizzle-orm', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('drizzle-orm')>()),
+  ...(await import('../test/memoryDb')).memoryOperators,
+}));
+
+import { computeWorkload, describeOverload, distributeEffort, findNewOverloads, getWorkspaceWorkload } from './workloadService';
+
+const at = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+const baseTask = (overrides: Partial<TaskRecord>): TaskRecord => ({
+  id: 't1',
+  projectId: 'p1',
+  title: 'Task',
+  description: null,
+  status: 'TODO',
+  priority: 'LOW',
+  wbs: null,
+  parentId: null,
+  createdAt: 0,
+  startDate: 0,
+  dueDate: 0,
+  completion: 0,
+  assignee: null,
+  estimatedHours: null,
+  actualHours: null,
+  isMilestone: false,
+  predecessors: [],
+  updatedAt: 0,
+  ...overrides,
+});
+
+const calendarOf = () => DEFAULT_CALENDAR;
+
+describe('workloadService', () => {
+  it('spreads an estimate over the working days of a task', () => {
+    // Friday to Tuesday covers three working days.
+    const task = baseTask({ startDate: at('2026-10-16'), dueDate: at('2026-10-21'), estimatedHours: 12 });
+
+    expect(Object.fromEntries(distributeEffort(task, DEFAULT_CALENDAR))).toEqual({
+      '2026-10-16': 4,
+      '2026-10-19': 4,
+      '2026-10-20': 4,
+    });
+  });
+
+  it('sums load per assignee across projects and flags days over capacity', () => {
+    const tasks = [
+      baseTask({ id: 'a', assignee: 'Ana', startDate: at('2026-10-19'), dueDate: at('2026-10-21'), estimatedHours: 8 }),
+      baseTask({ id: 'b', projectId: 'p2', assignee: 'Ana', startDate: at('2026-10-20'), dueDate: at('2026-10-21'), estimatedHours: 6 }),
+      baseTask({ id: 'c', assignee: 'Ana', startDate: at('2026-10-19'), dueDate: at('2026-10-20'), estimatedHours: 40, status: 'DONE' }),
+      baseTask({ id: 'd', assignee: 'Ben', startDate: at('2026-10-19'), dueDate: at('2026-10-20') }),
+    ];
+
+    const workload = computeWorkload(tasks, calendarOf, DEFAULT_CALENDAR);
+
+    expect(workload.assignees).toHaveLength(1);
+    expect(workload.assignees[0]).toMatchObject({
+      assignee: 'Ana',
+      totalHours: 14,
+      days: [
+        { date: '2026-10-19', hours: 4, capacity: 8 },
+        { date: '2026-10-20', hours: 10, capacity: 8 },
+      ],
+      overloadedDays: ['2026-10-20'],
+    });
+    expect(workload.unestimatedTaskIds).toEqual(['d']);
+  });
+
+  it('does not count a summary task on top of its subtasks', () => {
+    const tasks = [
+      baseTask({ id: 'parent', wbs: '1', assignee: 'Ana', startDate: at('2026-10-19'), dueDate: at('2026-10-21'), estimatedHours: 12 }),
+      baseTask({ id: 'child', wbs: '1.1', assignee: 'Ana', startDate: at('2026-10-19'), dueDate: at('2026-10-21'), estimatedHours: 12 }),
+    ];
+
+    const workload = computeWorkload(tasks, calendarOf, DEFAULT_CALENDAR);
+
+    expect(workload.assignees[0]).toMatchObject({ assignee: 'Ana', totalHours: 12, overloadedDays: [] });
+    expect(workload.unestimatedTaskIds).toEqual([]);
+  });
+
+  it('leaves out summary tasks whose subtasks belong to someone else', async () => {
+    const db = createMemoryDb();
+    db.rows(projects).push({ id: 'p1', workspaceId: 'w1', name: 'Alpha', calendar: null });
+    db.rows(taskTable).push(
+      baseTask({ id: 'parent', assignee: 'Ana', startDate: at('2026-10-19'), dueDate: at('2026-10-21'), estimatedHours: 12 }),
+      baseTask({ id: 'child', parentId: 'parent', assignee: 'Ben', startDate: at('2026-10-19'), dueDate: at('2026-10-21'), estimatedHours: 12 })
+    );
+
+    const workload = await getWorkspaceWorkload(db, 'w1');
+
+    expect(workload.assignees.map((entry) => [entry.assignee, entry.totalHours])).toEqual([['Ben', 12]]);
+  });
+
+  it('counts an assignee day off as zero capacity', () => {
+    const calendar = { ...DEFAULT_CALENDAR, availability: { Ana: ['2026-10-19'] } };
+    const task = baseTask({ assignee: 'Ana', startDate: at('2026-10-19'), dueDate: at('2026-10-20'), estimatedHours: 2 });
+
+    const workload = computeWorkload([task], () => DEFAULT_CALENDAR, calendar);
+
+    expect(workload.assignees[0].overloadedDays).toEqual(['2026-10-19']);
+  });
+
+  it('reports only overloads a change introduces', () => {
+    const existing = baseTask({ id: 'a', assignee: 'Ana', startDate: at('2026-10-19'), dueDate: at('2026-10-20'), estimatedHours: 10 });
+    const added = baseTask({ id: 'b', assignee: 'Ana', startDate: at('2026-10-20'), dueDate: at('2026-10-21'), estimatedHours: 9 });
+    const before = computeWorkload([existing], calendarOf, DEFAULT_CALENDAR);
+    const after = computeWorkload([existing, added], calendarOf, DEFAULT_CALENDAR);
+
+    const overloads = findNewOverloads(before, after);
+
+    expect(overloads).toEqual([{ assignee: 'Ana', days: ['2026-10-20'], peakHours: 9, capacity: 8 }]);
+    expect(describeOverload(overloads[0])).toBe('Ana is over capacity on 2026-10-20 (up to 9h against 8h a day).');
+  });
+});
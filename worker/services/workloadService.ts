@@ -0,0 +1,197 @@
+import { and, eq, inArray, isNotNull } from 'drizzle-orm';
+import { projects, tasks } from '../db/schema';
+import type { DbExecutor } from '../db';
+import { calendarForAssignee, getCalendarLookup, getWorkspaceCalendar, isWorkingDay } from './calendarService';
+import { getTaskEnd, getTaskStart } from './constraintService';
+import { groupChildren, resolveParentIds } from './hierarchyService';
+import { toTaskRecord } from './serializers';
+import type { TaskRecord, WorkCalendar } from './types';
+
+const day = 86_400_000;
+// A task spanning years would otherwise produce a bucket per day; its effort is spread over this many at most.
+const MAX_SPREAD_DAYS = 3_660;
+// Longest range a workload report lists day by day.
+const MAX_RANGE_DAYS = 731;
+
+export type WorkloadDay = {
+  date: string;  // YYYY-MM-DD
+  hours: number;  // Estimated effort falling on this day across all of the assignee's tasks
+  capacity: number;  // 0 on weekends, holidays and the assignee's days off
+};
+
+export type AssigneeWorkload = {
+  assignee: string;
+  totalHours: number;
+  actualHours: number;
+  days: WorkloadDay[];
+  overloadedDays: string[];
+};
+
+export type Workload = {
+  from: number;
+  to: number;
+  hoursPerDay: number;
+  assignees: AssigneeWorkload[];
+  unestimatedTaskIds: string[];  // Assigned, open tasks without an estimate; they add no load
+};
+
+export type Overload = {
+  assignee: string;
+  days: string[];
+  peakHours: number;
+  capacity: number;
+};
+
+const formatDay = (value: number) => new Date(value).toISOString().split('T')[0];
+const startOfDay = (value: number) => Math.floor(value / day) * day;
+const roundHours = (value: number) => Math.round(value * 100) / 100;
+
+// Tasks that put load on someone: assigned, not done, not a milestone, with an estimate.
+export const carriesLoad = (task: TaskRecord) =>
+  Boolean(task.assignee) && task.status !== 'DONE' && !task.isMilestone && (task.estimatedHours ?? 0) > 0;
+
+// Spreads a task's estimate evenly over its working days. A task that only covers days off puts
+// all of its effort on its first day, so the load still shows up somewhere.
+export const distributeEffort = (task: TaskRecord, calendar: WorkCalendar) => {
+  const hours = task.estimatedHours ?? 0;
+  const load = new Map<string, number>();
+  if (hours <= 0) return load;
+  const start = startOfDay(getTaskStart(task));
+  const end = Math.min(getTaskEnd(task), start + MAX_SPREAD_DAYS * day);
+  const workingDays: string[] = [];
+  for (let cursor = start; cursor < end; cursor += day) {
+    if (isWorkingDay(calendar, cursor)) workingDays.push(formatDay(cursor));
+  }
+  if (workingDays.length === 0) workingDays.push(formatDay(start));
+  for (const date of workingDays) load.set(date, hours / workingDays.length);
+  return load;
+};
+
+export const dailyCapacity = (calendar: WorkCalendar, assignee: string, date: string) =>
+  isWorkingDay(calendarForAssignee(calendar, assignee), Date.parse(`${date}T00:00:00Z`)) ? calendar.hoursPerDay : 0;
+
+// Per-assignee load by day. Effort follows each task's project calendar; capacity follows the
+// workspace calendar and the assignee's days off. Every assignee lists the same run of days, from
+// the first to the last loaded day unless a range is given, so histograms line up. Summary tasks
+// are skipped, since their subtasks carry the work; only summaries of tasks passed in are recognised.
+export const computeWorkload = (
+  allTasks: TaskRecord[],
+  calendarOf: (projectId: string) => WorkCalendar,
+  capacityCalendar: WorkCalendar,
+  range: { from?: number; to?: number } = {}
+): Workload => {
+  const loadByAssignee = new Map<string, Map<string, number>>();
+  const actualByAssignee = new Map<string, number>();
+  const unestimatedTaskIds: string[] = [];
+  const from = range.from === undefined ? null : formatDay(range.from);
+  const to = range.to === undefined ? null : formatDay(range.to);
+  const summaries = new Set(groupChildren(allTasks, resolveParentIds(allTasks)).keys());
+
+  for (const task of allTasks) {
+    if (!task.assignee || task.status === 'DONE' || task.isMilestone || summaries.has(task.id)) continue;
+    actualByAssignee.set(task.assignee, (actualByAssignee.get(task.assignee) ?? 0) + (task.actualHours ?? 0));
+    if (!carriesLoad(task)) {
+      unestimatedTaskIds.push(task.id);
+      continue;
+    }
+    const load = loadByAssignee.get(task.assignee) ?? new Map<string, number>();
+    const calendar = calendarForAssignee(calendarOf(task.projectId), task.assignee);
+    for (const [date, hours] of distributeEffort(task, calendar)) {
+      if ((from && date < from) || (to && date > to)) continue;
+      load.set(date, (load.get(date) ?? 0) + hours);
+    }
+    loadByAssignee.set(task.assignee, load);
+  }
+
+  const loaded = Array.from(loadByAssignee.values()).flatMap((load) => Array.from(load.keys())).sort();
+  const first = from ?? loaded[0];
+  const last = to ?? loaded[loaded.length - 1];
+  const dates: string[] = [];
+  if (first && last) {
+    const end = Math.min(Date.parse(`${last}T00:00:00Z`), Date.parse(`${first}T00:00:00Z`) + (MAX_RANGE_DAYS - 1) * day);
+    for (let cursor = Date.parse(`${first}T00:00:00Z`); cursor <= end; cursor += day) dates.push(formatDay(cursor));
+  }
+
+  const assignees = Array.from(loadByAssignee.entries())
+    .map(([assignee, load]): AssigneeWorkload => {
+      const days = dates.map((date) => ({
+        date,
+        hours: roundHours(load.get(date) ?? 0),
+        capacity: dailyCapacity(capacityCalendar, assignee, date),
+      }));
+      return {
+        assignee,
+        totalHours: roundHours(days.reduce((sum, entry) => sum + entry.hours, 0)),
+        actualHours: roundHours(actualByAssignee.get(assignee) ?? 0),
+        days,
+        overloadedDays: days.filter((entry) => entry.hours > entry.capacity).map((entry) => entry.date),
+      };
+    })
+    .sort((left, right) => left.assignee.localeCompare(right.assignee));
+
+  return {
+    from: range.from ?? (dates.length > 0 ? Date.parse(`${dates[0]}T00:00:00Z`) : 0),
+    to: range.to ?? (dates.length > 0 ? Date.parse(`${dates[dates.length - 1]}T00:00:00Z`) + day : 0),
+    hoursPerDay: capacityCalendar.hoursPerDay,
+    assignees,
+    unestimatedTaskIds,
+  };
+};
+
+// Days on which an assignee is over capacity after a change but was not before, or carries more
+// than before. Overloads the change leaves untouched are not reported again.
+export const findNewOverloads = (before: Workload, after: Workload): Overload[] => {
+  const previous = new Map(before.assignees.map((entry) => [
+    entry.assignee,
+    new Map(entry.days.map((item) => [item.date, item.hours])),
+  ]));
+  const overloads: Overload[] = [];
+  for (const entry of after.assignees) {
+    const prior = previous.get(entry.assignee);
+    const days = entry.days.filter((item) => item.hours > item.capacity && item.hours > (prior?.get(item.date) ?? 0));
+    if (days.length === 0) continue;
+    overloads.push({
+      assignee: entry.assignee,
+      days: days.map((item) => item.date),
+      peakHours: Math.max(...days.map((item) => item.hours)),
+      capacity: after.hoursPerDay,
+    });
+  }
+  return overloads;
+};
+
+export const describeOverload = (overload: Overload) => {
+  const listed = overload.days.slice(0, 3).join(', ');
+  const more = overload.days.length > 3 ? ` and ${overload.days.length - 3} more day(s)` : '';
+  return `${overload.assignee} is over capacity on ${listed}${more} (up to ${overload.peakHours}h against ${overload.capacity}h a day).`;
+};
+
+// Assigned tasks other than summaries. Whether a task has subtasks depends on the rest of its
+// project, so those projects are read in full.
+export const listAssignedTasks = async (db: DbExecutor, workspaceId: string, assignees?: string[]) => {
+  if (assignees && assignees.length === 0) return [];
+  const rows = await db
+    .select()
+    .from(tasks)
+    .innerJoin(projects, eq(tasks.projectId, projects.id))
+    .where(and(
+      eq(projects.workspaceId, workspaceId),
+      assignees ? inArray(tasks.assignee, assignees) : isNotNull(tasks.assignee)
+    ));
+  const assigned = rows.map((row) => toTaskRecord(row.tasks));
+  if (assigned.length === 0) return [];
+  const projectIds = Array.from(new Set(assigned.map((task) => task.projectId)));
+  const projectTasks = (await db.select().from(tasks).where(inArray(tasks.projectId, projectIds))).map(toTaskRecord);
+  const summaries = new Set(groupChildren(projectTasks, resolveParentIds(projectTasks)).keys());
+  return assigned.filter((task) => !summaries.has(task.id));
+};
+
+export const getWorkspaceWorkload = async (
+  db: DbExecutor,
+  workspaceId: string,
+  range: { from?: number; to?: number } = {}
+): Promise<Workload> => {
+  const assigned = await listAssignedTasks(db, workspaceId);
+  const calendarOf = await getCalendarLookup(db, Array.from(new Set(assigned.map((task) => task.projectId))), workspaceId);
+  return computeWorkload(assigned, calendarOf, await getWorkspaceCalendar(db, workspaceId), range);
+};
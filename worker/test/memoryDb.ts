@@ -0,0 +1,172 @@
+/**
+ * In-memory stand-in for the Drizzle executor, for service tests that need rows to persist across calls.
+ *
+ * Covers the query shapes the services use: select (optionally with a projection, an inner join,
+ * where, orderBy, limit and for('update')), insert, update, delete and transaction. Transactions run
+ * one at a time, standing in for the row locks they take. Conditions are
+ * evaluated as row predicates, so a test using it must replace the drizzle-orm operators with
+ * `memoryOperators`:
+ *
+ *   vi.mock('drizzle-orm', async (importOriginal) => ({ ...(await importOriginal()), ...memoryOperators }));
+ */
+
+import type { Column, Table } from 'drizzle-orm';
+import type { DbExecutor } from '../db';
+
+type Row = Record<string, unknown>;
+// A result row under construction: one record per table taking part in the query.
+type JoinedRow = Record<string, Row>;
+type Condition = ((row: JoinedRow) => boolean) | undefined;
+
+// Table metadata is read through Drizzle's symbols rather than its helpers: importing drizzle-orm
+// here would load the mocked module while its mock is still being built.
+const getTableName = (table: Table) => (table as unknown as Record<symbol, string>)[Symbol.for('drizzle:Name')];
+const getTableColumns = (table: Table) =>
+  (table as unknown as Record<symbol, Record<string, Column>>)[Symbol.for('drizzle:Columns')];
+
+const isColumn = (value: unknown): value is Column =>
+  typeof value === 'object' && value !== null && 'table' in value && 'columnType' in value;
+
+const keyOf = (column: Column) => {
+  const entry = Object.entries(getTableColumns(column.table)).find(([, candidate]) => candidate === column);
+  return entry ? entry[0] : column.name;
+};
+
+const resolve = (row: JoinedRow, value: unknown) =>
+  isColumn(value) ? row[getTableName(value.table)]?.[keyOf(value)] ?? null : value;
+
+const matches = (row: JoinedRow, condition: Condition) => !condition || condition(row);
+
+export const memoryOperators = {
+  eq: (left: unknown, right: unknown): Condition => (row) => resolve(row, left) === resolve(row, right),
+  ne: (left: unknown, right: unknown): Condition => (row) => resolve(row, left) !== resolve(row, right),
+  and: (...conditions: Condition[]): Condition => (row) => conditions.every((condition) => matches(row, condition)),
+  or: (...conditions: Condition[]): Condition => (row) => conditions.some((condition) => matches(row, condition)),
+  inArray: (column: unknown, values: unknown[]): Condition => (row) => values.includes(resolve(row, column)),
+  isNull: (column: unknown): Condition => (row) => resolve(row, column) === null,
+  isNotNull: (column: unknown): Condition => (row) => resolve(row, column) !== null,
+};
+
+export type MemoryDb = DbExecutor & {
+  rows: (table: Table) => Row[];
+  locks: string[];  // Tables read with for('update'), in order
+};
+
+export const createMemoryDb = (): MemoryDb => {
+  const store = new Map<string, Row[]>();
+  const locks: string[] = [];
+  let pending: Promise<unknown> = Promise.resolve();
+  const rows = (table: Table) => {
+    const name = getTableName(table);
+    if (!store.has(name)) store.set(name, []);
+    return store.get(name) as Row[];
+  };
+
+  // Builders resolve when awaited, like Drizzle's; each step returns the same builder.
+  const thenable = <T>(builder: Record<string, unknown>, run: () => T) =>
+    Object.assign(builder, {
+      then: (resolveResult: (value: T) => unknown, reject?: (error: unknown) => unknown) => {
+        try {
+          return Promise.resolve(run()).then(resolveResult, reject);
+        } catch (error) {
+          return Promise.reject(error).then(resolveResult, reject);
+        }
+      },
+    });
+
+  const select = (projection?: Record<string, Column>) => ({
+    from: (table: Table) => {
+      const name = getTableName(table);
+      const joins: { table: Table; on: Condition }[] = [];
+      let condition: Condition;
+      let limit = Infinity;
+      const builder: Record<string, unknown> = {
+        innerJoin: (joined: Table, on: Condition) => {
+          joins.push({ table: joined, on });
+          return builder;
+        },
+        where: (next: Condition) => {
+          condition = next;
+          return builder;
+        },
+        orderBy: () => builder,
+        limit: (count: number) => {
+          limit = count;
+          return builder;
+        },
+        for: () => {
+          locks.push(name);
+          return builder;
+        },
+      };
+      return thenable(builder, () => {
+        let result: JoinedRow[] = rows(table).map((row) => ({ [name]: row }));
+        for (const join of joins) {
+          const joinedName = getTableName(join.table);
+          result = result.flatMap((row) =>
+            rows(join.table).map((other) => ({ ...row, [joinedName]: other })).filter((next) => matches(next, join.on))
+          );
+        }
+        return result
+          .filter((row) => matches(row, condition))
+          .slice(0, limit)
+          .map((row) => {
+            if (projection) {
+              return Object.fromEntries(Object.entries(projection).map(([key, column]) => [key, resolve(row, column)]));
+            }
+            return joins.length > 0 ? row : { ...row[name] };
+          });
+      });
+    },
+  });
+
+  const db = {
+    rows,
+    locks,
+    select,
+    insert: (table: Table) => ({
+      values: (values: Row | Row[]) => thenable({}, () => {
+        rows(table).push(...(Array.isArray(values) ? values : [values]).map((value) => ({ ...value })));
+      }),
+    }),
+    update: (table: Table) => ({
+      set: (values: Row) => {
+        let condition: Condition;
+        const builder: Record<string, unknown> = {
+          where: (next: Condition) => {
+            condition = next;
+            return builder;
+          },
+        };
+        return thenable(builder, () => {
+          const name = getTableName(table);
+          for (const row of rows(table)) {
+            if (matches({ [name]: row }, condition)) Object.assign(row, values);
+          }
+        });
+      },
+    }),
+    delete: (table: Table) => {
+      let condition: Condition;
+      const builder: Record<string, unknown> = {
+        where: (next: Condition) => {
+          condition = next;
+          return builder;
+        },
+      };
+      return thenable(builder, () => {
+        const name = getTableName(table);
+        const kept = rows(table).filter((row) => !matches({ [name]: row }, condition));
+        store.set(name, kept);
+      });
+    },
+    transaction: <T>(run: (tx: unknown) => Promise<T>) => {
+      const result = pending.then(() => run(tx));
+      pending = result.catch(() => undefined);
+      return result;
+    },
+  };
+  // Nested transactions (savepoints) run straight away inside the outer one.
+  const tx = { ...db, transaction: <T>(run: (inner: unknown) => Promise<T>) => run(tx) };
+  return db as unknown as MemoryDb;
+};
@@ -0,0 +1,113 @@
+import { deflateSync } from 'zlib';
+import { describe, it, expect } from 'vitest';
+import { extractPdfText } from './pdfText';
+
+const encoder = new TextEncoder();
+
+// Assembles a PDF from object bodies; the parser does not need a cross-reference table.
+const buildPdf = (objects: (string | { dict: string; stream: Uint8Array })[]) => {
+  const parts: Uint8Array[] = [encoder.encode('%PDF-1.7\n')];
+  objects.forEach((object, index) => {
+    if (typeof object === 'string') {
+      parts.push(encoder.encode(`${index + 1} 0 obj\n${object}\nendobj\n`));
+      return;
+    }
+    parts.push(encoder.encode(`${index + 1} 0 obj\n${object.dict.replace('>>', ` /Length ${object.stream.length} >>`)}\nstream\n`));
+    parts.push(object.stream);
+    parts.push(encoder.encode('\nendstream\nendobj\n'));
+  });
+  parts.push(encoder.encode('trailer\n<< /Root 1 0 R >>\n%%EOF\n'));
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+describe('extractPdfText', () => {
+  it('reads text from uncompressed pages in page order', () => {
+    const pdf = buildPdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /Resources << /Font << /F1 5 0 R >> >> >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 7 0 R >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+      { dict: '<< >>', stream: encoder.encode('BT /F1 12 Tf 72 700 Td (Project \\(draft\\) spec) Tj 0 -14 Td [(Build) -300 (the API)] TJ ET') },
+      { dict: '<< >>', stream: encoder.encode('BT /F1 12 Tf 72 700 Td (Second page) Tj ET') },
+    ]);
+
+    expect(extractPdfText(pdf)).toBe('Project (draft) spec\nBuild the API\n\nSecond page');
+  });
+
+  it('decodes compressed content through the font ToUnicode map', () => {
+    const cmap = [
+      'begincmap',
+      '2 beginbfchar <0001> <0048> <0002> <0069> endbfchar',
+      '1 beginbfrange <0003> <0004> <4EFB> endbfrange',
+      'endcmap',
+    ].join('\n');
+    const pdf = buildPdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      '<< /Type /Page /Parent 2 0 R /Resources << /Font << /C0 4 0 R >> >> /Contents 5 0 R >>',
+      '<< /Type /Font /Subtype /Type0 /Encoding /Identity-H /ToUnicode 6 0 R >>',
+      { dict: '<< /Filter /FlateDecode >>', stream: deflateSync(encoder.encode('BT /C0 10 Tf <00010002> Tj T* <00030004> Tj ET')) },
+      { dict: '<< /Filter /FlateDecode >>', stream: deflateSync(encoder.encode(cmap)) },
+    ]);
+
+    expect(extractPdfText(pdf)).toBe('Hi\n\u4efb\u4efc');
+  });
+
+  it('stops inflating once the document has used its output budget', () => {
+    // 40 MB of spaces compress to a few kilobytes.
+    const bomb = deflateSync(new Uint8Array(40 * 1024 * 1024).fill(0x20));
+    const pdf = buildPdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /Resources << /Font << /F1 5 0 R >> >> >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 7 0 R >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+      { dict: '<< /Filter /FlateDecode >>', stream: deflateSync(encoder.encode('BT /F1 12 Tf (Intro) Tj ET')) },
+      { dict: '<< /Filter /FlateDecode >>', stream: bomb },
+    ]);
+
+    expect(bomb.length).toBeLessThan(100_000);
+    expect(extractPdfText(pdf)).toBe('Intro');
+  });
+
+  it('inflates a content stream shared by several pages once', () => {
+    const content = `BT /F1 12 Tf (Shared) Tj ET${' '.repeat(1000)}`;
+    const pdf = buildPdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R 4 0 R 5 0 R] /Count 3 /Resources << /Font << /F1 6 0 R >> >> >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 7 0 R >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 7 0 R >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 7 0 R >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+      { dict: '<< /Filter /FlateDecode >>', stream: deflateSync(encoder.encode(content)) },
+    ]);
+
+    // The budget covers one copy of the stream, not three.
+    expect(extractPdfText(pdf, { maxDecodedBytes: 1500 })).toBe('Shared\n\nShared\n\nShared');
+  });
+
+  it('stops reading pages once it has enough text', () => {
+    const pdf = buildPdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /Resources << /Font << /F1 5 0 R >> >> >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 7 0 R >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+      { dict: '<< >>', stream: encoder.encode('BT /F1 12 Tf (First page) Tj ET') },
+      { dict: '<< >>', stream: encoder.encode('BT /F1 12 Tf (Second page) Tj ET') },
+    ]);
+
+    expect(extractPdfText(pdf, { maxTextChars: 5 })).toBe('First page');
+  });
+
+  it('returns no text for files that are not PDFs', () => {
+    expect(extractPdfText(encoder.encode('name,owner\nSpec,Ana'))).toBe('');
+  });
+});
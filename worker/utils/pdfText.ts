@@ -0,0 +1,468 @@
+/**
+ * PDF text extraction
+ *
+ * Reads the text drawn on each page, in page order. Covers what office suites and browsers
+ * export: Flate-compressed content and object streams, and fonts mapped through ToUnicode
+ * CMaps. Scanned pages (images only) and encrypted files yield no text.
+ *
+ * Decompression shares one output budget across the document and each stream is inflated at most
+ * once, so a small file cannot expand into gigabytes of content.
+ */
+
+import { constants, inflateSync } from 'zlib';
+
+type PdfObject = {
+  dict: string;
+  stream?: string;  // Raw stream bytes as a latin1 string
+};
+
+type CMap = {
+  codeLength: number;
+  map: Map<number, string>;
+};
+
+type Token =
+  | { kind: 'string'; value: string }
+  | { kind: 'name'; value: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'array'; value: Token[] }
+  | { kind: 'operator'; value: string };
+
+// Larger gaps than this (in thousandths of a text unit) inside a TJ array are read as spaces.
+const TJ_SPACE_THRESHOLD = 200;
+// Total bytes all streams of one document may inflate to.
+const MAX_DECODED_BYTES = 32 * 1024 * 1024;
+
+export type PdfTextOptions = {
+  maxTextChars?: number;  // Pages after this much text are not decoded
+  maxDecodedBytes?: number;
+};
+
+type StreamDecoder = (id: number, object: PdfObject) => string | null;
+
+const toLatin1 = (bytes: Uint8Array) => {
+  let text = '';
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return text;
+};
+
+const fromLatin1 = (text: string) => {
+  const bytes = new Uint8Array(text.length);
+  for (let index = 0; index < text.length; index++) bytes[index] = text.charCodeAt(index) & 0xff;
+  return bytes;
+};
+
+const decodeUtf16 = (bytes: string) => {
+  let text = '';
+  for (let index = 0; index + 1 < bytes.length; index += 2) {
+    text += String.fromCharCode((bytes.charCodeAt(index) << 8) | bytes.charCodeAt(index + 1));
+  }
+  return text;
+};
+
+const hexToBytes = (hex: string) => {
+  const clean = hex.replace(/[^0-9a-fA-F]/g, '');
+  const padded = clean.length % 2 === 0 ? clean : `${clean}0`;
+  let bytes = '';
+  for (let index = 0; index < padded.length; index += 2) {
+    bytes += String.fromCharCode(parseInt(padded.slice(index, index + 2), 16));
+  }
+  return bytes;
+};
+
+// The << >> block starting at `start`, nested dictionaries included.
+const readDict = (text: string, start: number) => {
+  let depth = 0;
+  for (let index = start; index < text.length - 1; index++) {
+    if (text[index] === '<' && text[index + 1] === '<') {
+      depth++;
+      index++;
+    } else if (text[index] === '>' && text[index + 1] === '>') {
+      depth--;
+      index++;
+      if (depth === 0) return text.slice(start, index + 1);
+    }
+  }
+  return text.slice(start);
+};
+
+const refAfter = (dict: string, key: string) => {
+  const match = new RegExp(`/${key}\\s+(\\d+)\\s+\\d+\\s+R`).exec(dict);
+  return match ? Number(match[1]) : null;
+};
+
+const refsIn = (text: string) => Array.from(text.matchAll(/(\d+)\s+\d+\s+R/g), (match) => Number(match[1]));
+
+// Only Flate is decoded; other filters are images or rare enough to skip. Results are cached by
+// object number, and once the budget runs out nothing more is inflated.
+const createStreamDecoder = (maxDecodedBytes: number): StreamDecoder => {
+  const cache = new Map<number, string | null>();
+  let remaining = maxDecodedBytes;
+  const decode = (object: PdfObject) => {
+    if (object.stream === undefined) return null;
+    const filter = /\/Filter\s*(\[[^\]]*\]|\/\w+)/.exec(object.dict)?.[1] ?? '';
+    const filters = filter.match(/\/\w+/g) ?? [];
+    if (filters.length === 0) return object.stream;
+    if (filters.length > 1 || filters[0] !== '/FlateDecode' || remaining <= 0) return null;
+    try {
+      const inflated = inflateSync(fromLatin1(object.stream), {
+        finishFlush: constants.Z_SYNC_FLUSH,
+        maxOutputLength: remaining,
+      });
+      remaining -= inflated.length;
+      return toLatin1(inflated);
+    } catch (error) {
+      // Running past the budget throws a RangeError; no later stream would fit either.
+      if (error instanceof RangeError) remaining = 0;
+      return null;
+    }
+  };
+  return (id, object) => {
+    if (!cache.has(id)) cache.set(id, decode(object));
+    return cache.get(id) ?? null;
+  };
+};
+
+const parseObjects = (source: string, decodeStream: StreamDecoder) => {
+  const objects = new Map<number, PdfObject>();
+  const pattern = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    const bodyStart = match.index + match[0].length;
+    const streamAt = source.indexOf('stream', bodyStart);
+    const endAt = source.indexOf('endobj', bodyStart);
+    if (endAt === -1) break;
+    if (streamAt !== -1 && streamAt < endAt) {
+      let dataStart = streamAt + 'stream'.length;
+      if (source[dataStart] === '\r') dataStart++;
+      if (source[dataStart] === '\n') dataStart++;
+      const dataEnd = source.indexOf('endstream', dataStart);
+      if (dataEnd === -1) break;
+      objects.set(Number(match[1]), {
+        dict: source.slice(bodyStart, streamAt),
+        stream: source.slice(dataStart, dataEnd).replace(/\r?\n$/, ''),
+      });
+      pattern.lastIndex = dataEnd;
+    } else {
+      objects.set(Number(match[1]), { dict: source.slice(bodyStart, endAt) });
+      pattern.lastIndex = endAt;
+    }
+  }
+
+  // Objects packed into object streams (PDF 1.5+), where most fonts and pages live in newer files.
+  for (const [id, object] of Array.from(objects.entries())) {
+    if (!/\/Type\s*\/ObjStm\b/.test(object.dict)) continue;
+    const decoded = decodeStream(id, object);
+    const first = Number(/\/First\s+(\d+)/.exec(object.dict)?.[1]);
+    if (!decoded || !Number.isFinite(first)) continue;
+    const header = decoded.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let index = 0; index + 1 < header.length; index += 2) {
+      const start = first + header[index + 1];
+      const end = index + 3 < header.length ? first + header[index + 3] : decoded.length;
+      if (!objects.has(header[index])) objects.set(header[index], { dict: decoded.slice(start, end) });
+    }
+  }
+  return objects;
+};
+
+const parseCMap = (source: string): CMap => {
+  const map = new Map<number, string>();
+  let codeLength = 1;
+  const toCode = (hex: string) => {
+    codeLength = Math.max(codeLength, Math.ceil(hex.length / 2));
+    return parseInt(hex, 16);
+  };
+  for (const section of source.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const pair of section[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(toCode(pair[1]), decodeUtf16(hexToBytes(pair[2])));
+    }
+  }
+  for (const section of source.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const range of section[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      const low = toCode(range[1]);
+      const high = toCode(range[2]);
+      if (range[3].startsWith('[')) {
+        const targets = Array.from(range[3].matchAll(/<([0-9a-fA-F]*)>/g), (item) => decodeUtf16(hexToBytes(item[1])));
+        targets.forEach((target, offset) => map.set(low + offset, target));
+        continue;
+      }
+      const base = hexToBytes(range[3].slice(1, -1));
+      const lastUnit = base.length >= 2 ? (base.charCodeAt(base.length - 2) << 8) | base.charCodeAt(base.length - 1) : 0;
+      const prefix = decodeUtf16(base.slice(0, -2));
+      for (let code = low; code <= high && code - low < 0x10000; code++) {
+        map.set(code, prefix + String.fromCharCode(lastUnit + code - low));
+      }
+    }
+  }
+  return { codeLength, map };
+};
+
+// Reads a literal string body starting just after its opening parenthesis.
+const readLiteral = (source: string, start: number) => {
+  let depth = 1;
+  let value = '';
+  let index = start;
+  const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+  while (index < source.length) {
+    const char = source[index];
+    if (char === '\\') {
+      const next = source[index + 1];
+      if (next === undefined) break;
+      if (escapes[next]) {
+        value += escapes[next];
+        index += 2;
+      } else if (/[0-7]/.test(next)) {
+        const octal = /^[0-7]{1,3}/.exec(source.slice(index + 1, index + 4))![0];
+        value += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        index += 1 + octal.length;
+      } else if (next === '\r' || next === '\n') {
+        index += source[index + 1] === '\r' && source[index + 2] === '\n' ? 3 : 2;
+      } else {
+        value += next;
+        index += 2;
+      }
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')' && --depth === 0) return { value, end: index + 1 };
+    value += char;
+    index++;
+  }
+  return { value, end: index };
+};
+
+const tokenize = function* (source: string): Generator<Token> {
+  const stack: Token[][] = [];
+  const emit = function* (token: Token): Generator<Token> {
+    if (stack.length > 0) stack[stack.length - 1].push(token);
+    else yield token;
+  };
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '%') {
+      while (index < source.length && source[index] !== '\n' && source[index] !== '\r') index++;
+    } else if (char === '(') {
+      const { value, end } = readLiteral(source, index + 1);
+      yield* emit({ kind: 'string', value });
+      index = end;
+    } else if (char === '<' && source[index + 1] === '<') {
+      const dict = readDict(source, index);
+      index += dict.length;
+    } else if (char === '<') {
+      const end = source.indexOf('>', index);
+      const stop = end === -1 ? source.length : end;
+      yield* emit({ kind: 'string', value: hexToBytes(source.slice(index + 1, stop)) });
+      index = stop + 1;
+    } else if (char === '[') {
+      stack.push([]);
+      index++;
+    } else if (char === ']') {
+      const items = stack.pop() ?? [];
+      yield* emit({ kind: 'array', value: items });
+      index++;
+    } else if (char === '/') {
+      const match = /^\/[^\s/<>[\]()%{}]*/.exec(source.slice(index, index + 128))![0];
+      yield* emit({ kind: 'name', value: match.slice(1) });
+      index += match.length;
+    } else if (/[-+.\d]/.test(char)) {
+      const match = /^[-+]?(\d+\.?\d*|\.\d+)/.exec(source.slice(index, index + 32));
+      if (!match) {
+        index++;
+        continue;
+      }
+      yield* emit({ kind: 'number', value: Number(match[0]) });
+      index += match[0].length;
+    } else {
+      const match = /^[^\s/<>[\]()%{}]+/.exec(source.slice(index, index + 32));
+      const word = match ? match[0] : char;
+      index += word.length;
+      // Inline image data is binary; skip to its end marker.
+      if (word === 'ID') {
+        const end = source.slice(index).search(/\sEI(\s|$)/);
+        index = end === -1 ? source.length : index + end + 3;
+        continue;
+      }
+      yield* emit({ kind: 'operator', value: word });
+    }
+  }
+};
+
+const decodeText = (bytes: string, cmap: CMap | null) => {
+  if (cmap) {
+    let text = '';
+    for (let index = 0; index + cmap.codeLength <= bytes.length; index += cmap.codeLength) {
+      let code = 0;
+      for (let offset = 0; offset < cmap.codeLength; offset++) code = (code << 8) | bytes.charCodeAt(index + offset);
+      text += cmap.map.get(code) ?? '';
+    }
+    return text;
+  }
+  if (bytes.startsWith('\u00fe\u00ff')) return decodeUtf16(bytes.slice(2));
+  return bytes;
+};
+
+const extractContentText = (source: string, fonts: Map<string, CMap | null>) => {
+  let text = '';
+  let operands: Token[] = [];
+  let font: CMap | null = null;
+  let lineY: number | null = null;
+  const newLine = () => {
+    if (text && !text.endsWith('\n')) text += '\n';
+  };
+  const space = () => {
+    if (text && !/\s$/.test(text)) text += ' ';
+  };
+  const show = (token: Token | undefined) => {
+    if (token?.kind === 'string') text += decodeText(token.value, font);
+  };
+
+  for (const token of tokenize(source)) {
+    if (token.kind !== 'operator') {
+      operands.push(token);
+      continue;
+    }
+    const last = operands[operands.length - 1];
+    switch (token.value) {
+      case 'Tf': {
+        const name = operands[operands.length - 2];
+        font = name?.kind === 'name' ? fonts.get(name.value) ?? null : null;
+        break;
+      }
+      case 'Tj':
+        show(last);
+        break;
+      case "'":
+      case '"':
+        newLine();
+        show(last);
+        break;
+      case 'TJ':
+        if (last?.kind === 'array') {
+          for (const item of last.value) {
+            if (item.kind === 'number' && item.value < -TJ_SPACE_THRESHOLD) space();
+            else show(item);
+          }
+        }
+        break;
+      case 'Td':
+      case 'TD': {
+        const y = operands[operands.length - 1];
+        if (y?.kind === 'number' && y.value !== 0) newLine();
+        else space();
+        break;
+      }
+      case 'T*':
+        newLine();
+        break;
+      case 'Tm': {
+        const y = operands[operands.length - 1];
+        const nextY = y?.kind === 'number' ? y.value : null;
+        if (lineY !== null && nextY !== lineY) newLine();
+        else space();
+        lineY = nextY;
+        break;
+      }
+      case 'ET':
+        space();
+        break;
+      default:
+        break;
+    }
+    operands = [];
+  }
+  return text;
+};
+
+// Pages in reading order, each with the fonts its resources name (inherited from parent nodes).
+const collectPages = (objects: Map<number, PdfObject>, decodeStream: StreamDecoder) => {
+  const resourcesOf = (dict: string) => {
+    const ref = refAfter(dict, 'Resources');
+    if (ref !== null) return objects.get(ref)?.dict ?? null;
+    const at = dict.search(/\/Resources\s*<</);
+    return at === -1 ? null : readDict(dict, dict.indexOf('<<', at));
+  };
+  const fontsOf = (resources: string | null) => {
+    const fonts = new Map<string, CMap | null>();
+    if (!resources) return fonts;
+    const ref = refAfter(resources, 'Font');
+    const at = resources.search(/\/Font\s*<</);
+    const fontDict = ref !== null ? objects.get(ref)?.dict ?? '' : at === -1 ? '' : readDict(resources, resources.indexOf('<<', at));
+    for (const entry of fontDict.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+      const font = objects.get(Number(entry[2]))?.dict ?? '';
+      const toUnicode = refAfter(font, 'ToUnicode');
+      const cmapObject = toUnicode !== null ? objects.get(toUnicode) : undefined;
+      const source = toUnicode !== null && cmapObject ? decodeStream(toUnicode, cmapObject) : null;
+      // Two-byte glyph IDs without a ToUnicode map cannot be read; they are dropped rather than shown as noise.
+      const unmapped = /\/Identity-[HV]\b/.test(font) ? { codeLength: 2, map: new Map<number, string>() } : null;
+      fonts.set(entry[1], source ? parseCMap(source) : unmapped);
+    }
+    return fonts;
+  };
+  const contentsOf = (dict: string) => {
+    const inline = /\/Contents\s*\[([^\]]*)\]/.exec(dict);
+    if (inline) return refsIn(inline[1]);
+    const ref = refAfter(dict, 'Contents');
+    if (ref === null) return [];
+    const target = objects.get(ref);
+    if (target && target.stream === undefined && target.dict.trim().startsWith('[')) return refsIn(target.dict);
+    return [ref];
+  };
+
+  const pages: { contents: number[]; fonts: Map<string, CMap | null> }[] = [];
+  const visited = new Set<number>();
+  const walk = (id: number, inherited: string | null) => {
+    const object = objects.get(id);
+    if (!object || visited.has(id)) return;
+    visited.add(id);
+    const resources = resourcesOf(object.dict) ?? inherited;
+    if (/\/Type\s*\/Pages\b/.test(object.dict)) {
+      const kids = /\/Kids\s*\[([^\]]*)\]/.exec(object.dict);
+      if (kids) refsIn(kids[1]).forEach((kid) => walk(kid, resources));
+    } else if (/\/Type\s*\/Page\b/.test(object.dict)) {
+      pages.push({ contents: contentsOf(object.dict), fonts: fontsOf(resources) });
+    }
+  };
+
+  const catalog = Array.from(objects.values()).find((object) => /\/Type\s*\/Catalog\b/.test(object.dict));
+  const root = catalog ? refAfter(catalog.dict, 'Pages') : null;
+  if (root !== null) walk(root, null);
+  return pages;
+};
+
+const tidy = (text: string) =>
+  text
+    .replace(/[\u0000-\u0008\u000b\u000e-\u001f]/g, '')
+    .split('\n')
+    .map((line) => line.replace(/[ \t\f\r]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+export function extractPdfText(bytes: Uint8Array, options: PdfTextOptions = {}): string {
+  const maxTextChars = options.maxTextChars ?? Infinity;
+  const source = toLatin1(bytes);
+  if (!source.startsWith('%PDF-') || /\/Encrypt\s+\d+\s+\d+\s+R/.test(source)) return '';
+  const decodeStream = createStreamDecoder(options.maxDecodedBytes ?? MAX_DECODED_BYTES);
+  const objects = parseObjects(source, decodeStream);
+  const pages = collectPages(objects, decodeStream);
+  const text: string[] = [];
+  let length = 0;
+  for (const page of pages) {
+    if (length >= maxTextChars) break;
+    const pageText = page.contents
+      .map((id) => {
+        const object = objects.get(id);
+        const content = object ? decodeStream(id, object) : null;
+        return content ? extractContentText(content, page.fonts) : '';
+      })
+      .join('\n');
+    text.push(pageText);
+    length += pageText.length;
+  }
+  return tidy(text.join('\n\n'));
+}